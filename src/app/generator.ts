@@ -37,11 +37,14 @@ export class AppGenerator {
 
     // Generate files based on features
     await this.generatePackageJson(appPath, config);
-    await this.generateDatabaseSchema(appPath);
+    await this.generateDatabaseSchema(appPath, config);
     await this.generateApiEndpoints(appPath, config);
     await this.generateDashboard(appPath, config);
     await this.generateComponents(appPath, config);
-    await this.generateStyles(appPath);
+    if (config.features?.approvals) {
+      await this.generateApprovals(appPath);
+    }
+    await this.generateStyles(appPath, config);
     await this.generateEnvFile(appPath);
 
     // Initialize git ignore
@@ -52,8 +55,11 @@ export class AppGenerator {
     const dirs = [
       'app',
       'app/api',
-      'app/api/webhook',
-      'app/api/workflow',
+      'app/api/webhook/receive',
+      'app/api/workflow/store',
+      'app/api/workflow/retrieve',
+      'app/api/items',
+      'app/api/timings',
       'app/dashboard',
       'app/items',
       'components',
@@ -106,7 +112,113 @@ export class AppGenerator {
     );
   }
 
-  private async generateDatabaseSchema(appPath: string): Promise<void> {
+  private async generateDatabaseSchema(appPath: string, config: AppConfig): Promise<void> {
+    const approvals = !!config.features?.approvals;
+
+    // Items waiting in an n8n Wait node, with the URL that resumes their execution
+    const approvalsSchema = `
+      CREATE TABLE IF NOT EXISTS approvals (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        execution_id TEXT,
+        workflow_id TEXT,
+        workflow_name TEXT,
+        item_id TEXT,
+        step_name TEXT,
+        resume_url TEXT,
+        item_count INTEGER,
+        data JSON,
+        status TEXT DEFAULT 'pending',
+        comment TEXT,
+        reviewer TEXT,
+        requested_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at TEXT,
+        decided_at DATETIME,
+        UNIQUE(execution_id, step_name)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_approvals_status ON approvals(status);
+`;
+
+    const approvalsFunctions = `
+export async function requestApproval(approval: {
+  executionId: string;
+  workflowId?: string;
+  workflowName?: string;
+  itemId?: string;
+  stepName: string;
+  resumeUrl: string;
+  itemCount?: number;
+  data?: any;
+  expiresAt?: string;
+}) {
+  const db = await getDb();
+  await db.run(
+    \`INSERT OR REPLACE INTO approvals
+       (execution_id, workflow_id, workflow_name, item_id, step_name, resume_url, item_count, data, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)\`,
+    [
+      approval.executionId,
+      approval.workflowId,
+      approval.workflowName,
+      approval.itemId,
+      approval.stepName,
+      approval.resumeUrl,
+      approval.itemCount ?? null,
+      typeof approval.data === 'string' ? approval.data : JSON.stringify(approval.data ?? null),
+      approval.expiresAt || null
+    ]
+  );
+}
+
+// n8n stops waiting once the step's timeout passes, so those approvals can no longer resume anything
+async function expireApprovals() {
+  const db = await getDb();
+  await db.run(
+    "UPDATE approvals SET status = 'expired' WHERE status = 'pending' AND expires_at IS NOT NULL AND expires_at <= ?",
+    new Date().toISOString()
+  );
+}
+
+export async function getApprovals(status?: string) {
+  await expireApprovals();
+  const db = await getDb();
+  if (status) {
+    return await db.all('SELECT * FROM approvals WHERE status = ? ORDER BY requested_at DESC', status);
+  }
+  return await db.all('SELECT * FROM approvals ORDER BY requested_at DESC');
+}
+
+export async function getApproval(id: number) {
+  await expireApprovals();
+  const db = await getDb();
+  return await db.get('SELECT * FROM approvals WHERE id = ?', id);
+}
+
+// Claimed while the execution is being resumed, so two reviewers can't both decide
+export async function claimApproval(id: number) {
+  const db = await getDb();
+  const result = await db.run(
+    "UPDATE approvals SET status = 'resuming' WHERE id = ? AND status = 'pending'",
+    id
+  );
+  return result.changes === 1;
+}
+
+export async function releaseApproval(id: number) {
+  const db = await getDb();
+  await db.run("UPDATE approvals SET status = 'pending' WHERE id = ? AND status = 'resuming'", id);
+}
+
+export async function completeApproval(id: number, decision: string, comment?: string, reviewer?: string) {
+  const db = await getDb();
+  await db.run(
+    \`UPDATE approvals SET status = ?, comment = ?, reviewer = ?, decided_at = CURRENT_TIMESTAMP
+     WHERE id = ?\`,
+    [decision, comment || null, reviewer || null, id]
+  );
+}
+`;
+
     const dbSetup = `import { Database } from 'sqlite';
 import sqlite3 from 'sqlite3';
 import { open } from 'sqlite';
@@ -165,6 +277,18 @@ export async function getDb() {
         UNIQUE(item_id, checkpoint_name)
       );
 
+      CREATE TABLE IF NOT EXISTS node_timings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        execution_id TEXT,
+        workflow_id TEXT,
+        workflow_name TEXT,
+        node_id TEXT,
+        started_at DATETIME,
+        ended_at DATETIME,
+        duration_ms INTEGER,
+        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
       CREATE TABLE IF NOT EXISTS workflow_errors (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
         execution_id TEXT,
@@ -178,7 +302,8 @@ export async function getDb() {
       CREATE INDEX IF NOT EXISTS idx_items_stage ON workflow_items(stage);
       CREATE INDEX IF NOT EXISTS idx_executions_item ON workflow_executions(item_id);
       CREATE INDEX IF NOT EXISTS idx_checkpoints_item ON workflow_checkpoints(item_id);
-    \`);
+      CREATE INDEX IF NOT EXISTS idx_timings_node ON node_timings(workflow_name, node_id);
+${approvals ? approvalsSchema : ''}    \`);
   }
 
   return db;
@@ -237,7 +362,38 @@ export async function getCheckpoint(itemId: string, checkpointName: string) {
     [itemId, checkpointName]
   );
 }
-`;
+
+function percentile(sorted: number[], p: number) {
+  return sorted[Math.min(sorted.length, Math.max(1, Math.ceil((p / 100) * sorted.length))) - 1];
+}
+
+export async function getNodeTimingStats() {
+  const db = await getDb();
+  const rows = await db.all(
+    'SELECT workflow_name, node_id, duration_ms FROM node_timings WHERE duration_ms >= 0 ORDER BY duration_ms'
+  );
+
+  const groups = new Map<string, { workflow: string; node: string; durations: number[] }>();
+  for (const row of rows) {
+    const key = row.workflow_name + '\\u0000' + row.node_id;
+    const group = groups.get(key) || { workflow: row.workflow_name, node: row.node_id, durations: [] };
+    group.durations.push(row.duration_ms);
+    groups.set(key, group);
+  }
+
+  // Slowest by p95 first
+  return [...groups.values()]
+    .map(({ workflow, node, durations }) => ({
+      workflow,
+      node,
+      count: durations.length,
+      p50: percentile(durations, 50),
+      p95: percentile(durations, 95),
+      max: durations[durations.length - 1]
+    }))
+    .sort((a, b) => b.p95 - a.p95);
+}
+${approvals ? approvalsFunctions : ''}`;
 
     await fs.writeFile(path.join(appPath, 'lib', 'db.ts'), dbSetup);
   }
@@ -277,12 +433,18 @@ export async function POST(req: NextRequest) {
 
     // Workflow storage endpoint
     const workflowStorage = `import { NextRequest, NextResponse } from 'next/server';
-import { getDb, saveCheckpoint } from '@/lib/db';
+import { getDb, saveCheckpoint${config.features?.approvals ? ', requestApproval' : ''} } from '@/lib/db';
 
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
     const { action, executionId, itemId, ...data } = body;
+
+    // Executions left out by the tracking sampling policy are not recorded
+    if (data.sampled === false || data.sampled === 'false') {
+      return NextResponse.json({ success: true, sampled: false });
+    }
+
     const db = await getDb();
 
     switch (action) {
@@ -314,6 +476,28 @@ export async function POST(req: NextRequest) {
         await saveCheckpoint(itemId, data.checkpointName, data.checkpointData, data.nodeId);
         return NextResponse.json({ success: true });
 
+      case 'node_timing':
+        await db.run(
+          \`INSERT INTO node_timings (execution_id, workflow_id, workflow_name, node_id, started_at, ended_at, duration_ms)
+           VALUES (?, ?, ?, ?, ?, ?, ?)\`,
+          [executionId, data.workflowId, data.workflowName, data.nodeId, data.startedAt, data.endedAt, Number(data.durationMs)]
+        );
+        return NextResponse.json({ success: true });
+${config.features?.approvals ? `
+      case 'request_approval':
+        await requestApproval({
+          executionId,
+          itemId,
+          workflowId: data.workflowId,
+          workflowName: data.workflowName,
+          stepName: data.stepName,
+          resumeUrl: data.resumeUrl,
+          itemCount: data.itemCount === undefined ? undefined : Number(data.itemCount),
+          data: data.data,
+          expiresAt: data.expiresAt
+        });
+        return NextResponse.json({ success: true });
+` : ''}
       case 'track_error':
         await db.run(
           \`INSERT INTO workflow_errors (execution_id, error_message, error_details, node_id)
@@ -391,6 +575,7 @@ import { useState, useEffect } from 'react';
 import StatsCard from '@/components/StatsCard';
 import ItemsTable from '@/components/ItemsTable';
 import PipelineView from '@/components/PipelineView';
+import NodeTimings from '@/components/NodeTimings';
 
 export default function Dashboard() {
   const [items, setItems] = useState([]);
@@ -475,6 +660,8 @@ export default function Dashboard() {
       ) : (
         <PipelineView items={items} stages={${JSON.stringify(config.stages || ['created', 'processing', 'review', 'completed'])}} />
       )}
+
+      <NodeTimings />
     </div>
   );
 }
@@ -503,6 +690,25 @@ export async function GET() {
       path.join(appPath, 'app', 'api', 'items', 'route.ts'),
       itemsApi
     );
+
+    // Node timings API endpoint
+    const timingsApi = `import { NextResponse } from 'next/server';
+import { getNodeTimingStats } from '@/lib/db';
+
+export async function GET() {
+  try {
+    const timings = await getNodeTimingStats();
+    return NextResponse.json({ timings });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+`;
+
+    await fs.writeFile(
+      path.join(appPath, 'app', 'api', 'timings', 'route.ts'),
+      timingsApi
+    );
   }
 
   private async generateComponents(appPath: string, config: AppConfig): Promise<void> {
@@ -680,9 +886,363 @@ export default function PipelineView({ items, stages }: PipelineViewProps) {
 `;
 
     await fs.writeFile(path.join(appPath, 'components', 'PipelineView.tsx'), pipelineView);
+
+    // Node Timings Component
+    const nodeTimings = `'use client';
+
+import { useState, useEffect } from 'react';
+
+interface NodeTiming {
+  workflow: string;
+  node: string;
+  count: number;
+  p50: number;
+  p95: number;
+  max: number;
+}
+
+const formatMs = (ms: number) => ms < 1000 ? \`\${Math.round(ms)}ms\` : \`\${(ms / 1000).toFixed(1)}s\`;
+
+export default function NodeTimings() {
+  const [timings, setTimings] = useState<NodeTiming[]>([]);
+
+  useEffect(() => {
+    const fetchTimings = async () => {
+      try {
+        const response = await fetch('/api/timings');
+        const data = await response.json();
+        setTimings(data.timings || []);
+      } catch (error) {
+        console.error('Failed to fetch node timings:', error);
+      }
+    };
+    fetchTimings();
+    const interval = setInterval(fetchTimings, 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (timings.length === 0) {
+    return null;
   }
 
-  private async generateStyles(appPath: string): Promise<void> {
+  const workflows = [...new Set(timings.map(t => t.workflow))];
+
+  return (
+    <div className="mt-8">
+      <h2 className="text-xl font-bold mb-4">Node Timings</h2>
+
+      <div className="bg-white rounded-lg shadow p-4 mb-6">
+        <h3 className="font-semibold mb-2">Slowest Nodes</h3>
+        <ol className="list-decimal list-inside space-y-1 text-sm">
+          {timings.slice(0, 5).map(t => (
+            <li key={t.workflow + t.node}>
+              <span className="font-medium">{t.node}</span>
+              <span className="text-gray-500"> in {t.workflow}: p95 {formatMs(t.p95)}, max {formatMs(t.max)}</span>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      {workflows.map(workflow => (
+        <div key={workflow} className="bg-white rounded-lg shadow mb-4 overflow-x-auto">
+          <div className="p-4 border-b bg-gray-50">
+            <h3 className="font-semibold">{workflow}</h3>
+          </div>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="px-4 py-2">Node</th>
+                <th className="px-4 py-2">Runs</th>
+                <th className="px-4 py-2">p50</th>
+                <th className="px-4 py-2">p95</th>
+                <th className="px-4 py-2">Max</th>
+              </tr>
+            </thead>
+            <tbody>
+              {timings.filter(t => t.workflow === workflow).map(t => (
+                <tr key={t.node} className="border-t">
+                  <td className="px-4 py-2 font-medium">{t.node}</td>
+                  <td className="px-4 py-2">{t.count}</td>
+                  <td className="px-4 py-2">{formatMs(t.p50)}</td>
+                  <td className="px-4 py-2">{formatMs(t.p95)}</td>
+                  <td className="px-4 py-2">{formatMs(t.max)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+}
+`;
+
+    await fs.writeFile(path.join(appPath, 'components', 'NodeTimings.tsx'), nodeTimings);
+  }
+
+  /**
+   * Review queue for items paused by add_approval_step: a decision resumes the
+   * n8n execution waiting on it through its resume URL
+   */
+  private async generateApprovals(appPath: string): Promise<void> {
+    await fs.mkdir(path.join(appPath, 'app', 'api', 'approvals', '[id]'), { recursive: true });
+    await fs.mkdir(path.join(appPath, 'app', 'approvals'), { recursive: true });
+
+    // Approvals list endpoint
+    const approvalsApi = `import { NextRequest, NextResponse } from 'next/server';
+import { getApprovals } from '@/lib/db';
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const approvals = await getApprovals(searchParams.get('status') || undefined);
+    return NextResponse.json({ approvals });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+`;
+
+    await fs.writeFile(
+      path.join(appPath, 'app', 'api', 'approvals', 'route.ts'),
+      approvalsApi
+    );
+
+    // Decision endpoint
+    const decisionApi = `import { NextRequest, NextResponse } from 'next/server';
+import { getApproval, claimApproval, releaseApproval, completeApproval } from '@/lib/db';
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { decision, comment, reviewer } = await req.json();
+    if (decision !== 'approved' && decision !== 'rejected') {
+      return NextResponse.json({ error: 'decision must be "approved" or "rejected"' }, { status: 400 });
+    }
+
+    const approval = await getApproval(Number(params.id));
+    if (!approval) {
+      return NextResponse.json({ error: 'Approval not found' }, { status: 404 });
+    }
+    if (!(await claimApproval(approval.id))) {
+      return NextResponse.json({ error: \`Approval is already \${approval.status}\` }, { status: 409 });
+    }
+
+    // Resume the execution waiting in the Wait node; its next node gets this body
+    let response: Response;
+    try {
+      response = await fetch(approval.resume_url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, comment: comment || '', reviewer: reviewer || '', approvalId: approval.id })
+      });
+    } catch (error: any) {
+      await releaseApproval(approval.id);
+      return NextResponse.json({ error: \`Could not reach n8n: \${error.message}\` }, { status: 502 });
+    }
+
+    if (!response.ok) {
+      await releaseApproval(approval.id);
+      return NextResponse.json(
+        { error: \`n8n did not resume the execution (\${response.status}): \${await response.text()}\` },
+        { status: 502 }
+      );
+    }
+
+    await completeApproval(approval.id, decision, comment, reviewer);
+    return NextResponse.json({ success: true, id: approval.id, decision });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+`;
+
+    await fs.writeFile(
+      path.join(appPath, 'app', 'api', 'approvals', '[id]', 'route.ts'),
+      decisionApi
+    );
+
+    // Review queue page
+    const approvalsPage = `'use client';
+
+import { useEffect, useState } from 'react';
+
+interface Approval {
+  id: number;
+  execution_id: string;
+  workflow_name: string;
+  item_id: string;
+  step_name: string;
+  item_count: number | null;
+  data: string;
+  status: string;
+  comment: string | null;
+  reviewer: string | null;
+  requested_at: string;
+  expires_at: string | null;
+  decided_at: string | null;
+}
+
+function formatData(data: string) {
+  try {
+    return JSON.stringify(JSON.parse(data), null, 2);
+  } catch {
+    return data;
+  }
+}
+
+export default function ApprovalsPage() {
+  const [approvals, setApprovals] = useState<Approval[]>([]);
+  const [comments, setComments] = useState<Record<number, string>>({});
+  const [reviewer, setReviewer] = useState('');
+  const [busy, setBusy] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReviewer(localStorage.getItem('reviewer') || '');
+    fetchApprovals();
+  }, []);
+
+  const fetchApprovals = async () => {
+    const response = await fetch('/api/approvals');
+    const data = await response.json();
+    setApprovals(data.approvals || []);
+  };
+
+  const decide = async (id: number, decision: 'approved' | 'rejected') => {
+    setBusy(id);
+    setError(null);
+    try {
+      const response = await fetch(\`/api/approvals/\${id}\`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, comment: comments[id] || '', reviewer })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error);
+      }
+      await fetchApprovals();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const pending = approvals.filter(a => a.status === 'pending');
+  const decided = approvals.filter(a => ['approved', 'rejected', 'expired'].includes(a.status));
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold">Approvals</h1>
+        <input
+          value={reviewer}
+          onChange={(e) => {
+            setReviewer(e.target.value);
+            localStorage.setItem('reviewer', e.target.value);
+          }}
+          placeholder="Your name"
+          className="border rounded px-3 py-1"
+        />
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 text-red-800 rounded">{error}</div>
+      )}
+
+      <h2 className="text-xl font-semibold mb-4">Waiting for review ({pending.length})</h2>
+      {pending.length === 0 && (
+        <p className="text-gray-500 mb-8">Nothing to review.</p>
+      )}
+      <div className="space-y-4 mb-8">
+        {pending.map(approval => (
+          <div key={approval.id} className="bg-white rounded-lg shadow p-4">
+            <div className="flex justify-between mb-2">
+              <div>
+                <span className="font-medium">{approval.step_name}</span>
+                <span className="text-gray-500">
+                  {' '}· {approval.workflow_name} · {approval.item_count === null ? \`item \${approval.item_id}\` : \`\${approval.item_count} item(s), reviewed together\`}
+                </span>
+              </div>
+              <span className="text-sm text-gray-500">
+                {new Date(approval.requested_at).toLocaleString()}
+                {approval.expires_at && \` · expires \${new Date(approval.expires_at).toLocaleString()}\`}
+              </span>
+            </div>
+            <pre className="bg-gray-50 rounded p-2 text-xs overflow-x-auto max-h-64 mb-3">
+              {formatData(approval.data)}
+            </pre>
+            <textarea
+              value={comments[approval.id] || ''}
+              onChange={(e) => setComments({ ...comments, [approval.id]: e.target.value })}
+              placeholder="Comment (optional)"
+              className="w-full border rounded p-2 mb-3"
+              rows={2}
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={() => decide(approval.id, 'approved')}
+                disabled={busy !== null}
+                className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 disabled:opacity-50"
+              >
+                Approve
+              </button>
+              <button
+                onClick={() => decide(approval.id, 'rejected')}
+                disabled={busy !== null}
+                className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 disabled:opacity-50"
+              >
+                Reject
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <h2 className="text-xl font-semibold mb-4">History</h2>
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Step</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Decision</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Reviewer</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Comment</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Decided</th>
+            </tr>
+          </thead>
+          <tbody>
+            {decided.map(approval => (
+              <tr key={approval.id} className="border-t">
+                <td className="px-4 py-2">{approval.step_name}</td>
+                <td className="px-4 py-2">{approval.item_id}</td>
+                <td className="px-4 py-2">
+                  <span className={\`px-2 py-1 rounded text-xs font-medium \${
+                    approval.status === 'approved' ? 'bg-green-100 text-green-800'
+                      : approval.status === 'expired' ? 'bg-gray-100 text-gray-800' : 'bg-red-100 text-red-800'
+                  }\`}>
+                    {approval.status}
+                  </span>
+                </td>
+                <td className="px-4 py-2">{approval.reviewer || '-'}</td>
+                <td className="px-4 py-2">{approval.comment || '-'}</td>
+                <td className="px-4 py-2 text-sm text-gray-500">
+                  {approval.decided_at && new Date(approval.decided_at).toLocaleString()}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+`;
+
+    await fs.writeFile(path.join(appPath, 'app', 'approvals', 'page.tsx'), approvalsPage);
+  }
+
+  private async generateStyles(appPath: string, config: AppConfig): Promise<void> {
     // Main layout
     const layout = `import './globals.css';
 import Link from 'next/link';
@@ -719,7 +1279,13 @@ export default function RootLayout({
                 className="block px-4 py-2 hover:bg-gray-700"
               >
                 Executions
-              </Link>
+              </Link>${config.features?.approvals ? `
+              <Link
+                href="/approvals"
+                className="block px-4 py-2 hover:bg-gray-700"
+              >
+                Approvals
+              </Link>` : ''}
               <Link
                 href="/settings"
                 className="block px-4 py-2 hover:bg-gray-700"
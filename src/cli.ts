@@ -1,10 +1,41 @@
 #!/usr/bin/env node
 import { Command } from 'commander';
 import { WorkflowDeployer } from './n8n/deploy.js';
+import { N8nManager } from './n8n/manager.js';
+import { WorkflowSimulator } from './simulator/simulator.js';
+import { formatSimulation } from './simulator/engine.js';
+import { CodeTestRunner, formatCodeTestReport } from './simulator/code-tests.js';
+import { analyzeChangeImpact, analyzeProject } from './workflows/graph.js';
+import { WorkflowFormatter } from './workflows/formatter.js';
+import { layoutWorkflow } from './workflows/operations.js';
+import { TrackingStore } from './tracking/store.js';
+import { TrackingReceiver } from './tracking/receiver.js';
+import { queryTracking } from './tracking/query.js';
+import { exportTraces } from './tracking/otlp.js';
 import path from 'path';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
 
 const program = new Command();
 
+/**
+ * Use <path>/workflows when it exists, otherwise treat the path as the workflows directory
+ */
+function resolveWorkflowsDir(projectPath: string): string {
+  const nested = path.join(projectPath, 'workflows');
+  return existsSync(path.join(nested, 'flows')) ? nested : projectPath;
+}
+
+/**
+ * Print the text of an MCP-style tool result
+ */
+function printResult(result: any): void {
+  for (const item of result?.content || []) {
+    if (item.type === 'text') {
+      console.log(item.text);
+    }
+  }
+}
+
 program
   .name('mcflow')
   .description('McFlow - MCP Server for n8n Workflow Management')
@@ -57,9 +88,11 @@ program
   .option('-w, --workflow <file>', 'Specific workflow file to deploy')
   .option('-p, --path <path>', 'Path to workflows directory', process.cwd())
   .option('--skip-compilation', 'Skip compilation step (NOT RECOMMENDED - for debugging only)')
+  .option('-e, --env <name>', 'Target environment from .mcflow/config.json')
   .action(async (options: any) => {
     try {
-      const deployer = new WorkflowDeployer({ workflowsPath: options.path });
+      const workflowsDir = resolveWorkflowsDir(options.path);
+      const deployer = new WorkflowDeployer({ workflowsPath: workflowsDir, environment: options.env });
       
       if (options.skipCompilation) {
         console.warn('⚠️  WARNING: Skipping compilation - deployed workflows may not include latest code/prompt changes!');
@@ -68,10 +101,10 @@ program
       if (options.workflow) {
         const workflowPath = path.isAbsolute(options.workflow) 
           ? options.workflow 
-          : path.join(options.path, 'workflows', 'flows', options.workflow);
+          : path.join(workflowsDir, 'flows', options.workflow);
         await deployer.deployWorkflow(workflowPath, options.skipCompilation || false);
       } else {
-        await deployer.deployProject(options.path, options.skipCompilation || false);
+        await deployer.deployProject(options.skipCompilation || false);
       }
     } catch (error) {
       console.error('Deployment failed:', error);
@@ -79,4 +112,280 @@ program
     }
   });
 
+// Plan command
+program
+  .command('plan')
+  .description('Show what deploy would change in n8n without deploying anything')
+  .option('-w, --workflow <file>', 'Specific workflow file to plan')
+  .option('-p, --path <path>', 'Path to workflows directory', process.cwd())
+  .option('-a, --all', 'Plan all workflows, not just changed ones')
+  .option('--activate', 'Plan to activate workflows after deployment')
+  .option('-e, --env <name>', 'Target environment from .mcflow/config.json')
+  .action(async (options: any) => {
+    try {
+      const manager = new N8nManager(resolveWorkflowsDir(options.path));
+      printResult(await manager.planDeployment({
+        path: options.workflow ? path.join('flows', options.workflow) : undefined,
+        all: options.all,
+        activate: options.activate,
+        environment: options.env,
+      }));
+    } catch (error) {
+      console.error('Plan failed:', error);
+      process.exit(1);
+    }
+  });
+
+// Apply command
+program
+  .command('apply')
+  .description('Deploy the plan saved by "mcflow plan"')
+  .option('-p, --path <path>', 'Path to workflows directory', process.cwd())
+  .option('-e, --env <name>', 'Expected environment of the saved plan')
+  .action(async (options: any) => {
+    try {
+      const manager = new N8nManager(resolveWorkflowsDir(options.path));
+      printResult(await manager.applyPlan({ environment: options.env }));
+    } catch (error) {
+      console.error('Apply failed:', error);
+      process.exit(1);
+    }
+  });
+
+// History command
+program
+  .command('history')
+  .description('List archived deployments that can be rolled back to')
+  .option('-w, --workflow <file>', 'Only show history of this workflow file')
+  .option('-p, --path <path>', 'Path to workflows directory', process.cwd())
+  .option('-e, --env <name>', 'Only show deployments to this environment')
+  .option('-n, --limit <count>', 'Maximum number of revisions to show', '20')
+  .action(async (options: any) => {
+    try {
+      const manager = new N8nManager(resolveWorkflowsDir(options.path));
+      printResult(await manager.listDeploymentHistory({
+        path: options.workflow ? path.join('flows', options.workflow) : undefined,
+        environment: options.env,
+        limit: parseInt(options.limit, 10),
+      }));
+    } catch (error) {
+      console.error('History failed:', error);
+      process.exit(1);
+    }
+  });
+
+// Rollback command
+program
+  .command('rollback')
+  .description('Redeploy a previous revision of a workflow')
+  .requiredOption('-w, --workflow <file>', 'Workflow file to roll back')
+  .option('-r, --revision <revision>', 'Revision from "mcflow history" (default: newest revision that differs from the live one)')
+  .option('-p, --path <path>', 'Path to workflows directory', process.cwd())
+  .option('-e, --env <name>', 'Target environment from .mcflow/config.json')
+  .action(async (options: any) => {
+    try {
+      const manager = new N8nManager(resolveWorkflowsDir(options.path));
+      printResult(await manager.rollbackWorkflow({
+        path: path.join('flows', options.workflow),
+        revision: options.revision,
+        environment: options.env,
+      }));
+    } catch (error) {
+      console.error('Rollback failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('pull')
+  .description('Pull edits made in the n8n editor back into node files')
+  .requiredOption('-w, --workflow <file>', 'Workflow file to pull')
+  .option('-p, --path <path>', 'Path to workflows directory', process.cwd())
+  .option('-e, --env <name>', 'Environment to pull from')
+  .option('--dry-run', 'Show what would change without writing files')
+  .option('-f, --force', 'Take the n8n version when both sides changed')
+  .action(async (options: any) => {
+    try {
+      const manager = new N8nManager(resolveWorkflowsDir(options.path));
+      printResult(await manager.pullWorkflow({
+        path: path.join('flows', options.workflow),
+        environment: options.env,
+        dryRun: options.dryRun,
+        force: options.force,
+      }));
+    } catch (error) {
+      console.error('Pull failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('simulate')
+  .description('Run a workflow locally with fixture data and print each node\'s items')
+  .requiredOption('-w, --workflow <file>', 'Workflow file to simulate')
+  .option('-p, --path <path>', 'Path to workflows directory', process.cwd())
+  .option('-f, --fixture <file>', 'Fixture file (default: flows/__fixtures__/<workflow>.json)')
+  .option('-t, --trigger <node>', 'Node to start from')
+  .action(async (options: any) => {
+    try {
+      const simulator = new WorkflowSimulator(resolveWorkflowsDir(options.path));
+      const result = await simulator.run({
+        path: path.join('flows', options.workflow),
+        fixturePath: options.fixture ? path.resolve(options.fixture) : undefined,
+        trigger: options.trigger,
+      });
+      console.log(formatSimulation(result));
+      if (!result.success) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error('Simulation failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('test [name]')
+  .description('Run Code node files against fixtures in nodes/code/__fixtures__')
+  .option('-p, --path <path>', 'Path to workflows directory', process.cwd())
+  .action(async (name: string | undefined, options: any) => {
+    try {
+      const runner = new CodeTestRunner(resolveWorkflowsDir(options.path));
+      const report = await runner.runTests(name);
+      console.log(formatCodeTestReport(report));
+      if (report.failed > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error('Code tests failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('impact [target]')
+  .description('Show which workflows a file, workflow or credential affects and the order to deploy them (omit target for the whole project graph)')
+  .option('-p, --path <path>', 'Path to workflows directory', process.cwd())
+  .action(async (target: string | undefined, options: any) => {
+    try {
+      const workflowsDir = resolveWorkflowsDir(options.path);
+      printResult(target ? await analyzeChangeImpact(workflowsDir, target) : await analyzeProject(workflowsDir));
+    } catch (error) {
+      console.error('Impact analysis failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('render')
+  .description('Render a workflow as text, a Mermaid flowchart, a DOT graph or an SVG')
+  .requiredOption('-w, --workflow <file>', 'Workflow file to render')
+  .option('-p, --path <path>', 'Path to workflows directory', process.cwd())
+  .option('-f, --format <format>', 'text, mermaid, dot or svg', 'text')
+  .option('-o, --output <file>', 'Write to a file instead of stdout')
+  .action((options: any) => {
+    try {
+      const workflowPath = path.join(resolveWorkflowsDir(options.path), 'flows', options.workflow);
+      const workflow = JSON.parse(readFileSync(workflowPath, 'utf-8'));
+      const rendered = new WorkflowFormatter().render(workflow, options.format);
+      if (options.output) {
+        writeFileSync(options.output, rendered + '\n');
+        console.log(`✅ Wrote ${options.output}`);
+      } else {
+        console.log(rendered);
+      }
+    } catch (error) {
+      console.error('Render failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('layout')
+  .description('Re-lay out a workflow canvas with a layered left-to-right layout')
+  .requiredOption('-w, --workflow <file>', 'Workflow file to lay out')
+  .option('-p, --path <path>', 'Path to workflows directory', process.cwd())
+  .action(async (options: any) => {
+    try {
+      printResult(await layoutWorkflow(resolveWorkflowsDir(options.path), path.join('flows', options.workflow)));
+    } catch (error) {
+      console.error('Layout failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('tracking-server')
+  .description('Run the built-in tracking receiver (storage API for tracking nodes)')
+  .option('-p, --path <path>', 'Path to workflows directory', process.cwd())
+  .option('--port <port>', 'Port to listen on', '3000')
+  .option('--host <host>', 'Interface to bind', '127.0.0.1')
+  .action(async (options: any) => {
+    try {
+      const receiver = new TrackingReceiver(new TrackingStore(resolveWorkflowsDir(options.path)));
+      const url = await receiver.start(parseInt(options.port, 10), options.host);
+      console.log(`✅ Tracking receiver listening at ${url}`);
+      console.log(`Set WORKFLOW_STORAGE_URL=${url} for n8n. Press Ctrl+C to stop.`);
+      process.on('SIGINT', async () => {
+        await receiver.stop();
+        process.exit(0);
+      });
+    } catch (error) {
+      console.error('Tracking receiver failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('tracking [type]')
+  .description('Query tracked executions, errors, checkpoints or node timings (executions, execution, errors, checkpoints, timings)')
+  .option('-p, --path <path>', 'Path to workflows directory', process.cwd())
+  .option('-w, --workflow <name>', 'Filter by workflow name or ID')
+  .option('-s, --status <status>', 'Filter executions by status')
+  .option('-e, --execution <id>', 'Execution ID')
+  .option('-i, --item <id>', 'Filter by item ID')
+  .option('-l, --limit <n>', 'Maximum number of results')
+  .action(async (type: string | undefined, options: any) => {
+    try {
+      printResult(await queryTracking(resolveWorkflowsDir(options.path), (type || 'executions') as any, {
+        workflow: options.workflow,
+        status: options.status,
+        executionId: options.execution,
+        itemId: options.item,
+        limit: options.limit ? parseInt(options.limit, 10) : undefined,
+      }));
+    } catch (error) {
+      console.error('Tracking query failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('tracking-export')
+  .description('Export tracked executions as OTLP/JSON traces to a collector or a file')
+  .option('-p, --path <path>', 'Path to workflows directory', process.cwd())
+  .option('-u, --url <url>', 'OTLP/HTTP collector URL (e.g. http://localhost:4318)')
+  .option('-o, --output <file>', 'Write the traces to this file, relative to the workflows directory')
+  .option('--service <name>', 'service.name resource attribute')
+  .option('-w, --workflow <name>', 'Filter by workflow name or ID')
+  .option('-s, --status <status>', 'Filter executions by status')
+  .option('-e, --execution <id>', 'Execution ID')
+  .option('-l, --limit <n>', 'Maximum number of executions')
+  .action(async (options: any) => {
+    try {
+      printResult(await exportTraces(resolveWorkflowsDir(options.path), {
+        url: options.url,
+        output: options.output,
+        serviceName: options.service,
+        workflow: options.workflow,
+        status: options.status,
+        executionId: options.execution,
+        limit: options.limit ? parseInt(options.limit, 10) : undefined,
+      }));
+    } catch (error) {
+      console.error('Trace export failed:', error);
+      process.exit(1);
+    }
+  });
+
 program.parse();
\ No newline at end of file
@@ -0,0 +1,252 @@
+/**
+ * n8n REST API transport
+ *
+ * Uses the n8n public API (/api/v1) so McFlow can deploy to containers and
+ * remote hosts where the n8n CLI is not installed.
+ */
+
+import type {
+  N8nTransport,
+  DeployedWorkflow,
+  CredentialSummary,
+  ExecutionSummary,
+  ImportResult,
+} from './transport.js';
+
+interface ApiTransportOptions {
+  baseUrl: string;
+  apiKey: string;
+  timeout?: number;
+}
+
+interface ApiResponse {
+  status: number;
+  body: any;
+}
+
+// The public API rejects unknown workflow settings, so only known keys are sent
+const ALLOWED_SETTINGS = [
+  'saveExecutionProgress',
+  'saveManualExecutions',
+  'saveDataErrorExecution',
+  'saveDataSuccessExecution',
+  'executionTimeout',
+  'errorWorkflow',
+  'timezone',
+  'executionOrder',
+  'callerPolicy',
+  'callerIds',
+];
+
+export class N8nApiTransport implements N8nTransport {
+  readonly kind = 'api' as const;
+  private baseUrl: string;
+  private apiKey: string;
+  private timeout: number;
+
+  constructor(options: ApiTransportOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.timeout = options.timeout ?? 30000;
+  }
+
+  describe(): string {
+    return `n8n API at ${this.baseUrl}`;
+  }
+
+  /**
+   * Send a request to the public API and return status plus parsed body
+   */
+  private async request(method: string, endpoint: string, body?: any): Promise<ApiResponse> {
+    const response = await fetch(`${this.baseUrl}/api/v1${endpoint}`, {
+      method,
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        'X-N8N-API-KEY': this.apiKey,
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    const text = await response.text();
+    let parsed: any = text;
+    try {
+      parsed = text ? JSON.parse(text) : null;
+    } catch {
+      // Keep raw text for error reporting
+    }
+
+    return { status: response.status, body: parsed };
+  }
+
+  /**
+   * Request that throws on any non-2xx status
+   */
+  private async requestOk(method: string, endpoint: string, body?: any): Promise<any> {
+    const { status, body: result } = await this.request(method, endpoint, body);
+    if (status < 200 || status >= 300) {
+      const message = typeof result === 'object' && result?.message ? result.message : result;
+      throw new Error(`n8n API ${method} ${endpoint} failed (${status}): ${message || 'no response body'}`);
+    }
+    return result;
+  }
+
+  /**
+   * Follow nextCursor pagination and collect all records
+   */
+  private async paginate(endpoint: string): Promise<any[]> {
+    const records: any[] = [];
+    const separator = endpoint.includes('?') ? '&' : '?';
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.requestOk(
+        'GET',
+        `${endpoint}${separator}limit=250${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`
+      );
+      records.push(...(page?.data || []));
+      cursor = page?.nextCursor || undefined;
+    } while (cursor);
+
+    return records;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const { status } = await this.request('GET', '/workflows?limit=1');
+      return status >= 200 && status < 300;
+    } catch {
+      return false;
+    }
+  }
+
+  async importWorkflow(workflow: any, options: { activate?: boolean } = {}): Promise<ImportResult> {
+    const payload = this.toApiWorkflow(workflow);
+    const existing = await this.findExisting(workflow);
+
+    let saved: any;
+    if (existing) {
+      saved = await this.requestOk('PUT', `/workflows/${encodeURIComponent(existing.id)}`, payload);
+    } else {
+      saved = await this.requestOk('POST', '/workflows', payload);
+    }
+
+    const id = saved?.id || existing?.id;
+    if (options.activate && id) {
+      await this.setWorkflowActive(id, true);
+    }
+
+    return {
+      id,
+      name: saved?.name || workflow.name,
+      created: !existing,
+      output: `${existing ? 'Updated' : 'Created'} workflow ${id} via ${this.describe()}`,
+    };
+  }
+
+  /**
+   * Locate an existing remote workflow by ID, then by name
+   */
+  private async findExisting(workflow: any): Promise<{ id: string } | null> {
+    if (workflow.id) {
+      const { status, body } = await this.request('GET', `/workflows/${encodeURIComponent(workflow.id)}`);
+      if (status >= 200 && status < 300 && body?.id) {
+        return { id: body.id };
+      }
+    }
+
+    const deployed = await this.listWorkflows();
+    const match = deployed.find(w => w.name === workflow.name);
+    return match ? { id: match.id } : null;
+  }
+
+  /**
+   * Reduce a compiled workflow to the fields the public API accepts
+   */
+  private toApiWorkflow(workflow: any): any {
+    const settings: Record<string, any> = {};
+    for (const key of ALLOWED_SETTINGS) {
+      if (workflow.settings?.[key] !== undefined) {
+        settings[key] = workflow.settings[key];
+      }
+    }
+    if (!settings.executionOrder) {
+      settings.executionOrder = 'v1';
+    }
+
+    const payload: any = {
+      name: workflow.name,
+      nodes: workflow.nodes || [],
+      connections: workflow.connections || {},
+      settings,
+    };
+    if (workflow.staticData) {
+      payload.staticData = workflow.staticData;
+    }
+    return payload;
+  }
+
+  async listWorkflows(): Promise<DeployedWorkflow[]> {
+    const workflows = await this.paginate('/workflows');
+    return workflows.map(w => ({
+      id: String(w.id),
+      name: w.name,
+      active: !!w.active,
+      updatedAt: w.updatedAt,
+    }));
+  }
+
+  async getWorkflow(id: string): Promise<any | null> {
+    const { status, body } = await this.request('GET', `/workflows/${encodeURIComponent(id)}`);
+    if (status === 404) {
+      return null;
+    }
+    if (status < 200 || status >= 300) {
+      throw new Error(`n8n API GET /workflows/${id} failed (${status}): ${body?.message || body}`);
+    }
+    return body;
+  }
+
+  async exportWorkflows(options: { id?: string; all?: boolean }): Promise<any[]> {
+    if (options.id) {
+      const workflow = await this.getWorkflow(options.id);
+      if (!workflow) {
+        throw new Error(`Workflow ${options.id} not found in n8n`);
+      }
+      return [workflow];
+    }
+    return await this.paginate('/workflows');
+  }
+
+  async setWorkflowActive(id: string, active: boolean): Promise<void> {
+    await this.requestOk('POST', `/workflows/${encodeURIComponent(id)}/${active ? 'activate' : 'deactivate'}`);
+  }
+
+  async listCredentials(): Promise<CredentialSummary[]> {
+    const credentials = await this.paginate('/credentials');
+    return credentials.map(c => ({
+      id: String(c.id),
+      name: c.name,
+      type: c.type,
+    }));
+  }
+
+  async listExecutions(options: { workflowId?: string; limit?: number } = {}): Promise<ExecutionSummary[]> {
+    const params = new URLSearchParams();
+    params.set('limit', String(options.limit || 20));
+    if (options.workflowId) {
+      params.set('workflowId', options.workflowId);
+    }
+
+    const result = await this.requestOk('GET', `/executions?${params.toString()}`);
+    return (result?.data || []).map((e: any) => ({
+      id: String(e.id),
+      workflowId: e.workflowId !== undefined ? String(e.workflowId) : undefined,
+      status: e.status || (e.finished ? 'success' : 'unknown'),
+      mode: e.mode,
+      startedAt: e.startedAt,
+      stoppedAt: e.stoppedAt,
+    }));
+  }
+}
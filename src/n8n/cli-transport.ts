@@ -0,0 +1,260 @@
+/**
+ * n8n CLI transport
+ *
+ * Shells out to a locally installed `n8n` binary. Used when no API key is
+ * configured, e.g. a developer machine running `n8n start`.
+ */
+
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import path from 'path';
+import fs from 'fs/promises';
+import type {
+  N8nTransport,
+  DeployedWorkflow,
+  CredentialSummary,
+  ExecutionSummary,
+  ImportResult,
+} from './transport.js';
+
+const execAsync = promisify(exec);
+
+/**
+ * Check if stderr contains actual errors (not warnings/deprecations)
+ */
+export function hasRealError(stderr: string, stdout?: string): boolean {
+  if (!stderr) return false;
+
+  // Check if stdout indicates success
+  if (stdout && (stdout.includes('Successfully imported') ||
+      stdout.includes('Successfully exported'))) {
+    return false;
+  }
+
+  // Check if stderr contains success indicators
+  if (stderr.includes('Successfully imported') ||
+      stderr.includes('Successfully exported') ||
+      stderr.includes('Importing') ||
+      stderr.includes('success')) {
+    return false;
+  }
+
+  // Ignore known warnings and notices
+  const warningPatterns = [
+    'deprecation',
+    'Permissions',
+    'N8N_RUNNERS_ENABLED',
+    'N8N_ENFORCE_SETTINGS_FILE_PERMISSIONS',
+    'There is a deprecation',
+    'Learn more:'
+  ];
+
+  // Check if stderr only contains warnings
+  const lines = stderr.split('\n').filter(line => line.trim());
+  const nonWarningLines = lines.filter(line => {
+    return !warningPatterns.some(pattern => line.includes(pattern));
+  });
+
+  // If we have non-warning lines that contain "Error" or "failed", it's a real error
+  return nonWarningLines.some(line =>
+    line.toLowerCase().includes('error') ||
+    line.toLowerCase().includes('failed') ||
+    line.toLowerCase().includes('invalid')
+  );
+}
+
+export class N8nCliTransport implements N8nTransport {
+  readonly kind = 'cli' as const;
+
+  describe(): string {
+    return 'n8n CLI';
+  }
+
+  /**
+   * Run an n8n command and throw if stderr reports a real error
+   */
+  private async run(command: string, timeout?: number): Promise<{ stdout: string; stderr: string }> {
+    console.error(`Executing: ${command}`);
+    const { stdout, stderr } = await execAsync(command, timeout ? { timeout } : {});
+
+    if (hasRealError(stderr, stdout)) {
+      throw new Error(stderr);
+    }
+
+    return { stdout, stderr };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const { stdout } = await execAsync('n8n --version');
+      console.error(`n8n CLI version: ${stdout.trim()}`);
+      return true;
+    } catch {
+      console.error('n8n CLI not found. Install with: npm install -g n8n');
+      return false;
+    }
+  }
+
+  async importWorkflow(workflow: any, options: { activate?: boolean } = {}): Promise<ImportResult> {
+    const safeName = String(workflow.name || 'workflow').replace(/[^a-z0-9.-]/gi, '_');
+    const tempPath = `/tmp/mcflow_deploy_${Date.now()}_${safeName}.json`;
+
+    try {
+      // n8n expects a single workflow object (not in an array) for file import
+      await fs.writeFile(tempPath, JSON.stringify(workflow, null, 2));
+
+      // Use --force flag to update existing workflows
+      let command = `n8n import:workflow --input="${tempPath}" --force`;
+      if (options.activate) {
+        command += ' --activate';
+      }
+
+      const { stdout, stderr } = await this.run(command, 30000);
+
+      if (stderr) {
+        console.error(`Imported ${workflow.name} with warnings: ${stderr}`);
+      }
+
+      return {
+        id: workflow.id,
+        name: workflow.name,
+        created: !workflow.id,
+        output: stdout || stderr || 'Import completed',
+      };
+    } finally {
+      await fs.unlink(tempPath).catch(() => {});
+    }
+  }
+
+  async listWorkflows(): Promise<DeployedWorkflow[]> {
+    const { stdout } = await this.run('n8n list:workflow --all');
+
+    // Parse the output - format is "id|name"
+    const lines = stdout.split('\n').filter(line => line.trim() && !line.includes('deprecation'));
+    const workflows: DeployedWorkflow[] = [];
+
+    // Get active workflow IDs for status
+    let activeIds: string[] = [];
+    try {
+      const { stdout: activeStdout } = await execAsync('n8n list:workflow --active=true --onlyId');
+      activeIds = activeStdout.split('\n').filter(id => id.trim()).map(id => id.trim());
+    } catch {
+      // If we can't get active status, continue without it
+    }
+
+    for (const line of lines) {
+      // Skip warning lines
+      if (line.includes('There are deprecations') || line.includes('DB_SQLITE') || line.includes('N8N_RUNNERS')) {
+        continue;
+      }
+
+      const parts = line.split('|');
+      if (parts.length >= 2) {
+        const id = parts[0].trim();
+        workflows.push({
+          id,
+          name: parts[1].trim(),
+          active: activeIds.includes(id),
+        });
+      }
+    }
+
+    return workflows;
+  }
+
+  async getWorkflow(id: string): Promise<any | null> {
+    try {
+      const [workflow] = await this.exportWorkflows({ id });
+      return workflow || null;
+    } catch {
+      return null;
+    }
+  }
+
+  async exportWorkflows(options: { id?: string; all?: boolean }): Promise<any[]> {
+    if (!options.id && !options.all) {
+      throw new Error('Either id or all must be specified');
+    }
+
+    // n8n requires a file path, not directory
+    const tempFile = path.join('/tmp', `n8n-export-${Date.now()}.json`);
+    const selector = options.all ? '--all' : `--id=${options.id}`;
+
+    try {
+      await this.run(`n8n export:workflow ${selector} --output="${tempFile}" --pretty`);
+      const exportedData = await fs.readFile(tempFile, 'utf-8');
+      const workflows = JSON.parse(exportedData);
+      return Array.isArray(workflows) ? workflows : [workflows];
+    } finally {
+      await fs.unlink(tempFile).catch(() => {});
+    }
+  }
+
+  async setWorkflowActive(id: string, active: boolean): Promise<void> {
+    await this.run(`n8n update:workflow --id=${id} ${active ? '--activate' : '--deactivate'}`);
+  }
+
+  async listCredentials(): Promise<CredentialSummary[]> {
+    let stdout: string;
+
+    try {
+      ({ stdout } = await this.run('n8n credential:list', 10000));
+    } catch {
+      // If that fails, try alternative command
+      console.error('credential:list failed, trying list:credential');
+      try {
+        ({ stdout } = await this.run('n8n list:credential', 10000));
+      } catch (error: any) {
+        if (error.message.includes('command not found')) {
+          throw new Error('n8n CLI is not installed');
+        }
+        throw new Error(
+          'Unable to list credentials via n8n CLI. ' +
+          'Set N8N_API_KEY to use the n8n REST API instead, or check credentials manually in the n8n UI.'
+        );
+      }
+    }
+
+    // Try to parse as JSON first
+    try {
+      const parsed = JSON.parse(stdout);
+      if (Array.isArray(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // Not JSON, parse as table below
+    }
+
+    const credentials: CredentialSummary[] = [];
+    const lines = stdout.split('\n').filter(line => line.trim());
+
+    // Skip header lines, typically starts with "ID" or similar
+    let inData = false;
+    for (const line of lines) {
+      if (line.includes('ID') && line.includes('Name')) {
+        inData = true;
+        continue;
+      }
+      if (inData && line.trim()) {
+        // Parse table row - format is typically: ID | Name | Type | ...
+        const parts = line.split(/\s{2,}|\t|\|/).map(s => s.trim()).filter(s => s);
+        if (parts.length >= 2) {
+          credentials.push({
+            id: parts[0],
+            name: parts[1],
+            type: parts[2] || 'unknown'
+          });
+        }
+      }
+    }
+
+    return credentials;
+  }
+
+  async listExecutions(): Promise<ExecutionSummary[]> {
+    throw new Error(
+      'Listing executions is not supported by the n8n CLI. ' +
+      'Set N8N_API_KEY (and N8N_API_URL) to use the n8n REST API transport.'
+    );
+  }
+}
@@ -1,19 +1,23 @@
 #!/usr/bin/env node
-import { execSync } from 'child_process';
 import fs from 'fs/promises';
 import path from 'path';
 import { WorkflowCompiler } from '../workflows/compiler.js';
+import { N8nTransport, createTransport } from './transport.js';
+import { N8nManager } from './manager.js';
 
 interface DeployConfig {
   n8nUrl?: string;
   n8nApiKey?: string;
   useCloud?: boolean;
   workflowsPath?: string;
+  transport?: N8nTransport;
+  environment?: string;
 }
 
 class WorkflowDeployer {
   private config: DeployConfig;
   private compiler: WorkflowCompiler;
+  private manager: N8nManager;
   
   constructor(config: DeployConfig = {}) {
     this.config = {
@@ -23,85 +27,46 @@ class WorkflowDeployer {
       workflowsPath: config.workflowsPath || process.env.WORKFLOWS_PATH || process.cwd(),
     };
     this.compiler = new WorkflowCompiler(this.config.workflowsPath!);
+    this.config.environment = config.environment;
+
+    // Deploys go through the manager, like the MCP tools, so they are archived
+    // for history/rollback and marked deployed in the change tracker.
+    // useCloud forces the REST API; otherwise pick API or CLI based on N8N_TRANSPORT / N8N_API_KEY
+    this.manager = new N8nManager(
+      this.config.workflowsPath!,
+      config.transport || createTransport({
+        transport: this.config.useCloud && this.config.n8nApiKey ? 'api' : undefined,
+        url: this.config.n8nUrl,
+        apiKey: this.config.n8nApiKey,
+      })
+    );
   }
   
   async deployWorkflow(workflowPath: string, skipCompilation: boolean = false): Promise<void> {
-    try {
-      let workflow;
-      const workflowName = path.basename(workflowPath, '.json');
-      
-      // ALWAYS compile before deployment (unless explicitly skipped)
-      if (!skipCompilation) {
-        console.log(`\n📄 Deploying: ${workflowName}`);
-        workflow = await this.compiler.compileWorkflow(workflowPath);
-      } else {
-        console.log(`\n⚠️  Deploying without compilation: ${workflowName}`);
-        const workflowContent = await fs.readFile(workflowPath, 'utf-8');
-        workflow = JSON.parse(workflowContent);
-      }
-      
-      if (this.config.useCloud && this.config.n8nApiKey) {
-        await this.deployToCloud(workflow);
-      } else {
-        await this.deployToLocal(workflow, workflowPath);
-      }
-      
-      console.log(`  ✅ Deployed successfully: ${workflow.name}`);
-    } catch (error) {
-      console.error(`  ❌ Failed to deploy: ${error}`);
-      throw error;
-    }
-  }
-  
-  private async deployToCloud(workflow: any): Promise<void> {
-    const response = await fetch(`${this.config.n8nUrl}/api/v1/workflows`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-N8N-API-KEY': this.config.n8nApiKey!,
-      },
-      body: JSON.stringify(workflow),
-    });
+    const workflowName = path.basename(workflowPath, '.json');
     
-    if (!response.ok) {
-      throw new Error(`API request failed: ${response.statusText}`);
+    // ALWAYS compile before deployment (unless explicitly skipped)
+    if (!skipCompilation) {
+      console.log(`\n📄 Deploying: ${workflowName}`);
+    } else {
+      console.log(`\n⚠️  Deploying without compilation: ${workflowName}`);
     }
-  }
-  
-  private async deployToLocal(workflow: any, workflowPath: string): Promise<void> {
-    // Always use a temp file with the compiled workflow
-    const tempFile = `/tmp/compiled_workflow_${Date.now()}.json`;
-    await fs.writeFile(tempFile, JSON.stringify(workflow, null, 2));
     
-    try {
-      // Skip Docker attempt and go straight to n8n CLI
-      // Docker deployment tends to hang if container isn't running
-      console.log('  → Deploying via n8n CLI...');
-      
-      // Note: Don't use --separate for single file imports
-      const result = execSync(`n8n import:workflow --input=${tempFile}`, {
-        encoding: 'utf-8',
-        timeout: 30000, // 30 second timeout
-      });
-      
-      // Check if result indicates success
-      if (result.includes('Successfully imported') || result.includes('Importing')) {
-        console.log('  ✓ Deployed via n8n CLI');
-      } else {
-        console.log('  ✓ Deployed via n8n CLI (no explicit success message)');
-      }
-    } catch (cliError: any) {
-      console.error('  ❌ n8n CLI deployment failed:', cliError.message);
-      if (cliError.stdout) console.error('  stdout:', cliError.stdout);
-      if (cliError.stderr) console.error('  stderr:', cliError.stderr);
-      throw cliError;
-    } finally {
-      await fs.unlink(tempFile).catch(() => {});
+    const { target, environment, results: [outcome] } = await this.manager.deployFiles([workflowPath], {
+      environment: this.config.environment,
+      skipCompilation,
+    });
+    if (outcome.status === 'failed') {
+      console.error(`  ❌ Failed to deploy: ${outcome.error}`);
+      throw new Error(outcome.error);
     }
+    console.log(`  ✓ ${outcome.result?.created ? 'Created' : 'Updated'} via ${target} (${environment})`);
+    
+    console.log(`  ✅ Deployed successfully: ${outcome.workflow.name}`);
   }
   
-  async deployProject(projectPath: string, skipCompilation: boolean = false): Promise<void> {
-    const workflowsDir = path.join(projectPath, 'workflows', 'flows');
+  async deployProject(skipCompilation: boolean = false): Promise<void> {
+    const workflowsDir = path.join(this.config.workflowsPath!, 'flows');
     const files = await fs.readdir(workflowsDir);
     
     const configFiles = files.filter(f => f.includes('config'));
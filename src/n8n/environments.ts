@@ -0,0 +1,196 @@
+/**
+ * Deployment Environments
+ *
+ * Projects can declare named n8n targets (dev, staging, prod...) in
+ * .mcflow/config.json:
+ *
+ * {
+ *   "defaultEnvironment": "dev",
+ *   "environments": {
+ *     "prod": {
+ *       "url": "https://n8n.example.com",
+ *       "apiKeyEnv": "N8N_PROD_API_KEY",
+ *       "credentials": { "local-openai-id": "prod-openai-id" },
+ *       "variables": { "API_BASE_URL": "https://api.example.com" }
+ *     }
+ *   }
+ * }
+ *
+ * Without a config file there is a single "default" environment driven by
+ * N8N_API_URL / N8N_API_KEY / N8N_TRANSPORT.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { N8nTransport, TransportKind, createTransport } from './transport.js';
+
+export const DEFAULT_ENVIRONMENT = 'default';
+export const PROJECT_CONFIG_FILE = path.join('.mcflow', 'config.json');
+
+export type CredentialMapping = string | { id: string; name?: string };
+
+export interface EnvironmentConfig {
+  url?: string;
+  apiKeyEnv?: string;
+  transport?: TransportKind | 'auto';
+  credentials?: Record<string, CredentialMapping>;
+  variables?: Record<string, string>;
+}
+
+export interface ProjectConfig {
+  defaultEnvironment?: string;
+  environments?: Record<string, EnvironmentConfig>;
+  [key: string]: any;
+}
+
+export interface ResolvedEnvironment {
+  name: string;
+  config: EnvironmentConfig;
+}
+
+/**
+ * Load the project config, returning an empty config if none exists
+ */
+export async function loadProjectConfig(workflowsPath: string): Promise<ProjectConfig> {
+  const configPath = path.join(workflowsPath, PROJECT_CONFIG_FILE);
+  let content: string;
+  try {
+    content = await fs.readFile(configPath, 'utf-8');
+  } catch {
+    return {};
+  }
+
+  try {
+    return JSON.parse(content);
+  } catch (error: any) {
+    throw new Error(`Invalid project config ${configPath}: ${error.message}`);
+  }
+}
+
+/**
+ * Names of all configured environments
+ */
+export function listEnvironments(config: ProjectConfig): string[] {
+  const names = Object.keys(config.environments || {});
+  return names.length > 0 ? names : [DEFAULT_ENVIRONMENT];
+}
+
+/**
+ * Pick the environment to use for a command
+ */
+export function resolveEnvironment(config: ProjectConfig, name?: string): ResolvedEnvironment {
+  const environments = config.environments || {};
+  const selected = name || config.defaultEnvironment || DEFAULT_ENVIRONMENT;
+
+  if (environments[selected]) {
+    return { name: selected, config: environments[selected] };
+  }
+
+  // The implicit default environment always exists
+  if (selected === DEFAULT_ENVIRONMENT) {
+    return { name: DEFAULT_ENVIRONMENT, config: {} };
+  }
+
+  const available = listEnvironments(config).join(', ');
+  throw new Error(`Unknown environment "${selected}". Available environments: ${available}`);
+}
+
+/**
+ * Create the transport for an environment
+ */
+export function createEnvironmentTransport(environment: ResolvedEnvironment): N8nTransport {
+  const { config } = environment;
+  let apiKey: string | undefined;
+
+  // Falling back to N8N_API_KEY (or the local CLI) could deploy to the wrong instance
+  if (config.url && !config.apiKeyEnv && config.transport !== 'cli') {
+    throw new Error(
+      `Environment "${environment.name}" sets a url but no apiKeyEnv; ` +
+      'name the variable holding its n8n API key, or set "transport": "cli"'
+    );
+  }
+
+  if (config.apiKeyEnv) {
+    apiKey = process.env[config.apiKeyEnv];
+    if (!apiKey && config.transport !== 'cli') {
+      throw new Error(
+        `Environment "${environment.name}" expects its n8n API key in $${config.apiKeyEnv}, which is not set`
+      );
+    }
+  }
+
+  return createTransport({
+    transport: config.transport,
+    url: config.url,
+    apiKey,
+  });
+}
+
+/**
+ * Replace $env.NAME / $env['NAME'] references with the environment's variable values
+ */
+function substituteVariables(value: string, variables: Record<string, string>): string {
+  return value.replace(
+    /\$env(?:\.([A-Za-z_][A-Za-z0-9_]*)|\[\s*['"]([^'"]+)['"]\s*\])/g,
+    (match, dotName, bracketName) => {
+      const name = dotName || bracketName;
+      return name in variables ? JSON.stringify(variables[name]) : match;
+    }
+  );
+}
+
+function substituteDeep(value: any, variables: Record<string, string>): any {
+  if (typeof value === 'string') {
+    return substituteVariables(value, variables);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => substituteDeep(item, variables));
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = substituteDeep(item, variables);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Apply credential mapping and variable overrides to a compiled workflow
+ */
+export function applyEnvironment(workflow: any, environment: ResolvedEnvironment): any {
+  const credentials = environment.config.credentials || {};
+  const variables = environment.config.variables || {};
+
+  if (Object.keys(credentials).length === 0 && Object.keys(variables).length === 0) {
+    return workflow;
+  }
+
+  const nodes = (workflow.nodes || []).map((node: any) => {
+    const updated = { ...node };
+
+    if (Object.keys(variables).length > 0 && node.parameters) {
+      updated.parameters = substituteDeep(node.parameters, variables);
+    }
+
+    if (node.credentials && Object.keys(credentials).length > 0) {
+      updated.credentials = {};
+      for (const [type, credential] of Object.entries<any>(node.credentials)) {
+        // Map by credential ID first, then by name
+        const mapping = credentials[credential?.id] ?? credentials[credential?.name];
+        if (mapping === undefined) {
+          updated.credentials[type] = credential;
+        } else if (typeof mapping === 'string') {
+          updated.credentials[type] = { ...credential, id: mapping };
+        } else {
+          updated.credentials[type] = { ...credential, ...mapping };
+        }
+      }
+    }
+
+    return updated;
+  });
+
+  return { ...workflow, nodes };
+}
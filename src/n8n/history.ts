@@ -0,0 +1,137 @@
+/**
+ * Deployment History
+ *
+ * Every compiled workflow pushed to n8n is archived under
+ * .mcflow/deployments/<workflow>/<revision>.json together with the
+ * environment, timestamp, git commit and the change tracker snapshot, so a
+ * previous revision can be redeployed exactly as it was.
+ */
+
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs/promises';
+import path from 'path';
+import type { DeploymentRecord } from '../utils/change-tracker.js';
+
+const execAsync = promisify(exec);
+
+export const DEPLOYMENTS_DIR = path.join('.mcflow', 'deployments');
+
+export interface ArchivedDeployment {
+  revision: string;
+  workflowPath: string;
+  workflowName: string;
+  environment: string;
+  deployedAt: string;
+  remoteId?: string;
+  gitCommit?: string;
+  gitDirty?: boolean;
+  rollbackOf?: string;
+  pulled?: boolean; // Recorded by a pull rather than a deployment
+  tracker?: DeploymentRecord;
+  workflow: any;
+}
+
+export class DeploymentHistory {
+  private workflowsPath: string;
+  private archiveDir: string;
+
+  constructor(workflowsPath: string) {
+    this.workflowsPath = workflowsPath;
+    this.archiveDir = path.join(workflowsPath, DEPLOYMENTS_DIR);
+  }
+
+  /**
+   * Folder holding the revisions of one workflow
+   */
+  private workflowDir(workflowPath: string): string {
+    const key = workflowPath.replace(/\.json$/, '').replace(/[\\/]/g, '__');
+    return path.join(this.archiveDir, key);
+  }
+
+  /**
+   * Current git commit of the workflows directory, if it is a repository
+   */
+  private async getGitInfo(): Promise<{ gitCommit?: string; gitDirty?: boolean }> {
+    try {
+      const { stdout: commit } = await execAsync('git rev-parse HEAD', { cwd: this.workflowsPath, timeout: 5000 });
+      const { stdout: status } = await execAsync('git status --porcelain -- .', { cwd: this.workflowsPath, timeout: 5000 });
+      return { gitCommit: commit.trim(), gitDirty: status.trim().length > 0 };
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Archive a deployed workflow and return the stored entry
+   */
+  async record(entry: {
+    workflowPath: string;
+    environment: string;
+    workflow: any;
+    remoteId?: string;
+    rollbackOf?: string;
+    pulled?: boolean;
+    tracker?: DeploymentRecord;
+  }): Promise<ArchivedDeployment> {
+    const deployedAt = new Date().toISOString();
+    const revision = `${deployedAt.replace(/[:.]/g, '-')}-${entry.environment}`;
+
+    const archived: ArchivedDeployment = {
+      revision,
+      workflowPath: entry.workflowPath,
+      workflowName: entry.workflow.name,
+      environment: entry.environment,
+      deployedAt,
+      remoteId: entry.remoteId,
+      ...(await this.getGitInfo()),
+      rollbackOf: entry.rollbackOf,
+      pulled: entry.pulled,
+      tracker: entry.tracker,
+      workflow: entry.workflow,
+    };
+
+    const dir = this.workflowDir(entry.workflowPath);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, `${revision}.json`), JSON.stringify(archived, null, 2));
+    return archived;
+  }
+
+  /**
+   * List archived deployments, newest first
+   */
+  async list(filter: { workflowPath?: string; environment?: string } = {}): Promise<ArchivedDeployment[]> {
+    let dirs: string[];
+    if (filter.workflowPath) {
+      dirs = [this.workflowDir(filter.workflowPath)];
+    } else {
+      const entries = await fs.readdir(this.archiveDir).catch(() => [] as string[]);
+      dirs = entries.map(entry => path.join(this.archiveDir, entry));
+    }
+
+    const deployments: ArchivedDeployment[] = [];
+    for (const dir of dirs) {
+      const files = await fs.readdir(dir).catch(() => [] as string[]);
+      for (const file of files.filter(f => f.endsWith('.json'))) {
+        try {
+          const archived: ArchivedDeployment = JSON.parse(await fs.readFile(path.join(dir, file), 'utf-8'));
+          if (!filter.environment || archived.environment === filter.environment) {
+            deployments.push(archived);
+          }
+        } catch {
+          // Skip unreadable archive entries
+        }
+      }
+    }
+
+    return deployments.sort((a, b) => b.deployedAt.localeCompare(a.deployedAt));
+  }
+
+  /**
+   * Find a specific revision of a workflow
+   */
+  async get(workflowPath: string, revision: string): Promise<ArchivedDeployment | null> {
+    const deployments = await this.list({ workflowPath });
+    return deployments.find(d => d.revision === revision) || null;
+  }
+}
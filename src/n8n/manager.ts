@@ -5,20 +5,77 @@ import fs from 'fs/promises';
 import { ChangeTracker } from '../utils/change-tracker.js';
 import { NodeManager } from '../nodes/manager.js';
 import { WorkflowCompiler } from '../workflows/compiler.js';
+import { findUnsetWorkflowCalls } from '../workflows/subworkflow.js';
+import { N8nTransport, ImportResult, createTransport, findDeployedWorkflow } from './transport.js';
+import { hasRealError } from './cli-transport.js';
+import { DeploymentHistory, ArchivedDeployment } from './history.js';
+import {
+  DEFAULT_ENVIRONMENT,
+  ResolvedEnvironment,
+  loadProjectConfig,
+  listEnvironments,
+  resolveEnvironment,
+  createEnvironmentTransport,
+  applyEnvironment,
+} from './environments.js';
+import {
+  createDeploymentPlan,
+  formatDeploymentPlan,
+  compileForEnvironment,
+  hashCompiledWorkflow,
+  savePlan,
+  loadPlan,
+  deletePlan,
+} from './plan.js';
+import { compareWorkflowSync, applyFileUpdates, formatWorkflowSync } from '../workflows/sync.js';
+import { hasChanges, diffWorkflows } from '../workflows/diff.js';
 
 const execAsync = promisify(exec);
 
+export interface DeployOptions {
+  activate?: boolean;
+  separate?: boolean;
+  environment?: string;
+  skipCompilation?: boolean; // Push the file as it is, without injecting code or prompts
+}
+
+interface DeployTarget {
+  environment: ResolvedEnvironment;
+  transport: N8nTransport;
+}
+
+export interface DeployOutcome {
+  file: string;
+  relativePath: string;
+  status: 'success' | 'failed';
+  result?: ImportResult;
+  workflow?: any;
+  error?: string;
+}
+
+interface CompletedDeployment {
+  relativePath: string;
+  workflow?: any; // Omitted when nothing was pushed
+  remoteId?: string;
+  pulled?: boolean;
+}
+
 export class N8nManager {
   private workflowsPath: string;
   private changeTracker: ChangeTracker;
   private nodeManager: NodeManager;
   private compiler: WorkflowCompiler;
+  private history: DeploymentHistory;
+  private transport: N8nTransport;
+  private environmentTransports: Map<string, N8nTransport> = new Map();
 
-  constructor(workflowsPath: string) {
+  constructor(workflowsPath: string, transport?: N8nTransport) {
     this.workflowsPath = workflowsPath;
     this.changeTracker = new ChangeTracker(workflowsPath);
     this.nodeManager = new NodeManager(workflowsPath);
     this.compiler = new WorkflowCompiler(workflowsPath);
+    this.history = new DeploymentHistory(workflowsPath);
+    this.transport = transport || createTransport();
     // Initialize managers
     this.changeTracker.initialize().catch(console.error);
     this.nodeManager.initialize().catch(console.error);
@@ -26,202 +83,289 @@ export class N8nManager {
     // Check n8n availability on startup
     this.checkN8nAvailability().then(available => {
       if (!available) {
-        console.error('\n⚠️  n8n CLI is not installed!');
-        console.error('To use McFlow deployment features, install n8n:');
-        console.error('  npm install -g n8n');
-        console.error('  or');
-        console.error('  yarn global add n8n\n');
+        console.error(`\n⚠️  ${this.unavailableMessage()}\n`);
       }
     });
   }
 
   /**
-   * Check if stderr contains actual errors (not warnings/deprecations)
+   * Get the transport used to talk to n8n
    */
-  private hasRealError(stderr: string, stdout?: string): boolean {
-    console.error(`[hasRealError] Checking stderr: ${stderr?.substring(0, 200)}`);
-    console.error(`[hasRealError] Checking stdout: ${stdout?.substring(0, 200)}`);
-    if (!stderr) return false;
-    
-    // Check if stdout indicates success
-    if (stdout && (stdout.includes('Successfully imported') || 
-        stdout.includes('Successfully exported'))) {
-      return false;
+  getTransport(): N8nTransport {
+    return this.transport;
+  }
+
+  /**
+   * Resolve the environment and transport for a command
+   */
+  private async resolveTarget(environmentName?: string): Promise<DeployTarget> {
+    const config = await loadProjectConfig(this.workflowsPath);
+    const environment = resolveEnvironment(config, environmentName);
+
+    // The implicit default environment uses the transport from the environment variables
+    if (environment.name === DEFAULT_ENVIRONMENT && !config.environments?.[DEFAULT_ENVIRONMENT]) {
+      return { environment, transport: this.transport };
     }
-    
-    // Check if stderr contains success indicators
-    if (stderr.includes('Successfully imported') || 
-        stderr.includes('Successfully exported') ||
-        stderr.includes('Importing') ||
-        stderr.includes('success')) {
-      return false;
+
+    let transport = this.environmentTransports.get(environment.name);
+    if (!transport) {
+      transport = createEnvironmentTransport(environment);
+      this.environmentTransports.set(environment.name, transport);
     }
-    
-    // Ignore known warnings and notices
-    const warningPatterns = [
-      'deprecation',
-      'Permissions',
-      'N8N_RUNNERS_ENABLED',
-      'N8N_ENFORCE_SETTINGS_FILE_PERMISSIONS',
-      'There is a deprecation',
-      'Learn more:'
-    ];
-    
-    // Check if stderr only contains warnings
-    const lines = stderr.split('\n').filter(line => line.trim());
-    const nonWarningLines = lines.filter(line => {
-      return !warningPatterns.some(pattern => line.includes(pattern));
-    });
-    
-    // If we have non-warning lines that contain "Error" or "failed", it's a real error
-    return nonWarningLines.some(line => 
-      line.toLowerCase().includes('error') || 
-      line.toLowerCase().includes('failed') ||
-      line.toLowerCase().includes('invalid')
-    );
+    return { environment, transport };
   }
 
   /**
-   * Deploy a workflow to n8n (handles both create and update)
+   * Label shown in output when deploying to a named environment
    */
-  async importWorkflow(workflowPath: string, options: {
-    separate?: boolean;
-    activate?: boolean;
-  } = {}): Promise<any> {
-    try {
-      // Check if n8n is available
-      const n8nAvailable = await this.checkN8nAvailability();
-      if (!n8nAvailable) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: '❌ n8n CLI is not installed!\n\n' +
-                    'To deploy workflows, you need to install n8n:\n' +
-                    '  npm install -g n8n\n' +
-                    '  or\n' +
-                    '  yarn global add n8n\n\n' +
-                    'After installation, run "n8n start" to start the server.',
-            },
-          ],
-        };
-      }
-      // Handle different path formats
-      let fullPath: string;
+  private environmentLabel(target: DeployTarget): string {
+    return target.environment.name === DEFAULT_ENVIRONMENT ? '' : `🌍 Environment: ${target.environment.name}\n`;
+  }
 
-      // If the path starts with 'workflows/', remove it to avoid doubling
-      if (workflowPath.startsWith('workflows/')) {
-        workflowPath = workflowPath.substring('workflows/'.length);
-      }
+  /**
+   * Explain how to make the configured transport available
+   */
+  private unavailableMessage(transport: N8nTransport = this.transport): string {
+    if (transport.kind === 'api') {
+      return `Cannot reach ${transport.describe()}.\n` +
+             'Check N8N_API_URL and N8N_API_KEY (or the environment in .mcflow/config.json), ' +
+             'and that the instance is running.';
+    }
+    return 'n8n CLI is not installed!\n\n' +
+           'To deploy workflows, you need to install n8n:\n' +
+           '  npm install -g n8n\n' +
+           '  or\n' +
+           '  yarn global add n8n\n\n' +
+           'After installation, run "n8n start" to start the server.\n' +
+           'Alternatively set N8N_API_URL and N8N_API_KEY to deploy through the n8n REST API.';
+  }
 
-      // If it's an absolute path, use it directly
-      if (path.isAbsolute(workflowPath)) {
-        fullPath = workflowPath;
-      } else {
-        fullPath = path.join(this.workflowsPath, workflowPath);
+  /**
+   * Resolve a workflow path relative to the workflows directory
+   */
+  private resolveWorkflowPath(workflowPath: string): string {
+    // If the path starts with 'workflows/', remove it to avoid doubling
+    if (workflowPath.startsWith('workflows/')) {
+      workflowPath = workflowPath.substring('workflows/'.length);
+    }
+
+    // If it's an absolute path, use it directly
+    if (path.isAbsolute(workflowPath)) {
+      return workflowPath;
+    }
+    return path.join(this.workflowsPath, workflowPath);
+  }
+
+  /**
+   * Warn about code nodes that would be deployed without content
+   */
+  private warnEmptyCodeNodes(workflow: any, fileName: string): void {
+    const emptyCodeNodes: string[] = [];
+    for (const node of workflow.nodes || []) {
+      if (node.type === 'n8n-nodes-base.code' && node.parameters) {
+        if ((!node.parameters.jsCode || node.parameters.jsCode === '') &&
+            (!node.parameters.pythonCode || node.parameters.pythonCode === '')) {
+          emptyCodeNodes.push(node.name || 'unnamed');
+        }
       }
+    }
 
-      // Verify file exists
-      await fs.access(fullPath);
+    if (emptyCodeNodes.length > 0) {
+      console.error(`⚠️  WARNING in ${fileName}: Empty code nodes: ${emptyCodeNodes.join(', ')}`);
+      console.error('This may cause nodes to appear disconnected in n8n.');
+    }
+  }
 
-      // Create temporary file with injected content in /tmp
-      const tempPath = `/tmp/mcflow_deploy_${Date.now()}_${path.basename(workflowPath)}`;
+  /**
+   * Refuse workflows whose Execute Workflow nodes don't say which workflow to call yet
+   */
+  private checkWorkflowCalls(workflow: any): void {
+    const unset = findUnsetWorkflowCalls(workflow);
+    if (unset.length > 0) {
+      throw new Error(
+        `No sub-workflow selected in ${unset.map(name => `"${name}"`).join(', ')}; ` +
+        `deploy the sub-workflow first and set its ID there`
+      );
+    }
+  }
 
-      try {
-        // Compile the workflow (inject external code/prompts)
-        const workflow = await this.compiler.compileWorkflow(fullPath);
+  /**
+   * Compile a workflow file and push it through the transport
+   */
+  private async deployFile(fullPath: string, options: DeployOptions, target: DeployTarget): Promise<DeployOutcome> {
+    const relativePath = path.relative(this.workflowsPath, fullPath);
+    const file = path.basename(fullPath);
 
-        // Save compiled workflow to dist directory
-        const fileName = path.basename(workflowPath);
-        await this.compiler.saveCompiledWorkflow(fileName, workflow);
+    try {
+      // Compile the workflow (inject external code/prompts)
+      const compiled = options.skipCompilation
+        ? JSON.parse(await fs.readFile(fullPath, 'utf-8'))
+        : await this.compiler.compileWorkflow(fullPath);
+      this.warnEmptyCodeNodes(compiled, file);
+      this.checkWorkflowCalls(compiled);
+      const workflow = applyEnvironment(compiled, target.environment);
 
-        // Ensure workflow has required fields for n8n
-        if (!workflow.active && workflow.active !== false) {
-          workflow.active = false; // Default to inactive
-        }
+      const result = await target.transport.importWorkflow(workflow, { activate: options.activate });
+      return { file, relativePath, status: 'success', result, workflow };
+    } catch (error: any) {
+      console.error(`Failed to deploy ${file}: ${error.message}`);
+      return { file, relativePath, status: 'failed', error: error.message };
+    }
+  }
 
-        // Track which nodes had content injected (for reporting)
-        const injected: string[] = [];
-        if (!workflow.settings) {
-          workflow.settings = { executionOrder: 'v1' };
-        }
-        if (!workflow.connections) {
-          workflow.connections = {};
-        }
+  /**
+   * Record successful deployments in the change tracker and the deployment archive
+   */
+  private async recordDeployments(deployments: CompletedDeployment[], environment: string): Promise<void> {
+    await this.changeTracker.markMultipleDeployed(deployments.map(d => d.relativePath), environment);
 
-        // IMPORTANT: Log whether this is an update or create
-        const isUpdate = !!workflow.id;
-        if (workflow.id) {
-          console.error(`Updating existing workflow with ID: ${workflow.id}`);
-        } else {
-          console.error('No workflow ID found - n8n will create a new workflow');
-        }
+    for (const deployment of deployments) {
+      if (!deployment.workflow) continue;
+      try {
+        await this.history.record({
+          workflowPath: deployment.relativePath,
+          environment,
+          workflow: deployment.workflow,
+          remoteId: deployment.remoteId,
+          pulled: deployment.pulled,
+          tracker: this.changeTracker.getDeployment(deployment.relativePath, environment),
+        });
+      } catch (error: any) {
+        console.error(`Failed to archive deployment of ${deployment.relativePath}: ${error.message}`);
+      }
+    }
+  }
 
-        // Log injection details
-        if (injected.length > 0) {
-          console.error(`Injecting content for nodes: ${injected.join(', ')}`);
-        }
+  /**
+   * Deploy workflow files one after another in the given order, recording
+   * each as it succeeds; files outside the project are deployed but not recorded
+   */
+  async deployFiles(
+    files: string[],
+    options: DeployOptions = {}
+  ): Promise<{ target: string; environment: string; results: DeployOutcome[] }> {
+    const target = await this.resolveTarget(options.environment);
+    await this.changeTracker.scanWorkflows();
 
-        // Validate that code nodes have content
-        let emptyCodeNodes = [];
-        if (workflow.nodes) {
-          for (const node of workflow.nodes) {
-            if (node.type === 'n8n-nodes-base.code' && node.parameters) {
-              if ((!node.parameters.jsCode || node.parameters.jsCode === '') &&
-                  (!node.parameters.pythonCode || node.parameters.pythonCode === '')) {
-                emptyCodeNodes.push(node.name || 'unnamed');
-              }
-            }
-          }
-        }
+    const results: DeployOutcome[] = [];
+    for (const file of files) {
+      const outcome = await this.deployFile(this.resolveWorkflowPath(file), options, target);
+      results.push(outcome);
+      if (outcome.status === 'success' && !outcome.relativePath.startsWith('..')) {
+        await this.recordDeployments(this.completedDeployments([outcome]), target.environment.name);
+      }
+    }
+    return { target: target.transport.describe(), environment: target.environment.name, results };
+  }
 
-        if (emptyCodeNodes.length > 0) {
-          console.error(`⚠️  WARNING: The following code nodes have empty content: ${emptyCodeNodes.join(', ')}`);
-          console.error('This may cause nodes to appear disconnected in n8n.');
-          console.error('Make sure to use "mcflow deploy" instead of deploying the workflow file directly.');
-        }
+  /**
+   * Successful outcomes of a batch deployment, ready to record
+   */
+  private completedDeployments(results: DeployOutcome[]): CompletedDeployment[] {
+    return results
+      .filter(r => r.status === 'success')
+      .map(r => ({ relativePath: r.relativePath, workflow: r.workflow, remoteId: r.result?.id }));
+  }
 
-        // Write temporary workflow with injected content
-        // n8n expects a single workflow object (not in an array) for file import
-        await fs.writeFile(tempPath, JSON.stringify(workflow, null, 2));
+  /**
+   * Format the summary for a batch deployment
+   */
+  private formatDeploySummary(
+    results: DeployOutcome[],
+    total: number,
+    options: DeployOptions,
+    target: DeployTarget
+  ): string {
+    const successful = results.filter(r => r.status === 'success');
+    const failed = results.filter(r => r.status === 'failed');
 
-        // Build command using temp file
-        // Use --force flag to update existing workflows
-        let command = `n8n import:workflow --input="${tempPath}" --force`;
+    let output = `🚀 Deployed ${successful.length}/${total} workflows via ${target.transport.describe()}\n`;
+    output += `${this.environmentLabel(target)}\n`;
 
-        if (options.activate) {
-          command += ' --activate';
-        }
+    if (successful.length > 0) {
+      output += '✅ Successfully deployed:\n';
+      for (const result of successful) {
+        output += `  • ${result.file}${result.result?.id ? ` (${result.result.id})` : ''}\n`;
+      }
+    }
 
-        console.error(`Executing: ${command}`);
-        const { stdout, stderr } = await execAsync(command);
+    if (failed.length > 0) {
+      output += '\n❌ Failed to deploy:\n';
+      for (const result of failed) {
+        // Extract meaningful error message
+        const errorMsg = result.error || 'Unknown error';
+        const shortError = errorMsg.split('\n')[0].substring(0, 100);
+        output += `  • ${result.file}: ${shortError}\n`;
 
-        // Clean up temp file
-        await fs.unlink(tempPath).catch(() => {});
+        // Log full error to console for debugging
+        console.error(`Full error for ${result.file}:`, result.error);
+      }
+    }
 
-        // Check for errors
-        if (this.hasRealError(stderr, stdout)) {
-          throw new Error(stderr);
-        }
+    output += `\n${options.activate ? '▶️ Status: All activated' : '⏸️ Status: Not activated'}`;
+    output += `\n${options.separate ? '📦 Mode: Separate execution' : '📦 Mode: Standard'}`;
+    return output;
+  }
 
+  /**
+   * Deploy a workflow to n8n (handles both create and update)
+   */
+  async importWorkflow(workflowPath: string, options: DeployOptions = {}): Promise<any> {
+    try {
+      const target = await this.resolveTarget(options.environment);
+
+      // Check if n8n is available
+      const n8nAvailable = await target.transport.isAvailable();
+      if (!n8nAvailable) {
         return {
           content: [
             {
               type: 'text',
-              text: `✅ Workflow ${isUpdate ? 'updated' : 'deployed'} successfully!\n\n` +
-                    `📁 File: ${workflowPath}\n` +
-                    `${options.activate ? '▶️ Status: Activated\n' : '⏸️ Status: Inactive\n'}` +
-                    `${injected.length > 0 ? `💉 Injected nodes: ${injected.join(', ')}\n` : ''}` +
+              text: `❌ ${this.unavailableMessage(target.transport)}`,
+            },
+          ],
+        };
+      }
+
+      const fullPath = this.resolveWorkflowPath(workflowPath);
+
+      // Verify file exists
+      await fs.access(fullPath);
+
+      // Compile the workflow (inject external code/prompts)
+      const compiled = await this.compiler.compileWorkflow(fullPath);
+
+      // Save compiled workflow to dist directory
+      await this.compiler.saveCompiledWorkflow(path.basename(fullPath), compiled);
+      this.warnEmptyCodeNodes(compiled, path.basename(fullPath));
+      this.checkWorkflowCalls(compiled);
+
+      // Apply environment-specific credentials and variables
+      const workflow = applyEnvironment(compiled, target.environment);
+      const result = await target.transport.importWorkflow(workflow, { activate: options.activate });
+
+      // Mark as deployed and archive when the file lives in this project
+      const relativePath = path.relative(this.workflowsPath, fullPath);
+      if (!relativePath.startsWith('..')) {
+        await this.changeTracker.scanWorkflows();
+        await this.recordDeployments([{ relativePath, workflow, remoteId: result.id }], target.environment.name);
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ Workflow ${result.created ? 'deployed' : 'updated'} successfully!\n\n` +
+                  `📁 File: ${workflowPath}\n` +
+                  `${result.id ? `🆔 ID: ${result.id}\n` : ''}` +
+                  `🔌 Target: ${target.transport.describe()}\n` +
+                  this.environmentLabel(target) +
+                  `${options.activate ? '▶️ Status: Activated\n' : '⏸️ Status: Inactive\n'}` +
                   `${options.separate ? '📦 Mode: Separate execution\n' : ''}` +
-                  `\n${stdout || 'Deployment completed.'}`,
+                  `\n${result.output || 'Deployment completed.'}`,
           },
         ],
       };
-      } catch (error: any) {
-        // Always clean up temp file on error
-        await fs.unlink(tempPath).catch(() => {});
-        throw new Error(`Failed to deploy workflow: ${error.message}`);
-      }
     } catch (error: any) {
       throw new Error(`Failed to deploy workflow: ${error.message}`);
     }
@@ -230,17 +374,18 @@ export class N8nManager {
   /**
    * Deploy all changed workflows in parallel
    */
-  async deployChangedWorkflows(options: {
-    activate?: boolean;
-    separate?: boolean;
-  } = {}): Promise<any> {
+  async deployChangedWorkflows(options: DeployOptions = {}): Promise<any> {
     try {
+      const target = await this.resolveTarget(options.environment);
+      const environmentName = target.environment.name;
+
       // Get list of changed workflow files from change tracker
-      const changedFiles = await this.changeTracker.getChangedWorkflows();
+      const changedFiles = await this.changeTracker.getChangedWorkflows(environmentName);
       
       if (changedFiles.length === 0) {
         // Show current deployment status
-        const statusDetails = await this.changeTracker.getChangeDetails();
+        const config = await loadProjectConfig(this.workflowsPath);
+        const statusDetails = await this.changeTracker.getChangeDetails(environmentName, listEnvironments(config));
         return {
           content: [
             {
@@ -252,116 +397,18 @@ export class N8nManager {
       }
       
       // Deploy all changed workflows in parallel
-      const deployPromises = changedFiles.map(async (file) => {
-        const fullPath = path.join(this.workflowsPath, file);
-        
-        // Create a temporary file with injected code in /tmp
-        const tempPath = `/tmp/mcflow_deploy_${Date.now()}_${path.basename(file)}`;
-        
-        try {
-          // Compile the workflow (inject external code/prompts)
-          const workflow = await this.compiler.compileWorkflow(fullPath);
-          
-          // Validate that code nodes have content
-          let emptyCodeNodes = [];
-          if (workflow.nodes) {
-            for (const node of workflow.nodes) {
-              if (node.type === 'n8n-nodes-base.code' && node.parameters) {
-                if ((!node.parameters.jsCode || node.parameters.jsCode === '') && 
-                    (!node.parameters.pythonCode || node.parameters.pythonCode === '')) {
-                  emptyCodeNodes.push(node.name || 'unnamed');
-                }
-              }
-            }
-          }
-          
-          if (emptyCodeNodes.length > 0) {
-            console.error(`⚠️  WARNING in ${path.basename(file)}: Empty code nodes: ${emptyCodeNodes.join(', ')}`);
-          }
-          
-          // Track which nodes had content injected (for reporting)
-          const injected: string[] = [];
-          
-          // Write temporary workflow with injected code
-          // n8n expects a single workflow object (not in an array) for file import
-          await fs.writeFile(tempPath, JSON.stringify(workflow, null, 2));
-          
-          // Build command for this workflow using temp file
-          // Use --force flag to update existing workflows
-          let command = `n8n import:workflow --input="${tempPath}" --force`;
-
-        if (options.activate) {
-          command += ' --activate';
-        }
-        
-          const { stdout, stderr } = await execAsync(command);
-          
-          // Clean up temp file
-          await fs.unlink(tempPath).catch(() => {});
-          
-          if (this.hasRealError(stderr, stdout)) {
-            return { file: path.basename(file), relativePath: file, status: 'failed', error: stderr };
-          }
-          
-          // Log success with any warnings
-          if (stderr) {
-            console.error(`Deployed ${path.basename(file)} with warnings: ${stderr}`);
-          }
-          
-          // Log if code was injected
-          if (injected.length > 0) {
-            console.log(`Injected code for nodes: ${injected.join(', ')}`);
-          }
-          
-          // Mark as deployed in change tracker
-          await this.changeTracker.markDeployed(file);
-          
-          return { file: path.basename(file), relativePath: file, status: 'success', output: stdout || stderr };
-        } catch (error: any) {
-          // Clean up temp file on error
-          await fs.unlink(tempPath).catch(() => {});
-          console.error(`Failed to deploy ${path.basename(file)}: ${error.message}`);
-          return { file: path.basename(file), relativePath: file, status: 'failed', error: error.message };
-        }
-      });
-      
-      // Wait for all deployments to complete
-      const results = await Promise.all(deployPromises);
-      
-      // Format results
-      const successful = results.filter(r => r.status === 'success');
-      const failed = results.filter(r => r.status === 'failed');
-      
-      let output = `🚀 Deployed ${successful.length}/${changedFiles.length} workflows\n\n`;
-      
-      if (successful.length > 0) {
-        output += '✅ Successfully deployed:\n';
-        for (const result of successful) {
-          output += `  • ${result.file}\n`;
-        }
-      }
-      
-      if (failed.length > 0) {
-        output += '\n❌ Failed to deploy:\n';
-        for (const result of failed) {
-          // Extract meaningful error message
-          const errorMsg = result.error || 'Unknown error';
-          const shortError = errorMsg.split('\n')[0].substring(0, 100);
-          output += `  • ${result.file}: ${shortError}\n`;
-          
-          // Log full error to console for debugging
-          console.error(`Full error for ${result.file}:`, result.error);
-        }
-      }
-      
-      output += `\n${options.activate ? '▶️ Status: All activated' : '⏸️ Status: Not activated'}`;
-      output += `\n${options.separate ? '📦 Mode: Separate execution' : '📦 Mode: Standard'}`;
-      
+      const results = await Promise.all(
+        changedFiles.map(file => this.deployFile(path.join(this.workflowsPath, file), options, target))
+      );
+
+      // Mark successful deployments in change tracker and archive them
+      await this.recordDeployments(this.completedDeployments(results), environmentName);
+
       return {
         content: [
           {
             type: 'text',
-            text: output,
+            text: this.formatDeploySummary(results, changedFiles.length, options, target),
           },
         ],
       };
@@ -373,11 +420,10 @@ export class N8nManager {
   /**
    * Deploy all workflows in parallel
    */
-  async deployAllWorkflows(options: {
-    activate?: boolean;
-    separate?: boolean;
-  } = {}): Promise<any> {
+  async deployAllWorkflows(options: DeployOptions = {}): Promise<any> {
     try {
+      const target = await this.resolveTarget(options.environment);
+
       // Find the flows directory intelligently
       let flowsPath: string = '';
       const possiblePaths = [
@@ -419,116 +465,27 @@ export class N8nManager {
         };
       }
       
+      // Refresh hashes so the recorded deployment matches what gets compiled
+      await this.changeTracker.scanWorkflows();
+
       // Deploy all workflows in parallel
-      const deployPromises = workflowFiles.map(async (file) => {
-        const fullPath = path.join(flowsPath, file);
-        
-        // Create a temporary file for the compiled workflow
-        // Use a simpler name to avoid path issues
-        const tempFileName = `deploy_${Date.now()}_${file.replace(/[^a-z0-9.-]/gi, '_')}`;
-        const tempPath = path.join('/tmp', tempFileName);
-        
-        try {
-          // Compile the workflow (inject external code/prompts)
-          console.error(`Compiling: ${fullPath}`);
-          const workflow = await this.compiler.compileWorkflow(fullPath);
-          
-          // Write compiled workflow to temp file
-          await fs.writeFile(tempPath, JSON.stringify(workflow, null, 2));
-          console.error(`Written to temp: ${tempPath}`);
-          
-          // Build command for this workflow using the compiled temp file
-          // Use --force flag to update existing workflows
-          let command = `n8n import:workflow --input="${tempPath}" --force`;
-
-          if (options.activate) {
-            command += ' --activate';
-          }
-          
-          console.error(`Executing command for ${file}: ${command}`);
-          const { stdout, stderr } = await execAsync(command);
-          
-          // Clean up temp file
-          await fs.unlink(tempPath).catch(() => {});
-          
-          // Log raw output for debugging
-          console.error(`[${file}] stdout: ${stdout}`);
-          console.error(`[${file}] stderr: ${stderr}`);
-          
-          if (this.hasRealError(stderr, stdout)) {
-            console.error(`[${file}] Detected real error in deployment`);
-            return { file, status: 'failed', error: stderr };
-          }
-          
-          // Check for success indicators
-          const isSuccess = stdout?.includes('Successfully imported') || 
-                           stderr?.includes('Successfully imported') ||
-                           stderr?.includes('Importing');
-          
-          if (!isSuccess && !stdout && !stderr) {
-            console.error(`[${file}] No output from import command - possible silent failure`);
-            return { file, status: 'failed', error: 'No output from import command' };
-          }
-          
-          // Log success with any warnings
-          if (stderr && !this.hasRealError(stderr, stdout)) {
-            console.error(`[${file}] Deployed with warnings: ${stderr}`);
-          } else {
-            console.error(`[${file}] Deployed successfully`);
-          }
-          
-          return { file, status: 'success', output: stdout || stderr || 'Import completed' };
-        } catch (error: any) {
-          // Clean up temp file on error
-          await fs.unlink(tempPath).catch(() => {});
-          console.error(`Failed to deploy ${file}: ${error.message}`);
-          return { file, status: 'failed', error: error.message };
-        }
-      });
-      
-      // Wait for all deployments to complete
-      const results = await Promise.all(deployPromises);
-      
-      // Format results
-      const successful = results.filter(r => r.status === 'success');
-      const failed = results.filter(r => r.status === 'failed');
-      
+      const results = await Promise.all(
+        workflowFiles.map(file => this.deployFile(path.join(flowsPath, file), options, target))
+      );
+
+      // Record deployments for workflows tracked by the change tracker
+      await this.recordDeployments(this.completedDeployments(results), target.environment.name);
+
       console.error(`\n=== Deployment Summary ===`);
       console.error(`Total workflows: ${workflowFiles.length}`);
-      console.error(`Successful: ${successful.length}`);
-      console.error(`Failed: ${failed.length}`);
-      console.error(`Results:`, JSON.stringify(results, null, 2));
-      
-      let output = `🚀 Deployed ${successful.length}/${workflowFiles.length} workflows\n\n`;
-      
-      if (successful.length > 0) {
-        output += '✅ Successfully deployed:\n';
-        for (const result of successful) {
-          output += `  • ${result.file}\n`;
-        }
-      }
-      
-      if (failed.length > 0) {
-        output += '\n❌ Failed to deploy:\n';
-        for (const result of failed) {
-          // Extract meaningful error message
-          const errorMsg = result.error || 'Unknown error';
-          const shortError = errorMsg.split('\n')[0].substring(0, 100);
-          output += `  • ${result.file}: ${shortError}\n`;
-          
-          // Log full error to console for debugging
-          console.error(`Full error for ${result.file}:`, result.error);
-        }
-      }
-      
-      output += `\n${options.activate ? '▶️ Status: All activated' : '⏸️ Status: Not activated'}`;
-      output += `\n${options.separate ? '📦 Mode: Separate execution' : '📦 Mode: Standard'}`;
-      
+      console.error(`Successful: ${results.filter(r => r.status === 'success').length}`);
+      console.error(`Failed: ${results.filter(r => r.status === 'failed').length}`);
+
       return {
         content: [
           {
             type: 'text',
-            text: output,
+            text: this.formatDeploySummary(results, workflowFiles.length, options, target),
           },
         ],
       };
@@ -538,222 +495,451 @@ export class N8nManager {
   }
 
   /**
-   * Export workflows from n8n
+   * List workflow files under flows/ relative to the workflows directory
    */
-  async exportWorkflow(options: {
-    id?: string;
+  private async listWorkflowFiles(): Promise<string[]> {
+    const flowsDir = path.join(this.workflowsPath, 'flows');
+    const files = await fs.readdir(flowsDir).catch(() => [] as string[]);
+    return files
+      .filter(f => f.endsWith('.json') && !f.includes('package.json'))
+      .map(f => path.join('flows', f));
+  }
+
+  /**
+   * Preview a deployment without pushing anything to n8n
+   */
+  async planDeployment(options: {
+    path?: string;
     all?: boolean;
-    outputPath?: string;
-    pretty?: boolean;
+    activate?: boolean;
+    environment?: string;
   } = {}): Promise<any> {
     try {
-      const outputDir = options.outputPath || path.join(this.workflowsPath, 'flows');
-      
-      // Ensure output directory exists
-      await fs.mkdir(outputDir, { recursive: true });
-      
-      // Build command - n8n requires a file path, not directory
-      let command = 'n8n export:workflow';
-      
-      if (options.all) {
-        // For all workflows, we need to export to a temp file and process
-        const tempFile = path.join('/tmp', `n8n-export-${Date.now()}.json`);
-        command += ` --all --output="${tempFile}"`;
-        
-        if (options.pretty !== false) {
-          command += ' --pretty';
-        }
-        
-        console.error(`Executing: ${command}`);
-        const { stdout, stderr } = await execAsync(command);
-        
-        if (this.hasRealError(stderr, stdout)) {
-          throw new Error(stderr);
-        }
-        
-        // Read the exported data
-        const exportedData = await fs.readFile(tempFile, 'utf-8');
-        const workflows = JSON.parse(exportedData);
-        
-        // Save each workflow separately, preserving ID
-        for (const workflow of workflows) {
-          const fileName = `${workflow.name.toLowerCase().replace(/\s+/g, '-')}.json`;
-          const filePath = path.join(outputDir, fileName);
-          
-          // Store the full workflow object with ID
-          await fs.writeFile(filePath, JSON.stringify(workflow, null, 2));
-        }
-        
-        // Clean up temp file
-        await fs.unlink(tempFile).catch(() => {});
-        
+      const target = await this.resolveTarget(options.environment);
+
+      let files: string[];
+      if (options.path) {
+        files = [path.relative(this.workflowsPath, this.resolveWorkflowPath(options.path))];
+      } else if (options.all) {
+        files = await this.listWorkflowFiles();
+      } else {
+        files = await this.changeTracker.getChangedWorkflows(target.environment.name);
+      }
+
+      if (files.length === 0) {
+        await deletePlan(this.workflowsPath);
         return {
           content: [{
             type: 'text',
-            text: `✅ Exported ${workflows.length} workflows to ${outputDir}`
+            text: `✨ No changed workflows to plan for ${target.environment.name}.`
           }]
         };
-      } else if (options.id) {
-        // For single workflow, export directly
-        const tempFile = path.join('/tmp', `n8n-export-${Date.now()}.json`);
-        command += ` --id=${options.id} --output="${tempFile}"`;
-        
-        if (options.pretty !== false) {
-          command += ' --pretty';
+      }
+
+      const plan = await createDeploymentPlan({
+        workflowsPath: this.workflowsPath,
+        files,
+        compiler: this.compiler,
+        transport: target.transport,
+        environment: target.environment,
+        activate: options.activate,
+      });
+      await savePlan(this.workflowsPath, plan);
+
+      return {
+        content: [{
+          type: 'text',
+          text: formatDeploymentPlan(plan)
+        }]
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to create deployment plan: ${error.message}`);
+    }
+  }
+
+  /**
+   * Deploy exactly what the saved plan showed
+   */
+  async applyPlan(options: { environment?: string } = {}): Promise<any> {
+    try {
+      const plan = await loadPlan(this.workflowsPath);
+      if (!plan) {
+        return {
+          content: [{
+            type: 'text',
+            text: '❌ No saved plan found. Run "McFlow plan" first.'
+          }]
+        };
+      }
+      if (options.environment && options.environment !== plan.environment) {
+        throw new Error(`Saved plan targets "${plan.environment}", not "${options.environment}"`);
+      }
+
+      const target = await this.resolveTarget(plan.environment);
+
+      // Verify neither side moved since the plan was made
+      const problems: string[] = [];
+      const compiled = new Map<string, any>();
+      for (const planned of plan.workflows) {
+        const workflow = await compileForEnvironment(
+          this.compiler,
+          path.join(this.workflowsPath, planned.path),
+          target.environment
+        );
+        compiled.set(planned.path, workflow);
+
+        if (hashCompiledWorkflow(workflow) !== planned.compiledHash) {
+          problems.push(`${planned.path}: local files changed since the plan was created`);
+          continue;
         }
-        
-        console.error(`Executing: ${command}`);
-        const { stdout, stderr } = await execAsync(command);
-        
-        if (this.hasRealError(stderr, stdout)) {
-          throw new Error(stderr);
+
+        const deployed = planned.remoteId
+          ? await target.transport.getWorkflow(planned.remoteId)
+          : await findDeployedWorkflow(target.transport, workflow);
+        if (planned.action === 'create' && deployed) {
+          problems.push(`${planned.path}: workflow now exists in n8n (id ${deployed.id})`);
+        } else if (planned.action !== 'create' && !deployed) {
+          problems.push(`${planned.path}: deployed workflow ${planned.remoteId} no longer exists`);
+        } else if (planned.remoteUpdatedAt && deployed?.updatedAt !== planned.remoteUpdatedAt) {
+          problems.push(`${planned.path}: workflow was modified in n8n since the plan was created`);
         }
-        
-        // Read the exported data
-        const exportedData = await fs.readFile(tempFile, 'utf-8');
-        const workflows = JSON.parse(exportedData);
-        const workflow = Array.isArray(workflows) ? workflows[0] : workflows;
-        
-        // Save with the workflow's name, preserving ID
-        const fileName = `${workflow.name.toLowerCase().replace(/\s+/g, '-')}.json`;
-        const filePath = path.join(outputDir, fileName);
-        
-        // Store the full workflow object with ID
-        await fs.writeFile(filePath, JSON.stringify(workflow, null, 2));
-        
-        // Clean up temp file
-        await fs.unlink(tempFile).catch(() => {});
-        
+      }
+
+      if (problems.length > 0) {
         return {
           content: [{
             type: 'text',
-            text: `✅ Exported workflow: ${workflow.name}\n` +
-                  `📁 File: ${fileName}\n` +
-                  `🆔 ID: ${workflow.id}`
+            text: '❌ Saved plan is stale - nothing was deployed.\n\n' +
+                  problems.map(p => `  • ${p}`).join('\n') +
+                  '\n\n💡 Run "McFlow plan" again to review the current changes.'
           }]
         };
       }
-      
-      // If no specific options, show error
+
+      const applied: CompletedDeployment[] = [];
+      const failed: string[] = [];
+      let created = 0;
+      let updated = 0;
+      for (const planned of plan.workflows) {
+        if (planned.action === 'unchanged') {
+          applied.push({ relativePath: planned.path });
+          continue;
+        }
+        try {
+          const workflow = compiled.get(planned.path);
+          this.checkWorkflowCalls(workflow);
+          const result = await target.transport.importWorkflow(workflow, { activate: plan.activate });
+          applied.push({ relativePath: planned.path, workflow, remoteId: result.id });
+          if (planned.action === 'create') {
+            created++;
+          } else {
+            updated++;
+          }
+        } catch (error: any) {
+          failed.push(`${planned.path}: ${error.message.split('\n')[0]}`);
+        }
+      }
+
+      await this.recordDeployments(applied, target.environment.name);
+      if (failed.length === 0) {
+        await deletePlan(this.workflowsPath);
+      }
+
+      let output = `${failed.length === 0 ? '✅' : '⚠️'} Apply complete! ` +
+                   `${created} created, ${updated} updated, ${failed.length} failed.\n` +
+                   `🔌 Target: ${target.transport.describe()}\n` +
+                   this.environmentLabel(target);
+      if (failed.length > 0) {
+        output += '\n❌ Failed:\n' + failed.map(f => `  • ${f}`).join('\n') + '\n';
+      }
+
       return {
         content: [{
           type: 'text',
-          text: '❌ Please specify either --id or --all for export'
+          text: output
         }]
       };
     } catch (error: any) {
-      throw new Error(`Failed to export workflow: ${error.message}`);
+      throw new Error(`Failed to apply deployment plan: ${error.message}`);
     }
   }
 
   /**
-   * List all credentials from n8n with their IDs
+   * Show archived deployments
    */
-  async listCredentials(): Promise<any> {
+  async listDeploymentHistory(options: { path?: string; environment?: string; limit?: number } = {}): Promise<any> {
     try {
-      // Try different credential listing approaches
-      // First try the credentials list command
-      let command = 'n8n credential:list';
-      console.error(`Executing: ${command}`);
-
-      let stdout: string;
-      let stderr: string;
+      const workflowPath = options.path
+        ? path.relative(this.workflowsPath, this.resolveWorkflowPath(options.path))
+        : undefined;
+      const deployments = await this.history.list({ workflowPath, environment: options.environment });
+      const shown = deployments.slice(0, options.limit || 20);
 
-      try {
-        ({ stdout, stderr } = await execAsync(command, {
-          timeout: 10000,
-        }));
-      } catch (error: any) {
-        // If that fails, try alternative command
-        console.error('credential:list failed, trying list:credential');
-        command = 'n8n list:credential';
-        try {
-          ({ stdout, stderr } = await execAsync(command, {
-            timeout: 10000,
-          }));
-        } catch (error2: any) {
-          // If both fail, provide helpful message
-          throw new Error(
-            'Unable to list credentials via n8n CLI. ' +
-            'Please check credentials manually in n8n UI at http://localhost:5678/credentials'
-          );
+      let output = `🕘 Deployment History (${shown.length} of ${deployments.length}):\n\n`;
+      if (deployments.length === 0) {
+        output += 'No archived deployments found.\n';
+      }
+      for (const deployment of shown) {
+        output += `• ${deployment.revision}\n`;
+        output += `  📁 ${deployment.workflowPath} → ${deployment.environment}`;
+        output += `${deployment.remoteId ? ` (id ${deployment.remoteId})` : ''}\n`;
+        output += `  📅 ${new Date(deployment.deployedAt).toLocaleString()}`;
+        if (deployment.gitCommit) {
+          output += ` | git ${deployment.gitCommit.substring(0, 8)}${deployment.gitDirty ? ' (uncommitted changes)' : ''}`;
+        }
+        output += '\n';
+        if (deployment.rollbackOf) {
+          output += `  ↩️ Rollback to ${deployment.rollbackOf}\n`;
+        }
+        if (deployment.pulled) {
+          output += '  ⬇️ Pulled from n8n\n';
         }
       }
+      if (deployments.length > 0) {
+        output += '\n💡 Run "McFlow rollback" with a workflow path and revision to redeploy it';
+      }
 
-      if (this.hasRealError(stderr, stdout)) {
-        throw new Error(stderr);
+      return {
+        content: [{
+          type: 'text',
+          text: output
+        }]
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to list deployment history: ${error.message}`);
+    }
+  }
+
+  /**
+   * Newest revision that differs from the live one, skipping revisions a
+   * rollback already undid so rolling back twice doesn't bring them back
+   */
+  private previousRevision(deployments: ArchivedDeployment[]): ArchivedDeployment | undefined {
+    if (deployments.length === 0) return undefined;
+    const current = hashCompiledWorkflow(deployments[0].workflow);
+
+    for (let index = 0; index < deployments.length; index++) {
+      const deployment = deployments[index];
+      if (hashCompiledWorkflow(deployment.workflow) !== current) {
+        return deployment;
       }
+      if (deployment.rollbackOf) {
+        const target = deployments.findIndex(d => d.revision === deployment.rollbackOf);
+        if (target > index) index = target;
+      }
+    }
+    return undefined;
+  }
 
-      // Parse the output - n8n outputs credentials as a table or JSON
-      const lines = stdout.split('\n').filter(line => line.trim());
-      const credentials: Array<{id: string, name: string, type: string}> = [];
+  /**
+   * Redeploy an archived revision of a workflow
+   * Without a revision, rolls back to the newest deployment that differs from the live one
+   */
+  async rollbackWorkflow(options: { path: string; revision?: string; environment?: string }): Promise<any> {
+    try {
+      if (!options.path) {
+        throw new Error('Workflow path is required');
+      }
 
-      // Try to parse as JSON first
-      try {
-        const parsed = JSON.parse(stdout);
-        if (Array.isArray(parsed)) {
-          return parsed;
+      const target = await this.resolveTarget(options.environment);
+      const environmentName = target.environment.name;
+      const workflowPath = path.relative(this.workflowsPath, this.resolveWorkflowPath(options.path));
+
+      let revision;
+      if (options.revision) {
+        revision = await this.history.get(workflowPath, options.revision);
+        if (!revision) {
+          throw new Error(`Revision ${options.revision} not found for ${workflowPath}`);
         }
-      } catch {
-        // Not JSON, parse as table
-        // Skip header lines, typically starts with "ID" or similar
-        let inData = false;
-        for (const line of lines) {
-          if (line.includes('ID') && line.includes('Name')) {
-            inData = true;
-            continue;
-          }
-          if (inData && line.trim()) {
-            // Parse table row - format is typically: ID | Name | Type | ...
-            const parts = line.split(/\s{2,}|\t|\|/).map(s => s.trim()).filter(s => s);
-            if (parts.length >= 2) {
-              credentials.push({
-                id: parts[0],
-                name: parts[1],
-                type: parts[2] || 'unknown'
-              });
-            }
-          }
+        if (revision.environment !== environmentName) {
+          throw new Error(
+            `Revision ${options.revision} was deployed to "${revision.environment}", not "${environmentName}"`
+          );
+        }
+      } else {
+        const deployments = await this.history.list({ workflowPath, environment: environmentName });
+        revision = this.previousRevision(deployments);
+        if (!revision) {
+          throw new Error(`No previous deployment of ${workflowPath} to "${environmentName}" to roll back to`);
         }
       }
 
-      return credentials;
+      const result = await target.transport.importWorkflow(revision.workflow);
+
+      // Restore the tracker snapshot so status compares local files against what is live again
+      if (revision.tracker) {
+        await this.changeTracker.restoreDeployment(workflowPath, environmentName, revision.tracker);
+      }
+      await this.history.record({
+        workflowPath,
+        environment: environmentName,
+        workflow: revision.workflow,
+        remoteId: result.id,
+        rollbackOf: revision.revision,
+        tracker: revision.tracker,
+      });
+
+      return {
+        content: [{
+          type: 'text',
+          text: `↩️ Rolled back ${workflowPath} to revision ${revision.revision}\n\n` +
+                `📅 Originally deployed: ${new Date(revision.deployedAt).toLocaleString()}\n` +
+                `${revision.gitCommit ? `🔖 Git commit: ${revision.gitCommit.substring(0, 8)}\n` : ''}` +
+                `${result.id ? `🆔 ID: ${result.id}\n` : ''}` +
+                `🔌 Target: ${target.transport.describe()}\n` +
+                this.environmentLabel(target) +
+                '\n💡 Local files are unchanged - "McFlow status" will show the workflow as modified until redeployed'
+        }]
+      };
     } catch (error: any) {
-      // If CLI doesn't work, try using the API
-      console.error('CLI approach failed, trying API approach');
+      throw new Error(`Failed to roll back workflow: ${error.message}`);
+    }
+  }
 
-      try {
-        // Use curl to access n8n API (if available)
-        const apiCommand = 'curl -s http://localhost:5678/rest/credentials';
-        const { stdout: apiOutput } = await execAsync(apiCommand, {
-          timeout: 5000,
-        });
+  /**
+   * Pull edits made in the n8n editor back into the files under nodes/
+   */
+  async pullWorkflow(options: { path: string; environment?: string; dryRun?: boolean; force?: boolean }): Promise<any> {
+    try {
+      if (!options.path) {
+        throw new Error('Workflow path is required');
+      }
+
+      const target = await this.resolveTarget(options.environment);
+      const environmentName = target.environment.name;
+      const fullPath = this.resolveWorkflowPath(options.path);
+      const workflowPath = path.relative(this.workflowsPath, fullPath);
 
-        const apiCredentials = JSON.parse(apiOutput);
-        if (Array.isArray(apiCredentials.data)) {
-          return apiCredentials.data.map((cred: any) => ({
-            id: cred.id,
-            name: cred.name,
-            type: cred.type
-          }));
+      const source = JSON.parse(await fs.readFile(fullPath, 'utf-8'));
+      const local = await compileForEnvironment(this.compiler, fullPath, target.environment);
+      const remote = await findDeployedWorkflow(target.transport, local);
+      if (!remote) {
+        throw new Error(`Workflow "${local.name}" is not deployed to ${target.transport.describe()}`);
+      }
+
+      const [lastDeployment] = await this.history.list({ workflowPath, environment: environmentName });
+      const sync = await compareWorkflowSync({
+        workflowsPath: this.workflowsPath,
+        source,
+        local,
+        remote,
+        base: lastDeployment?.workflow || null,
+        nodeManager: this.nodeManager,
+        force: options.force,
+      });
+
+      const updates = sync.references.flatMap(r => r.updates);
+      const conflicts = sync.references.filter(r => r.status === 'conflict');
+      let recorded = false;
+
+      if (!options.dryRun && updates.length > 0) {
+        await applyFileUpdates(this.workflowsPath, updates);
+
+        // Once the local files reproduce the deployed workflow, record it as the new baseline
+        const recompiled = await compileForEnvironment(this.compiler, fullPath, target.environment);
+        if (conflicts.length === 0 && !hasChanges(diffWorkflows({ ...remote, active: undefined }, recompiled))) {
+          await this.changeTracker.scanWorkflows();
+          await this.recordDeployments(
+            [{ relativePath: workflowPath, workflow: recompiled, remoteId: String(remote.id), pulled: true }],
+            environmentName
+          );
+          recorded = true;
         }
-      } catch (apiError) {
-        console.error('API approach also failed');
       }
 
-      // If n8n is not running or command fails
-      if (error.message.includes('command not found')) {
-        throw new Error('n8n CLI is not installed');
+      let output = `⬇️ Pull ${workflowPath} from ${target.transport.describe()}${options.dryRun ? ' (dry run)' : ''}\n`;
+      output += `${this.environmentLabel(target)}\n`;
+      output += formatWorkflowSync(sync, !!options.dryRun);
+
+      output += `\n${updates.length} file${updates.length === 1 ? '' : 's'} ${options.dryRun ? 'to update' : 'updated'}, ` +
+                `${conflicts.length} conflict${conflicts.length === 1 ? '' : 's'}.\n`;
+      if (conflicts.length > 0) {
+        output += '💡 Resolve conflicts by editing the files, or pull with force to take the n8n version\n';
       }
-      if (error.message.includes('connect')) {
-        throw new Error('n8n is not running. Start it with: n8n start');
+      if (recorded) {
+        output += '✅ Local files now match the deployed workflow\n';
       }
 
+      return {
+        content: [{
+          type: 'text',
+          text: output
+        }]
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to pull workflow: ${error.message}`);
+    }
+  }
+
+  /**
+   * Export workflows from n8n
+   */
+  async exportWorkflow(options: {
+    id?: string;
+    all?: boolean;
+    outputPath?: string;
+    pretty?: boolean;
+  } = {}): Promise<any> {
+    try {
+      if (!options.id && !options.all) {
+        return {
+          content: [{
+            type: 'text',
+            text: '❌ Please specify either --id or --all for export'
+          }]
+        };
+      }
+
+      const outputDir = options.outputPath || path.join(this.workflowsPath, 'flows');
+      
+      // Ensure output directory exists
+      await fs.mkdir(outputDir, { recursive: true });
+
+      const workflows = await this.transport.exportWorkflows({ id: options.id, all: options.all });
+      const indent = options.pretty === false ? undefined : 2;
+      const written: string[] = [];
+
+      // Save each workflow separately, preserving ID
+      for (const workflow of workflows) {
+        const fileName = `${workflow.name.toLowerCase().replace(/\s+/g, '-')}.json`;
+        await fs.writeFile(path.join(outputDir, fileName), JSON.stringify(workflow, null, indent));
+        written.push(fileName);
+      }
+
+      if (options.all) {
+        return {
+          content: [{
+            type: 'text',
+            text: `✅ Exported ${workflows.length} workflows to ${outputDir}`
+          }]
+        };
+      }
+
+      const [workflow] = workflows;
+      return {
+        content: [{
+          type: 'text',
+          text: `✅ Exported workflow: ${workflow.name}\n` +
+                `📁 File: ${written[0]}\n` +
+                `🆔 ID: ${workflow.id}`
+        }]
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to export workflow: ${error.message}`);
+    }
+  }
+
+  /**
+   * List all credentials from n8n with their IDs
+   */
+  async listCredentials(): Promise<any> {
+    try {
+      return await this.transport.listCredentials();
+    } catch (error: any) {
       // Return informative error
       throw new Error(
-        'Unable to list credentials. The n8n CLI may not support this command. ' +
-        'Please check your credentials manually in the n8n UI at http://localhost:5678/credentials\n\n' +
-        'To find credential IDs:\n' +
+        `Unable to list credentials: ${error.message}\n\n` +
+        'To find credential IDs manually:\n' +
         '1. Open n8n UI\n' +
         '2. Go to Credentials\n' +
         '3. Click on a credential\n' +
@@ -762,6 +948,36 @@ export class N8nManager {
     }
   }
 
+  /**
+   * List recent executions from n8n
+   */
+  async listExecutions(options: { workflowId?: string; limit?: number } = {}): Promise<any> {
+    try {
+      const executions = await this.transport.listExecutions(options);
+
+      let output = `📜 Recent Executions (${executions.length}):\n\n`;
+      if (executions.length === 0) {
+        output += 'No executions found.\n';
+      }
+      for (const execution of executions) {
+        const icon = execution.status === 'success' ? '✅' : execution.status === 'error' ? '❌' : '⏳';
+        output += `${icon} [${execution.id}] workflow ${execution.workflowId || '?'} - ${execution.status}`;
+        output += `${execution.startedAt ? ` (${new Date(execution.startedAt).toLocaleString()})` : ''}\n`;
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: output,
+          },
+        ],
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to list executions: ${error.message}`);
+    }
+  }
+
   /**
    * Execute a workflow in n8n
    */
@@ -801,7 +1017,7 @@ export class N8nManager {
         await fs.unlink(dataFile).catch(() => {});
       }
       
-      if (this.hasRealError(stderr, stdout)) {
+      if (hasRealError(stderr, stdout)) {
         throw new Error(stderr);
       }
 
@@ -832,56 +1048,19 @@ export class N8nManager {
   /**
    * List workflows in n8n instance
    */
-  async listDeployedWorkflows(): Promise<any> {
+  async listDeployedWorkflows(environment?: string): Promise<any> {
     try {
-      const command = 'n8n list:workflow --all';
-      
-      console.error(`Executing: ${command}`);
-      const { stdout, stderr } = await execAsync(command);
-      
-      if (this.hasRealError(stderr, stdout)) {
-        throw new Error(stderr);
-      }
-
-      // Parse the output - format is "id|name"
-      const lines = stdout.split('\n').filter(line => line.trim() && !line.includes('deprecation'));
-      const workflows = [];
-      
-      // Get active workflow IDs for status
-      let activeIds: string[] = [];
-      try {
-        const activeCommand = 'n8n list:workflow --active=true --onlyId';
-        const { stdout: activeStdout } = await execAsync(activeCommand);
-        activeIds = activeStdout.split('\n').filter(id => id.trim()).map(id => id.trim());
-      } catch {
-        // If we can't get active status, continue without it
-      }
-      
-      for (const line of lines) {
-        // Skip warning lines
-        if (line.includes('There are deprecations') || line.includes('DB_SQLITE') || line.includes('N8N_RUNNERS')) {
-          continue;
-        }
-        
-        // Parse n8n list output format: id|name
-        const parts = line.split('|');
-        if (parts.length >= 2) {
-          const id = parts[0].trim();
-          workflows.push({
-            id: id,
-            name: parts[1].trim(),
-            status: activeIds.includes(id) ? 'active' : 'inactive',
-          });
-        }
-      }
+      const target = await this.resolveTarget(environment);
+      const workflows = await target.transport.listWorkflows();
 
-      let output = `📋 Deployed Workflows (${workflows.length}):\n\n`;
+      let output = `📋 Deployed Workflows (${workflows.length}):\n`;
+      output += `${this.environmentLabel(target)}\n`;
       
       if (workflows.length === 0) {
         output += 'No workflows found in n8n instance.\n';
       } else {
         for (const wf of workflows) {
-          const statusIcon = wf.status === 'active' ? '🟢' : '⚪';
+          const statusIcon = wf.active ? '🟢' : '⚪';
           output += `${statusIcon} [${wf.id}] ${wf.name}\n`;
         }
       }
@@ -902,18 +1081,10 @@ export class N8nManager {
   /**
    * Activate or deactivate a workflow
    */
-  async updateWorkflowStatus(id: string, activate: boolean): Promise<any> {
+  async updateWorkflowStatus(id: string, activate: boolean, environment?: string): Promise<any> {
     try {
-      const command = activate 
-        ? `n8n update:workflow --id=${id} --activate`
-        : `n8n update:workflow --id=${id} --deactivate`;
-      
-      console.error(`Executing: ${command}`);
-      const { stdout, stderr } = await execAsync(command);
-      
-      if (this.hasRealError(stderr, stdout)) {
-        throw new Error(stderr);
-      }
+      const target = await this.resolveTarget(environment);
+      await target.transport.setWorkflowActive(id, activate);
 
       return {
         content: [
@@ -921,6 +1092,7 @@ export class N8nManager {
             type: 'text',
             text: `✅ Workflow ${activate ? 'activated' : 'deactivated'} successfully!\n\n` +
                   `🆔 Workflow ID: ${id}\n` +
+                  this.environmentLabel(target) +
                   `${activate ? '▶️ Status: Active' : '⏸️ Status: Inactive'}\n`,
           },
         ],
@@ -931,17 +1103,10 @@ export class N8nManager {
   }
 
   /**
-   * Check if n8n CLI is available
+   * Check if the configured n8n transport is available
    */
   async checkN8nAvailability(): Promise<boolean> {
-    try {
-      const { stdout } = await execAsync('n8n --version');
-      console.error(`n8n CLI version: ${stdout.trim()}`);
-      return true;
-    } catch {
-      console.error('n8n CLI not found. Install with: npm install -g n8n');
-      return false;
-    }
+    return await this.transport.isAvailable();
   }
 
   /**
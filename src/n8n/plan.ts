@@ -0,0 +1,165 @@
+/**
+ * Deployment Plans
+ *
+ * A plan compiles each workflow, fetches the deployed copy and records a
+ * semantic diff without touching n8n. Plans are saved to .mcflow/plan.json
+ * and only pushed when applied; apply refuses to run if the compiled output
+ * or the deployed workflow changed since the plan was made.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { WorkflowCompiler } from '../workflows/compiler.js';
+import { WorkflowDiff, diffWorkflows, hasChanges, formatWorkflowDiff } from '../workflows/diff.js';
+import { N8nTransport, findDeployedWorkflow } from './transport.js';
+import { ResolvedEnvironment, applyEnvironment } from './environments.js';
+
+export const PLAN_FILE = path.join('.mcflow', 'plan.json');
+
+export type PlanAction = 'create' | 'update' | 'unchanged';
+
+export interface PlannedWorkflow {
+  path: string;
+  name: string;
+  action: PlanAction;
+  compiledHash: string;
+  remoteId?: string;
+  remoteUpdatedAt?: string;
+  diff: WorkflowDiff;
+}
+
+export interface DeploymentPlan {
+  createdAt: string;
+  environment: string;
+  target: string;
+  activate: boolean;
+  workflows: PlannedWorkflow[];
+}
+
+/**
+ * Hash a compiled workflow, ignoring the timestamps the compiler adds
+ */
+export function hashCompiledWorkflow(workflow: any): string {
+  const { updatedAt, createdAt, ...stable } = workflow;
+  return crypto.createHash('sha256').update(JSON.stringify(stable)).digest('hex');
+}
+
+/**
+ * Compile a workflow file for an environment
+ */
+export async function compileForEnvironment(
+  compiler: WorkflowCompiler,
+  fullPath: string,
+  environment: ResolvedEnvironment
+): Promise<any> {
+  const compiled = await compiler.compileWorkflow(fullPath);
+  return applyEnvironment(compiled, environment);
+}
+
+/**
+ * Build a plan for the given workflow files (relative to the workflows directory)
+ */
+export async function createDeploymentPlan(options: {
+  workflowsPath: string;
+  files: string[];
+  compiler: WorkflowCompiler;
+  transport: N8nTransport;
+  environment: ResolvedEnvironment;
+  activate?: boolean;
+}): Promise<DeploymentPlan> {
+  const workflows: PlannedWorkflow[] = [];
+
+  for (const file of options.files) {
+    const desired = await compileForEnvironment(
+      options.compiler,
+      path.join(options.workflowsPath, file),
+      options.environment
+    );
+    const deployed = await findDeployedWorkflow(options.transport, desired);
+
+    // Activation only changes when requested; the CLI import leaves workflows inactive
+    const desiredActive = options.activate
+      ? true
+      : options.transport.kind === 'cli' ? false : !!deployed?.active;
+    const diff = diffWorkflows(deployed, { ...desired, active: desiredActive });
+
+    workflows.push({
+      path: file,
+      name: desired.name,
+      action: !deployed ? 'create' : hasChanges(diff) ? 'update' : 'unchanged',
+      compiledHash: hashCompiledWorkflow(desired),
+      remoteId: deployed?.id !== undefined ? String(deployed.id) : undefined,
+      remoteUpdatedAt: deployed?.updatedAt,
+      diff,
+    });
+  }
+
+  return {
+    createdAt: new Date().toISOString(),
+    environment: options.environment.name,
+    target: options.transport.describe(),
+    activate: !!options.activate,
+    workflows,
+  };
+}
+
+/**
+ * Render a plan like `terraform plan`
+ */
+export function formatDeploymentPlan(plan: DeploymentPlan): string {
+  const counts = { create: 0, update: 0, unchanged: 0 };
+  let output = `📋 Deployment plan for ${plan.environment} (${plan.target})\n\n`;
+
+  const pending = plan.workflows.filter(w => w.action !== 'unchanged');
+  if (pending.length > 0) {
+    output += 'McFlow will perform the following actions:\n\n';
+  }
+
+  for (const workflow of plan.workflows) {
+    counts[workflow.action]++;
+    if (workflow.action === 'create') {
+      output += `  # ${workflow.path} will be created\n`;
+      output += `  + workflow "${workflow.name}"\n`;
+    } else if (workflow.action === 'update') {
+      output += `  # ${workflow.path} will be updated in-place\n`;
+      output += `  ~ workflow "${workflow.name}" (id ${workflow.remoteId})\n`;
+    } else {
+      continue;
+    }
+
+    const details = formatWorkflowDiff(workflow.diff);
+    if (details) {
+      output += `${details}\n`;
+    }
+    output += '\n';
+  }
+
+  if (pending.length === 0) {
+    output += 'No changes. Deployed workflows match the local configuration.\n\n';
+  }
+
+  output += `Plan: ${counts.create} to create, ${counts.update} to update, ${counts.unchanged} unchanged.\n`;
+  if (pending.length > 0) {
+    output += '\n💡 Nothing has been deployed. Run "McFlow apply" to push this plan.\n';
+  }
+  return output;
+}
+
+export async function savePlan(workflowsPath: string, plan: DeploymentPlan): Promise<void> {
+  const planPath = path.join(workflowsPath, PLAN_FILE);
+  await fs.mkdir(path.dirname(planPath), { recursive: true });
+  await fs.writeFile(planPath, JSON.stringify(plan, null, 2));
+}
+
+export async function loadPlan(workflowsPath: string): Promise<DeploymentPlan | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(workflowsPath, PLAN_FILE), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+export async function deletePlan(workflowsPath: string): Promise<void> {
+  await fs.unlink(path.join(workflowsPath, PLAN_FILE)).catch(() => {});
+}
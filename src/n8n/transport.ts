@@ -0,0 +1,137 @@
+/**
+ * n8n Transport Layer
+ *
+ * McFlow talks to n8n through a transport so the same deployment code works
+ * against a local n8n CLI install or a remote instance via the public REST API.
+ * - api: n8n public REST API (/api/v1) authenticated with N8N_API_KEY
+ * - cli: the `n8n` command line, for local installs without an API key
+ */
+
+import { N8nApiTransport } from './api-transport.js';
+import { N8nCliTransport } from './cli-transport.js';
+
+export type TransportKind = 'api' | 'cli';
+
+export interface DeployedWorkflow {
+  id: string;
+  name: string;
+  active: boolean;
+  updatedAt?: string;
+}
+
+export interface CredentialSummary {
+  id: string;
+  name: string;
+  type: string;
+}
+
+export interface ExecutionSummary {
+  id: string;
+  workflowId?: string;
+  status: string;
+  mode?: string;
+  startedAt?: string;
+  stoppedAt?: string;
+}
+
+export interface ImportResult {
+  id?: string;
+  name: string;
+  created: boolean;
+  output?: string;
+}
+
+export interface N8nTransport {
+  readonly kind: TransportKind;
+
+  /**
+   * Human readable description of where this transport points
+   */
+  describe(): string;
+
+  isAvailable(): Promise<boolean>;
+  importWorkflow(workflow: any, options?: { activate?: boolean }): Promise<ImportResult>;
+  listWorkflows(): Promise<DeployedWorkflow[]>;
+  getWorkflow(id: string): Promise<any | null>;
+  exportWorkflows(options: { id?: string; all?: boolean }): Promise<any[]>;
+  setWorkflowActive(id: string, active: boolean): Promise<void>;
+  listCredentials(): Promise<CredentialSummary[]>;
+  listExecutions(options?: { workflowId?: string; limit?: number }): Promise<ExecutionSummary[]>;
+}
+
+export interface TransportConfig {
+  transport?: TransportKind | 'auto';
+  url?: string;
+  apiKey?: string;
+}
+
+export const DEFAULT_N8N_URL = 'http://localhost:5678';
+
+const TRANSPORT_CHOICES: string[] = ['api', 'cli', 'auto'];
+
+/**
+ * Resolve transport settings from explicit overrides and environment variables
+ */
+export function resolveTransportConfig(overrides: TransportConfig = {}): TransportConfig {
+  const requested = overrides.transport || process.env.N8N_TRANSPORT || 'auto';
+  if (!TRANSPORT_CHOICES.includes(requested)) {
+    const source = overrides.transport ? 'transport' : 'N8N_TRANSPORT';
+    throw new Error(`Unknown n8n transport "${requested}" in ${source}; use ${TRANSPORT_CHOICES.join(', ')}`);
+  }
+  const apiKey = overrides.apiKey || process.env.N8N_API_KEY;
+  const url = normalizeBaseUrl(overrides.url || process.env.N8N_API_URL || DEFAULT_N8N_URL);
+
+  let transport = requested as TransportKind | 'auto';
+  if (transport === 'auto') {
+    // Prefer the REST API whenever a key is configured, fall back to the CLI otherwise
+    transport = apiKey ? 'api' : 'cli';
+  }
+
+  return { transport, url, apiKey };
+}
+
+/**
+ * Create a transport for the given configuration
+ */
+export function createTransport(config: TransportConfig = {}): N8nTransport {
+  const resolved = resolveTransportConfig(config);
+
+  if (resolved.transport === 'api') {
+    if (!resolved.apiKey) {
+      throw new Error('N8N_API_KEY is required for the n8n API transport');
+    }
+    return new N8nApiTransport({ baseUrl: resolved.url!, apiKey: resolved.apiKey });
+  }
+
+  return new N8nCliTransport();
+}
+
+/**
+ * Find the deployed copy of a local workflow, first by ID and then by name
+ */
+export async function findDeployedWorkflow(
+  transport: N8nTransport,
+  workflow: { id?: string; name?: string }
+): Promise<any | null> {
+  if (workflow.id) {
+    const byId = await transport.getWorkflow(workflow.id);
+    if (byId) return byId;
+  }
+
+  if (workflow.name) {
+    const deployed = await transport.listWorkflows();
+    const match = deployed.find(w => w.name === workflow.name);
+    if (match) {
+      return await transport.getWorkflow(match.id);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Strip trailing slashes and the /api/v1 suffix so both URL styles work
+ */
+export function normalizeBaseUrl(url: string): string {
+  return url.replace(/\/+$/, '').replace(/\/api\/v1$/, '');
+}
@@ -38,6 +38,12 @@ interface NodeMetadata {
   updatedAt: string;
 }
 
+// A node file moving to another workflow's folder, relative to the workflows directory
+export interface NodeFileMove {
+  from: string;
+  to: string;
+}
+
 export class NodeManager {
   private workflowsPath: string;
   private nodesBasePath: string;
@@ -729,6 +735,14 @@ Generated by McFlow - DO NOT EDIT THIS HEADER
     }
   }
 
+  /**
+   * Split an extracted node file into its McFlow header and body
+   */
+  splitHeader(relativeFilePath: string, content: string): { header: string; body: string } {
+    const body = this.removeHeader(content, this.getNodeTypeFromPath(relativeFilePath), relativeFilePath);
+    return { header: content.substring(0, content.length - body.length), body };
+  }
+
   private removeHeader(content: string, nodeType: NodeType, filePath: string): string {
     switch (nodeType) {
       case 'code':
@@ -809,6 +823,123 @@ Generated by McFlow - DO NOT EDIT THIS HEADER
     await fs.writeFile(this.metadataFile, JSON.stringify(metadata, null, 2));
   }
 
+  /**
+   * Replace a field value in the McFlow header of an extracted file
+   * Returns the new content, or null when the header has no matching field
+   */
+  private rewriteHeaderField(file: string, content: string, field: RegExp, oldValue: string, newValue: string): string | null {
+    // JSON configs use // comment headers, everything else the header removeHeader knows
+    const header = file.endsWith('.json')
+      ? (content.match(/^(?:\/\/.*\n)+/) || [''])[0]
+      : this.splitHeader(file, content).header;
+    const pattern = new RegExp(`^(.*\\b(?:${field.source}): )(.*)$`, 'gm');
+    const renamedHeader = header.replace(
+      pattern,
+      (line, prefix: string, value: string) => value.trim() === oldValue ? `${prefix}${newValue}` : line
+    );
+    return renamedHeader === header ? null : renamedHeader + content.substring(header.length);
+  }
+
+  /**
+   * Update extracted file headers and metadata after a node is renamed
+   * Returns the files whose header changed
+   */
+  async renameNode(workflowName: string, oldName: string, newName: string, files: string[]): Promise<string[]> {
+    const updated: string[] = [];
+
+    for (const file of files) {
+      const filePath = path.join(this.workflowsPath, file);
+      let content: string;
+      try {
+        content = await fs.readFile(filePath, 'utf-8');
+      } catch {
+        continue;
+      }
+
+      const renamed = this.rewriteHeaderField(file, content, /Node|node|JSON Configuration for/, oldName, newName);
+      if (renamed !== null) {
+        await fs.writeFile(filePath, renamed);
+        updated.push(file);
+      }
+    }
+
+    const metadata = await this.loadMetadata();
+    let metadataChanged = false;
+    for (const entry of metadata[workflowName] || []) {
+      if (entry.nodeName === oldName) {
+        entry.nodeName = newName;
+        entry.updatedAt = new Date().toISOString();
+        metadataChanged = true;
+      }
+    }
+    if (metadataChanged) {
+      await fs.writeFile(this.metadataFile, JSON.stringify(metadata, null, 2));
+      updated.push(path.relative(this.workflowsPath, this.metadataFile));
+    }
+
+    return updated;
+  }
+
+  /**
+   * Point nodes moving to another workflow at their files' new location
+   * Checks nothing is in the way; the files stay put until moveNodeFiles
+   */
+  async planNodeFileMoves(fromWorkflow: string, toWorkflow: string, nodes: any[]): Promise<NodeFileMove[]> {
+    const moves: NodeFileMove[] = [];
+
+    for (const node of nodes) {
+      const file = node.parameters?._nodeFile;
+      if (typeof file !== 'string') continue;
+
+      // Only per-workflow folders move; shared files stay where they are
+      const parts = file.split(/[\\/]/);
+      if (parts.length < 2 || parts[parts.length - 2] !== fromWorkflow) continue;
+
+      const targetFile = path.join(...parts.slice(0, -2), toWorkflow, parts[parts.length - 1]);
+      if (await fs.access(path.join(this.workflowsPath, targetFile)).then(() => true, () => false)) {
+        throw new Error(`Cannot move ${file}: ${targetFile} already exists`);
+      }
+
+      node.parameters._nodeFile = targetFile;
+      moves.push({ from: file, to: targetFile });
+    }
+
+    return moves;
+  }
+
+  /**
+   * Move the files planned by planNodeFileMoves
+   * Updates the file headers and the metadata of the moved nodes; returns the new file paths
+   */
+  async moveNodeFiles(fromWorkflow: string, toWorkflow: string, nodes: any[], moves: NodeFileMove[]): Promise<string[]> {
+    const moved: string[] = [];
+
+    for (const move of moves) {
+      const sourcePath = path.join(this.workflowsPath, move.from);
+      const targetPath = path.join(this.workflowsPath, move.to);
+      const content = await fs.readFile(sourcePath, 'utf-8');
+      const rewritten = this.rewriteHeaderField(move.from, content, /Workflow|workflow/, fromWorkflow, toWorkflow);
+      await fs.mkdir(path.dirname(targetPath), { recursive: true });
+      await fs.writeFile(targetPath, rewritten ?? content);
+      await fs.unlink(sourcePath);
+      moved.push(move.to);
+    }
+
+    const names = new Set(nodes.map(n => n.name));
+    const metadata = await this.loadMetadata();
+    const movedEntries = (metadata[fromWorkflow] || []).filter(entry => names.has(entry.nodeName));
+    if (movedEntries.length > 0) {
+      metadata[fromWorkflow] = metadata[fromWorkflow].filter(entry => !names.has(entry.nodeName));
+      metadata[toWorkflow] = [
+        ...(metadata[toWorkflow] || []),
+        ...movedEntries.map(entry => ({ ...entry, workflowName: toWorkflow, updatedAt: new Date().toISOString() })),
+      ];
+      await fs.writeFile(this.metadataFile, JSON.stringify(metadata, null, 2));
+    }
+
+    return moved;
+  }
+
   /**
    * Create a shared module (compatibility method)
    */
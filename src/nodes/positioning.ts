@@ -20,6 +20,16 @@ export class NodePositioning {
   private static readonly INITIAL_X = 250;
   private static readonly INITIAL_Y = 300;
 
+  // Layered layout spacing
+  private static readonly COLUMN_GAP = 120; // Between the widest nodes of neighbouring ranks
+  private static readonly ROW_GAP = 80; // Between nodes stacked in one rank
+  private static readonly SUB_NODE_OFFSET = 220; // From a root node down to its AI sub-nodes
+  private static readonly SUB_NODE_SPACING = 180; // Between sub-nodes hanging under one root
+  private static readonly CROSSING_SWEEPS = 8;
+  private static readonly STICKY_NOTE_TYPE = 'n8n-nodes-base.stickyNote';
+  // Order of sub-node inputs under an agent, as on the n8n canvas
+  private static readonly SUB_NODE_ORDER = ['ai_languageModel', 'ai_memory', 'ai_tool', 'ai_outputParser'];
+
   // Typical node dimensions based on n8n UI patterns
   // Each grid square in n8n is approximately 20px
   private static readonly NODE_DIMENSIONS: Record<string, NodeDimensions> = {
@@ -311,4 +321,266 @@ export class NodePositioning {
       }
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Layered layout: ranks nodes by their longest path from the start nodes,
+   * orders each rank to minimise edge crossings, stacks branch outputs
+   * vertically and hangs LangChain sub-nodes under the node they plug into.
+   * Sticky notes are left to anchorStickyNotes.
+   */
+  static layeredLayout(nodes: any[], connections: any): Map<string, [number, number]> {
+    const layoutNodes = nodes.filter(n => n.type !== this.STICKY_NOTE_TYPE);
+    const byName = new Map<string, any>(layoutNodes.map(n => [n.name, n]));
+    const nodeIndex = new Map<string, number>(layoutNodes.map((n, index) => [n.name, index]));
+
+    // Split connections into the main flow and AI sub-node attachments
+    const mainEdges: Array<{ source: string; target: string; output: number }> = [];
+    const attachments: Array<{ sub: string; root: string; type: string }> = [];
+    for (const [source, outputs] of Object.entries<any>(connections || {})) {
+      if (!byName.has(source)) continue;
+      for (const [type, outputList] of Object.entries<any[][]>(outputs || {})) {
+        (outputList || []).forEach((targets, output) => {
+          for (const target of targets || []) {
+            if (!byName.has(target?.node) || target.node === source) continue;
+            if (type === 'main') {
+              mainEdges.push({ source, target: target.node, output });
+            } else if (!attachments.some(a => a.sub === source)) {
+              attachments.push({ sub: source, root: target.node, type });
+            }
+          }
+        });
+      }
+    }
+
+    const typeOrder = (type: string) => {
+      const index = this.SUB_NODE_ORDER.indexOf(type);
+      return index === -1 ? this.SUB_NODE_ORDER.length : index;
+    };
+    attachments.sort((a, b) => typeOrder(a.type) - typeOrder(b.type) || nodeIndex.get(a.sub)! - nodeIndex.get(b.sub)!);
+    const subNodesOf = new Map<string, string[]>();
+    for (const { sub, root } of attachments) {
+      subNodesOf.set(root, [...(subNodesOf.get(root) || []), sub]);
+    }
+
+    // Sub-nodes whose root chain never reaches the main flow are laid out as main nodes
+    const attached = new Set(attachments.map(a => a.sub));
+    const reachable = new Set<string>();
+    const reach = (name: string) => {
+      for (const sub of subNodesOf.get(name) || []) {
+        if (!reachable.has(sub)) {
+          reachable.add(sub);
+          reach(sub);
+        }
+      }
+    };
+    layoutNodes.filter(n => !attached.has(n.name)).forEach(n => reach(n.name));
+    const main = layoutNodes.map(n => n.name).filter(name => !attached.has(name) || !reachable.has(name));
+    const mainSet = new Set(main);
+    const edges = mainEdges.filter(e => mainSet.has(e.source) && mainSet.has(e.target));
+
+    // Drop back edges (loops such as Split In Batches) so the graph is acyclic
+    const outgoing = new Map<string, typeof edges>(main.map(name => [name, []]));
+    edges.forEach(e => outgoing.get(e.source)!.push(e));
+    const hasIncoming = new Set(edges.map(e => e.target));
+    const state = new Map<string, 'active' | 'done'>();
+    const forward: typeof edges = [];
+    const visit = (name: string) => {
+      state.set(name, 'active');
+      for (const edge of outgoing.get(name)!) {
+        const targetState = state.get(edge.target);
+        if (targetState === 'active') continue;
+        forward.push(edge);
+        if (!targetState) visit(edge.target);
+      }
+      state.set(name, 'done');
+    };
+    [...main.filter(name => !hasIncoming.has(name)), ...main].forEach(name => {
+      if (!state.has(name)) visit(name);
+    });
+
+    // Rank by longest path
+    const rank = new Map<string, number>(main.map(name => [name, 0]));
+    const indegree = new Map<string, number>(main.map(name => [name, 0]));
+    const forwardOut = new Map<string, typeof edges>(main.map(name => [name, []]));
+    for (const edge of forward) {
+      indegree.set(edge.target, indegree.get(edge.target)! + 1);
+      forwardOut.get(edge.source)!.push(edge);
+    }
+    const queue = main.filter(name => indegree.get(name) === 0);
+    while (queue.length > 0) {
+      const name = queue.shift()!;
+      for (const edge of forwardOut.get(name)!) {
+        rank.set(edge.target, Math.max(rank.get(edge.target)!, rank.get(name)! + 1));
+        indegree.set(edge.target, indegree.get(edge.target)! - 1);
+        if (indegree.get(edge.target) === 0) queue.push(edge.target);
+      }
+    }
+
+    // Split long edges with placeholder vertices so every segment spans one rank
+    const layers: string[][] = [];
+    for (const name of main) {
+      const r = rank.get(name)!;
+      (layers[r] = layers[r] || []).push(name);
+    }
+    const segments: Array<{ upper: string; lower: string; output: number }> = [];
+    forward.forEach((edge, edgeIndex) => {
+      let upper = edge.source;
+      let output = edge.output;
+      for (let r = rank.get(edge.source)! + 1; r < rank.get(edge.target)!; r++) {
+        const placeholder = `\u0000${edgeIndex}:${r}`;
+        layers[r].push(placeholder);
+        segments.push({ upper, lower: placeholder, output });
+        upper = placeholder;
+        output = 0;
+      }
+      segments.push({ upper, lower: edge.target, output });
+    });
+
+    // Barycenter sweeps; outputs of one node keep their order (true above false)
+    const PORT = 0.001;
+    const orderIndex = () => new Map<string, number>(layers.flatMap(layer => layer.map((v, i) => [v, i] as [string, number])));
+    const crossings = () => {
+      const index = orderIndex();
+      let count = 0;
+      for (let r = 0; r + 1 < layers.length; r++) {
+        const between = segments.filter(s => layers[r + 1].includes(s.lower));
+        const keys = between.map(s => [index.get(s.upper)! + s.output * PORT, index.get(s.lower)!]);
+        for (let i = 0; i < keys.length; i++) {
+          for (let j = i + 1; j < keys.length; j++) {
+            if ((keys[i][0] - keys[j][0]) * (keys[i][1] - keys[j][1]) < 0) count++;
+          }
+        }
+      }
+      return count;
+    };
+    const sortLayer = (r: number, downward: boolean) => {
+      const index = orderIndex();
+      const value = new Map<string, number>();
+      for (const v of layers[r]) {
+        const neighbours = downward
+          ? segments.filter(s => s.lower === v).map(s => index.get(s.upper)! + s.output * PORT)
+          : segments.filter(s => s.upper === v).map(s => index.get(s.lower)!);
+        value.set(v, neighbours.length > 0 ? neighbours.reduce((a, b) => a + b, 0) / neighbours.length : index.get(v)!);
+      }
+      layers[r].sort((a, b) => value.get(a)! - value.get(b)!);
+    };
+
+    let best = layers.map(layer => [...layer]);
+    let fewest = Infinity;
+    for (let sweep = 0; sweep <= this.CROSSING_SWEEPS; sweep++) {
+      if (sweep > 0) {
+        const downward = sweep % 2 === 1;
+        for (let i = 1; i < layers.length; i++) {
+          sortLayer(downward ? i : layers.length - 1 - i, downward);
+        }
+      }
+      const count = crossings();
+      if (count < fewest) {
+        fewest = count;
+        best = layers.map(layer => [...layer]);
+      }
+      if (fewest === 0) break;
+    }
+
+    // Columns are as wide as their widest node or row of sub-nodes
+    const dimensions = (v: string) => byName.has(v) ? this.getNodeDimensions(byName.get(v).type) : { width: 0, height: 0 };
+    const subDepth = (name: string, seen: Set<string> = new Set()): number => {
+      seen.add(name);
+      const subs = (subNodesOf.get(name) || []).filter(sub => !mainSet.has(sub) && !seen.has(sub));
+      return subs.length === 0 ? 0 : 1 + Math.max(...subs.map(sub => subDepth(sub, seen)));
+    };
+    const columnWidth = best.map(layer => Math.max(0, ...layer.map(v =>
+      Math.max(dimensions(v).width, (subNodesOf.get(v)?.length || 0) * this.SUB_NODE_SPACING)
+    )));
+    const columnX: number[] = [];
+    best.forEach((_, r) => {
+      columnX[r] = r === 0 ? this.INITIAL_X : columnX[r - 1] + (columnWidth[r - 1] + columnWidth[r]) / 2 + this.COLUMN_GAP;
+    });
+
+    // Each node sits level with its upstream nodes unless that overlaps the node above;
+    // placeholders only guide the ordering
+    const y = new Map<string, number>();
+    for (const layer of best) {
+      let previous: string | undefined;
+      for (const v of layer.filter(name => byName.has(name))) {
+        const upstream = forward.filter(e => e.target === v).map(e => y.get(e.source)!);
+        let target = upstream.length > 0 ? upstream.reduce((a, b) => a + b, 0) / upstream.length : this.INITIAL_Y;
+        if (previous !== undefined) {
+          const minimum = y.get(previous)! + (dimensions(previous).height + dimensions(v).height) / 2 + this.ROW_GAP
+            + subDepth(previous) * this.SUB_NODE_OFFSET;
+          target = Math.max(target, minimum);
+        }
+        y.set(v, target);
+        previous = v;
+      }
+    }
+
+    const positions = new Map<string, [number, number]>();
+    best.forEach((layer, r) => {
+      for (const v of layer) {
+        if (byName.has(v)) positions.set(v, [Math.round(columnX[r]), Math.round(y.get(v)!)]);
+      }
+    });
+
+    // Sub-nodes in a row under their root, in canvas input order
+    const hang = (root: string) => {
+      const subs = (subNodesOf.get(root) || []).filter(sub => !positions.has(sub));
+      const [x, rootY] = positions.get(root)!;
+      subs.forEach((sub, index) => {
+        positions.set(sub, [
+          Math.round(x + (index - (subs.length - 1) / 2) * this.SUB_NODE_SPACING),
+          rootY + this.SUB_NODE_OFFSET,
+        ]);
+      });
+      subs.forEach(hang);
+    };
+    main.forEach(hang);
+
+    return positions;
+  }
+
+  /**
+   * Keep sticky notes with the nodes they cover (or the nearest node) after
+   * a layout; a note covering several nodes is resized to cover them again
+   */
+  static anchorStickyNotes(
+    nodes: any[],
+    positions: Map<string, [number, number]>
+  ): Map<string, { position: [number, number]; width: number; height: number }> {
+    const anchored = new Map<string, { position: [number, number]; width: number; height: number }>();
+    const placed = nodes.filter(n => n.type !== this.STICKY_NOTE_TYPE && Array.isArray(n.position) && positions.has(n.name));
+
+    for (const note of nodes.filter(n => n.type === this.STICKY_NOTE_TYPE && Array.isArray(n.position))) {
+      const [noteX, noteY] = note.position;
+      const width = note.parameters?.width ?? 240;
+      const height = note.parameters?.height ?? 160;
+
+      let covered = placed.filter(n =>
+        n.position[0] >= noteX && n.position[0] <= noteX + width &&
+        n.position[1] >= noteY && n.position[1] <= noteY + height
+      );
+      if (covered.length === 0 && placed.length > 0) {
+        const distance = (n: any) => Math.hypot(n.position[0] - (noteX + width / 2), n.position[1] - (noteY + height / 2));
+        covered = [placed.reduce((nearest, n) => distance(n) < distance(nearest) ? n : nearest)];
+      }
+      if (covered.length === 0) continue;
+
+      // Keep the note's margins around the bounding box of the covered nodes
+      const box = (points: Array<[number, number]>) => ({
+        minX: Math.min(...points.map(p => p[0])),
+        minY: Math.min(...points.map(p => p[1])),
+        maxX: Math.max(...points.map(p => p[0])),
+        maxY: Math.max(...points.map(p => p[1])),
+      });
+      const before = box(covered.map(n => n.position));
+      const after = box(covered.map(n => positions.get(n.name)!));
+      anchored.set(note.name, {
+        position: [after.minX - (before.minX - noteX), after.minY - (before.minY - noteY)],
+        width: width + (after.maxX - after.minX) - (before.maxX - before.minX),
+        height: height + (after.maxY - after.minY) - (before.maxY - before.minY),
+      });
+    }
+
+    return anchored;
+  }
+}
@@ -13,6 +13,7 @@ import path from 'path';
 import { execSync } from 'child_process';
 import { LLMValidator } from './llm-validator.js';
 import { BestNodeSelector } from './selector.js';
+import { analyzeExpressions } from '../workflows/expressions.js';
 
 interface NodeIssue {
   nodeId: string;
@@ -54,7 +55,13 @@ export class NodeValidator {
    */
   async validateWorkflow(workflowPath: string): Promise<NodeValidationResult> {
     const content = await fs.readFile(workflowPath, 'utf-8');
-    const workflow = JSON.parse(content);
+    return this.validateWorkflowData(JSON.parse(content));
+  }
+
+  /**
+   * Validate all nodes in an in-memory workflow
+   */
+  async validateWorkflowData(workflow: any): Promise<NodeValidationResult> {
     const issues: NodeIssue[] = [];
     const suggestions: string[] = [];
 
@@ -81,6 +88,9 @@ export class NodeValidator {
     const connectionIssues = this.validateConnections(workflow);
     issues.push(...connectionIssues);
 
+    // Check node references and syntax inside expressions
+    issues.push(...this.validateExpressions(workflow));
+
     // Generate suggestions
     if (issues.length > 0) {
       suggestions.push('Run "McFlow validate --fix" to automatically fix common issues');
@@ -577,6 +587,25 @@ export class NodeValidator {
     return issues;
   }
 
+  /**
+   * Validate expressions and Code node references
+   */
+  private validateExpressions(workflow: any): NodeIssue[] {
+    const nodeIds = new Map(workflow.nodes.map((n: any) => [n.name, n.id || n.name]));
+
+    return analyzeExpressions(workflow).map(issue => ({
+      nodeId: nodeIds.get(issue.node) as string,
+      nodeName: issue.node,
+      type: issue.kind === 'not-upstream' ? 'warning' as const : 'error' as const,
+      message: issue.message,
+      fix: issue.kind === 'syntax'
+        ? 'Fix the JavaScript inside {{ }}'
+        : issue.kind === 'unknown-node'
+          ? `Rename the reference to an existing node or restore "${issue.reference}"`
+          : `Connect "${issue.reference}" before "${issue.node}" or reference an upstream node`
+    }));
+  }
+
   /**
    * Auto-fix common issues
    */
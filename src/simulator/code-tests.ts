@@ -0,0 +1,261 @@
+/**
+ * Code Node Tests
+ *
+ * Runs extracted Code node files from nodes/code/ against fixtures in
+ * nodes/code/__fixtures__/<name>.json, using the simulator sandbox so the
+ * n8n globals ($input, $json, $items, $node, $env) are available.
+ *
+ * A fixture is a single case, a list of cases, or { mode, cases }:
+ *   { "name": "...", "input": [...], "expected": [...], "env": {...}, "nodes": {...} }
+ * Use "expectedError" instead of "expected" to assert that the code throws.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { WorkflowCompiler } from '../workflows/compiler.js';
+import { NodeManager } from '../nodes/manager.js';
+import { Item, NodeOutputs, normalizeItems } from './context.js';
+import { runCode, CodeMode } from './sandbox.js';
+
+export const CODE_FIXTURES_DIR = path.join('nodes', 'code', '__fixtures__');
+
+export interface CodeTestCase {
+  name?: string;
+  mode?: CodeMode;
+  input?: any;
+  expected?: any;
+  expectedError?: string;
+  env?: Record<string, string>;
+  nodes?: Record<string, any>; // Output of other nodes for $node, $items and $()
+}
+
+export interface CodeTestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  expected?: any[];
+  actual?: any[];
+  logs: string[];
+}
+
+export interface CodeFileReport {
+  name: string;
+  file: string;
+  fixture: string;
+  results: CodeTestResult[];
+  error?: string;
+}
+
+export interface CodeTestReport {
+  files: CodeFileReport[];
+  untested: string[];
+  passed: number;
+  failed: number;
+}
+
+/**
+ * List files below a directory, relative to it
+ */
+async function listFiles(dir: string, base: string = dir): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  const files: string[] = [];
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(fullPath, base));
+    } else {
+      files.push(path.relative(base, fullPath));
+    }
+  }
+  return files.sort();
+}
+
+function toCases(fixture: any): { mode?: CodeMode; cases: CodeTestCase[] } {
+  if (Array.isArray(fixture)) {
+    return { cases: fixture };
+  }
+  if (Array.isArray(fixture?.cases)) {
+    return { mode: fixture.mode, cases: fixture.cases };
+  }
+  return { mode: fixture?.mode, cases: [fixture || {}] };
+}
+
+function toNodeOutputs(nodes: Record<string, any> = {}): NodeOutputs {
+  return new Map(Object.entries(nodes).map(([name, items]) => [name, [normalizeItems(items)]]));
+}
+
+function isEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => isEqual(value, b[index]));
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object' && !Array.isArray(a) && !Array.isArray(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => isEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+export class CodeTestRunner {
+  private workflowsPath: string;
+  private codePath: string;
+  private compiler: WorkflowCompiler;
+  private nodeManager: NodeManager;
+
+  constructor(workflowsPath: string) {
+    this.workflowsPath = workflowsPath;
+    this.codePath = path.join(workflowsPath, 'nodes', 'code');
+    this.compiler = new WorkflowCompiler(workflowsPath);
+    this.nodeManager = new NodeManager(workflowsPath);
+  }
+
+  /**
+   * Load a code file the way it is deployed: without the McFlow header, with prompt files inlined
+   */
+  private async loadCode(relativeFile: string): Promise<string> {
+    const content = await fs.readFile(path.join(this.codePath, relativeFile), 'utf-8');
+    const { body } = this.nodeManager.splitHeader(path.join('nodes', 'code', relativeFile), content);
+    return this.compiler.processPromptFileComments(body);
+  }
+
+  private async runCase(code: string, testCase: CodeTestCase, mode: CodeMode | undefined, index: number): Promise<CodeTestResult> {
+    const logs: string[] = [];
+    const name = testCase.name || `case ${index + 1}`;
+    const input: Item[] = testCase.input === undefined ? [{ json: {} }] : normalizeItems(testCase.input);
+
+    let actual: any[];
+    try {
+      const output = await runCode({
+        code,
+        items: input,
+        mode: testCase.mode || mode,
+        nodeOutputs: toNodeOutputs(testCase.nodes),
+        env: testCase.env,
+        baseDir: this.workflowsPath,
+        logs,
+      });
+      actual = output.map(item => item.json);
+    } catch (error: any) {
+      if (testCase.expectedError !== undefined) {
+        const passed = error.message.includes(testCase.expectedError);
+        return { name, passed, error: passed ? undefined : `Expected error "${testCase.expectedError}", got "${error.message}"`, logs };
+      }
+      return { name, passed: false, error: error.message, logs };
+    }
+
+    if (testCase.expectedError !== undefined) {
+      return { name, passed: false, error: `Expected error "${testCase.expectedError}" but the code returned`, actual, logs };
+    }
+    if (testCase.expected === undefined) {
+      return { name, passed: true, actual, logs };
+    }
+
+    const expected = normalizeItems(testCase.expected).map(item => item.json);
+    const passed = isEqual(actual, expected);
+    return passed ? { name, passed, logs } : { name, passed, expected, actual, logs };
+  }
+
+  /**
+   * Run fixtures for all code files, or only those whose name contains the filter
+   */
+  async runTests(filter?: string): Promise<CodeTestReport> {
+    const fixturesPath = path.join(this.workflowsPath, CODE_FIXTURES_DIR);
+    const fixtures = (await listFiles(fixturesPath)).filter(f => f.endsWith('.json'));
+    const codeFiles = (await listFiles(this.codePath)).filter(f => f.endsWith('.js') && !f.startsWith('__fixtures__'));
+    const report: CodeTestReport = { files: [], untested: [], passed: 0, failed: 0 };
+
+    for (const fixtureFile of fixtures) {
+      const name = fixtureFile.replace(/\.json$/, '');
+      if (filter && !name.includes(filter)) continue;
+
+      const file = `${name}.js`;
+      const fileReport: CodeFileReport = {
+        name,
+        file: path.join('nodes', 'code', file),
+        fixture: path.join(CODE_FIXTURES_DIR, fixtureFile),
+        results: [],
+      };
+      report.files.push(fileReport);
+
+      try {
+        const code = await this.loadCode(file);
+        const fixture = JSON.parse(await fs.readFile(path.join(fixturesPath, fixtureFile), 'utf-8'));
+        const { mode, cases } = toCases(fixture);
+        for (let index = 0; index < cases.length; index++) {
+          fileReport.results.push(await this.runCase(code, cases[index], mode, index));
+        }
+      } catch (error: any) {
+        fileReport.error = error.code === 'ENOENT' ? `Code file not found: ${fileReport.file}` : error.message;
+        report.failed++;
+        continue;
+      }
+
+      for (const result of fileReport.results) {
+        if (result.passed) {
+          report.passed++;
+        } else {
+          report.failed++;
+        }
+      }
+    }
+
+    const tested = new Set(fixtures.map(f => f.replace(/\.json$/, '.js')));
+    report.untested = codeFiles.filter(f => !tested.has(f) && (!filter || f.includes(filter)));
+    return report;
+  }
+
+  /**
+   * Run code tests and format the report as a tool result
+   */
+  async run(options: { name?: string } = {}): Promise<any> {
+    const report = await this.runTests(options.name);
+    return {
+      content: [{
+        type: 'text',
+        text: formatCodeTestReport(report)
+      }]
+    };
+  }
+}
+
+/**
+ * Render a test report
+ */
+export function formatCodeTestReport(report: CodeTestReport): string {
+  let output = '🧪 Code Node Tests\n\n';
+
+  if (report.files.length === 0) {
+    output += `No fixtures found in ${CODE_FIXTURES_DIR}/\n\n`;
+  }
+
+  for (const file of report.files) {
+    output += `📜 ${file.name} (${file.file})\n`;
+    if (file.error) {
+      output += `  ❌ ${file.error}\n\n`;
+      continue;
+    }
+    for (const result of file.results) {
+      output += `  ${result.passed ? '✅' : '❌'} ${result.name}\n`;
+      if (!result.passed) {
+        if (result.error) {
+          output += `     ${result.error}\n`;
+        }
+        if (result.expected) {
+          output += `     expected: ${JSON.stringify(result.expected)}\n`;
+          output += `     actual:   ${JSON.stringify(result.actual)}\n`;
+        }
+        for (const line of result.logs) {
+          output += `     📝 ${line}\n`;
+        }
+      }
+    }
+    output += '\n';
+  }
+
+  if (report.untested.length > 0) {
+    output += `⚪ No fixtures for: ${report.untested.join(', ')}\n\n`;
+  }
+
+  output += `Results: ${report.passed} passed, ${report.failed} failed`;
+  return output;
+}
@@ -0,0 +1,100 @@
+/**
+ * Simulator Data Context
+ *
+ * Items and the n8n globals ($input, $json, $node, $items, $(), $env ...)
+ * that expressions and Code nodes see while a workflow is simulated.
+ */
+
+export interface Item {
+  json: Record<string, any>;
+  binary?: Record<string, any>;
+}
+
+// Output of every node that has run so far, by node name and output index
+export type NodeOutputs = Map<string, Item[][]>;
+
+export interface DataContextOptions {
+  items: Item[];
+  itemIndex?: number;
+  nodeOutputs?: NodeOutputs;
+  env?: Record<string, string | undefined>;
+  workflow?: { id?: string; name?: string; active?: boolean };
+  runIndex?: number;
+}
+
+/**
+ * Wrap plain objects as n8n items, leaving existing items untouched
+ */
+export function normalizeItems(value: any): Item[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  const list = Array.isArray(value) ? value : [value];
+  return list.map(entry => {
+    if (entry && typeof entry === 'object' && !Array.isArray(entry) && 'json' in entry) {
+      return entry.binary ? { json: entry.json ?? {}, binary: entry.binary } : { json: entry.json ?? {} };
+    }
+    return { json: entry && typeof entry === 'object' ? entry : { value: entry } };
+  });
+}
+
+/**
+ * Accessor returned by $input and $('Node Name')
+ */
+function itemAccessor(items: Item[], itemIndex: number) {
+  return {
+    all: () => items,
+    first: () => items[0],
+    last: () => items[items.length - 1],
+    item: items[itemIndex] ?? items[0],
+    itemMatching: (index: number) => items[index],
+  };
+}
+
+/**
+ * Build the variables n8n exposes to expressions and Code nodes
+ */
+export function createDataContext(options: DataContextOptions): Record<string, any> {
+  const items = options.items;
+  const itemIndex = options.itemIndex ?? 0;
+  const nodeOutputs = options.nodeOutputs ?? new Map();
+  const current = items[itemIndex] ?? items[0];
+
+  const outputItems = (name: string): Item[] => {
+    const outputs = nodeOutputs.get(name);
+    if (!outputs) {
+      throw new Error(`Referenced node "${name}" has not been executed`);
+    }
+    return outputs[0] || [];
+  };
+
+  // $node["Name"].json resolves lazily so unknown names only fail when used
+  const $node = new Proxy({}, {
+    get: (_target, name) => {
+      if (typeof name !== 'string') return undefined;
+      const nodeItems = outputItems(name);
+      const item = nodeItems[itemIndex] ?? nodeItems[0];
+      return { json: item?.json ?? {}, binary: item?.binary, context: {} };
+    },
+  });
+
+  return {
+    $input: itemAccessor(items, itemIndex),
+    $json: current?.json ?? {},
+    $binary: current?.binary ?? {},
+    $node,
+    $items: (name?: string, outputIndex: number = 0) => {
+      if (!name) return items;
+      return nodeOutputs.has(name) ? nodeOutputs.get(name)![outputIndex] || [] : outputItems(name);
+    },
+    $: (name: string) => itemAccessor(outputItems(name), itemIndex),
+    $env: { ...(options.env ?? {}) },
+    $workflow: { id: options.workflow?.id, name: options.workflow?.name, active: !!options.workflow?.active },
+    $execution: { id: 'simulation', mode: 'manual' },
+    $now: new Date(),
+    $today: new Date(new Date().toDateString()),
+    $itemIndex: itemIndex,
+    $runIndex: options.runIndex ?? 0,
+  };
+}
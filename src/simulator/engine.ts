@@ -0,0 +1,258 @@
+/**
+ * Workflow Simulator Engine
+ *
+ * Walks a workflow's main connections locally, running supported node types
+ * and replaying recorded fixture output for everything else. Branches run
+ * depth-first in output order like n8n's v1 execution order; Merge nodes
+ * wait until each of their inputs has received data.
+ */
+
+import { Item, NodeOutputs, normalizeItems } from './context.js';
+import { NODE_EXECUTORS, TRIGGER_TYPES } from './nodes.js';
+
+export interface SimulationFixture {
+  trigger?: string; // Node to start from; defaults to the first Manual/Webhook trigger
+  input?: any; // Items emitted by the trigger
+  nodes?: Record<string, any>; // Recorded output for nodes the simulator can't run
+  env?: Record<string, string>;
+}
+
+export interface NodeRun {
+  node: string;
+  type: string;
+  runIndex: number;
+  input: Item[][];
+  output: Item[][];
+  stubbed: boolean;
+  logs: string[];
+  error?: string;
+}
+
+export interface SimulationResult {
+  workflow: string;
+  trigger: string;
+  runs: NodeRun[];
+  success: boolean;
+  error?: string;
+}
+
+interface PendingRun {
+  node: string;
+  inputs: Item[][];
+}
+
+const DEFAULT_MAX_RUNS = 1000;
+const MAX_ITEMS_SHOWN = 10;
+
+/**
+ * Fixture output for a stubbed node: a list of items, or a list per output
+ */
+function stubOutput(value: any): Item[][] {
+  if (Array.isArray(value) && value.length > 0 && value.every(Array.isArray)) {
+    return value.map(normalizeItems);
+  }
+  return [normalizeItems(value)];
+}
+
+function findTrigger(workflow: any, fixture: SimulationFixture): any {
+  const nodes: any[] = workflow.nodes || [];
+  if (fixture.trigger) {
+    const node = nodes.find(n => n.name === fixture.trigger);
+    if (!node) {
+      throw new Error(`Trigger node "${fixture.trigger}" not found in workflow`);
+    }
+    return node;
+  }
+
+  const trigger = nodes.find(n => TRIGGER_TYPES.includes(n.type) && !n.disabled);
+  if (!trigger) {
+    throw new Error('No Manual or Webhook trigger found; set "trigger" in the fixture to pick a start node');
+  }
+  return trigger;
+}
+
+/**
+ * Number of inputs a node waits for before running
+ */
+function expectedInputs(node: any): number {
+  if (node.type !== 'n8n-nodes-base.merge') return 1;
+  return Math.max(2, Number(node.parameters?.numberInputs ?? 2));
+}
+
+/**
+ * Run a workflow locally with fixture data
+ */
+export async function simulateWorkflow(
+  workflow: any,
+  fixture: SimulationFixture = {},
+  options: { baseDir?: string; maxRuns?: number } = {}
+): Promise<SimulationResult> {
+  const nodesByName = new Map<string, any>((workflow.nodes || []).map((n: any) => [n.name, n]));
+  const trigger = findTrigger(workflow, fixture);
+  const result: SimulationResult = { workflow: workflow.name, trigger: trigger.name, runs: [], success: true };
+
+  const nodeOutputs: NodeOutputs = new Map();
+  const state = new Map<string, any>();
+  const runCounts = new Map<string, number>();
+  const waiting = new Map<string, Item[][]>();
+  const maxRuns = options.maxRuns || DEFAULT_MAX_RUNS;
+
+  // Depth-first: the next run is taken from the end of the stack
+  const stack: PendingRun[] = [];
+
+  const deliver = (target: string, inputIndex: number, items: Item[]): PendingRun | null => {
+    const node = nodesByName.get(target);
+    if (!node) return null;
+
+    const expected = expectedInputs(node);
+    if (expected === 1) {
+      return { node: target, inputs: [items] };
+    }
+
+    const inputs = waiting.get(target) || new Array(expected).fill(undefined);
+    inputs[inputIndex] = items;
+    if (inputs.every(input => input !== undefined)) {
+      waiting.delete(target);
+      return { node: target, inputs };
+    }
+    waiting.set(target, inputs);
+    return null;
+  };
+
+  const triggerItems = fixture.input === undefined ? [{ json: {} }] : normalizeItems(fixture.input);
+  stack.push({ node: trigger.name, inputs: [triggerItems] });
+
+  while (stack.length > 0 || waiting.size > 0) {
+    if (stack.length === 0) {
+      // Nothing else can arrive, so run the first waiting node with what it has
+      const [name, inputs] = waiting.entries().next().value as [string, Item[][]];
+      waiting.delete(name);
+      stack.push({ node: name, inputs: inputs.map(input => input || []) });
+    }
+
+    const pending = stack.pop()!;
+    const node = nodesByName.get(pending.node);
+    const runIndex = runCounts.get(pending.node) || 0;
+    runCounts.set(pending.node, runIndex + 1);
+
+    if (result.runs.length >= maxRuns) {
+      result.success = false;
+      result.error = `Stopped after ${maxRuns} node runs - check for an endless loop`;
+      break;
+    }
+
+    const run: NodeRun = {
+      node: node.name,
+      type: node.type,
+      runIndex,
+      input: pending.inputs,
+      output: [],
+      stubbed: false,
+      logs: [],
+    };
+    result.runs.push(run);
+
+    try {
+      const executor = NODE_EXECUTORS[node.type];
+      if (node.disabled) {
+        run.output = [pending.inputs[0] || []];
+      } else if (fixture.nodes && Object.prototype.hasOwnProperty.call(fixture.nodes, node.name)) {
+        // Recorded output wins, so fixtures can also stub supported nodes
+        run.output = stubOutput(fixture.nodes[node.name]);
+        run.stubbed = true;
+      } else if (node.name === trigger.name && !executor) {
+        // Any start node emits the fixture input, e.g. a schedule trigger picked in the fixture
+        run.output = [pending.inputs[0]];
+      } else if (executor) {
+        run.output = await executor({
+          node,
+          inputs: pending.inputs,
+          nodeOutputs,
+          env: fixture.env || {},
+          workflow: { id: workflow.id, name: workflow.name, active: workflow.active },
+          state,
+          baseDir: options.baseDir,
+          logs: run.logs,
+        });
+      } else {
+        throw new Error(`No fixture output recorded for "${node.name}" (${node.type}), which the simulator can't run`);
+      }
+    } catch (error: any) {
+      run.error = error.message;
+      result.success = false;
+      result.error = `Node "${node.name}" failed: ${error.message}`;
+      break;
+    }
+
+    nodeOutputs.set(node.name, run.output);
+
+    // Queue children in reverse so output 0 and its first connection run next
+    const next: PendingRun[] = [];
+    const outputs: any[] = workflow.connections?.[node.name]?.main || [];
+    outputs.forEach((targets: any[], outputIndex: number) => {
+      const items = run.output[outputIndex] || [];
+      if (items.length === 0) return;
+      for (const target of targets || []) {
+        const ready = deliver(target.node, target.index ?? 0, items);
+        if (ready) next.push(ready);
+      }
+    });
+    stack.push(...next.reverse());
+  }
+
+  return result;
+}
+
+function formatItems(items: Item[], indent: string): string {
+  let output = '';
+  for (const item of items.slice(0, MAX_ITEMS_SHOWN)) {
+    output += `${indent}${JSON.stringify(item.json)}\n`;
+  }
+  if (items.length > MAX_ITEMS_SHOWN) {
+    output += `${indent}... ${items.length - MAX_ITEMS_SHOWN} more\n`;
+  }
+  return output;
+}
+
+function countLabel(items: Item[]): string {
+  return `${items.length} item${items.length === 1 ? '' : 's'}`;
+}
+
+/**
+ * Render per-node input and output items
+ */
+export function formatSimulation(result: SimulationResult): string {
+  let output = `🧪 Simulation of "${result.workflow}" from "${result.trigger}"\n\n`;
+
+  result.runs.forEach((run, index) => {
+    const shortType = run.type.split('.').pop();
+    output += `${index + 1}. ${run.node} (${shortType})`;
+    output += `${run.runIndex > 0 ? ` run ${run.runIndex + 1}` : ''}${run.stubbed ? ' [fixture]' : ''}\n`;
+
+    run.input.forEach((items, inputIndex) => {
+      const label = run.input.length > 1 ? `input ${inputIndex}` : 'input';
+      output += `   ⬅️ ${label}: ${countLabel(items)}\n`;
+      output += formatItems(items, '      ');
+    });
+
+    for (const line of run.logs) {
+      output += `   📝 ${line}\n`;
+    }
+
+    if (run.error) {
+      output += `   ❌ ${run.error}\n`;
+    } else {
+      run.output.forEach((items, outputIndex) => {
+        const label = run.output.length > 1 ? `output ${outputIndex}` : 'output';
+        output += `   ➡️ ${label}: ${countLabel(items)}\n`;
+        output += formatItems(items, '      ');
+      });
+    }
+    output += '\n';
+  });
+
+  output += result.success
+    ? `✅ Simulation finished after ${result.runs.length} node runs`
+    : `❌ ${result.error}`;
+  return output;
+}
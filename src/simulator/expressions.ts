@@ -0,0 +1,61 @@
+/**
+ * Simulator Expressions
+ *
+ * Evaluates n8n parameter expressions ("={{ $json.name }}") against a data
+ * context. A parameter that is a single expression keeps the value's type;
+ * mixed text is rendered to a string like n8n does.
+ */
+
+import vm from 'vm';
+
+const EXPRESSION_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const EXPRESSION_TIMEOUT = 1000;
+
+/**
+ * Evaluate one JavaScript expression with the n8n variables in scope
+ */
+export function evaluateJavaScript(expression: string, context: Record<string, any>): any {
+  return vm.runInNewContext(`(${expression})`, { ...context }, { timeout: EXPRESSION_TIMEOUT });
+}
+
+function renderValue(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Evaluate a parameter value; strings without a leading "=" are returned as-is
+ */
+export function evaluateExpression(value: any, context: Record<string, any>): any {
+  if (typeof value !== 'string' || !value.startsWith('=')) {
+    return value;
+  }
+
+  const template = value.substring(1);
+  const single = template.trim().match(/^\{\{([\s\S]*?)\}\}$/);
+  if (single && !single[1].includes('}}')) {
+    return evaluateJavaScript(single[1], context);
+  }
+
+  return template.replace(EXPRESSION_PATTERN, (_match, expression: string) =>
+    renderValue(evaluateJavaScript(expression, context))
+  );
+}
+
+/**
+ * Evaluate every expression in a parameters object
+ */
+export function resolveParameters(parameters: any, context: Record<string, any>): any {
+  if (Array.isArray(parameters)) {
+    return parameters.map(value => resolveParameters(value, context));
+  }
+  if (parameters && typeof parameters === 'object') {
+    const resolved: Record<string, any> = {};
+    for (const [key, value] of Object.entries(parameters)) {
+      resolved[key] = resolveParameters(value, context);
+    }
+    return resolved;
+  }
+  return evaluateExpression(parameters, context);
+}
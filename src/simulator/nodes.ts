@@ -0,0 +1,455 @@
+/**
+ * Simulated Node Types
+ *
+ * Local implementations of the core n8n nodes the simulator can run. Each
+ * executor receives the items on every input and returns items per output.
+ */
+
+import { Item, NodeOutputs, createDataContext } from './context.js';
+import { resolveParameters } from './expressions.js';
+import { runCode, CodeMode } from './sandbox.js';
+
+export interface NodeExecution {
+  node: any;
+  inputs: Item[][];
+  nodeOutputs: NodeOutputs;
+  env: Record<string, string | undefined>;
+  workflow: { id?: string; name?: string; active?: boolean };
+  state: Map<string, any>; // Per-node state kept across runs (Split In Batches)
+  baseDir?: string;
+  logs: string[];
+}
+
+export type NodeExecutor = (execution: NodeExecution) => Promise<Item[][]>;
+
+/**
+ * Parameters with expressions evaluated for one input item
+ */
+function parametersFor(execution: NodeExecution, items: Item[], itemIndex: number): any {
+  const context = createDataContext({
+    items,
+    itemIndex,
+    nodeOutputs: execution.nodeOutputs,
+    env: execution.env,
+    workflow: execution.workflow,
+  });
+  return resolveParameters(execution.node.parameters || {}, context);
+}
+
+function typeVersion(node: any): number {
+  return Number(node.typeVersion ?? 1);
+}
+
+function cloneJson(value: any): any {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+function getPath(object: any, key: string): any {
+  return key.split('.').reduce((value, part) => (value === null || value === undefined ? undefined : value[part]), object);
+}
+
+function setPath(object: any, key: string, value: any, dotNotation: boolean = true): void {
+  if (!dotNotation) {
+    object[key] = value;
+    return;
+  }
+  const parts = key.split('.');
+  let target = object;
+  for (const part of parts.slice(0, -1)) {
+    if (target[part] === null || typeof target[part] !== 'object') {
+      target[part] = {};
+    }
+    target = target[part];
+  }
+  target[parts[parts.length - 1]] = value;
+}
+
+/**
+ * Convert a Set field value to its declared type
+ */
+function castValue(value: any, type?: string): any {
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' ? value : Number(value);
+    case 'boolean':
+      return typeof value === 'boolean' ? value : String(value).toLowerCase() === 'true';
+    case 'array':
+    case 'object':
+    case 'json':
+      return typeof value === 'string' ? JSON.parse(value) : value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Evaluate one condition from the filter parameter used by IF v2 and Switch v3
+ */
+function evaluateFilterCondition(condition: any): boolean {
+  const left = condition.leftValue;
+  const right = condition.rightValue;
+  const operation = condition.operator?.operation || 'equals';
+  const text = (value: any) => value === undefined || value === null ? '' : String(value);
+
+  switch (operation) {
+    case 'exists':
+      return left !== undefined && left !== null;
+    case 'notExists':
+      return left === undefined || left === null;
+    case 'empty':
+      return left === undefined || left === null || left === '' ||
+        (Array.isArray(left) && left.length === 0) ||
+        (typeof left === 'object' && left !== null && Object.keys(left).length === 0);
+    case 'notEmpty':
+      return !evaluateFilterCondition({ ...condition, operator: { operation: 'empty' } });
+    case 'equals':
+      return condition.operator?.type === 'number' ? Number(left) === Number(right) : left === right || text(left) === text(right);
+    case 'notEquals':
+      return !evaluateFilterCondition({ ...condition, operator: { ...condition.operator, operation: 'equals' } });
+    case 'contains':
+      return Array.isArray(left) ? left.includes(right) : text(left).includes(text(right));
+    case 'notContains':
+      return Array.isArray(left) ? !left.includes(right) : !text(left).includes(text(right));
+    case 'startsWith':
+      return text(left).startsWith(text(right));
+    case 'notStartsWith':
+      return !text(left).startsWith(text(right));
+    case 'endsWith':
+      return text(left).endsWith(text(right));
+    case 'notEndsWith':
+      return !text(left).endsWith(text(right));
+    case 'regex':
+      return new RegExp(text(right)).test(text(left));
+    case 'notRegex':
+      return !new RegExp(text(right)).test(text(left));
+    case 'gt':
+    case 'after':
+      return left > right;
+    case 'gte':
+    case 'afterOrEquals':
+      return left >= right;
+    case 'lt':
+    case 'before':
+      return left < right;
+    case 'lte':
+    case 'beforeOrEquals':
+      return left <= right;
+    case 'true':
+      return left === true;
+    case 'false':
+      return left === false;
+    case 'lengthEquals':
+      return Array.isArray(left) && left.length === Number(right);
+    case 'lengthNotEquals':
+      return Array.isArray(left) && left.length !== Number(right);
+    case 'lengthGt':
+      return Array.isArray(left) && left.length > Number(right);
+    case 'lengthLt':
+      return Array.isArray(left) && left.length < Number(right);
+    default:
+      throw new Error(`Unsupported condition operation: ${operation}`);
+  }
+}
+
+function evaluateFilter(filter: any): boolean {
+  const conditions: any[] = filter?.conditions || [];
+  if (conditions.length === 0) return true;
+  const results = conditions.map(evaluateFilterCondition);
+  return (filter.combinator || 'and') === 'or' ? results.some(Boolean) : results.every(Boolean);
+}
+
+/**
+ * Legacy (v1) comparison used by IF v1 and Switch v1/v2 rules
+ */
+function compareLegacy(value1: any, operation: string, value2: any): boolean {
+  switch (operation) {
+    case 'equal':
+      return value1 === value2;
+    case 'notEqual':
+      return value1 !== value2;
+    case 'larger':
+      return value1 > value2;
+    case 'largerEqual':
+      return value1 >= value2;
+    case 'smaller':
+      return value1 < value2;
+    case 'smallerEqual':
+      return value1 <= value2;
+    case 'contains':
+      return String(value1 ?? '').includes(String(value2 ?? ''));
+    case 'notContains':
+      return !String(value1 ?? '').includes(String(value2 ?? ''));
+    case 'startsWith':
+      return String(value1 ?? '').startsWith(String(value2 ?? ''));
+    case 'notStartsWith':
+      return !String(value1 ?? '').startsWith(String(value2 ?? ''));
+    case 'endsWith':
+      return String(value1 ?? '').endsWith(String(value2 ?? ''));
+    case 'notEndsWith':
+      return !String(value1 ?? '').endsWith(String(value2 ?? ''));
+    case 'regex':
+      return new RegExp(String(value2)).test(String(value1 ?? ''));
+    case 'notRegex':
+      return !new RegExp(String(value2)).test(String(value1 ?? ''));
+    case 'isEmpty':
+      return value1 === undefined || value1 === null || value1 === '';
+    case 'isNotEmpty':
+      return !(value1 === undefined || value1 === null || value1 === '');
+    default:
+      throw new Error(`Unsupported comparison operation: ${operation}`);
+  }
+}
+
+/**
+ * Pass-through for triggers and No Operation nodes
+ */
+const passThrough: NodeExecutor = async ({ inputs }) => [inputs[0] || []];
+
+const executeCode: NodeExecutor = async (execution) => {
+  const { node } = execution;
+  const parameters = node.parameters || {};
+  if (parameters.language === 'python' || parameters.language === 'pythonNative' || parameters.mode === 'python') {
+    throw new Error('Python Code nodes are not supported by the simulator; provide fixture output instead');
+  }
+
+  const items = await runCode({
+    code: parameters.jsCode || '',
+    items: execution.inputs[0] || [],
+    mode: (parameters.mode as CodeMode) || 'runOnceForAllItems',
+    nodeOutputs: execution.nodeOutputs,
+    env: execution.env,
+    workflow: execution.workflow,
+    baseDir: execution.baseDir,
+    logs: execution.logs,
+  });
+  return [items];
+};
+
+const executeSet: NodeExecutor = async (execution) => {
+  const { node } = execution;
+  const items = execution.inputs[0] || [];
+  const version = typeVersion(node);
+
+  const output = items.map((item, index) => {
+    const parameters = parametersFor(execution, items, index);
+    const options = parameters.options || {};
+    const dotNotation = options.dotNotation !== false;
+
+    if (version < 3) {
+      const json = parameters.keepOnlySet ? {} : cloneJson(item.json);
+      for (const type of ['string', 'number', 'boolean']) {
+        for (const field of parameters.values?.[type] || []) {
+          setPath(json, field.name, castValue(field.value, type), dotNotation);
+        }
+      }
+      return { json };
+    }
+
+    const includeOther = version < 3.3
+      ? (parameters.include ?? 'all') !== 'none'
+      : !!parameters.includeOtherFields;
+    const json = includeOther ? cloneJson(item.json) : {};
+
+    if (parameters.mode === 'raw') {
+      const raw = typeof parameters.jsonOutput === 'string' ? JSON.parse(parameters.jsonOutput) : parameters.jsonOutput;
+      return { json: { ...json, ...raw } };
+    }
+
+    // 3.3+ uses assignments, 3.0-3.2 uses fields.values with typed value keys
+    for (const assignment of parameters.assignments?.assignments || []) {
+      setPath(json, assignment.name, castValue(assignment.value, assignment.type), dotNotation);
+    }
+    for (const field of parameters.fields?.values || []) {
+      const type = field.type || 'stringValue';
+      setPath(json, field.name, castValue(field[type], type.replace(/Value$/, '')), dotNotation);
+    }
+    return { json };
+  });
+
+  return [output];
+};
+
+const executeIf: NodeExecutor = async (execution) => {
+  const items = execution.inputs[0] || [];
+  const matched: Item[] = [];
+  const unmatched: Item[] = [];
+
+  items.forEach((item, index) => {
+    const parameters = parametersFor(execution, items, index);
+    let result: boolean;
+
+    if (typeVersion(execution.node) >= 2) {
+      result = evaluateFilter(parameters.conditions);
+    } else {
+      const results: boolean[] = [];
+      for (const type of ['boolean', 'number', 'string', 'dateTime']) {
+        for (const condition of parameters.conditions?.[type] || []) {
+          results.push(compareLegacy(condition.value1, condition.operation || 'equal', condition.value2));
+        }
+      }
+      result = parameters.combineOperation === 'any' ? results.some(Boolean) : results.every(Boolean);
+    }
+
+    (result ? matched : unmatched).push(item);
+  });
+
+  return [matched, unmatched];
+};
+
+const executeSwitch: NodeExecutor = async (execution) => {
+  const items = execution.inputs[0] || [];
+  const version = typeVersion(execution.node);
+  const outputs: Item[][] = [];
+  const push = (index: number, item: Item) => {
+    while (outputs.length <= index) outputs.push([]);
+    outputs[index].push(item);
+  };
+
+  items.forEach((item, index) => {
+    const parameters = parametersFor(execution, items, index);
+
+    if (parameters.mode === 'expression') {
+      push(Number(parameters.output), item);
+      return;
+    }
+
+    if (version >= 3) {
+      const rules: any[] = parameters.rules?.values || [];
+      const allMatching = !!parameters.options?.allMatchingOutputs;
+      let matched = false;
+      for (let ruleIndex = 0; ruleIndex < rules.length; ruleIndex++) {
+        if (evaluateFilter(rules[ruleIndex].conditions)) {
+          push(ruleIndex, item);
+          matched = true;
+          if (!allMatching) break;
+        }
+      }
+      const fallback = parameters.options?.fallbackOutput;
+      if (!matched && fallback !== undefined && fallback !== 'none') {
+        push(fallback === 'extra' ? rules.length : Number(fallback), item);
+      }
+      // Every rule has an output even when nothing was routed to it
+      while (outputs.length < rules.length) outputs.push([]);
+      return;
+    }
+
+    let matched = false;
+    for (const rule of parameters.rules?.rules || []) {
+      if (compareLegacy(parameters.value1, rule.operation || 'equal', rule.value2)) {
+        push(Number(rule.output ?? 0), item);
+        matched = true;
+        break;
+      }
+    }
+    if (!matched && parameters.fallbackOutput !== undefined && Number(parameters.fallbackOutput) >= 0) {
+      push(Number(parameters.fallbackOutput), item);
+    }
+  });
+
+  return outputs;
+};
+
+const executeMerge: NodeExecutor = async (execution) => {
+  const parameters = execution.node.parameters || {};
+  const input1 = execution.inputs[0] || [];
+  const input2 = execution.inputs[1] || [];
+  const mode = parameters.mode || 'append';
+
+  switch (mode) {
+    case 'append':
+      return [execution.inputs.flatMap(items => items || [])];
+
+    case 'chooseBranch':
+    case 'passThrough': {
+      const second = parameters.output === 'input2' || Number(parameters.useDataOfInput) === 2;
+      return [second ? input2 : input1];
+    }
+
+    case 'mergeByIndex':
+    case 'combine':
+    case 'multiplex':
+    case 'mergeByKey': {
+      const combineBy = mode === 'multiplex' ? 'combineAll'
+        : mode === 'mergeByKey' ? 'combineByFields'
+        : mode === 'mergeByIndex' ? 'combineByPosition'
+        : parameters.combineBy || parameters.combinationMode || 'combineByPosition';
+
+      if (combineBy === 'combineByPosition' || combineBy === 'mergeByPosition') {
+        const length = parameters.options?.includeUnpaired ? Math.max(input1.length, input2.length) : Math.min(input1.length, input2.length);
+        return [Array.from({ length }, (_, i) => ({ json: { ...input1[i]?.json, ...input2[i]?.json } }))];
+      }
+
+      if (combineBy === 'combineAll' || combineBy === 'multiplex') {
+        return [input1.flatMap(a => input2.map(b => ({ json: { ...a.json, ...b.json } })))];
+      }
+
+      if (combineBy === 'combineByFields' || combineBy === 'mergeByFields') {
+        let pairs: Array<{ field1: string; field2: string }> = parameters.fieldsToMatch?.values ||
+          parameters.mergeByFields?.values || [];
+        if (parameters.fieldsToMatchString) {
+          pairs = String(parameters.fieldsToMatchString).split(',').map(f => ({ field1: f.trim(), field2: f.trim() }));
+        }
+        if (mode === 'mergeByKey') {
+          pairs = [{ field1: parameters.propertyName1, field2: parameters.propertyName2 }];
+        }
+        const matches = (a: Item, b: Item) => pairs.every(p => getPath(a.json, p.field1) === getPath(b.json, p.field2));
+        const output: Item[] = [];
+        for (const a of input1) {
+          for (const b of input2.filter(candidate => matches(a, candidate))) {
+            output.push({ json: { ...a.json, ...b.json } });
+          }
+        }
+        return [output];
+      }
+
+      throw new Error(`Unsupported Merge combine mode: ${combineBy}`);
+    }
+
+    default:
+      throw new Error(`Unsupported Merge mode: ${mode}`);
+  }
+};
+
+/**
+ * Split In Batches: v3 emits batches on "loop" (output 1) and everything
+ * processed on "done" (output 0); older versions emit batches on output 0
+ */
+const executeSplitInBatches: NodeExecutor = async (execution) => {
+  const { node, state } = execution;
+  const input = execution.inputs[0] || [];
+  const parameters = parametersFor(execution, input, 0);
+  const batchSize = Math.max(1, Number(parameters.batchSize ?? 10));
+  const loopOutput = typeVersion(node) >= 3;
+
+  let batches = state.get(node.name);
+  if (!batches || batches.done) {
+    batches = { remaining: [...input], processed: [] as Item[], done: false };
+    state.set(node.name, batches);
+  } else {
+    // Items coming back from the loop
+    batches.processed.push(...input);
+  }
+
+  if (batches.remaining.length > 0) {
+    const batch = batches.remaining.splice(0, batchSize);
+    return loopOutput ? [[], batch] : [batch];
+  }
+
+  batches.done = true;
+  return loopOutput ? [batches.processed, []] : [[]];
+};
+
+export const NODE_EXECUTORS: Record<string, NodeExecutor> = {
+  'n8n-nodes-base.manualTrigger': passThrough,
+  'n8n-nodes-base.webhook': passThrough,
+  'n8n-nodes-base.start': passThrough,
+  'n8n-nodes-base.noOp': passThrough,
+  'n8n-nodes-base.code': executeCode,
+  'n8n-nodes-base.set': executeSet,
+  'n8n-nodes-base.if': executeIf,
+  'n8n-nodes-base.switch': executeSwitch,
+  'n8n-nodes-base.merge': executeMerge,
+  'n8n-nodes-base.splitInBatches': executeSplitInBatches,
+};
+
+export const TRIGGER_TYPES = ['n8n-nodes-base.manualTrigger', 'n8n-nodes-base.webhook', 'n8n-nodes-base.start'];
@@ -0,0 +1,97 @@
+/**
+ * Code Node Sandbox
+ *
+ * Runs Code node JavaScript in a separate VM context with the n8n globals,
+ * in either "Run Once for All Items" or "Run Once for Each Item" mode.
+ */
+
+import vm from 'vm';
+import { createRequire } from 'module';
+import path from 'path';
+import { Item, NodeOutputs, createDataContext, normalizeItems } from './context.js';
+
+export type CodeMode = 'runOnceForAllItems' | 'runOnceForEachItem';
+
+export interface CodeRunOptions {
+  code: string;
+  items: Item[];
+  mode?: CodeMode;
+  nodeOutputs?: NodeOutputs;
+  env?: Record<string, string | undefined>;
+  workflow?: { id?: string; name?: string; active?: boolean };
+  baseDir?: string; // Enables require() relative to this directory
+  timeout?: number;
+  logs?: string[];
+}
+
+const DEFAULT_TIMEOUT = 5000;
+
+/**
+ * console replacement that collects output instead of printing it
+ */
+function captureConsole(logs: string[]) {
+  const write = (...args: any[]) => {
+    logs.push(args.map(arg => typeof arg === 'string' ? arg : JSON.stringify(arg)).join(' '));
+  };
+  return { log: write, info: write, warn: write, error: write, debug: write };
+}
+
+async function runScript(code: string, globals: Record<string, any>, timeout: number): Promise<any> {
+  const context = vm.createContext({ ...globals });
+  const script = new vm.Script(`(async () => {\n${code}\n})()`, { filename: 'code-node.js' });
+  const pending = script.runInContext(context, { timeout });
+
+  let timer: NodeJS.Timeout | undefined;
+  const deadline = new Promise((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Code execution timed out after ${timeout}ms`)), timeout);
+  });
+  try {
+    return await Promise.race([pending, deadline]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Execute Code node JavaScript and return its output items
+ */
+export async function runCode(options: CodeRunOptions): Promise<Item[]> {
+  const mode = options.mode || 'runOnceForAllItems';
+  const timeout = options.timeout || DEFAULT_TIMEOUT;
+  const logs = options.logs || [];
+  const shared: Record<string, any> = { console: captureConsole(logs) };
+  if (options.baseDir) {
+    shared.require = createRequire(path.join(path.resolve(options.baseDir), 'code-node.js'));
+  }
+
+  const contextFor = (itemIndex: number) => ({
+    ...createDataContext({
+      items: options.items,
+      itemIndex,
+      nodeOutputs: options.nodeOutputs,
+      env: options.env,
+      workflow: options.workflow,
+    }),
+    ...shared,
+  });
+
+  if (mode === 'runOnceForAllItems') {
+    const result = await runScript(options.code, contextFor(0), timeout);
+    if (result === undefined) {
+      throw new Error('Code doesn\'t return items properly. Return an array of objects, e.g. [{ json: {...} }]');
+    }
+    return normalizeItems(result);
+  }
+
+  const output: Item[] = [];
+  for (let index = 0; index < options.items.length; index++) {
+    const result = await runScript(options.code, contextFor(index), timeout);
+    if (Array.isArray(result)) {
+      throw new Error(`Code returned an array for item ${index}. In "Run Once for Each Item" mode return a single object`);
+    }
+    if (result !== undefined && result !== null) {
+      output.push(...normalizeItems(result));
+    }
+  }
+  return output;
+}
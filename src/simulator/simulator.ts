@@ -0,0 +1,111 @@
+/**
+ * Workflow Simulator
+ *
+ * Compiles a workflow from flows/ (so nodeContent and _nodeFile code is
+ * inlined) and runs it through the local simulation engine with a fixture
+ * from flows/__fixtures__/<workflow>.json or one passed in directly.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { WorkflowCompiler } from '../workflows/compiler.js';
+import { NodeManager } from '../nodes/manager.js';
+import { findExternalReferences, toParameterValue } from '../workflows/sync.js';
+import { SimulationFixture, SimulationResult, simulateWorkflow, formatSimulation } from './engine.js';
+
+export const FIXTURES_DIR = '__fixtures__';
+
+export interface SimulateOptions {
+  path: string;
+  fixture?: SimulationFixture;
+  fixturePath?: string;
+  trigger?: string;
+}
+
+export class WorkflowSimulator {
+  private workflowsPath: string;
+  private compiler: WorkflowCompiler;
+  private nodeManager: NodeManager;
+
+  constructor(workflowsPath: string) {
+    this.workflowsPath = workflowsPath;
+    this.compiler = new WorkflowCompiler(workflowsPath);
+    this.nodeManager = new NodeManager(workflowsPath);
+  }
+
+  /**
+   * Resolve a workflow path relative to the workflows directory
+   */
+  private resolveWorkflowPath(workflowPath: string): string {
+    if (path.isAbsolute(workflowPath)) {
+      return workflowPath;
+    }
+    const relative = workflowPath.startsWith('flows/') ? workflowPath : path.join('flows', workflowPath);
+    return path.join(this.workflowsPath, relative.endsWith('.json') ? relative : `${relative}.json`);
+  }
+
+  /**
+   * Inline files referenced through _nodeFile, which the compiler leaves alone
+   */
+  private async injectNodeFiles(workflow: any): Promise<void> {
+    for (const reference of findExternalReferences(workflow)) {
+      if (reference.source !== 'nodeFile') continue;
+      const node = workflow.nodes.find((n: any) => n.name === reference.node);
+      const content = await fs.readFile(path.join(this.workflowsPath, reference.file), 'utf-8');
+      const { body } = this.nodeManager.splitHeader(reference.file, content);
+      node.parameters[reference.parameter[0]] = toParameterValue(reference, body);
+      delete node.parameters._nodeFile;
+    }
+  }
+
+  /**
+   * Load the fixture for a workflow, returning an empty fixture when there is none
+   */
+  private async loadFixture(workflowFile: string, fixturePath?: string): Promise<SimulationFixture> {
+    const candidate = fixturePath
+      ? path.resolve(this.workflowsPath, fixturePath)
+      : path.join(path.dirname(workflowFile), FIXTURES_DIR, path.basename(workflowFile));
+
+    try {
+      return JSON.parse(await fs.readFile(candidate, 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT' && !fixturePath) {
+        return {};
+      }
+      throw new Error(`Failed to read fixture ${candidate}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Simulate a workflow and report each node's input and output items
+   */
+  async simulate(options: SimulateOptions): Promise<any> {
+    return {
+      content: [{
+        type: 'text',
+        text: formatSimulation(await this.run(options))
+      }]
+    };
+  }
+
+  /**
+   * Simulate a workflow and return the raw result
+   */
+  async run(options: SimulateOptions): Promise<SimulationResult> {
+    if (!options.path) {
+      throw new Error('Workflow path is required');
+    }
+
+    const workflowFile = this.resolveWorkflowPath(options.path);
+    // Simulated runs should not report to the tracking storage API
+    const workflow = await this.compiler.compileWorkflow(workflowFile, { tracking: false });
+    await this.injectNodeFiles(workflow);
+
+    const fixture = options.fixture || await this.loadFixture(workflowFile, options.fixturePath);
+    if (options.trigger) {
+      fixture.trigger = options.trigger;
+    }
+
+    return simulateWorkflow(workflow, fixture, { baseDir: this.workflowsPath });
+  }
+}
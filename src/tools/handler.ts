@@ -6,16 +6,34 @@ import { CredentialHelper } from '../credentials/helper.js';
 import { WorkflowCompiler } from '../workflows/compiler.js';
 import { NodeManager } from '../nodes/manager.js';
 import { ChangeTracker } from '../utils/change-tracker.js';
+import { loadProjectConfig, resolveEnvironment, listEnvironments } from '../n8n/environments.js';
 import { analyzeWorkflow } from '../workflows/analyzer.js';
+import { analyzeProject, analyzeChangeImpact } from '../workflows/graph.js';
 import { validateWorkflow, autofixWorkflow } from '../workflows/validator.js';
-import { addNodeToWorkflow, connectNodes } from '../workflows/operations.js';
-import { generateWorkflowFromTemplate } from '../workflows/templates.js';
+import {
+  addNodeToWorkflow,
+  connectNodes,
+  disconnectNodes,
+  removeNodeFromWorkflow,
+  insertNodeBetween,
+  moveNode,
+  layoutWorkflow,
+  renameNode,
+} from '../workflows/operations.js';
+import { generateWorkflowFromTemplate, listTemplates, saveWorkflowAsTemplate } from '../workflows/templates.js';
 import { TrackingInjector } from '../workflows/tracking-injector.js';
-import { TrackingConfig } from '../workflows/tracking.js';
+import { isTrackingNode, currentTrackingId } from '../workflows/tracking.js';
+import { loadTrackingConfig, saveTrackingConfig } from '../workflows/tracking-config.js';
+import { TrackingStore } from '../tracking/store.js';
+import { TrackingReceiver } from '../tracking/receiver.js';
+import { queryTracking } from '../tracking/query.js';
+import { exportTraces } from '../tracking/otlp.js';
 import { AppGenerator } from '../app/generator.js';
+import { WorkflowSimulator } from '../simulator/simulator.js';
+import { CodeTestRunner } from '../simulator/code-tests.js';
 
 export class ToolHandler {
-  private trackingConfig: TrackingConfig = { enabled: false };
+  private trackingReceiver?: TrackingReceiver;
 
   constructor(
     private workflowsPath: string,
@@ -32,6 +50,13 @@ export class ToolHandler {
       case 'read':
         return await this.workflowManager.readWorkflow(args?.path as string);
 
+      case 'render':
+        return await this.workflowManager.renderWorkflow(
+          args?.path as string,
+          args?.format as any,
+          args?.output as string
+        );
+
       case 'create':
         return await this.workflowManager.createWorkflow(
           args?.name as string,
@@ -45,9 +70,21 @@ export class ToolHandler {
           args?.workflow as any
         );
 
+      case 'patch':
+        return await this.workflowManager.patchWorkflow(
+          args?.path as string,
+          args?.patches as any[]
+        );
+
       case 'analyze':
         return await analyzeWorkflow(this.workflowsPath, args?.path as string);
 
+      case 'analyze_project':
+        return await analyzeProject(this.workflowsPath);
+
+      case 'impact':
+        return await analyzeChangeImpact(this.workflowsPath, args?.target as string);
+
       case 'info':
         return await this.workflowManager.getProjectInfo(args?.project as string);
 
@@ -79,6 +116,19 @@ export class ToolHandler {
           return await validateWorkflow(validateWorkflow);
         }
 
+      case 'simulate':
+        const simulator = new WorkflowSimulator(this.workflowsPath);
+        return await simulator.simulate({
+          path: args?.path as string,
+          fixture: args?.fixture as any,
+          fixturePath: args?.fixturePath as string,
+          trigger: args?.trigger as string,
+        });
+
+      case 'test_code':
+        const codeTestRunner = new CodeTestRunner(this.workflowsPath);
+        return await codeTestRunner.run({ name: args?.name as string });
+
       case 'add_node':
         return await addNodeToWorkflow(
           this.workflowsPath,
@@ -94,18 +144,85 @@ export class ToolHandler {
           args?.sourceNode as string,
           args?.targetNode as string,
           args?.sourceOutput as string,
-          args?.targetInput as string
+          args?.targetInput as string,
+          args?.sourceIndex as number,
+          args?.targetIndex as number
+        );
+
+      case 'disconnect':
+        return await disconnectNodes(
+          this.workflowsPath,
+          args?.path as string,
+          args?.sourceNode as string,
+          args?.targetNode as string,
+          args?.sourceOutput as string,
+          args?.sourceIndex as number | undefined,
+          args?.targetIndex as number | undefined
+        );
+
+      case 'remove_node':
+        return await removeNodeFromWorkflow(
+          this.workflowsPath,
+          args?.path as string,
+          args?.node as string
+        );
+
+      case 'insert_between':
+        return await insertNodeBetween(
+          this.workflowsPath,
+          args?.path as string,
+          args?.sourceNode as string,
+          args?.targetNode as string,
+          args?.node as any,
+          args?.sourceIndex as number | undefined
+        );
+
+      case 'move_node':
+        return await moveNode(
+          this.workflowsPath,
+          args?.path as string,
+          args?.node as string,
+          args?.position as any
+        );
+
+      case 'layout':
+        return await layoutWorkflow(this.workflowsPath, args?.path as string);
+
+      case 'rename_node':
+        return await renameNode(
+          this.workflowsPath,
+          args?.path as string,
+          args?.oldName as string,
+          args?.newName as string
+        );
+
+      case 'extract_subworkflow':
+        return await this.workflowManager.extractSubworkflow(
+          args?.path as string,
+          args?.nodes as string[],
+          args?.name as string
         );
 
       case 'generate':
+        if (!args?.template) {
+          return await listTemplates(this.workflowsPath);
+        }
         return await generateWorkflowFromTemplate(
           this.workflowManager,
+          this.workflowsPath,
           args?.template as string,
           args?.project as string,
           args?.name as string,
           args?.config as any
         );
 
+      case 'save_template':
+        return await saveWorkflowAsTemplate(this.workflowsPath, args?.path as string, args?.name as string, {
+          description: args?.description as string,
+          variables: args?.variables as any[],
+          overwrite: args?.overwrite as boolean,
+        });
+
       case 'compile':
         const outputToFiles = args?.output !== false;
         const compiler = new WorkflowCompiler(this.workflowsPath);
@@ -134,6 +251,7 @@ export class ToolHandler {
         const deployOptions = {
           activate: args?.activate as boolean,
           separate: args?.separate as boolean,
+          environment: args?.environment as string,
         };
 
         if (deployPath) {
@@ -144,6 +262,41 @@ export class ToolHandler {
           return await this.n8nManager.deployChangedWorkflows(deployOptions);
         }
 
+      case 'plan':
+        return await this.n8nManager.planDeployment({
+          path: args?.path as string,
+          all: args?.all as boolean,
+          activate: args?.activate as boolean,
+          environment: args?.environment as string,
+        });
+
+      case 'apply':
+        return await this.n8nManager.applyPlan({
+          environment: args?.environment as string,
+        });
+
+      case 'history':
+        return await this.n8nManager.listDeploymentHistory({
+          path: args?.path as string,
+          environment: args?.environment as string,
+          limit: args?.limit as number,
+        });
+
+      case 'rollback':
+        return await this.n8nManager.rollbackWorkflow({
+          path: args?.path as string,
+          revision: args?.revision as string,
+          environment: args?.environment as string,
+        });
+
+      case 'pull':
+        return await this.n8nManager.pullWorkflow({
+          path: args?.path as string,
+          environment: args?.environment as string,
+          dryRun: args?.dryRun as boolean,
+          force: args?.force as boolean,
+        });
+
       case 'export':
         return await this.n8nManager.exportWorkflow({
           id: args?.id as string,
@@ -160,7 +313,13 @@ export class ToolHandler {
         });
 
       case 'deployed':
-        return await this.n8nManager.listDeployedWorkflows();
+        return await this.n8nManager.listDeployedWorkflows(args?.environment as string);
+
+      case 'executions':
+        return await this.n8nManager.listExecutions({
+          workflowId: args?.workflowId as string,
+          limit: args?.limit as number,
+        });
 
       case 'list_credentials':
         const credentials = await this.n8nManager.listCredentials();
@@ -179,7 +338,8 @@ export class ToolHandler {
       case 'activate':
         return await this.n8nManager.updateWorkflowStatus(
           args?.id as string,
-          args?.active as boolean
+          args?.active as boolean,
+          args?.environment as string
         );
 
       case 'start':
@@ -191,7 +351,12 @@ export class ToolHandler {
       case 'status':
         const changeTracker = new ChangeTracker(this.workflowsPath);
         await changeTracker.initialize();
-        const statusDetails = await changeTracker.getChangeDetails();
+        const projectConfig = await loadProjectConfig(this.workflowsPath);
+        const statusEnvironment = resolveEnvironment(projectConfig, args?.environment as string);
+        const statusDetails = await changeTracker.getChangeDetails(
+          statusEnvironment.name,
+          listEnvironments(projectConfig)
+        );
         return {
           content: [{
             type: 'text',
@@ -271,7 +436,8 @@ export class ToolHandler {
           enabled: true,
           storageUrl,
           enableCheckpoints: trackingOptions.checkpoints?.length > 0,
-          enableErrorTracking: trackingOptions.addErrorTracking
+          enableErrorTracking: trackingOptions.addErrorTracking,
+          policy: args?.policy
         });
 
         // Inject tracking
@@ -280,13 +446,17 @@ export class ToolHandler {
         // Save modified workflow
         await fs.writeFile(fullTrackingPath, JSON.stringify(trackedWorkflow, null, 2));
 
-        // Count added nodes
-        const addedNodes = trackedWorkflow.nodes.length - workflow.nodes.length;
+        // Tracking nodes keep their IDs when applied again, so compare them
+        const existingTrackingIds = new Set(workflow.nodes.filter(isTrackingNode).map(currentTrackingId));
+        const trackingIds = trackedWorkflow.nodes.filter(isTrackingNode).map((n: any) => n.id);
+        const addedNodes = trackingIds.filter((id: string) => !existingTrackingIds.has(id)).length;
+        const updatedNodes = trackingIds.length - addedNodes;
 
         return {
           content: [{
             type: 'text',
-            text: `✅ Added ${addedNodes} tracking nodes to workflow\\n\\n` +
+            text: `✅ Added ${addedNodes} tracking nodes to workflow` +
+              `${updatedNodes > 0 ? ` (${updatedNodes} existing updated)` : ''}\\n\\n` +
               `Storage URL: ${storageUrl}\\n` +
               `Start tracking: ${trackingOptions.addStartTracking !== false ? 'Yes' : 'No'}\\n` +
               `End tracking: ${trackingOptions.addEndTracking !== false ? 'Yes' : 'No'}\\n` +
@@ -296,32 +466,29 @@ export class ToolHandler {
           }]
         };
 
-      case 'configure_tracking':
-        // Update global tracking configuration
-        this.trackingConfig = {
-          enabled: args?.enabled ?? this.trackingConfig.enabled,
-          storageUrl: args?.storageUrl || this.trackingConfig.storageUrl,
-          trackAllNodes: args?.trackAllNodes ?? this.trackingConfig.trackAllNodes,
-          enableCheckpoints: args?.enableCheckpoints ?? this.trackingConfig.enableCheckpoints,
-          enableErrorTracking: args?.enableErrorTracking ?? this.trackingConfig.enableErrorTracking
-        };
+      case 'remove_tracking': {
+        const fullRemovePath = path.join(this.workflowsPath, args?.path as string);
+        const untracked = new TrackingInjector({ enabled: false }).removeTracking(
+          JSON.parse(await fs.readFile(fullRemovePath, 'utf-8'))
+        );
 
-        // Save configuration to file for persistence
-        const configPath = path.join(this.workflowsPath, '.tracking-config.json');
-        await fs.writeFile(configPath, JSON.stringify(this.trackingConfig, null, 2));
+        if (untracked.removed.length > 0) {
+          await fs.writeFile(fullRemovePath, JSON.stringify(untracked.workflow, null, 2));
+        }
 
         return {
           content: [{
             type: 'text',
-            text: `✅ Tracking configuration updated:\\n\\n` +
-              `Enabled: ${this.trackingConfig.enabled}\\n` +
-              `Storage URL: ${this.trackingConfig.storageUrl || 'Not set'}\\n` +
-              `Track all nodes: ${this.trackingConfig.trackAllNodes || false}\\n` +
-              `Enable checkpoints: ${this.trackingConfig.enableCheckpoints || false}\\n` +
-              `Enable error tracking: ${this.trackingConfig.enableErrorTracking || false}\\n\\n` +
-              `Configuration saved to ${configPath}`
+            text: untracked.removed.length > 0
+              ? `✅ Removed ${untracked.removed.length} tracking nodes and restored their connections:\n` +
+                untracked.removed.map(name => `• ${name}`).join('\n')
+              : 'No tracking nodes found in workflow'
           }]
         };
+      }
+
+      case 'configure_tracking':
+        return await this.handleConfigureTracking(args || {});
 
       case 'add_checkpoint':
         const checkpointPath = args?.path as string;
@@ -335,7 +502,7 @@ export class ToolHandler {
         const checkpointWorkflow = JSON.parse(checkpointWorkflowContent);
 
         // Use configured storage URL or environment variable
-        const checkpointStorageUrl = this.trackingConfig.storageUrl || process.env.WORKFLOW_STORAGE_URL;
+        const checkpointStorageUrl = (await loadTrackingConfig(this.workflowsPath)).storageUrl || process.env.WORKFLOW_STORAGE_URL;
 
         if (!checkpointStorageUrl) {
           return {
@@ -384,6 +551,66 @@ export class ToolHandler {
           }]
         };
 
+      case 'add_approval_step': {
+        const fullApprovalPath = path.join(this.workflowsPath, args?.path as string);
+        const trackingConfig = await loadTrackingConfig(this.workflowsPath);
+        const approvalInjector = new TrackingInjector({ ...trackingConfig, enabled: true });
+
+        const approvalWorkflow = approvalInjector.addApprovalStep(
+          JSON.parse(await fs.readFile(fullApprovalPath, 'utf-8')),
+          {
+            afterNode: args?.afterNode as string,
+            stepName: args?.stepName as string,
+            timeoutHours: args?.timeoutHours as number,
+            rejectNode: args?.rejectNode as string
+          }
+        );
+        await fs.writeFile(fullApprovalPath, JSON.stringify(approvalWorkflow, null, 2));
+
+        return {
+          content: [{
+            type: 'text',
+            text: `✅ Added approval step "${args?.stepName}" after ${args?.afterNode}\n\n` +
+              `All items reaching the step are reviewed together as one approval. ` +
+              `Approved, they continue unchanged to the nodes ${args?.afterNode} fed; ` +
+              (args?.rejectNode ? `rejected, they go to ${args?.rejectNode}.\n` : 'rejected, they stop.\n') +
+              (args?.timeoutHours ? `Undecided approvals expire and count as rejected after ${args?.timeoutHours} hours.\n` : '') +
+              `The decision and comment are in $('Wait for Approval: ${args?.stepName}').first().json.body.\n` +
+              `Review queue: an app generated with features.approvals, at WORKFLOW_STORAGE_URL` +
+              `${trackingConfig.storageUrl ? ` (${trackingConfig.storageUrl})` : ''}`
+          }]
+        };
+      }
+
+      case 'tracking_server':
+        return await this.handleTrackingServer(
+          (args?.action as string) || 'status',
+          args?.port as number,
+          args?.host as string
+        );
+
+      case 'tracking_query':
+        return await queryTracking(this.workflowsPath, args?.type as any, {
+          workflow: args?.workflow as string,
+          status: args?.status as string,
+          executionId: args?.executionId as string,
+          itemId: args?.itemId as string,
+          checkpointName: args?.checkpointName as string,
+          limit: args?.limit as number,
+        });
+
+      case 'tracking_export':
+        return await exportTraces(this.workflowsPath, {
+          url: args?.url as string,
+          output: args?.output as string,
+          serviceName: args?.serviceName as string,
+          headers: args?.headers as Record<string, string>,
+          workflow: args?.workflow as string,
+          status: args?.status as string,
+          executionId: args?.executionId as string,
+          limit: args?.limit as number,
+        });
+
       case 'generate_app':
         const appName = args?.name as string;
         const stages = args?.stages as string[] || ['created', 'processing', 'review', 'completed'];
@@ -444,4 +671,103 @@ export class ToolHandler {
         throw new Error(`Unknown tool: ${toolName}`);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Update the persisted tracking config, project-wide or for one workflow
+   */
+  private async handleConfigureTracking(args: any): Promise<any> {
+    const config = await loadTrackingConfig(this.workflowsPath);
+    let text: string;
+
+    if (args.workflow) {
+      const workflowName = String(args.workflow).replace(/^flows\//, '').replace(/\.json$/, '');
+      const workflowConfig = {
+        ...config.workflows?.[workflowName],
+        ...args.options,
+        ...(args.enabled !== undefined ? { enabled: args.enabled } : {}),
+        ...(args.policy ? { policy: { ...config.workflows?.[workflowName]?.policy, ...args.policy } } : {}),
+      };
+      config.workflows = { ...config.workflows, [workflowName]: workflowConfig };
+
+      text = `✅ Tracking configuration for ${workflowName} updated:\n\n` +
+        `Enabled: ${workflowConfig.enabled ?? `${config.enabled} (project setting)`}\n` +
+        `Start tracking: ${workflowConfig.addStartTracking !== false ? 'Yes' : 'No'}\n` +
+        `End tracking: ${workflowConfig.addEndTracking !== false ? 'Yes' : 'No'}\n` +
+        `Error tracking: ${workflowConfig.addErrorTracking ?? config.enableErrorTracking ? 'Yes' : 'No'}\n` +
+        `Checkpoints: ${workflowConfig.checkpoints?.length || 0}\n` +
+        `Stored outputs: ${workflowConfig.storeOutputNodes?.length || 0}\n` +
+        `Policy: ${workflowConfig.policy ? JSON.stringify(workflowConfig.policy) : 'project policy'}\n`;
+    } else {
+      config.enabled = args.enabled ?? config.enabled;
+      config.storageUrl = args.storageUrl || config.storageUrl;
+      config.trackAllNodes = args.trackAllNodes ?? config.trackAllNodes;
+      config.enableCheckpoints = args.enableCheckpoints ?? config.enableCheckpoints;
+      config.enableErrorTracking = args.enableErrorTracking ?? config.enableErrorTracking;
+      if (args.policy) {
+        config.policy = { ...config.policy, ...args.policy };
+      }
+
+      text = `✅ Tracking configuration updated:\n\n` +
+        `Enabled: ${config.enabled}\n` +
+        `Storage URL: ${config.storageUrl || 'Not set'}\n` +
+        `Track all nodes: ${config.trackAllNodes || false}\n` +
+        `Enable checkpoints: ${config.enableCheckpoints || false}\n` +
+        `Enable error tracking: ${config.enableErrorTracking || false}\n` +
+        `Policy: ${config.policy ? JSON.stringify(config.policy) : 'none (payloads are sent as-is)'}\n`;
+    }
+
+    const configPath = await saveTrackingConfig(this.workflowsPath, config);
+    text += `\nConfiguration saved to ${configPath}\n` +
+      `Tracking is applied when workflows are compiled or deployed; source flows are left unchanged.`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Start, stop or report the built-in tracking receiver
+   */
+  private async handleTrackingServer(action: string, port?: number, host?: string): Promise<any> {
+    let text: string;
+    switch (action) {
+      case 'start': {
+        this.trackingReceiver = this.trackingReceiver || new TrackingReceiver(new TrackingStore(this.workflowsPath));
+        const url = this.trackingReceiver.url || await this.trackingReceiver.start(port, host);
+        text = `✅ Tracking receiver listening at ${url}\n\n` +
+          `Set WORKFLOW_STORAGE_URL=${url} for n8n (use a host n8n can reach if it runs in Docker).\n` +
+          `Events are recorded to .mcflow/tracking/events.jsonl; query them with tracking_query.`;
+        break;
+      }
+      case 'stop':
+        if (!this.trackingReceiver?.url) {
+          text = 'Tracking receiver is not running';
+        } else {
+          await this.trackingReceiver.stop();
+          text = '🛑 Tracking receiver stopped';
+        }
+        break;
+      case 'status':
+        text = this.trackingReceiver?.url
+          ? `✅ Tracking receiver running at ${this.trackingReceiver.url}`
+          : 'Tracking receiver is not running (start it with action "start")';
+        break;
+      default:
+        throw new Error(`Unknown tracking_server action "${action}" (use start, stop or status)`);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+      ],
+    };
+  }
+}
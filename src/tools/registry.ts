@@ -2,6 +2,93 @@
  * Tool definitions for the McFlow MCP server
  */
 
+// Injection options shared by add_tracking and per-workflow configure_tracking
+const trackingOptionsSchema = {
+  type: 'object',
+  properties: {
+    addStartTracking: {
+      type: 'boolean',
+      description: 'Add tracking at workflow start (default: true)',
+    },
+    addEndTracking: {
+      type: 'boolean',
+      description: 'Add tracking at workflow end (default: true)',
+    },
+    addErrorTracking: {
+      type: 'boolean',
+      description: 'Add error tracking with error trigger',
+    },
+    checkpoints: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          afterNode: {
+            type: 'string',
+            description: 'Node name to add checkpoint after',
+          },
+          checkpointName: {
+            type: 'string',
+            description: 'Name for this checkpoint',
+          },
+        },
+      },
+      description: 'Checkpoints to add after specific nodes',
+    },
+    storeOutputNodes: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Node names whose outputs should be stored',
+    },
+    timeNodes: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Node names to measure the duration of, or ["*"] for every node after the trigger (at most 10 timed nodes)',
+    },
+  },
+  description: 'Tracking options',
+};
+
+// Redaction and sampling applied by the generated tracking nodes
+const trackingPolicySchema = {
+  type: 'object',
+  properties: {
+    allow: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Only send these fields (JSONPath-style selectors relative to the item JSON, e.g. $.order.id, $.items[*].sku)',
+    },
+    deny: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Never send these fields (e.g. $..password)',
+    },
+    hash: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Send a SHA-256 hash of these fields instead of the value',
+    },
+    mask: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Mask these fields, keeping the last 4 characters of long values',
+    },
+    maxPayloadSize: {
+      type: 'number',
+      description: 'Cut payloads whose JSON is longer than this many characters to a preview',
+    },
+    stripBinary: {
+      type: 'boolean',
+      description: 'Replace binary data and base64 data URIs with "[binary]"',
+    },
+    sampleRate: {
+      type: 'number',
+      description: 'Share of executions to track, 0-1 (errors and checkpoints are always sent)',
+    },
+  },
+  description: 'Redaction and sampling policy for tracked payloads',
+};
+
 export const getToolDefinitions = () => [
   {
     name: 'list',
@@ -30,6 +117,29 @@ export const getToolDefinitions = () => [
       required: ['path'],
     },
   },
+  {
+    name: 'render',
+    description: 'Render a workflow as plain text, a Mermaid flowchart, a Graphviz DOT graph or a standalone SVG (branch labels and AI sub-connections included)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path to the workflow file relative to workflows root',
+        },
+        format: {
+          type: 'string',
+          enum: ['text', 'mermaid', 'dot', 'svg'],
+          description: 'Output format (default: text)',
+        },
+        output: {
+          type: 'string',
+          description: 'Optional file to write the result to, relative to workflows root',
+        },
+      },
+      required: ['path'],
+    },
+  },
   {
     name: 'create',
     description: 'Create a new n8n workflow with REAL nodes only (no mock/placeholder nodes allowed). IMPORTANT: Use dashes in filenames, not underscores (e.g., "my-workflow" not "my_workflow")',
@@ -70,6 +180,25 @@ export const getToolDefinitions = () => [
       required: ['path', 'workflow'],
     },
   },
+  {
+    name: 'patch',
+    description: 'Edit a workflow in place with RFC 6902 JSON Patch operations ({op, path, value}) or node patches ({node, set: {"parameters.url": ...}, unset: [...]}) instead of resending the whole workflow. Patches that would introduce validation errors are rejected',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path to the workflow file relative to workflows root',
+        },
+        patches: {
+          type: 'array',
+          items: { type: 'object' },
+          description: 'Operations applied in order; all of them apply or none do',
+        },
+      },
+      required: ['path', 'patches'],
+    },
+  },
   {
     name: 'analyze',
     description: 'Analyze a workflow structure and dependencies',
@@ -84,6 +213,28 @@ export const getToolDefinitions = () => [
       required: ['path'],
     },
   },
+  {
+    name: 'analyze_project',
+    description: 'Build the project-wide dependency graph: workflows linked by Execute Workflow nodes and webhook calls, shared code modules, prompt files and credentials',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'impact',
+    description: 'List the workflows affected by changing a file (e.g. nodes/shared/utils.js), folder, workflow or credential, and the order to deploy them in',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target: {
+          type: 'string',
+          description: 'File or folder path relative to workflows root, workflow file or name, or credential name',
+        },
+      },
+      required: ['target'],
+    },
+  },
   {
     name: 'info',
     description: 'Get project or workflow structure information',
@@ -119,6 +270,45 @@ export const getToolDefinitions = () => [
       },
     },
   },
+  {
+    name: 'simulate',
+    description: 'Run a workflow locally without n8n - executes triggers, Code, Set, IF, Switch, Merge, NoOp and Split In Batches nodes and replays fixture output for other nodes',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Workflow file to simulate (e.g. flows/my-workflow.json)',
+        },
+        fixture: {
+          type: 'object',
+          description: 'Optional: Inline fixture { trigger, input, nodes: { "Node Name": [items] }, env }',
+        },
+        fixturePath: {
+          type: 'string',
+          description: 'Optional: Fixture file. Defaults to flows/__fixtures__/<workflow>.json when it exists',
+        },
+        trigger: {
+          type: 'string',
+          description: 'Optional: Name of the node to start from',
+        },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'test_code',
+    description: 'Run extracted Code node files against fixtures in nodes/code/__fixtures__/<name>.json with n8n globals ($input, $json, $items, $node, $env)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Optional: Only run code files whose name contains this text',
+        },
+      },
+    },
+  },
   {
     name: 'add_node',
     description: 'Add a REAL n8n node to workflow (no mock/placeholder nodes allowed)',
@@ -157,11 +347,11 @@ export const getToolDefinitions = () => [
         },
         sourceNode: {
           type: 'string',
-          description: 'ID of the source node',
+          description: 'Name (or ID) of the source node',
         },
         targetNode: {
           type: 'string',
-          description: 'ID of the target node',
+          description: 'Name (or ID) of the target node',
         },
         sourceOutput: {
           type: 'string',
@@ -171,20 +361,194 @@ export const getToolDefinitions = () => [
           type: 'string',
           description: 'Input type for target node (default: main)',
         },
+        sourceIndex: {
+          type: 'number',
+          description: 'Output index on the source node, e.g. 1 for the false branch of an IF (default: 0)',
+        },
+        targetIndex: {
+          type: 'number',
+          description: 'Input index on the target node, e.g. 1 for the second input of a Merge (default: 0)',
+        },
+      },
+      required: ['path', 'sourceNode', 'targetNode'],
+    },
+  },
+  {
+    name: 'disconnect',
+    description: 'Remove the connection between two nodes in a workflow',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path to the workflow file',
+        },
+        sourceNode: {
+          type: 'string',
+          description: 'Name (or ID) of the source node',
+        },
+        targetNode: {
+          type: 'string',
+          description: 'Name (or ID) of the target node',
+        },
+        sourceOutput: {
+          type: 'string',
+          description: 'Output type from source node (default: main)',
+        },
+        sourceIndex: {
+          type: 'number',
+          description: 'Only remove the connection from this output index (default: all outputs)',
+        },
+        targetIndex: {
+          type: 'number',
+          description: 'Only remove the connection into this input index (default: all inputs)',
+        },
       },
       required: ['path', 'sourceNode', 'targetNode'],
     },
   },
+  {
+    name: 'remove_node',
+    description: 'Remove a node from a workflow along with all of its inbound and outbound connections',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path to the workflow file',
+        },
+        node: {
+          type: 'string',
+          description: 'Name (or ID) of the node to remove',
+        },
+      },
+      required: ['path', 'node'],
+    },
+  },
+  {
+    name: 'insert_between',
+    description: 'Insert a new node between two connected nodes, rewiring source -> new node -> target',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path to the workflow file',
+        },
+        sourceNode: {
+          type: 'string',
+          description: 'Name (or ID) of the source node',
+        },
+        targetNode: {
+          type: 'string',
+          description: 'Name (or ID) of the target node',
+        },
+        node: {
+          type: 'object',
+          description: 'The node to insert (placed midway between source and target unless it has a position)',
+        },
+        sourceIndex: {
+          type: 'number',
+          description: 'Source output index to split when the nodes are connected from several outputs',
+        },
+      },
+      required: ['path', 'sourceNode', 'targetNode', 'node'],
+    },
+  },
+  {
+    name: 'move_node',
+    description: 'Move a node to a new position on the n8n canvas',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path to the workflow file',
+        },
+        node: {
+          type: 'string',
+          description: 'Name (or ID) of the node to move',
+        },
+        position: {
+          type: 'object',
+          properties: {
+            x: { type: 'number' },
+            y: { type: 'number' },
+          },
+          description: 'New position for the node',
+        },
+      },
+      required: ['path', 'node', 'position'],
+    },
+  },
+  {
+    name: 'layout',
+    description: 'Re-lay out a whole workflow canvas: ranks nodes left to right by longest path, minimises crossings, stacks branches vertically, places AI sub-nodes under their agent and keeps sticky notes with the nodes they annotate',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path to the workflow file',
+        },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'rename_node',
+    description: 'Rename a node and update its connections, expression references in other nodes, extracted file headers and node metadata',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path to the workflow file',
+        },
+        oldName: {
+          type: 'string',
+          description: 'Current name of the node',
+        },
+        newName: {
+          type: 'string',
+          description: 'New name for the node',
+        },
+      },
+      required: ['path', 'oldName', 'newName'],
+    },
+  },
+  {
+    name: 'extract_subworkflow',
+    description: 'Move selected nodes into a new sub-workflow (started by an Execute Workflow Trigger) and replace them with an Execute Workflow node wired to the same upstream and downstream nodes. The parent won\'t deploy until the deployed sub-workflow is selected in that node',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path to the workflow file',
+        },
+        nodes: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Names of the nodes to move into the sub-workflow',
+        },
+        name: {
+          type: 'string',
+          description: 'Name for the new workflow (use dashes, e.g. "normalize-orders")',
+        },
+      },
+      required: ['path', 'nodes', 'name'],
+    },
+  },
   {
     name: 'generate',
-    description: 'Generate a workflow from template using REAL n8n nodes (no mock/placeholder nodes). IMPORTANT: Use dashes in filenames, not underscores',
+    description: 'Generate a workflow from a template using REAL n8n nodes (no mock/placeholder nodes). Call without a template to list the built-in and project templates (workflows/templates/) with their parameters. IMPORTANT: Use dashes in filenames, not underscores',
     inputSchema: {
       type: 'object',
       properties: {
         template: {
           type: 'string',
-          enum: ['webhook-api', 'scheduled-report', 'data-sync', 'error-handler', 'approval-flow'],
-          description: 'Template type to use',
+          description: 'Template name; omit to list available templates',
         },
         name: {
           type: 'string',
@@ -196,10 +560,49 @@ export const getToolDefinitions = () => [
         },
         config: {
           type: 'object',
-          description: 'Configuration options for the template',
+          description: 'Values for the template parameters; checked against the parameter types',
         },
       },
-      required: ['template', 'name'],
+    },
+  },
+  {
+    name: 'save_template',
+    description: 'Save a workflow from flows/ as a reusable project template in workflows/templates/. Strips IDs, credentials and instance-specific values, ships its extracted node files, and turns chosen node parameters into template variables',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path to the workflow file (e.g. "flows/orders.json")',
+        },
+        name: {
+          type: 'string',
+          description: 'Template name (lowercase, dashes)',
+        },
+        description: {
+          type: 'string',
+          description: 'What the template builds',
+        },
+        variables: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'Template parameter name' },
+              node: { type: 'string', description: 'Node whose parameter becomes the variable' },
+              parameter: { type: 'string', description: 'Dotted path in the node parameters, e.g. "url" or "rule.interval.0.hoursInterval"' },
+              description: { type: 'string' },
+            },
+            required: ['name', 'node', 'parameter'],
+          },
+          description: 'Node parameters to turn into template variables; their current values become the defaults',
+        },
+        overwrite: {
+          type: 'boolean',
+          description: 'Replace an existing template with the same name',
+        },
+      },
+      required: ['path', 'name'],
     },
   },
   {
@@ -237,9 +640,120 @@ export const getToolDefinitions = () => [
           type: 'boolean',
           description: 'Import as separate workflows (not merged)',
         },
+        environment: {
+          type: 'string',
+          description: 'Target environment from .mcflow/config.json (e.g. dev, staging, prod)',
+        },
+      },
+    },
+  },
+  {
+    name: 'plan',
+    description: 'Preview a deployment: compile workflows, compare with what is deployed in n8n and show a semantic diff. Nothing is deployed until "apply" is run',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Optional: Plan a specific workflow file. If not provided, plans all changed workflows',
+        },
+        all: {
+          type: 'boolean',
+          description: 'Plan ALL workflows, not just changed ones',
+        },
+        activate: {
+          type: 'boolean',
+          description: 'Plan to activate workflows after importing',
+        },
+        environment: {
+          type: 'string',
+          description: 'Target environment from .mcflow/config.json (e.g. dev, staging, prod)',
+        },
+      },
+    },
+  },
+  {
+    name: 'apply',
+    description: 'Deploy the saved plan from "plan" - refuses to run if local files or deployed workflows changed since the plan',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        environment: {
+          type: 'string',
+          description: 'Optional: Expected environment of the saved plan',
+        },
+      },
+    },
+  },
+  {
+    name: 'history',
+    description: 'Show archived deployments (revision, environment, time and git commit) that can be rolled back to',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Optional: Only show history of this workflow file',
+        },
+        environment: {
+          type: 'string',
+          description: 'Optional: Only show deployments to this environment',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of revisions to show (default: 20)',
+        },
       },
     },
   },
+  {
+    name: 'rollback',
+    description: 'Redeploy a previous revision of a workflow from the deployment archive',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Workflow file to roll back (e.g. flows/my-workflow.json)',
+        },
+        revision: {
+          type: 'string',
+          description: 'Optional: Revision from "history". Defaults to the newest revision that differs from the live one, skipping revisions a rollback already undid',
+        },
+        environment: {
+          type: 'string',
+          description: 'Target environment from .mcflow/config.json (e.g. dev, staging, prod)',
+        },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'pull',
+    description: 'Pull edits made in the n8n editor back into the code, prompt, SQL and JSON files under nodes/ - keeps file references intact and flags conflicts',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Workflow file to pull (e.g. flows/my-workflow.json)',
+        },
+        environment: {
+          type: 'string',
+          description: 'Environment to pull from (from .mcflow/config.json)',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Optional: Only report what would change without writing files',
+        },
+        force: {
+          type: 'boolean',
+          description: 'Optional: Resolve conflicts by taking the version deployed in n8n',
+        },
+      },
+      required: ['path'],
+    },
+  },
   {
     name: 'export',
     description: 'Export workflows from n8n - replaces "n8n export:workflow" command',
@@ -291,7 +805,29 @@ export const getToolDefinitions = () => [
     description: 'List all workflows in n8n instance - replaces "n8n list:workflow" command',
     inputSchema: {
       type: 'object',
-      properties: {},
+      properties: {
+        environment: {
+          type: 'string',
+          description: 'Target environment from .mcflow/config.json (e.g. dev, staging, prod)',
+        },
+      },
+    },
+  },
+  {
+    name: 'executions',
+    description: 'List recent workflow executions in n8n (requires the n8n API transport)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workflowId: {
+          type: 'string',
+          description: 'Only show executions of this workflow ID',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of executions to return (default: 20)',
+        },
+      },
     },
   },
   {
@@ -316,6 +852,10 @@ export const getToolDefinitions = () => [
           type: 'boolean',
           description: 'Set to true to activate, false to deactivate',
         },
+        environment: {
+          type: 'string',
+          description: 'Target environment from .mcflow/config.json (e.g. dev, staging, prod)',
+        },
       },
       required: ['id', 'active'],
     },
@@ -339,10 +879,15 @@ export const getToolDefinitions = () => [
   },
   {
     name: 'status',
-    description: 'Show deployment status of workflows (which are deployed, which need deployment)',
+    description: 'Show deployment status of workflows (which are deployed, which need deployment) per environment',
     inputSchema: {
       type: 'object',
-      properties: {},
+      properties: {
+        environment: {
+          type: 'string',
+          description: 'Target environment from .mcflow/config.json (e.g. dev, staging, prod)',
+        },
+      },
     },
   },
   {
@@ -402,7 +947,7 @@ export const getToolDefinitions = () => [
   },
   {
     name: 'add_tracking',
-    description: 'Add generic workflow execution tracking to a workflow (stores data via HTTP requests)',
+    description: 'Add generic workflow execution tracking to a workflow (stores data via HTTP requests). Running it again updates the existing tracking nodes instead of adding duplicates',
     inputSchema: {
       type: 'object',
       properties: {
@@ -414,45 +959,21 @@ export const getToolDefinitions = () => [
           type: 'string',
           description: 'Base URL for storage API (or use WORKFLOW_STORAGE_URL env var)',
         },
-        options: {
-          type: 'object',
-          properties: {
-            addStartTracking: {
-              type: 'boolean',
-              description: 'Add tracking at workflow start (default: true)',
-            },
-            addEndTracking: {
-              type: 'boolean',
-              description: 'Add tracking at workflow end (default: true)',
-            },
-            addErrorTracking: {
-              type: 'boolean',
-              description: 'Add error tracking with error trigger',
-            },
-            checkpoints: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  afterNode: {
-                    type: 'string',
-                    description: 'Node name to add checkpoint after',
-                  },
-                  checkpointName: {
-                    type: 'string',
-                    description: 'Name for this checkpoint',
-                  },
-                },
-              },
-              description: 'Checkpoints to add after specific nodes',
-            },
-            storeOutputNodes: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Node names whose outputs should be stored',
-            },
-          },
-          description: 'Tracking options',
+        options: trackingOptionsSchema,
+        policy: trackingPolicySchema,
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'remove_tracking',
+    description: 'Remove all tracking nodes added by add_tracking or add_checkpoint and reconnect the workflow as it was',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path to the workflow file to remove tracking from',
         },
       },
       required: ['path'],
@@ -460,13 +981,25 @@ export const getToolDefinitions = () => [
   },
   {
     name: 'configure_tracking',
-    description: 'Configure global tracking settings for workflows',
+    description: 'Configure tracking for the project or one workflow. Saved to .tracking-config.json and applied when workflows are compiled or deployed, so source flows stay unchanged',
     inputSchema: {
       type: 'object',
       properties: {
+        workflow: {
+          type: 'string',
+          description: 'Flow file name (e.g. order-intake) to configure instead of the project settings',
+        },
         enabled: {
           type: 'boolean',
-          description: 'Enable or disable tracking globally',
+          description: 'Enable or disable tracking for the project, or for the workflow',
+        },
+        options: {
+          ...trackingOptionsSchema,
+          description: 'Tracking options for the workflow (requires workflow)',
+        },
+        policy: {
+          ...trackingPolicySchema,
+          description: 'Redaction and sampling policy, merged into the project policy or the workflow\'s',
         },
         storageUrl: {
           type: 'string',
@@ -513,6 +1046,137 @@ export const getToolDefinitions = () => [
       required: ['path', 'checkpointName'],
     },
   },
+  {
+    name: 'add_approval_step',
+    description: 'Pause a workflow after a node until its items are approved or rejected. Registers the items as one approval with the storage API (the generated app\'s approval queue), waits on an n8n Wait node that the queue resumes with the decision, then passes the original items on',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path to the workflow file',
+        },
+        afterNode: {
+          type: 'string',
+          description: 'Node whose output needs approval',
+        },
+        stepName: {
+          type: 'string',
+          description: 'Name of the approval step, shown in the review queue',
+        },
+        timeoutHours: {
+          type: 'number',
+          description: 'Stop waiting after this many hours and treat the item as not approved',
+        },
+        rejectNode: {
+          type: 'string',
+          description: 'Node to send rejected items to (default: stop them)',
+        },
+      },
+      required: ['path', 'afterNode', 'stepName'],
+    },
+  },
+  {
+    name: 'tracking_server',
+    description: 'Start, stop or check the built-in tracking receiver. It serves the /api/workflow/store and /api/workflow/retrieve storage API locally and records events to .mcflow/tracking/events.jsonl; set WORKFLOW_STORAGE_URL in n8n to its URL',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['start', 'stop', 'status'],
+          description: 'What to do (default: status)',
+        },
+        port: {
+          type: 'number',
+          description: 'Port to listen on (default: 3000)',
+        },
+        host: {
+          type: 'string',
+          description: 'Interface to bind (default: 127.0.0.1; use 0.0.0.0 when n8n runs in Docker)',
+        },
+      },
+    },
+  },
+  {
+    name: 'tracking_query',
+    description: 'Query executions, errors and checkpoints recorded by the built-in tracking receiver',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        type: {
+          type: 'string',
+          enum: ['executions', 'execution', 'errors', 'checkpoints', 'timings'],
+          description: 'What to list; "execution" shows one execution with its stored node outputs and errors, "timings" the p50/p95 duration of timed nodes',
+        },
+        workflow: {
+          type: 'string',
+          description: 'Filter by workflow name or ID',
+        },
+        status: {
+          type: 'string',
+          description: 'Filter executions by status (running, success, error)',
+        },
+        executionId: {
+          type: 'string',
+          description: 'Execution ID (required for type "execution")',
+        },
+        itemId: {
+          type: 'string',
+          description: 'Filter by item ID',
+        },
+        checkpointName: {
+          type: 'string',
+          description: 'Filter checkpoints by name',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of results (default: 20)',
+        },
+      },
+    },
+  },
+  {
+    name: 'tracking_export',
+    description: 'Export tracked executions as OpenTelemetry traces (OTLP/JSON): one trace per execution, one span per stored node output or checkpoint. Sends them to a collector and/or writes a file',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        url: {
+          type: 'string',
+          description: 'OTLP/HTTP collector URL, e.g. http://localhost:4318 (/v1/traces is added when missing)',
+        },
+        output: {
+          type: 'string',
+          description: 'File to write the OTLP/JSON to, relative to the workflows directory',
+        },
+        serviceName: {
+          type: 'string',
+          description: 'service.name resource attribute (default: n8n-workflows)',
+        },
+        headers: {
+          type: 'object',
+          description: 'Extra HTTP headers for the collector, e.g. an API key',
+        },
+        workflow: {
+          type: 'string',
+          description: 'Only export executions of this workflow (name or ID)',
+        },
+        status: {
+          type: 'string',
+          description: 'Only export executions with this status',
+        },
+        executionId: {
+          type: 'string',
+          description: 'Only export this execution',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of executions, newest first',
+        },
+      },
+    },
+  },
   {
     name: 'generate_app',
     description: 'Generate a Next.js app for managing workflow data within the current project',
@@ -0,0 +1,267 @@
+/**
+ * OTLP Trace Export
+ *
+ * Turns tracked executions into OpenTelemetry traces (OTLP/JSON): each
+ * execution is a trace with a root span, each stored node output or saved
+ * checkpoint is a child span. Tracking nodes only report when they run, so a
+ * child span covers the time since the previous event of its execution;
+ * timed nodes report their own start and end.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { TrackingStore, TrackingEvent, TrackingFilter, TrackedExecution } from './store.js';
+
+export const DEFAULT_SERVICE_NAME = 'n8n-workflows';
+export const OTLP_TRACES_PATH = '/v1/traces';
+
+const SCOPE_NAME = 'mcflow-tracking';
+
+// OTLP enum values
+const SPAN_KIND_INTERNAL = 1;
+const SPAN_KIND_SERVER = 2;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+export interface OtlpAttribute {
+  key: string;
+  value: { stringValue?: string; intValue?: string; boolValue?: boolean };
+}
+
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpAttribute[];
+  events?: Array<{ timeUnixNano: string; name: string; attributes: OtlpAttribute[] }>;
+  status: { code: number; message?: string };
+}
+
+export interface OtlpTraces {
+  resourceSpans: Array<{
+    resource: { attributes: OtlpAttribute[] };
+    scopeSpans: Array<{ scope: { name: string }; spans: OtlpSpan[] }>;
+  }>;
+}
+
+export interface TraceExportOptions extends TrackingFilter {
+  url?: string; // OTLP/HTTP collector, e.g. http://localhost:4318
+  output?: string; // File to write, relative to the workflows directory
+  serviceName?: string;
+  headers?: Record<string, string>;
+}
+
+function hexId(seed: string, bytes: number): string {
+  return crypto.createHash('sha256').update(seed).digest('hex').slice(0, bytes * 2);
+}
+
+function nanos(time: string | undefined): string {
+  const ms = time ? Date.parse(time) : NaN;
+  return Number.isFinite(ms) ? `${ms}000000` : '0';
+}
+
+function attributes(values: Record<string, any>): OtlpAttribute[] {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([key, value]) => ({
+      key,
+      value: typeof value === 'boolean' ? { boolValue: value }
+        : Number.isInteger(value) ? { intValue: String(value) }
+          : { stringValue: String(value) },
+    }));
+}
+
+const eventTime = (event: TrackingEvent) => event.timestamp || event.receivedAt;
+
+/**
+ * Whether a checkpoint belongs to an execution: by execution ID when the
+ * checkpoint node sent one, otherwise by item and time window
+ */
+function checkpointOf(event: TrackingEvent, execution: TrackedExecution): boolean {
+  if (event.executionId !== undefined) {
+    return String(event.executionId) === execution.executionId;
+  }
+  const time = eventTime(event);
+  return !!execution.itemId && String(event.itemId) === execution.itemId &&
+    (!execution.startedAt || time >= execution.startedAt) &&
+    (!execution.endedAt || time <= execution.endedAt);
+}
+
+/**
+ * Spans for one execution, root span first
+ */
+function executionSpans(execution: TrackedExecution, events: TrackingEvent[]): OtlpSpan[] {
+  const traceId = hexId(`${execution.workflowId || execution.workflowName || ''}:${execution.executionId}`, 16);
+  const rootId = hexId(`${traceId}:root`, 8);
+
+  const own = events
+    .filter(event =>
+      event.action === 'save_checkpoint' ? checkpointOf(event, execution) : String(event.executionId) === execution.executionId
+    )
+    .sort((a, b) => eventTime(a).localeCompare(eventTime(b)));
+  const errors = own.filter(event => event.action === 'track_error');
+
+  const start = execution.startedAt || (own[0] && eventTime(own[0]));
+  const end = execution.endedAt || (own.length > 0 ? eventTime(own[own.length - 1]) : start);
+  const failed = errors.length > 0 || !['running', 'success', 'completed'].includes(execution.status);
+
+  const root: OtlpSpan = {
+    traceId,
+    spanId: rootId,
+    name: execution.workflowName || `Workflow ${execution.workflowId || execution.executionId}`,
+    kind: SPAN_KIND_SERVER,
+    startTimeUnixNano: nanos(start),
+    endTimeUnixNano: nanos(end),
+    attributes: attributes({
+      'n8n.workflow.id': execution.workflowId,
+      'n8n.workflow.name': execution.workflowName,
+      'n8n.execution.id': execution.executionId,
+      'n8n.execution.status': execution.status,
+      'mcflow.item.id': execution.itemId,
+    }),
+    events: errors.map(error => ({
+      timeUnixNano: nanos(eventTime(error)),
+      name: 'exception',
+      attributes: attributes({
+        'exception.message': error.errorMessage,
+        'exception.stacktrace': error.errorDetails?.stack,
+        'n8n.node.name': error.nodeId,
+      }),
+    })),
+    status: failed
+      ? { code: STATUS_ERROR, message: errors[0]?.errorMessage || `Execution ${execution.status}` }
+      : execution.status === 'running' ? { code: 0 } : { code: STATUS_OK },
+  };
+
+  const spans = [root];
+  let previous = start;
+  own.forEach((event, index) => {
+    const time = eventTime(event);
+    if (event.action === 'node_timing') {
+      spans.push({
+        traceId,
+        spanId: hexId(`${traceId}:${index}:${event.action}:${event.nodeId}`, 8),
+        parentSpanId: rootId,
+        name: String(event.nodeId),
+        kind: SPAN_KIND_INTERNAL,
+        startTimeUnixNano: nanos(event.startedAt || time),
+        endTimeUnixNano: nanos(event.endedAt || time),
+        attributes: attributes({
+          'n8n.node.name': event.nodeId,
+          'mcflow.duration_ms': Number(event.durationMs),
+        }),
+        status: errors.some(error => error.nodeId && error.nodeId === event.nodeId) ? { code: STATUS_ERROR } : { code: STATUS_OK },
+      });
+    } else if (event.action === 'store_node' || event.action === 'save_checkpoint') {
+      const checkpoint = event.action === 'save_checkpoint';
+      const nodeFailed = errors.some(error => error.nodeId && error.nodeId === event.nodeId);
+      spans.push({
+        traceId,
+        spanId: hexId(`${traceId}:${index}:${event.action}:${event.nodeId || event.checkpointName}`, 8),
+        parentSpanId: rootId,
+        name: checkpoint ? `Checkpoint: ${event.checkpointName}` : String(event.nodeId),
+        kind: SPAN_KIND_INTERNAL,
+        startTimeUnixNano: nanos(previous && previous < time ? previous : time),
+        endTimeUnixNano: nanos(time),
+        attributes: attributes({
+          'n8n.node.name': event.nodeId,
+          'n8n.node.type': event.nodeType,
+          'mcflow.checkpoint.name': checkpoint ? event.checkpointName : undefined,
+        }),
+        status: nodeFailed ? { code: STATUS_ERROR } : { code: STATUS_OK },
+      });
+    }
+    previous = time;
+  });
+  return spans;
+}
+
+/**
+ * Build OTLP/JSON traces for the tracked executions matching a filter
+ */
+export async function buildTraces(
+  store: TrackingStore,
+  filter: TrackingFilter = {},
+  serviceName: string = DEFAULT_SERVICE_NAME
+): Promise<OtlpTraces> {
+  const [executions, events] = await Promise.all([store.executions(filter), store.events()]);
+  const spans = executions.flatMap(execution => executionSpans(execution, events));
+
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: attributes({ 'service.name': serviceName }) },
+        scopeSpans: [{ scope: { name: SCOPE_NAME }, spans }],
+      },
+    ],
+  };
+}
+
+/**
+ * Collector endpoint for a base URL, adding /v1/traces when missing
+ */
+export function tracesEndpoint(url: string): string {
+  const trimmed = url.replace(/\/+$/, '');
+  return trimmed.endsWith(OTLP_TRACES_PATH) ? trimmed : `${trimmed}${OTLP_TRACES_PATH}`;
+}
+
+/**
+ * Resolve the output file, which must stay inside the workflows directory
+ */
+function resolveOutputPath(workflowsPath: string, output: string): string {
+  const root = path.resolve(workflowsPath);
+  const target = path.resolve(root, output);
+  if (!target.startsWith(root + path.sep)) {
+    throw new Error(`Output file "${output}" is outside the workflows directory`);
+  }
+  return target;
+}
+
+/**
+ * Export tracked executions as traces to a collector and/or a file
+ */
+export async function exportTraces(workflowsPath: string, options: TraceExportOptions = {}): Promise<any> {
+  const { url, output, serviceName, headers, ...filter } = options;
+  if (!url && !output) {
+    throw new Error('Provide a collector url or an output file');
+  }
+
+  const target = output && resolveOutputPath(workflowsPath, output);
+  const traces = await buildTraces(new TrackingStore(workflowsPath), filter, serviceName);
+  const spans = traces.resourceSpans[0].scopeSpans[0].spans;
+  const traceCount = spans.filter(span => !span.parentSpanId).length;
+  let text = `📡 Built ${traceCount} trace${traceCount === 1 ? '' : 's'} with ${spans.length} spans\n`;
+
+  if (target) {
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, JSON.stringify(traces, null, 2));
+    text += `✅ Wrote OTLP/JSON to ${path.relative(workflowsPath, target)}\n`;
+  }
+
+  if (url) {
+    const endpoint = tracesEndpoint(url);
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(traces),
+    });
+    if (!response.ok) {
+      throw new Error(`Collector at ${endpoint} responded ${response.status}: ${await response.text()}`);
+    }
+    text += `✅ Sent to ${endpoint}\n`;
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text,
+      },
+    ],
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * Tracking Queries
+ *
+ * Text reports over the local tracking store for the MCP tools and CLI.
+ */
+
+import { TrackingStore, TrackingFilter, TrackedExecution } from './store.js';
+
+export type TrackingQueryType = 'executions' | 'execution' | 'errors' | 'checkpoints' | 'timings';
+
+const DEFAULT_LIMIT = 20;
+
+function preview(value: any, length: number = 200): string {
+  if (value === undefined) {
+    return '';
+  }
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > length ? `${text.substring(0, length)}…` : text;
+}
+
+function duration(execution: TrackedExecution): string {
+  if (!execution.startedAt || !execution.endedAt) {
+    return '';
+  }
+  const ms = Date.parse(execution.endedAt) - Date.parse(execution.startedAt);
+  return Number.isFinite(ms) ? ` in ${ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`}` : '';
+}
+
+function ms(value: number): string {
+  return value < 1000 ? `${Math.round(value)}ms` : `${(value / 1000).toFixed(1)}s`;
+}
+
+function statusIcon(status: string): string {
+  return status === 'running' ? '⏳' : status === 'success' || status === 'completed' ? '✅' : '❌';
+}
+
+async function describeExecution(store: TrackingStore, executionId: string): Promise<string> {
+  const [execution] = await store.executions({ executionId });
+  if (!execution) {
+    return `No tracked execution ${executionId}`;
+  }
+
+  let text = `${statusIcon(execution.status)} Execution ${execution.executionId} (${execution.status}${duration(execution)})\n`;
+  text += `Workflow: ${execution.workflowName || 'unknown'}${execution.workflowId ? ` [${execution.workflowId}]` : ''}\n`;
+  if (execution.itemId) text += `Item: ${execution.itemId}\n`;
+  if (execution.startedAt) text += `Started: ${execution.startedAt}\n`;
+  if (execution.endedAt) text += `Ended: ${execution.endedAt}\n`;
+
+  const stored = (await store.events()).filter(e => e.action === 'store_node' && String(e.executionId) === executionId);
+  if (stored.length > 0) {
+    text += `\n📦 Stored node outputs:\n`;
+    for (const event of stored) {
+      text += `  • ${event.nodeId}${event.nodeType ? ` (${event.nodeType})` : ''}: ${preview(event.output)}\n`;
+    }
+  }
+
+  const errors = await store.errors({ executionId });
+  if (errors.length > 0) {
+    text += `\n❌ Errors:\n`;
+    for (const error of errors) {
+      text += `  • ${error.nodeId ? `${error.nodeId}: ` : ''}${error.errorMessage || 'Unknown error'}\n`;
+    }
+  }
+
+  if (execution.resultData !== undefined) {
+    text += `\nResult: ${preview(execution.resultData)}\n`;
+  }
+  return text;
+}
+
+/**
+ * Query executions, errors or checkpoints recorded by the local receiver
+ */
+export async function queryTracking(
+  workflowsPath: string,
+  type: TrackingQueryType = 'executions',
+  filter: TrackingFilter = {}
+): Promise<any> {
+  const store = new TrackingStore(workflowsPath);
+  const limited = { ...filter, limit: filter.limit ?? DEFAULT_LIMIT };
+  let text: string;
+
+  switch (type) {
+    case 'execution':
+      if (!filter.executionId) {
+        throw new Error('executionId is required');
+      }
+      text = await describeExecution(store, filter.executionId);
+      break;
+
+    case 'executions': {
+      const executions = await store.executions(limited);
+      text = `📊 Tracked executions (${executions.length}):\n\n`;
+      for (const execution of executions) {
+        text += `${statusIcon(execution.status)} ${execution.executionId} - ${execution.workflowName || 'unknown'} ` +
+          `(${execution.status}${duration(execution)})${execution.startedAt ? ` at ${execution.startedAt}` : ''}`;
+        if (execution.errors > 0) text += ` - ${execution.errors} error${execution.errors === 1 ? '' : 's'}`;
+        text += '\n';
+      }
+      break;
+    }
+
+    case 'errors': {
+      const errors = await store.errors(limited);
+      text = `❌ Tracked errors (${errors.length}):\n\n`;
+      for (const error of errors) {
+        text += `• ${error.timestamp} ${error.workflowName || 'unknown'} / ${error.executionId}` +
+          `${error.nodeId ? ` / ${error.nodeId}` : ''}: ${error.errorMessage || 'Unknown error'}\n`;
+        if (error.errorDetails !== undefined) text += `    ${preview(error.errorDetails)}\n`;
+      }
+      break;
+    }
+
+    case 'checkpoints': {
+      const checkpoints = await store.checkpoints(limited);
+      text = `💾 Checkpoints (${checkpoints.length}):\n\n`;
+      for (const checkpoint of checkpoints) {
+        text += `• ${checkpoint.itemId} / ${checkpoint.checkpointName}${checkpoint.nodeId ? ` (after ${checkpoint.nodeId})` : ''} at ${checkpoint.timestamp}\n`;
+        if (checkpoint.checkpointData !== undefined) text += `    ${preview(checkpoint.checkpointData)}\n`;
+      }
+      break;
+    }
+
+    case 'timings': {
+      const timings = await store.timings(limited);
+      text = `⏱️ Node timings, slowest first (${timings.length}):\n\n`;
+      for (const timing of timings) {
+        text += `• ${timing.workflowName || 'unknown'} / ${timing.nodeId}: p50 ${ms(timing.p50)}, p95 ${ms(timing.p95)}, ` +
+          `max ${ms(timing.max)} (${timing.count} run${timing.count === 1 ? '' : 's'})\n`;
+      }
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown tracking query "${type}" (use executions, execution, errors, checkpoints or timings)`);
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text,
+      },
+    ],
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Tracking Receiver
+ *
+ * A small HTTP server implementing the storage API tracking nodes call
+ * (POST /api/workflow/store, GET /api/workflow/retrieve) on top of a
+ * TrackingStore, so tracking works without running the generated app.
+ * Point WORKFLOW_STORAGE_URL at it.
+ */
+
+import http from 'http';
+import { TrackingStore } from './store.js';
+
+export const STORE_PATH = '/api/workflow/store';
+export const RETRIEVE_PATH = '/api/workflow/retrieve';
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+export interface ReceiverResponse {
+  status: number;
+  body: any;
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Parse a JSON or form-encoded request body
+ */
+function parseBody(text: string, contentType: string = ''): Record<string, any> {
+  if (!text.trim()) {
+    return {};
+  }
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(text));
+  }
+  return JSON.parse(text);
+}
+
+export class TrackingReceiver {
+  private server?: http.Server;
+  private address?: string;
+
+  constructor(private store: TrackingStore) {}
+
+  /**
+   * Answer one storage API request
+   */
+  async handle(method: string, url: string, body: Record<string, any> = {}): Promise<ReceiverResponse> {
+    const { pathname, searchParams } = new URL(url, 'http://localhost');
+
+    try {
+      if (pathname === STORE_PATH && method === 'POST') {
+        const event = await this.store.append(body);
+        return { status: 200, body: { success: true, executionId: event.executionId } };
+      }
+
+      if (pathname === RETRIEVE_PATH && method === 'GET') {
+        const action = searchParams.get('action');
+        const itemId = searchParams.get('itemId');
+        switch (action) {
+          case 'get_checkpoint': {
+            const checkpointName = searchParams.get('checkpointName');
+            if (!itemId || !checkpointName) {
+              return { status: 400, body: { error: 'Missing parameters' } };
+            }
+            return { status: 200, body: { checkpointData: await this.store.getCheckpoint(itemId, checkpointName) } };
+          }
+          case 'get_workflow_history':
+            if (!itemId) {
+              return { status: 400, body: { error: 'Missing itemId' } };
+            }
+            return { status: 200, body: { executions: await this.store.executions({ itemId }) } };
+          default:
+            return { status: 400, body: { error: 'Unknown action' } };
+        }
+      }
+
+      if (pathname === STORE_PATH || pathname === RETRIEVE_PATH) {
+        return { status: 405, body: { error: `${method} not allowed` } };
+      }
+      return { status: 404, body: { error: 'Not found' } };
+    } catch (error: any) {
+      return { status: 400, body: { error: error.message } };
+    }
+  }
+
+  /**
+   * Start listening; resolves with the base URL to use as WORKFLOW_STORAGE_URL
+   */
+  async start(port: number = 3000, host: string = '127.0.0.1'): Promise<string> {
+    if (this.server) {
+      throw new Error(`Tracking receiver already running at ${this.address}`);
+    }
+
+    const server = http.createServer(async (request, response) => {
+      let result: ReceiverResponse;
+      try {
+        const text = request.method === 'POST' ? await readBody(request) : '';
+        result = await this.handle(request.method || 'GET', request.url || '/', parseBody(text, request.headers['content-type']));
+      } catch (error: any) {
+        result = { status: 400, body: { error: error.message } };
+      }
+      response.writeHead(result.status, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(result.body));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+    this.server = server;
+
+    const address = server.address();
+    const boundPort = typeof address === 'object' && address ? address.port : port;
+    this.address = `http://${host.includes(':') ? `[${host}]` : host}:${boundPort}`;
+    return this.address;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    this.address = undefined;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /**
+   * Base URL while running
+   */
+  get url(): string | undefined {
+    return this.address;
+  }
+}
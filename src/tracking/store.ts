@@ -0,0 +1,319 @@
+/**
+ * Tracking Store
+ *
+ * Append-only JSONL log of the events tracking nodes send to the storage API
+ * (.mcflow/tracking/events.jsonl). Executions, errors and checkpoints are
+ * derived from the log when queried, so a crashed receiver never leaves a
+ * half-written table behind.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+
+export const TRACKING_DIR = path.join('.mcflow', 'tracking');
+export const TRACKING_EVENTS_FILE = 'events.jsonl';
+
+export const STORE_ACTIONS = ['start_execution', 'end_execution', 'store_node', 'save_checkpoint', 'track_error', 'node_timing', 'request_approval'] as const;
+export type StoreAction = typeof STORE_ACTIONS[number];
+
+// Fields tracking nodes send as JSON.stringify(...) text
+const JSON_FIELDS = ['metadata', 'resultData', 'input', 'output', 'checkpointData', 'errorDetails', 'data'];
+
+const REQUIRED_FIELDS: Record<StoreAction, string[]> = {
+  start_execution: ['executionId'],
+  end_execution: ['executionId'],
+  store_node: ['executionId', 'nodeId'],
+  save_checkpoint: ['itemId', 'checkpointName'],
+  track_error: ['executionId'],
+  node_timing: ['executionId', 'nodeId', 'durationMs'],
+  request_approval: ['executionId', 'stepName', 'resumeUrl'],
+};
+
+export interface TrackingEvent {
+  action: StoreAction;
+  receivedAt: string;
+  timestamp?: string;
+  [field: string]: any;
+}
+
+export interface TrackedExecution {
+  executionId: string;
+  workflowId?: string;
+  workflowName?: string;
+  itemId?: string;
+  status: string; // running until end_execution reports a status
+  startedAt?: string;
+  endedAt?: string;
+  metadata?: any;
+  resultData?: any;
+  nodes: string[]; // Nodes whose output was stored
+  errors: number;
+}
+
+export interface TrackedError {
+  executionId: string;
+  workflowName?: string;
+  errorMessage?: string;
+  errorDetails?: any;
+  nodeId?: string;
+  timestamp: string;
+}
+
+export interface TrackedCheckpoint {
+  itemId: string;
+  checkpointName: string;
+  nodeId?: string;
+  checkpointData?: any;
+  timestamp: string;
+}
+
+export interface NodeTimingStats {
+  workflowName?: string;
+  nodeId: string;
+  count: number;
+  p50: number; // Milliseconds
+  p95: number;
+  max: number;
+}
+
+export interface TrackingFilter {
+  workflow?: string; // Workflow name or ID
+  status?: string;
+  executionId?: string;
+  itemId?: string;
+  checkpointName?: string;
+  limit?: number;
+}
+
+function parseJsonField(value: any): any {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Nearest-rank percentile of ascending values
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  return sorted[Math.min(sorted.length, Math.max(1, Math.ceil((p / 100) * sorted.length))) - 1];
+}
+
+function newestFirst<T>(items: T[], time: (item: T) => string | undefined, limit?: number): T[] {
+  const sorted = [...items].sort((a, b) => (time(b) || '').localeCompare(time(a) || ''));
+  return limit && limit > 0 ? sorted.slice(0, limit) : sorted;
+}
+
+export class TrackingStore {
+  private eventsFile: string;
+
+  constructor(workflowsPath: string) {
+    this.eventsFile = path.join(workflowsPath, TRACKING_DIR, TRACKING_EVENTS_FILE);
+  }
+
+  /**
+   * Validate and append one storage API request
+   */
+  async append(body: Record<string, any>): Promise<TrackingEvent> {
+    const action = body?.action;
+    if (!STORE_ACTIONS.includes(action)) {
+      throw new Error(`Unknown action "${action}" (expected ${STORE_ACTIONS.join(', ')})`);
+    }
+    const missing = REQUIRED_FIELDS[action as StoreAction].filter(field => body[field] === undefined || body[field] === '');
+    if (missing.length > 0) {
+      throw new Error(`${action} needs ${missing.join(', ')}`);
+    }
+
+    const event: TrackingEvent = { ...body, action, receivedAt: new Date().toISOString() };
+    // Executions left out by the sampling policy are not recorded
+    if (body.sampled === false || body.sampled === 'false') {
+      return event;
+    }
+    for (const field of JSON_FIELDS) {
+      if (field in event) {
+        event[field] = parseJsonField(event[field]);
+      }
+    }
+
+    await fs.mkdir(path.dirname(this.eventsFile), { recursive: true });
+    await fs.appendFile(this.eventsFile, JSON.stringify(event) + '\n');
+    return event;
+  }
+
+  /**
+   * All recorded events in arrival order; unreadable lines are skipped
+   */
+  async events(): Promise<TrackingEvent[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.eventsFile, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const events: TrackingEvent[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        events.push(JSON.parse(line));
+      } catch {
+        // A line cut short by a crash
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Executions rebuilt from their events, newest first
+   */
+  async executions(filter: TrackingFilter = {}): Promise<TrackedExecution[]> {
+    const executions = new Map<string, TrackedExecution>();
+    const get = (executionId: string) => {
+      let execution = executions.get(executionId);
+      if (!execution) {
+        execution = { executionId, status: 'running', nodes: [], errors: 0 };
+        executions.set(executionId, execution);
+      }
+      return execution;
+    };
+
+    for (const event of await this.events()) {
+      const time = event.timestamp || event.receivedAt;
+      switch (event.action) {
+        case 'start_execution': {
+          const execution = get(String(event.executionId));
+          Object.assign(execution, {
+            workflowId: event.workflowId,
+            workflowName: event.workflowName,
+            itemId: event.itemId,
+            startedAt: time,
+            metadata: event.metadata,
+          });
+          break;
+        }
+        case 'end_execution': {
+          const execution = get(String(event.executionId));
+          execution.status = event.status || 'success';
+          execution.endedAt = time;
+          execution.resultData = event.resultData;
+          break;
+        }
+        case 'store_node': {
+          const execution = get(String(event.executionId));
+          if (!execution.nodes.includes(event.nodeId)) {
+            execution.nodes.push(event.nodeId);
+          }
+          break;
+        }
+        case 'track_error':
+          get(String(event.executionId)).errors++;
+          break;
+      }
+    }
+
+    const matches = [...executions.values()].filter(execution =>
+      (!filter.workflow || execution.workflowName === filter.workflow || execution.workflowId === filter.workflow) &&
+      (!filter.status || execution.status === filter.status) &&
+      (!filter.executionId || execution.executionId === filter.executionId) &&
+      (!filter.itemId || execution.itemId === filter.itemId)
+    );
+    return newestFirst(matches, e => e.startedAt || e.endedAt, filter.limit);
+  }
+
+  /**
+   * Tracked errors, newest first
+   */
+  async errors(filter: TrackingFilter = {}): Promise<TrackedError[]> {
+    const events = await this.events();
+    const workflowNames = new Map<string, string>();
+    const workflowIds = new Map<string, string>();
+    for (const event of events.filter(e => e.action === 'start_execution')) {
+      workflowNames.set(String(event.executionId), event.workflowName);
+      workflowIds.set(String(event.executionId), event.workflowId);
+    }
+
+    const errors = events
+      .filter(event => event.action === 'track_error')
+      .map(event => ({
+        executionId: String(event.executionId),
+        workflowName: workflowNames.get(String(event.executionId)),
+        errorMessage: event.errorMessage,
+        errorDetails: event.errorDetails,
+        nodeId: event.nodeId,
+        timestamp: event.timestamp || event.receivedAt,
+      }))
+      .filter(error =>
+        (!filter.executionId || error.executionId === filter.executionId) &&
+        (!filter.workflow || error.workflowName === filter.workflow || workflowIds.get(error.executionId) === filter.workflow)
+      );
+    return newestFirst(errors, e => e.timestamp, filter.limit);
+  }
+
+  /**
+   * Saved checkpoints, newest first
+   */
+  async checkpoints(filter: TrackingFilter = {}): Promise<TrackedCheckpoint[]> {
+    const checkpoints = (await this.events())
+      .filter(event => event.action === 'save_checkpoint')
+      .map(event => ({
+        itemId: String(event.itemId),
+        checkpointName: event.checkpointName,
+        nodeId: event.nodeId,
+        checkpointData: event.checkpointData,
+        timestamp: event.timestamp || event.receivedAt,
+      }))
+      .filter(checkpoint =>
+        (!filter.itemId || checkpoint.itemId === filter.itemId) &&
+        (!filter.checkpointName || checkpoint.checkpointName === filter.checkpointName)
+      );
+    return newestFirst(checkpoints, c => c.timestamp, filter.limit);
+  }
+
+  /**
+   * Duration percentiles per workflow node, slowest (by p95) first
+   */
+  async timings(filter: TrackingFilter = {}): Promise<NodeTimingStats[]> {
+    const groups = new Map<string, { workflowName?: string; nodeId: string; durations: number[] }>();
+
+    for (const event of await this.events()) {
+      if (event.action !== 'node_timing') continue;
+      const duration = Number(event.durationMs);
+      if (!Number.isFinite(duration) || duration < 0) continue;
+      if (filter.workflow && event.workflowName !== filter.workflow && event.workflowId !== filter.workflow) continue;
+      if (filter.executionId && String(event.executionId) !== filter.executionId) continue;
+
+      const key = `${event.workflowName || event.workflowId || ''}\u0000${event.nodeId}`;
+      const group = groups.get(key) || { workflowName: event.workflowName, nodeId: String(event.nodeId), durations: [] as number[] };
+      group.durations.push(duration);
+      groups.set(key, group);
+    }
+
+    const stats = [...groups.values()].map(({ durations, ...group }) => {
+      const sorted = durations.sort((a, b) => a - b);
+      return {
+        ...group,
+        count: sorted.length,
+        p50: percentile(sorted, 50),
+        p95: percentile(sorted, 95),
+        max: sorted[sorted.length - 1],
+      };
+    });
+    stats.sort((a, b) => b.p95 - a.p95 || b.max - a.max);
+    return filter.limit && filter.limit > 0 ? stats.slice(0, filter.limit) : stats;
+  }
+
+  /**
+   * Latest data saved for a checkpoint, or null
+   */
+  async getCheckpoint(itemId: string, checkpointName: string): Promise<any> {
+    const [latest] = await this.checkpoints({ itemId, checkpointName, limit: 1 });
+    return latest ? latest.checkpointData ?? null : null;
+  }
+}
@@ -3,19 +3,44 @@
  * 
  * Tracks which workflows have been modified since last deployment
  * Works independently of git to track all changes made through McFlow
+ * Deployment state is kept per environment (see n8n/environments.ts)
  */
 
 import fs from 'fs/promises';
 import path from 'path';
 import crypto from 'crypto';
+import { collectWorkflowDependencies } from '../workflows/dependencies.js';
+import {
+  ProjectTrackingConfig,
+  TRACKING_CONFIG_FILE,
+  compiledTrackingSettings,
+  loadTrackingConfig,
+} from '../workflows/tracking-config.js';
+import { DEFAULT_ENVIRONMENT } from '../n8n/environments.js';
+
+export interface DeploymentRecord {
+  deployedAt: string;
+  deployedHash: string;
+  deployedFileHash?: string;
+  deployedDependencies?: Record<string, string>;
+}
 
 interface WorkflowState {
   path: string;
-  hash: string;
+  hash: string; // Composite of the workflow JSON and all dependency files
   lastModified: string;
-  deployed: boolean;
+  fileHash?: string; // Workflow JSON only
+  dependencies?: Record<string, string>; // Dependency path → content hash
+  deployments: Record<string, DeploymentRecord>; // Environment name → last deployment
+}
+
+// Single-environment state written by earlier versions
+interface LegacyWorkflowState {
+  deployed?: boolean;
   deployedAt?: string;
   deployedHash?: string;
+  deployedFileHash?: string;
+  deployedDependencies?: Record<string, string>;
 }
 
 interface ChangeTrackerState {
@@ -47,6 +72,7 @@ export class ChangeTracker {
       try {
         const content = await fs.readFile(this.stateFile, 'utf-8');
         this.state = JSON.parse(content);
+        this.migrateState();
       } catch {
         // State file doesn't exist, use default
         await this.saveState();
@@ -56,6 +82,31 @@ export class ChangeTracker {
     }
   }
 
+  /**
+   * Move single-environment deployment fields into the default environment
+   */
+  private migrateState(): void {
+    for (const workflow of Object.values(this.state.workflows || {})) {
+      const legacy = workflow as WorkflowState & LegacyWorkflowState;
+      if (!legacy.deployments) {
+        legacy.deployments = {};
+        if (legacy.deployedHash) {
+          legacy.deployments[DEFAULT_ENVIRONMENT] = {
+            deployedAt: legacy.deployedAt || legacy.lastModified,
+            deployedHash: legacy.deployedHash,
+            deployedFileHash: legacy.deployedFileHash,
+            deployedDependencies: legacy.deployedDependencies,
+          };
+        }
+      }
+      delete legacy.deployed;
+      delete legacy.deployedAt;
+      delete legacy.deployedHash;
+      delete legacy.deployedFileHash;
+      delete legacy.deployedDependencies;
+    }
+  }
+
   /**
    * Save current state to file
    */
@@ -79,6 +130,46 @@ export class ChangeTracker {
     }
   }
 
+  /**
+   * Combine the workflow hash with its dependency hashes
+   */
+  private calculateCompositeHash(fileHash: string, dependencies: Record<string, string>): string {
+    const hash = crypto.createHash('sha256').update(fileHash);
+    for (const dependencyPath of Object.keys(dependencies).sort()) {
+      hash.update(`\n${dependencyPath}:${dependencies[dependencyPath]}`);
+    }
+    return hash.digest('hex');
+  }
+
+  /**
+   * Hash every file a workflow references (missing files hash to '') and
+   * the tracking settings compiled into it
+   */
+  private async calculateDependencyHashes(
+    filePath: string,
+    trackingConfig?: ProjectTrackingConfig
+  ): Promise<Record<string, string>> {
+    let workflow: any;
+    try {
+      workflow = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch {
+      return {};
+    }
+
+    const dependencies: Record<string, string> = {};
+    for (const dependency of await collectWorkflowDependencies(this.workflowsPath, workflow)) {
+      dependencies[dependency.path] = await this.calculateFileHash(
+        path.join(this.workflowsPath, dependency.path)
+      );
+    }
+
+    const tracking = trackingConfig && compiledTrackingSettings(trackingConfig, workflow, path.basename(filePath, '.json'));
+    if (tracking) {
+      dependencies[TRACKING_CONFIG_FILE] = crypto.createHash('sha256').update(JSON.stringify(tracking)).digest('hex');
+    }
+    return dependencies;
+  }
+
   /**
    * Scan workflows directory and update state
    */
@@ -92,11 +183,16 @@ export class ChangeTracker {
         !f.includes('package.json')
       );
 
+      // An unreadable tracking config fails the compile instead, so it isn't tracked here
+      const trackingConfig = await loadTrackingConfig(this.workflowsPath).catch(() => undefined);
+
       // Update state for each workflow
       for (const file of workflowFiles) {
         const filePath = path.join(flowsDir, file);
         const relativePath = path.relative(this.workflowsPath, filePath);
-        const hash = await this.calculateFileHash(filePath);
+        const fileHash = await this.calculateFileHash(filePath);
+        const dependencies = await this.calculateDependencyHashes(filePath, trackingConfig);
+        const hash = this.calculateCompositeHash(fileHash, dependencies);
         const stats = await fs.stat(filePath);
         
         if (!this.state.workflows[relativePath]) {
@@ -105,16 +201,19 @@ export class ChangeTracker {
             path: relativePath,
             hash,
             lastModified: stats.mtime.toISOString(),
-            deployed: false
+            fileHash,
+            dependencies,
+            deployments: {}
           };
         } else {
-          // Existing workflow - check if changed
+          // Existing workflow - check if it or any dependency changed
           const existing = this.state.workflows[relativePath];
           if (existing.hash !== hash) {
             existing.hash = hash;
             existing.lastModified = stats.mtime.toISOString();
-            existing.deployed = false; // Mark as needing deployment
           }
+          existing.fileHash = fileHash;
+          existing.dependencies = dependencies;
         }
       }
 
@@ -139,13 +238,14 @@ export class ChangeTracker {
   /**
    * Get list of changed workflows that need deployment
    */
-  async getChangedWorkflows(): Promise<string[]> {
+  async getChangedWorkflows(environment: string = DEFAULT_ENVIRONMENT): Promise<string[]> {
     await this.scanWorkflows();
     
     const changed: string[] = [];
     
     for (const [relativePath, workflow] of Object.entries(this.state.workflows)) {
-      if (!workflow.deployed || workflow.hash !== workflow.deployedHash) {
+      const deployment = workflow.deployments[environment];
+      if (!deployment || workflow.hash !== deployment.deployedHash) {
         changed.push(relativePath);
       }
     }
@@ -153,14 +253,26 @@ export class ChangeTracker {
     return changed;
   }
 
+  /**
+   * Snapshot current hashes as the deployed state for an environment
+   */
+  private recordDeployment(workflow: WorkflowState, environment: string): void {
+    workflow.deployments[environment] = {
+      deployedAt: new Date().toISOString(),
+      deployedHash: workflow.hash,
+      deployedFileHash: workflow.fileHash,
+      deployedDependencies: { ...(workflow.dependencies || {}) },
+    };
+  }
+
   /**
    * Mark workflow as deployed
    */
-  async markDeployed(relativePath: string): Promise<void> {
+  async markDeployed(relativePath: string, environment: string = DEFAULT_ENVIRONMENT): Promise<void> {
+    await this.scanWorkflows(); // Rescan so the snapshot matches what was compiled
+
     if (this.state.workflows[relativePath]) {
-      this.state.workflows[relativePath].deployed = true;
-      this.state.workflows[relativePath].deployedAt = new Date().toISOString();
-      this.state.workflows[relativePath].deployedHash = this.state.workflows[relativePath].hash;
+      this.recordDeployment(this.state.workflows[relativePath], environment);
       await this.saveState();
     }
   }
@@ -168,33 +280,92 @@ export class ChangeTracker {
   /**
    * Mark multiple workflows as deployed
    */
-  async markMultipleDeployed(relativePaths: string[]): Promise<void> {
+  async markMultipleDeployed(relativePaths: string[], environment: string = DEFAULT_ENVIRONMENT): Promise<void> {
     for (const relativePath of relativePaths) {
       if (this.state.workflows[relativePath]) {
-        this.state.workflows[relativePath].deployed = true;
-        this.state.workflows[relativePath].deployedAt = new Date().toISOString();
-        this.state.workflows[relativePath].deployedHash = this.state.workflows[relativePath].hash;
+        this.recordDeployment(this.state.workflows[relativePath], environment);
       }
     }
     await this.saveState();
   }
 
   /**
-   * Mark workflow as edited (needs deployment)
+   * Get the recorded deployment of a workflow in an environment
    */
-  async markEdited(relativePath: string): Promise<void> {
-    await this.scanWorkflows(); // Rescan to get current hash
-    
+  getDeployment(relativePath: string, environment: string = DEFAULT_ENVIRONMENT): DeploymentRecord | undefined {
+    return this.state.workflows[relativePath]?.deployments[environment];
+  }
+
+  /**
+   * Replace the deployment record, e.g. after rolling back to an older revision
+   */
+  async restoreDeployment(
+    relativePath: string,
+    environment: string,
+    record: DeploymentRecord
+  ): Promise<void> {
+    await this.scanWorkflows();
+
     if (this.state.workflows[relativePath]) {
-      this.state.workflows[relativePath].deployed = false;
+      this.state.workflows[relativePath].deployments[environment] = {
+        ...record,
+        deployedAt: new Date().toISOString(),
+      };
       await this.saveState();
     }
   }
 
+  /**
+   * Describe what changed in a workflow since it was last deployed
+   */
+  private describeChanges(workflow: WorkflowState, deployment?: DeploymentRecord): string[] {
+    if (!deployment || workflow.hash === deployment.deployedHash) {
+      return [];
+    }
+
+    // Deployed before dependency tracking existed - no snapshot to compare against
+    if (!deployment.deployedDependencies) {
+      return ['dependencies not recorded at last deployment'];
+    }
+
+    const changes: string[] = [];
+    if (workflow.fileHash !== deployment.deployedFileHash) {
+      changes.push(`${workflow.path} (workflow)`);
+    }
+
+    const current = workflow.dependencies || {};
+    const deployed = deployment.deployedDependencies;
+    for (const [dependencyPath, hash] of Object.entries(current)) {
+      if (!(dependencyPath in deployed)) {
+        changes.push(`${dependencyPath} (added)`);
+      } else if (hash === '') {
+        changes.push(`${dependencyPath} (missing)`);
+      } else if (deployed[dependencyPath] !== hash) {
+        changes.push(dependencyPath);
+      }
+    }
+    for (const dependencyPath of Object.keys(deployed)) {
+      if (!(dependencyPath in current)) {
+        changes.push(`${dependencyPath} (removed)`);
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Mark workflow as edited (needs deployment)
+   */
+  async markEdited(relativePath: string): Promise<void> {
+    // Rescan to pick up the new hash; every environment compares against it
+    await this.scanWorkflows();
+  }
+
   /**
    * Get deployment status for all workflows
    */
-  async getDeploymentStatus(): Promise<{
+  async getDeploymentStatus(environment: string = DEFAULT_ENVIRONMENT): Promise<{
+    environment: string;
     total: number;
     deployed: number;
     pending: number;
@@ -204,6 +375,7 @@ export class ChangeTracker {
       status: 'deployed' | 'pending' | 'modified';
       lastModified: string;
       deployedAt?: string;
+      changes: string[];
     }>;
   }> {
     await this.scanWorkflows();
@@ -215,11 +387,13 @@ export class ChangeTracker {
     for (const [relativePath, workflow] of Object.entries(this.state.workflows)) {
       const name = path.basename(relativePath, '.json');
       
+      const deployment = workflow.deployments[environment];
+      
       let status: 'deployed' | 'pending' | 'modified';
-      if (!workflow.deployed) {
+      if (!deployment) {
         status = 'pending';
         pending++;
-      } else if (workflow.hash !== workflow.deployedHash) {
+      } else if (workflow.hash !== deployment.deployedHash) {
         status = 'modified';
         pending++;
       } else {
@@ -232,11 +406,13 @@ export class ChangeTracker {
         path: relativePath,
         status,
         lastModified: workflow.lastModified,
-        deployedAt: workflow.deployedAt
+        deployedAt: deployment?.deployedAt,
+        changes: this.describeChanges(workflow, deployment)
       });
     }
     
     return {
+      environment,
       total: workflows.length,
       deployed,
       pending,
@@ -246,16 +422,32 @@ export class ChangeTracker {
 
   /**
    * Reset deployment status (mark all as needing deployment)
+   * Resets every environment unless one is given
    */
-  async resetDeploymentStatus(): Promise<void> {
+  async resetDeploymentStatus(environment?: string): Promise<void> {
     for (const workflow of Object.values(this.state.workflows)) {
-      workflow.deployed = false;
-      delete workflow.deployedAt;
-      delete workflow.deployedHash;
+      if (environment) {
+        delete workflow.deployments[environment];
+      } else {
+        workflow.deployments = {};
+      }
     }
     await this.saveState();
   }
 
+  /**
+   * Environments that have at least one recorded deployment
+   */
+  getKnownEnvironments(): string[] {
+    const environments = new Set<string>();
+    for (const workflow of Object.values(this.state.workflows)) {
+      for (const environment of Object.keys(workflow.deployments)) {
+        environments.add(environment);
+      }
+    }
+    return [...environments].sort();
+  }
+
   /**
    * Clear all tracking data
    */
@@ -267,10 +459,16 @@ export class ChangeTracker {
   /**
    * Get detailed change information
    */
-  async getChangeDetails(): Promise<string> {
-    const status = await this.getDeploymentStatus();
+  async getChangeDetails(
+    environment: string = DEFAULT_ENVIRONMENT,
+    environments: string[] = []
+  ): Promise<string> {
+    const status = await this.getDeploymentStatus(environment);
     
     let output = '📊 Workflow Deployment Status\n\n';
+    if (environment !== DEFAULT_ENVIRONMENT) {
+      output += `Environment: ${environment}\n`;
+    }
     output += `Total Workflows: ${status.total}\n`;
     output += `✅ Deployed: ${status.deployed}\n`;
     output += `⏳ Pending: ${status.pending}\n\n`;
@@ -285,12 +483,36 @@ export class ChangeTracker {
           if (workflow.deployedAt) {
             output += `     Last deployed: ${new Date(workflow.deployedAt).toLocaleString()}\n`;
           }
+          if (workflow.changes.length > 0) {
+            output += `     Changed: ${workflow.changes.join(', ')}\n`;
+          }
         }
       }
       output += '\n💡 Run "McFlow deploy" to deploy pending changes\n';
     } else {
       output += '✨ All workflows are up to date!\n';
     }
+
+    // Show every environment side by side once more than one is in play
+    const allEnvironments = [...new Set([...environments, ...this.getKnownEnvironments(), environment])].sort();
+    if (allEnvironments.length > 1) {
+      output += '\n🌍 Environments:\n';
+      for (const name of allEnvironments) {
+        const envStatus = name === environment ? status : await this.getDeploymentStatus(name);
+        output += `  ${name}: ✅ ${envStatus.deployed}/${envStatus.total} deployed`;
+        output += envStatus.pending > 0 ? `, ⏳ ${envStatus.pending} pending\n` : '\n';
+      }
+      output += '\n';
+      for (const workflow of status.workflows) {
+        const cells: string[] = [];
+        for (const name of allEnvironments) {
+          const record = this.state.workflows[workflow.path]?.deployments[name];
+          const icon = !record ? '⚪' : record.deployedHash === this.state.workflows[workflow.path].hash ? '✅' : '📝';
+          cells.push(`${name} ${icon}`);
+        }
+        output += `  ${workflow.name}: ${cells.join(' | ')}\n`;
+      }
+    }
     
     return output;
   }
@@ -1,6 +1,9 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { stringifyWorkflowFile } from '../utils/json-formatter.js';
+import { TrackingInjector } from './tracking-injector.js';
+import { isTrackingNode } from './tracking.js';
+import { loadTrackingConfig, resolveTrackingPolicy, resolveWorkflowTracking } from './tracking-config.js';
 
 interface WorkflowNode {
   parameters?: {
@@ -29,6 +32,10 @@ interface WorkflowNode {
   [key: string]: any;
 }
 
+export interface CompileOptions {
+  tracking?: boolean; // Apply the project tracking config (default: true)
+}
+
 interface Workflow {
   id?: string;
   name: string;
@@ -53,10 +60,10 @@ export class WorkflowCompiler {
   /**
    * Compile a workflow by injecting external code files
    */
-  async compileWorkflow(workflowPath: string): Promise<Workflow> {
+  async compileWorkflow(workflowPath: string, options: CompileOptions = {}): Promise<Workflow> {
     // Read the workflow file
     const workflowContent = await fs.readFile(workflowPath, 'utf-8');
-    const workflow: Workflow = JSON.parse(workflowContent);
+    let workflow: Workflow = JSON.parse(workflowContent);
     
     // Generate a stable ID based on the workflow name if not present
     // This ensures the same workflow always gets the same ID
@@ -98,10 +105,40 @@ export class WorkflowCompiler {
     } else {
       console.log(`  ✓ No external content to inject`);
     }
+
+    if (options.tracking !== false) {
+      workflow = await this.applyTracking(workflow, workflowPath);
+    }
     
     return workflow;
   }
 
+  /**
+   * Inject tracking nodes from the project tracking config, so only the
+   * compiled copy carries them
+   */
+  private async applyTracking(workflow: Workflow, workflowPath: string): Promise<Workflow> {
+    const config = await loadTrackingConfig(this.workflowsPath);
+    const fileName = path.basename(workflowPath, '.json');
+    const options = resolveWorkflowTracking(config, workflow, fileName);
+    if (!options) {
+      return workflow;
+    }
+
+    const storageUrl = config.storageUrl || process.env.WORKFLOW_STORAGE_URL;
+    if (!storageUrl) {
+      console.warn(`  ⚠️ Tracking is enabled but no storage URL is set; skipping tracking`);
+      return workflow;
+    }
+
+    const policy = resolveTrackingPolicy(config, workflow, fileName);
+    const injector = new TrackingInjector({ ...config, enabled: true, storageUrl, policy });
+    const tracked = await injector.injectTracking(workflow, options);
+    const count = tracked.nodes.filter(isTrackingNode).length;
+    console.log(`  📊 Applied tracking (${count} tracking nodes)`);
+    return tracked;
+  }
+
   /**
    * Process a single node, injecting code if needed
    * Returns true if any external content was processed
@@ -294,7 +331,7 @@ export class WorkflowCompiler {
    * // @prompt-file: workflows/nodes/prompts/filename.md
    * const myPrompt = `...`;
    */
-  private async processPromptFileComments(code: string): Promise<string> {
+  async processPromptFileComments(code: string): Promise<string> {
     // Regular expression to match @prompt-file comment followed by a const assignment
     const promptFilePattern = /\/\/\s*@prompt-file:\s*(.+?)\s*\n\s*const\s+(\w+)\s*=\s*[`'"]([\s\S]*?)[`'"]/g;
 
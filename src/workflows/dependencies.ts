@@ -0,0 +1,127 @@
+/**
+ * Workflow Dependency Collector
+ *
+ * Finds every external file a workflow pulls in at compile time:
+ * - nodeContent references (nodes/code, nodes/python, nodes/sql, nodes/prompts, nodes/json)
+ * - NodeManager _nodeFile references
+ * - // @prompt-file comments inside code
+ * - shared modules required from code (modules/, nodes/shared/)
+ *
+ * Paths are returned relative to the workflows directory, using the same
+ * resolution rules as the WorkflowCompiler.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+
+export type DependencyKind = 'code' | 'python' | 'sql' | 'prompt' | 'json' | 'node-file' | 'module';
+
+export interface WorkflowDependency {
+  path: string;
+  kind: DependencyKind;
+  node?: string;
+}
+
+// nodeContent key → folder and extension used by the compiler
+const NODE_CONTENT_FILES: Record<string, { kind: DependencyKind; folder: string; ext: string }> = {
+  jsCode: { kind: 'code', folder: 'code', ext: '.js' },
+  pythonCode: { kind: 'python', folder: 'python', ext: '.python' },
+  sqlQuery: { kind: 'sql', folder: 'sql', ext: '.sql' },
+  prompt: { kind: 'prompt', folder: 'prompts', ext: '.md' },
+  jsonBody: { kind: 'json', folder: 'json', ext: '.json' },
+};
+
+const PROMPT_FILE_PATTERN = /\/\/\s*@prompt-file:\s*(.+?)\s*$/gm;
+const REQUIRE_PATTERN = /require\(\s*['"`]((?:\.{1,2}\/)*(?:modules|nodes\/shared|shared)\/[^'"`]+)['"`]\s*\)/g;
+const PYTHON_IMPORT_PATTERN = /^\s*(?:from\s+(\w+)\s+import|import\s+(\w+))/gm;
+
+/**
+ * Normalize a reference to a path relative to the workflows directory
+ */
+function normalizeReference(reference: string): string {
+  return path.posix.normalize(reference.trim().replace(/\\/g, '/')).replace(/^(\.\.?\/)+/, '');
+}
+
+/**
+ * Collect all files referenced by a workflow (directly or through code it loads)
+ */
+export async function collectWorkflowDependencies(
+  workflowsPath: string,
+  workflow: any
+): Promise<WorkflowDependency[]> {
+  const found = new Map<string, WorkflowDependency>();
+  const scanned = new Set<string>();
+
+  const add = async (dependency: WorkflowDependency) => {
+    if (!found.has(dependency.path)) {
+      found.set(dependency.path, dependency);
+    }
+    // Code files can reference prompts and modules of their own
+    if (/\.(js|py|python)$/.test(dependency.path) && !scanned.has(dependency.path)) {
+      scanned.add(dependency.path);
+      try {
+        const content = await fs.readFile(path.join(workflowsPath, dependency.path), 'utf-8');
+        await scanCode(content, dependency.node);
+      } catch {
+        // Missing file is still recorded as a dependency
+      }
+    }
+  };
+
+  const scanCode = async (code: string, node?: string) => {
+    for (const match of code.matchAll(PROMPT_FILE_PATTERN)) {
+      await add({ path: normalizeReference(match[1]), kind: 'prompt', node });
+    }
+
+    for (const match of code.matchAll(REQUIRE_PATTERN)) {
+      let modulePath = normalizeReference(match[1]);
+      if (!path.extname(modulePath)) {
+        modulePath += '.js';
+      }
+      await add({ path: modulePath, kind: 'module', node });
+    }
+
+    // Python modules are only importable when the modules folder is on sys.path
+    if (/sys\.path\.append\(\s*['"][^'"]*modules['"]\s*\)/.test(code)) {
+      for (const match of code.matchAll(PYTHON_IMPORT_PATTERN)) {
+        const modulePath = `modules/${match[1] || match[2]}.py`;
+        try {
+          await fs.access(path.join(workflowsPath, modulePath));
+          await add({ path: modulePath, kind: 'module', node });
+        } catch {
+          // Standard library or third-party import
+        }
+      }
+    }
+  };
+
+  for (const node of workflow?.nodes || []) {
+    const parameters = node.parameters || {};
+
+    if (parameters.nodeContent && typeof parameters.nodeContent === 'object') {
+      for (const [key, file] of Object.entries(NODE_CONTENT_FILES)) {
+        const reference = parameters.nodeContent[key];
+        if (typeof reference === 'string' && reference) {
+          await add({
+            path: `nodes/${file.folder}/${reference}${file.ext}`,
+            kind: file.kind,
+            node: node.name,
+          });
+        }
+      }
+    }
+
+    if (typeof parameters._nodeFile === 'string' && parameters._nodeFile) {
+      await add({ path: normalizeReference(parameters._nodeFile), kind: 'node-file', node: node.name });
+    }
+
+    // Inline code can still pull in prompts and shared modules
+    for (const key of ['jsCode', 'pythonCode']) {
+      if (typeof parameters[key] === 'string') {
+        await scanCode(parameters[key], node.name);
+      }
+    }
+  }
+
+  return [...found.values()].sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -0,0 +1,290 @@
+/**
+ * Workflow Diagrams
+ *
+ * Renders a workflow as a Mermaid flowchart, a Graphviz DOT graph or a
+ * self-contained SVG drawn from the node positions. Branch outputs of IF,
+ * Switch and Split In Batches nodes are labelled, and AI sub-connections
+ * (ai_languageModel, ai_tool, ...) are drawn dashed from sub-node to root.
+ */
+
+export type DiagramFormat = 'mermaid' | 'dot' | 'svg';
+
+export interface DiagramEdge {
+  source: string;
+  target: string;
+  type: string; // main or an ai_* connection type
+  outputIndex: number;
+  label?: string;
+}
+
+type NodeKind = 'trigger' | 'branch' | 'ai' | 'code' | 'default';
+
+const STICKY_NOTE_TYPE = 'n8n-nodes-base.stickyNote';
+
+const KIND_COLORS: Record<NodeKind, { fill: string; stroke: string }> = {
+  trigger: { fill: '#e8f5e9', stroke: '#43a047' },
+  branch: { fill: '#fff3e0', stroke: '#fb8c00' },
+  ai: { fill: '#f3e5f5', stroke: '#8e24aa' },
+  code: { fill: '#e3f2fd', stroke: '#1e88e5' },
+  default: { fill: '#fafafa', stroke: '#757575' },
+};
+
+/**
+ * Nodes drawn in diagrams (sticky notes are canvas annotations)
+ */
+function diagramNodes(workflow: any): any[] {
+  return (Array.isArray(workflow?.nodes) ? workflow.nodes : []).filter((n: any) => n.type !== STICKY_NOTE_TYPE);
+}
+
+function shortType(type: string = ''): string {
+  return type.split('.').pop() || type;
+}
+
+/**
+ * Label for a branch output, or undefined for ordinary outputs
+ */
+function outputLabel(node: any, outputIndex: number): string | undefined {
+  const type = shortType(node?.type);
+
+  if (type === 'if' || type === 'filter') {
+    return outputIndex === 0 ? 'true' : 'false';
+  }
+  if (type === 'splitInBatches' && (node.typeVersion ?? 1) >= 3) {
+    return outputIndex === 0 ? 'done' : 'loop';
+  }
+  if (type === 'switch') {
+    const rules: any[] = node.parameters?.rules?.values || node.parameters?.rules?.rules || [];
+    if (outputIndex < rules.length) {
+      return rules[outputIndex]?.outputKey || String(outputIndex);
+    }
+    return node.parameters?.options?.fallbackOutput === 'extra' ? 'fallback' : String(outputIndex);
+  }
+  return outputIndex > 0 ? `output ${outputIndex}` : undefined;
+}
+
+function nodeKind(node: any, subNodes: Set<string>): NodeKind {
+  const type = shortType(node.type).toLowerCase();
+  if (/trigger|webhook/.test(node.type || '')) return 'trigger';
+  if (['if', 'switch', 'filter', 'splitinbatches', 'merge'].includes(type)) return 'branch';
+  if (subNodes.has(node.name) || (node.type || '').includes('langchain')) return 'ai';
+  if (type === 'code' || type === 'function' || type === 'functionitem') return 'code';
+  return 'default';
+}
+
+/**
+ * Every connection in the workflow, with branch labels resolved
+ */
+export function describeEdges(workflow: any): DiagramEdge[] {
+  const nodes = new Map<string, any>(diagramNodes(workflow).map(n => [n.name, n]));
+  const edges: DiagramEdge[] = [];
+
+  for (const [source, outputs] of Object.entries<any>(workflow?.connections || {})) {
+    for (const [type, outputList] of Object.entries<any[][]>(outputs || {})) {
+      (outputList || []).forEach((targets, outputIndex) => {
+        for (const target of targets || []) {
+          edges.push({
+            source,
+            target: target.node,
+            type,
+            outputIndex,
+            label: type === 'main' ? outputLabel(nodes.get(source), outputIndex) : type,
+          });
+        }
+      });
+    }
+  }
+  return edges;
+}
+
+function subNodeNames(edges: DiagramEdge[]): Set<string> {
+  return new Set(edges.filter(e => e.type !== 'main').map(e => e.source));
+}
+
+function mermaidText(text: string): string {
+  return text.replace(/#/g, '#35;').replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+}
+
+/**
+ * Mermaid flowchart, left to right
+ */
+export function toMermaid(workflow: any): string {
+  const nodes = diagramNodes(workflow);
+  const edges = describeEdges(workflow);
+  const subNodes = subNodeNames(edges);
+  const ids = new Map<string, string>(nodes.map((n, index) => [n.name, `n${index}`]));
+  const lines = ['flowchart LR'];
+
+  for (const node of nodes) {
+    const label = `"${mermaidText(node.name)}"`;
+    const kind = nodeKind(node, subNodes);
+    const shape = kind === 'trigger' ? `([${label}])` : kind === 'branch' ? `{${label}}` : subNodes.has(node.name) ? `[[${label}]]` : `[${label}]`;
+    lines.push(`  ${ids.get(node.name)}${shape}`);
+  }
+
+  for (const edge of edges) {
+    const source = ids.get(edge.source);
+    const target = ids.get(edge.target);
+    if (!source || !target) continue;
+    const arrow = edge.type === 'main' ? '-->' : '-.->';
+    lines.push(`  ${source} ${arrow}${edge.label ? `|"${mermaidText(edge.label)}"|` : ''} ${target}`);
+  }
+
+  return lines.join('\n');
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+/**
+ * Graphviz DOT graph, left to right
+ */
+export function toDot(workflow: any): string {
+  const nodes = diagramNodes(workflow);
+  const edges = describeEdges(workflow);
+  const subNodes = subNodeNames(edges);
+  const shapes: Record<NodeKind, string> = { trigger: 'oval', branch: 'diamond', ai: 'box', code: 'box', default: 'box' };
+  const lines = [
+    `digraph ${dotString(workflow?.name || 'Workflow')} {`,
+    '  rankdir=LR;',
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica", fontsize=11];',
+    '  edge [fontname="Helvetica", fontsize=9];',
+  ];
+
+  for (const node of nodes) {
+    const kind = nodeKind(node, subNodes);
+    const { fill, stroke } = KIND_COLORS[kind];
+    lines.push(`  ${dotString(node.name)} [shape=${shapes[kind]}, fillcolor="${fill}", color="${stroke}", tooltip=${dotString(node.type || '')}];`);
+  }
+
+  for (const edge of edges) {
+    const attributes: string[] = [];
+    if (edge.label) attributes.push(`label=${dotString(edge.label)}`);
+    if (edge.type !== 'main') attributes.push('style=dashed', 'arrowhead=none');
+    lines.push(`  ${dotString(edge.source)} -> ${dotString(edge.target)}${attributes.length ? ` [${attributes.join(', ')}]` : ''};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+function xml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.substring(0, length - 1)}…` : text;
+}
+
+const NODE_WIDTH = 160;
+const NODE_HEIGHT = 60;
+const PADDING = 40;
+
+/**
+ * Standalone SVG laid out from the n8n canvas positions
+ */
+export function toSvg(workflow: any): string {
+  const nodes = diagramNodes(workflow);
+  const edges = describeEdges(workflow);
+  const subNodes = subNodeNames(edges);
+
+  // Nodes without a position are lined up in a row
+  const positions = new Map<string, [number, number]>(nodes.map((n, index) => [
+    n.name,
+    Array.isArray(n.position) ? [n.position[0], n.position[1]] : [index * 220, 0],
+  ]));
+  const xs = [...positions.values()].map(p => p[0]);
+  const ys = [...positions.values()].map(p => p[1]);
+  const minX = xs.length ? Math.min(...xs) : 0;
+  const minY = ys.length ? Math.min(...ys) : 0;
+  const width = (xs.length ? Math.max(...xs) - minX : 0) + NODE_WIDTH + PADDING * 2;
+  const height = (ys.length ? Math.max(...ys) - minY : 0) + NODE_HEIGHT + PADDING * 2 + 20;
+  const at = (name: string) => {
+    const [x, y] = positions.get(name)!;
+    return { x: x - minX + PADDING, y: y - minY + PADDING + 20 };
+  };
+
+  const outputCounts = new Map<string, number>();
+  for (const edge of edges.filter(e => e.type === 'main')) {
+    outputCounts.set(edge.source, Math.max(outputCounts.get(edge.source) || 1, edge.outputIndex + 1));
+  }
+
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Helvetica, Arial, sans-serif">`,
+    `  <title>${xml(workflow?.name || 'Workflow')}</title>`,
+    '  <defs>',
+    '    <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">',
+    '      <path d="M 0 0 L 10 5 L 0 10 z" fill="#555"/>',
+    '    </marker>',
+    '  </defs>',
+    `  <text x="${PADDING}" y="${PADDING - 8}" font-size="16" font-weight="bold" fill="#333">${xml(workflow?.name || 'Workflow')}</text>`,
+  ];
+
+  for (const edge of edges) {
+    if (!positions.has(edge.source) || !positions.has(edge.target)) continue;
+    const source = at(edge.source);
+    const target = at(edge.target);
+    let path: string;
+    let labelX: number;
+    let labelY: number;
+
+    if (edge.type === 'main') {
+      // Spread a node's outputs down its right edge
+      const outputs = outputCounts.get(edge.source) || 1;
+      const x1 = source.x + NODE_WIDTH;
+      const y1 = source.y + (NODE_HEIGHT * (edge.outputIndex + 1)) / (outputs + 1);
+      const x2 = target.x;
+      const y2 = target.y + NODE_HEIGHT / 2;
+      const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+      path = `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`;
+      labelX = x1 + 8;
+      labelY = y1 - 4;
+    } else {
+      // Sub-nodes hang below the node they plug into
+      const x1 = source.x + NODE_WIDTH / 2;
+      const y1 = source.y;
+      const x2 = target.x + NODE_WIDTH / 2;
+      const y2 = target.y + NODE_HEIGHT;
+      path = `M ${x1} ${y1} C ${x1} ${y1 - 30}, ${x2} ${y2 + 30}, ${x2} ${y2}`;
+      labelX = (x1 + x2) / 2 + 4;
+      labelY = (y1 + y2) / 2;
+    }
+
+    const dash = edge.type === 'main' ? '' : ' stroke-dasharray="5 4"';
+    const marker = edge.type === 'main' ? ' marker-end="url(#arrow)"' : '';
+    parts.push(`  <path d="${path}" fill="none" stroke="#555" stroke-width="1.5"${dash}${marker}/>`);
+    if (edge.label) {
+      parts.push(`  <text x="${labelX}" y="${labelY}" font-size="10" fill="#666">${xml(edge.label)}</text>`);
+    }
+  }
+
+  for (const node of nodes) {
+    const { x, y } = at(node.name);
+    const { fill, stroke } = KIND_COLORS[nodeKind(node, subNodes)];
+    parts.push(`  <g>`);
+    parts.push(`    <title>${xml(`${node.name} (${node.type || 'unknown'})`)}</title>`);
+    parts.push(`    <rect x="${x}" y="${y}" width="${NODE_WIDTH}" height="${NODE_HEIGHT}" rx="8" fill="${fill}" stroke="${stroke}" stroke-width="2"${node.disabled ? ' opacity="0.5"' : ''}/>`);
+    parts.push(`    <text x="${x + NODE_WIDTH / 2}" y="${y + 26}" font-size="12" text-anchor="middle" fill="#222">${xml(truncate(node.name, 22))}</text>`);
+    parts.push(`    <text x="${x + NODE_WIDTH / 2}" y="${y + 44}" font-size="10" text-anchor="middle" fill="#777">${xml(truncate(shortType(node.type), 26))}</text>`);
+    parts.push(`  </g>`);
+  }
+
+  parts.push('</svg>');
+  return parts.join('\n');
+}
+
+/**
+ * Render a workflow diagram in the requested format
+ */
+export function renderDiagram(workflow: any, format: DiagramFormat): string {
+  switch (format) {
+    case 'mermaid':
+      return toMermaid(workflow);
+    case 'dot':
+      return toDot(workflow);
+    case 'svg':
+      return toSvg(workflow);
+    default:
+      throw new Error(`Unknown diagram format "${format}" (use mermaid, dot or svg)`);
+  }
+}
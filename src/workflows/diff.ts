@@ -0,0 +1,224 @@
+/**
+ * Semantic Workflow Diff
+ *
+ * Compares two workflow definitions by node name rather than by raw JSON so
+ * reordering, IDs and timestamps don't show up as changes.
+ */
+
+export interface ValueChange {
+  path: string;
+  before: any;
+  after: any;
+}
+
+export interface NodeChange {
+  name: string;
+  type?: string;
+  changes: ValueChange[];
+}
+
+export interface ConnectionEdge {
+  from: string;
+  to: string;
+  type: string;
+  outputIndex: number;
+  inputIndex: number;
+}
+
+export interface WorkflowDiff {
+  addedNodes: NodeChange[];
+  removedNodes: NodeChange[];
+  modifiedNodes: NodeChange[];
+  addedConnections: ConnectionEdge[];
+  removedConnections: ConnectionEdge[];
+  settingsChanges: ValueChange[];
+  activeChange?: { before: boolean; after: boolean };
+  renamed?: { before: string; after: string };
+}
+
+// Node fields that affect behaviour; ids, webhook ids and other bookkeeping are ignored
+const COMPARED_NODE_FIELDS = ['type', 'typeVersion', 'parameters', 'credentials', 'disabled', 'position'];
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Deep compare two values, returning the changed leaf paths
+ */
+export function diffValues(before: any, after: any, basePath: string = ''): ValueChange[] {
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+
+  if (isObject(before) && isObject(after)) {
+    const changes: ValueChange[] = [];
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    for (const key of keys) {
+      const childPath = basePath ? `${basePath}.${key}` : key;
+      changes.push(...diffValues(before[key], after[key], childPath));
+    }
+    return changes;
+  }
+
+  return [{ path: basePath, before, after }];
+}
+
+/**
+ * Flatten n8n's connection map into a list of edges
+ */
+export function flattenConnections(connections: any): ConnectionEdge[] {
+  const edges: ConnectionEdge[] = [];
+  for (const [from, outputs] of Object.entries<any>(connections || {})) {
+    for (const [type, outputList] of Object.entries<any>(outputs || {})) {
+      (outputList || []).forEach((targets: any[], outputIndex: number) => {
+        for (const target of targets || []) {
+          edges.push({
+            from,
+            to: target.node,
+            type: target.type || type,
+            outputIndex,
+            inputIndex: target.index ?? 0,
+          });
+        }
+      });
+    }
+  }
+  return edges;
+}
+
+function edgeKey(edge: ConnectionEdge): string {
+  return `${edge.from}|${edge.type}|${edge.outputIndex}|${edge.to}|${edge.inputIndex}`;
+}
+
+/**
+ * Compute the semantic diff from the current (deployed) workflow to the desired one
+ */
+export function diffWorkflows(current: any | null, desired: any): WorkflowDiff {
+  const diff: WorkflowDiff = {
+    addedNodes: [],
+    removedNodes: [],
+    modifiedNodes: [],
+    addedConnections: [],
+    removedConnections: [],
+    settingsChanges: [],
+  };
+
+  const currentNodes = new Map<string, any>((current?.nodes || []).map((n: any) => [n.name, n]));
+  const desiredNodes = new Map<string, any>((desired?.nodes || []).map((n: any) => [n.name, n]));
+
+  for (const [name, node] of desiredNodes) {
+    const existing = currentNodes.get(name);
+    if (!existing) {
+      diff.addedNodes.push({ name, type: node.type, changes: [] });
+      continue;
+    }
+
+    const changes: ValueChange[] = [];
+    for (const field of COMPARED_NODE_FIELDS) {
+      changes.push(...diffValues(existing[field], node[field], field));
+    }
+    if (changes.length > 0) {
+      diff.modifiedNodes.push({ name, type: node.type, changes });
+    }
+  }
+
+  for (const [name, node] of currentNodes) {
+    if (!desiredNodes.has(name)) {
+      diff.removedNodes.push({ name, type: node.type, changes: [] });
+    }
+  }
+
+  const currentEdges = new Map(flattenConnections(current?.connections).map(e => [edgeKey(e), e]));
+  const desiredEdges = new Map(flattenConnections(desired?.connections).map(e => [edgeKey(e), e]));
+  for (const [key, edge] of desiredEdges) {
+    if (!currentEdges.has(key)) diff.addedConnections.push(edge);
+  }
+  for (const [key, edge] of currentEdges) {
+    if (!desiredEdges.has(key)) diff.removedConnections.push(edge);
+  }
+
+  if (current) {
+    diff.settingsChanges = diffValues(current.settings || {}, desired.settings || {}, 'settings');
+    if (current.name !== desired.name) {
+      diff.renamed = { before: current.name, after: desired.name };
+    }
+    if (desired.active !== undefined && !!current.active !== !!desired.active) {
+      diff.activeChange = { before: !!current.active, after: !!desired.active };
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Check whether a diff contains any changes
+ */
+export function hasChanges(diff: WorkflowDiff): boolean {
+  return diff.addedNodes.length > 0 ||
+    diff.removedNodes.length > 0 ||
+    diff.modifiedNodes.length > 0 ||
+    diff.addedConnections.length > 0 ||
+    diff.removedConnections.length > 0 ||
+    diff.settingsChanges.length > 0 ||
+    !!diff.activeChange ||
+    !!diff.renamed;
+}
+
+/**
+ * Render a value for display, summarizing long or multi-line strings
+ */
+export function formatValue(value: any): string {
+  if (value === undefined) return '(unset)';
+  if (typeof value === 'string') {
+    const lines = value.split('\n').length;
+    if (lines > 1) return `(${lines} lines)`;
+    return JSON.stringify(value.length > 60 ? `${value.substring(0, 57)}...` : value);
+  }
+  const json = JSON.stringify(value);
+  return json.length > 60 ? `${json.substring(0, 57)}...` : json;
+}
+
+function formatEdge(edge: ConnectionEdge): string {
+  const port = edge.type === 'main' && edge.outputIndex === 0 && edge.inputIndex === 0
+    ? ''
+    : ` (${edge.type}[${edge.outputIndex}] → [${edge.inputIndex}])`;
+  return `"${edge.from}" → "${edge.to}"${port}`;
+}
+
+/**
+ * Format a diff as indented terraform-plan style lines
+ */
+export function formatWorkflowDiff(diff: WorkflowDiff, indent: string = '    '): string {
+  const lines: string[] = [];
+
+  if (diff.renamed) {
+    lines.push(`${indent}~ name: ${formatValue(diff.renamed.before)} → ${formatValue(diff.renamed.after)}`);
+  }
+  for (const node of diff.addedNodes) {
+    lines.push(`${indent}+ node "${node.name}" (${node.type})`);
+  }
+  for (const node of diff.removedNodes) {
+    lines.push(`${indent}- node "${node.name}" (${node.type})`);
+  }
+  for (const node of diff.modifiedNodes) {
+    lines.push(`${indent}~ node "${node.name}"`);
+    for (const change of node.changes) {
+      lines.push(`${indent}    ~ ${change.path}: ${formatValue(change.before)} → ${formatValue(change.after)}`);
+    }
+  }
+  for (const edge of diff.addedConnections) {
+    lines.push(`${indent}+ connection ${formatEdge(edge)}`);
+  }
+  for (const edge of diff.removedConnections) {
+    lines.push(`${indent}- connection ${formatEdge(edge)}`);
+  }
+  for (const change of diff.settingsChanges) {
+    lines.push(`${indent}~ ${change.path}: ${formatValue(change.before)} → ${formatValue(change.after)}`);
+  }
+  if (diff.activeChange) {
+    lines.push(`${indent}~ active: ${diff.activeChange.before} → ${diff.activeChange.after}`);
+  }
+
+  return lines.join('\n');
+}
@@ -1,5 +1,6 @@
 import fs from 'fs/promises';
 import path from 'path';
+import { toMermaid } from './diagram.js';
 
 export interface WorkflowDoc {
   name: string;
@@ -10,6 +11,7 @@ export interface WorkflowDoc {
   updatedAt?: string;
   triggers?: string[];
   integrations?: string[];
+  diagram?: string; // Mermaid flowchart
   customInstructions?: string;
 }
 
@@ -169,6 +171,10 @@ Workflows in this project are organized by purpose:
       doc.integrations = [...new Set(nodeTypes)]
         .filter((type): type is string => typeof type === 'string' && type !== '' && !type.includes('n8n-nodes-base'))
         .slice(0, 5); // Limit to 5 integrations
+
+      if (workflow.nodes.length > 0) {
+        doc.diagram = toMermaid(workflow);
+      }
     }
 
     return doc;
@@ -266,6 +272,10 @@ Workflows in this project are organized by purpose:
       const date = new Date(doc.createdAt).toLocaleDateString();
       section += `**Created**: ${date}\n\n`;
     }
+
+    if (doc.diagram) {
+      section += `\`\`\`mermaid\n${doc.diagram}\n\`\`\`\n\n`;
+    }
     
     return section;
   }
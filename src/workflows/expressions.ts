@@ -0,0 +1,248 @@
+/**
+ * Expression Analyzer
+ *
+ * Parses the ={{ ... }} expressions in node parameters and resolves the node
+ * references inside them ($('Name'), $node["Name"], $items("Name")) against
+ * the workflow. Code node JavaScript is scanned for references too.
+ */
+
+import vm from 'vm';
+
+export type NodeReferenceSyntax = '$()' | '$node' | '$items';
+
+export interface NodeReference {
+  name: string;
+  syntax: NodeReferenceSyntax;
+  text: string; // The matched source, e.g. $('Fetch Data')
+}
+
+export interface ParameterExpression {
+  parameter: string; // Dotted path, e.g. parameters.options.url
+  expression: string; // JavaScript inside {{ }}
+}
+
+export type ExpressionIssueKind = 'unknown-node' | 'not-upstream' | 'syntax';
+
+export interface ExpressionIssue {
+  kind: ExpressionIssueKind;
+  node: string;
+  parameter: string;
+  message: string;
+  reference?: string;
+}
+
+// Quoted string literal; `group` is the number of the capture holding the quote
+const quoted = (group: number) => `(['"\`])((?:\\\\.|(?!\\${group})[^\\\\])*)\\${group}`;
+const REFERENCE_PATTERNS: Array<{ syntax: NodeReferenceSyntax; pattern: RegExp; group: number }> = [
+  { syntax: '$()', pattern: new RegExp(String.raw`\$\(\s*${quoted(1)}\s*\)`, 'g'), group: 2 },
+  { syntax: '$node', pattern: new RegExp(String.raw`\$node\[\s*${quoted(1)}\s*\]`, 'g'), group: 2 },
+  { syntax: '$node', pattern: /\$node\.([A-Za-z_][\w]*)/g, group: 1 },
+  { syntax: '$items', pattern: new RegExp(String.raw`\$items\(\s*${quoted(1)}`, 'g'), group: 2 },
+];
+
+// Parameters holding Code node JavaScript rather than expressions
+export const CODE_PARAMETERS = ['jsCode', 'functionCode'];
+
+/**
+ * Split an expression string into the JavaScript of each {{ }} block,
+ * skipping braces inside string literals and nested objects
+ */
+export function parseExpressionBlocks(value: string): string[] {
+  const blocks: string[] = [];
+  let index = value.indexOf('{{');
+
+  while (index !== -1) {
+    const start = index + 2;
+    let depth = 0;
+    let quote: string | null = null;
+    let end = -1;
+
+    for (let i = start; i < value.length; i++) {
+      const char = value[i];
+      if (quote) {
+        if (char === '\\') i++;
+        else if (char === quote) quote = null;
+        continue;
+      }
+      if (char === '"' || char === '\'' || char === '`') {
+        quote = char;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}') {
+        if (depth === 0 && value[i + 1] === '}') {
+          end = i;
+          break;
+        }
+        depth = Math.max(0, depth - 1);
+      }
+    }
+
+    if (end === -1) {
+      // Unterminated block: hand the rest to the syntax check
+      blocks.push(value.substring(start));
+      break;
+    }
+    blocks.push(value.substring(start, end));
+    index = value.indexOf('{{', end + 2);
+  }
+
+  return blocks;
+}
+
+/**
+ * Find node references in an expression or Code node source
+ */
+export function findNodeReferences(code: string): NodeReference[] {
+  const references: NodeReference[] = [];
+  for (const { syntax, pattern, group } of REFERENCE_PATTERNS) {
+    for (const match of code.matchAll(pattern)) {
+      references.push({ name: match[group].replace(/\\(.)/g, '$1'), syntax, text: match[0] });
+    }
+  }
+  return references;
+}
+
+/**
+ * Collect every expression in a node's parameters
+ */
+export function findParameterExpressions(value: any, basePath: string = 'parameters'): ParameterExpression[] {
+  if (typeof value === 'string') {
+    if (!value.startsWith('=')) return [];
+    return parseExpressionBlocks(value).map(expression => ({ parameter: basePath, expression }));
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((entry, index) => findParameterExpressions(entry, `${basePath}[${index}]`));
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, entry]) => findParameterExpressions(entry, `${basePath}.${key}`));
+  }
+  return [];
+}
+
+/**
+ * Syntax error message for an expression, or null when it parses
+ */
+export function checkExpressionSyntax(expression: string): string | null {
+  try {
+    new vm.Script(`(${expression}\n)`);
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
+/**
+ * Nodes that run before the given node: main-connection ancestors, plus the
+ * root node (and its ancestors) that an AI sub-node is attached to
+ */
+export function getUpstreamNodes(workflow: any, nodeName: string): Set<string> {
+  const predecessors = new Map<string, Set<string>>();
+  const add = (node: string, predecessor: string) => {
+    if (!predecessors.has(node)) predecessors.set(node, new Set());
+    predecessors.get(node)!.add(predecessor);
+  };
+
+  for (const [source, outputs] of Object.entries<any>(workflow.connections || {})) {
+    for (const [type, outputList] of Object.entries<any>(outputs || {})) {
+      for (const targets of outputList || []) {
+        for (const target of targets || []) {
+          if (type === 'main') {
+            add(target.node, source);
+          } else {
+            // Sub-nodes (models, tools, memory) run inside the node they connect to
+            add(source, target.node);
+          }
+        }
+      }
+    }
+  }
+
+  const upstream = new Set<string>();
+  const queue = [...(predecessors.get(nodeName) || [])];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (upstream.has(current)) continue;
+    upstream.add(current);
+    queue.push(...(predecessors.get(current) || []));
+  }
+  return upstream;
+}
+
+/**
+ * Check every expression and Code node in a workflow for broken node references and syntax errors
+ */
+export function analyzeExpressions(workflow: any): ExpressionIssue[] {
+  const issues: ExpressionIssue[] = [];
+  const nodes: any[] = Array.isArray(workflow?.nodes) ? workflow.nodes : [];
+  const names = new Set(nodes.map(n => n.name));
+
+  for (const node of nodes) {
+    const upstream = getUpstreamNodes(workflow, node.name);
+    const checks: Array<{ parameter: string; code: string }> = [];
+
+    for (const { parameter, expression } of findParameterExpressions(node.parameters)) {
+      const error = checkExpressionSyntax(expression);
+      if (error) {
+        issues.push({
+          kind: 'syntax',
+          node: node.name,
+          parameter,
+          message: `Node "${node.name}" has an invalid expression in ${parameter}: ${error} ({{${expression}}})`,
+        });
+      }
+      checks.push({ parameter, code: expression });
+    }
+
+    for (const key of CODE_PARAMETERS) {
+      if (typeof node.parameters?.[key] === 'string' && !node.parameters[key].startsWith('=')) {
+        checks.push({ parameter: `parameters.${key}`, code: node.parameters[key] });
+      }
+    }
+
+    for (const { parameter, code } of checks) {
+      for (const reference of findNodeReferences(code)) {
+        if (!names.has(reference.name)) {
+          issues.push({
+            kind: 'unknown-node',
+            node: node.name,
+            parameter,
+            reference: reference.name,
+            message: `Node "${node.name}" references unknown node "${reference.name}" in ${parameter}: ${reference.text}`,
+          });
+        } else if (!upstream.has(reference.name)) {
+          issues.push({
+            kind: 'not-upstream',
+            node: node.name,
+            parameter,
+            reference: reference.name,
+            message: `Node "${node.name}" references "${reference.name}" in ${parameter}, ` +
+                     `but "${reference.name}" is not upstream so it will not have run`,
+          });
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+function quoteLike(quote: string, name: string): string {
+  return `${quote}${name.replace(/\\/g, '\\\\').replace(new RegExp(quote, 'g'), `\\${quote}`)}${quote}`;
+}
+
+/**
+ * Rewrite references to a renamed node, keeping each reference's syntax and quotes
+ */
+export function renameNodeReferences(code: string, oldName: string, newName: string): string {
+  const pattern = new RegExp(String.raw`(\$\(\s*|\$node\[\s*|\$items\(\s*)${quoted(2)}`, 'g');
+  let renamed = code.replace(pattern, (match, prefix: string, quote: string, name: string) =>
+    name.replace(/\\(.)/g, '$1') === oldName ? `${prefix}${quoteLike(quote, newName)}` : match
+  );
+
+  if (/^[A-Za-z_]\w*$/.test(oldName)) {
+    const dotted = new RegExp(String.raw`\$node\.${oldName}\b`, 'g');
+    const replacement = /^[A-Za-z_]\w*$/.test(newName) ? `$node.${newName}` : `$node[${quoteLike('"', newName)}]`;
+    renamed = renamed.replace(dotted, () => replacement);
+  }
+  return renamed;
+}
@@ -2,9 +2,14 @@
  * Workflow Formatter for McFlow
  * 
  * Provides formatted, readable output for JSON workflows
- * with syntax highlighting and proper indentation
+ * with syntax highlighting and proper indentation, plus
+ * Mermaid, DOT and SVG diagrams (see diagram.ts)
  */
 
+import { renderDiagram, DiagramFormat } from './diagram.js';
+
+export type RenderFormat = 'text' | DiagramFormat;
+
 interface FormatOptions {
   colorize?: boolean;
   indent?: number;
@@ -332,6 +337,16 @@ export class WorkflowFormatter {
     }).join('\n');
   }
 
+  /**
+   * Render a workflow as plain text or as a diagram
+   */
+  render(workflow: any, format: RenderFormat = 'text'): string {
+    if (format === 'text') {
+      return this.formatWorkflow(workflow, { colorize: false });
+    }
+    return renderDiagram(workflow, format);
+  }
+
   /**
    * Format workflow diff (for showing changes)
    */
@@ -0,0 +1,408 @@
+/**
+ * Project Dependency Graph
+ *
+ * Links the workflows in flows/ to each other and to the things they share:
+ * - Execute Workflow nodes calling another workflow (by ID, name or file)
+ * - HTTP Request nodes calling another workflow's webhook
+ * - code modules, prompt and node files (see dependencies.ts)
+ * - credentials
+ *
+ * Impact analysis walks the graph backwards from a changed file or workflow
+ * to find every affected workflow and the order to deploy them in.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { collectWorkflowDependencies, WorkflowDependency } from './dependencies.js';
+import { EXECUTE_WORKFLOW_TYPE } from './subworkflow.js';
+import { DeploymentHistory } from '../n8n/history.js';
+
+export type WorkflowLinkKind = 'execute' | 'webhook';
+
+export interface WorkflowLink {
+  from: string; // Calling workflow
+  to: string; // Called workflow
+  kind: WorkflowLinkKind;
+  node: string; // Node in the caller that makes the call
+}
+
+export interface ProjectWorkflow {
+  path: string;
+  name: string;
+  files: WorkflowDependency[];
+  credentials: string[]; // "type: name"
+  webhooks: string[]; // Webhook paths this workflow listens on
+}
+
+export interface ProjectGraph {
+  workflows: ProjectWorkflow[];
+  links: WorkflowLink[];
+  unresolved: Array<{ workflow: string; node: string; reference: string }>;
+}
+
+export interface ImpactedWorkflow {
+  path: string;
+  direct: boolean;
+  reason: string;
+}
+
+export interface ImpactReport {
+  target: string;
+  affected: ImpactedWorkflow[];
+  deployOrder: string[];
+  warnings: string[];
+}
+
+const WEBHOOK_URL_PATTERN = /\/webhook(?:-test)?\/([^\s'"`?#{}]+)/g;
+
+function normalizeWebhookPath(webhookPath: string): string {
+  return webhookPath.replace(/^\/+|\/+$/g, '');
+}
+
+/**
+ * Which workflow an Execute Workflow node calls, as configured in n8n
+ */
+function executeWorkflowReference(node: any): { id?: string; name?: string; file?: string } | null {
+  if (node.type !== EXECUTE_WORKFLOW_TYPE) return null;
+  const parameters = node.parameters || {};
+
+  if (parameters.source === 'localFile') {
+    return parameters.workflowPath ? { file: parameters.workflowPath } : null;
+  }
+  if (parameters.source === 'parameter') {
+    return null; // Inline workflow JSON
+  }
+
+  const workflowId = parameters.workflowId;
+  if (workflowId && typeof workflowId === 'object') {
+    return { id: workflowId.value || undefined, name: workflowId.cachedResultName };
+  }
+  if (typeof workflowId === 'string' && workflowId) {
+    return { id: workflowId.replace(/^=/, '') };
+  }
+  return null;
+}
+
+/**
+ * Build the dependency graph of every workflow in flows/
+ */
+export async function buildProjectGraph(workflowsPath: string): Promise<ProjectGraph> {
+  const flowsDir = path.join(workflowsPath, 'flows');
+  const files = (await fs.readdir(flowsDir).catch(() => [] as string[]))
+    .filter(f => f.endsWith('.json') && !f.includes('package.json'))
+    .sort();
+
+  const loaded: Array<{ info: ProjectWorkflow; workflow: any }> = [];
+  for (const file of files) {
+    const relativePath = path.posix.join('flows', file);
+    let workflow: any;
+    try {
+      workflow = JSON.parse(await fs.readFile(path.join(flowsDir, file), 'utf-8'));
+    } catch {
+      continue;
+    }
+
+    const nodes: any[] = Array.isArray(workflow.nodes) ? workflow.nodes : [];
+    const credentials = new Set<string>();
+    for (const node of nodes) {
+      for (const [type, credential] of Object.entries<any>(node.credentials || {})) {
+        credentials.add(`${type}: ${credential?.name || credential?.id || 'unnamed'}`);
+      }
+    }
+
+    loaded.push({
+      workflow,
+      info: {
+        path: relativePath,
+        name: workflow.name || path.basename(file, '.json'),
+        files: await collectWorkflowDependencies(workflowsPath, workflow),
+        credentials: [...credentials].sort(),
+        webhooks: nodes
+          .filter(n => n.type === 'n8n-nodes-base.webhook' && typeof n.parameters?.path === 'string')
+          .map(n => normalizeWebhookPath(n.parameters.path)),
+      },
+    });
+  }
+
+  // n8n IDs come from the files themselves and from archived deployments
+  const byId = new Map<string, string>();
+  const byName = new Map<string, string>();
+  for (const { info, workflow } of loaded) {
+    if (workflow.id) byId.set(String(workflow.id), info.path);
+    byName.set(info.name, info.path);
+    byName.set(path.basename(info.path, '.json'), info.path);
+  }
+  for (const deployment of await new DeploymentHistory(workflowsPath).list()) {
+    if (deployment.remoteId && !byId.has(deployment.remoteId)) {
+      byId.set(deployment.remoteId, deployment.workflowPath);
+    }
+  }
+  const byWebhook = new Map<string, string>();
+  for (const { info } of loaded) {
+    for (const webhook of info.webhooks) {
+      byWebhook.set(webhook, info.path);
+    }
+  }
+
+  const links: WorkflowLink[] = [];
+  const unresolved: ProjectGraph['unresolved'] = [];
+  for (const { info, workflow } of loaded) {
+    for (const node of workflow.nodes || []) {
+      const reference = executeWorkflowReference(node);
+      if (reference) {
+        const target = (reference.id && byId.get(reference.id))
+          || (reference.name && byName.get(reference.name))
+          || (reference.file && byName.get(path.basename(reference.file, '.json')));
+        if (target) {
+          links.push({ from: info.path, to: target, kind: 'execute', node: node.name });
+        } else {
+          unresolved.push({ workflow: info.path, node: node.name, reference: reference.id || reference.name || reference.file || '' });
+        }
+      }
+
+      const url = node.parameters?.url;
+      if (node.type === 'n8n-nodes-base.httpRequest' && typeof url === 'string') {
+        for (const match of url.matchAll(WEBHOOK_URL_PATTERN)) {
+          const target = byWebhook.get(normalizeWebhookPath(match[1]));
+          if (target && target !== info.path) {
+            links.push({ from: info.path, to: target, kind: 'webhook', node: node.name });
+          }
+        }
+      }
+    }
+  }
+
+  return { workflows: loaded.map(l => l.info), links, unresolved };
+}
+
+/**
+ * Group nodes that can reach each other (Tarjan's algorithm)
+ */
+function stronglyConnectedComponents(nodes: string[], edges: (node: string) => string[]): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const visit = (node: string) => {
+    index.set(node, index.size);
+    lowLink.set(node, index.get(node)!);
+    stack.push(node);
+    onStack.add(node);
+
+    for (const next of edges(node)) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(node, Math.min(lowLink.get(node)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(node, Math.min(lowLink.get(node)!, index.get(next)!));
+      }
+    }
+
+    if (lowLink.get(node) === index.get(node)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      components.push(component);
+    }
+  };
+
+  for (const node of nodes) {
+    if (!index.has(node)) visit(node);
+  }
+  return components;
+}
+
+/**
+ * Find the workflows affected by changing a file, folder, workflow or credential
+ */
+export function analyzeImpact(graph: ProjectGraph, target: string): ImpactReport {
+  const normalized = target.trim().replace(/\\/g, '/').replace(/^\.\//, '').replace(/^workflows\//, '').replace(/\/+$/, '');
+  const affected = new Map<string, ImpactedWorkflow>();
+  const warnings: string[] = [];
+
+  for (const workflow of graph.workflows) {
+    if (workflow.path === normalized || path.basename(workflow.path, '.json') === normalized || workflow.name === normalized) {
+      affected.set(workflow.path, { path: workflow.path, direct: true, reason: 'changed workflow' });
+      continue;
+    }
+
+    const file = workflow.files.find(f => f.path === normalized || f.path.startsWith(`${normalized}/`));
+    if (file) {
+      const via = file.node ? ` in "${file.node}"` : '';
+      affected.set(workflow.path, { path: workflow.path, direct: true, reason: `uses ${file.path} (${file.kind}${via})` });
+      continue;
+    }
+
+    const credential = workflow.credentials.find(c => c === normalized || c.endsWith(`: ${normalized}`));
+    if (credential) {
+      affected.set(workflow.path, { path: workflow.path, direct: true, reason: `uses credential ${credential}` });
+    }
+  }
+
+  // Callers depend on what the workflows they call return
+  const queue = [...affected.keys()];
+  while (queue.length > 0) {
+    const callee = queue.shift()!;
+    for (const link of graph.links.filter(l => l.to === callee && !affected.has(l.from))) {
+      const how = link.kind === 'execute' ? `Execute Workflow node "${link.node}"` : `webhook call in "${link.node}"`;
+      affected.set(link.from, { path: link.from, direct: false, reason: `calls ${callee} (${how})` });
+      queue.push(link.from);
+    }
+  }
+
+  // Deploy called workflows before the workflows that call them
+  const pending = new Set(affected.keys());
+  const deployOrder: string[] = [];
+  while (pending.size > 0) {
+    const ready = [...pending]
+      .filter(workflow => !graph.links.some(l => l.from === workflow && l.to !== workflow && pending.has(l.to)))
+      .sort();
+    if (ready.length === 0) {
+      // Only the workflows inside a cycle lose their order; their callers still follow them
+      const calls = (workflow: string) =>
+        graph.links.filter(l => l.from === workflow && l.to !== workflow && pending.has(l.to)).map(l => l.to);
+      const cycles = stronglyConnectedComponents([...pending], calls)
+        .filter(component => component.every(workflow => calls(workflow).every(callee => component.includes(callee))));
+      for (const cycle of cycles) {
+        cycle.sort();
+        warnings.push(`Workflows call each other in a cycle, so their order is arbitrary: ${cycle.join(', ')}`);
+        deployOrder.push(...cycle);
+        cycle.forEach(workflow => pending.delete(workflow));
+      }
+      continue;
+    }
+    for (const workflow of ready) {
+      deployOrder.push(workflow);
+      pending.delete(workflow);
+    }
+  }
+
+  return { target: normalized, affected: [...affected.values()], deployOrder, warnings };
+}
+
+/**
+ * Render the project graph
+ */
+export function formatProjectGraph(graph: ProjectGraph): string {
+  let output = `🕸️ Project Dependency Graph (${graph.workflows.length} workflows)\n\n`;
+
+  for (const workflow of graph.workflows) {
+    output += `📄 ${workflow.path} (${workflow.name})\n`;
+    for (const link of graph.links.filter(l => l.from === workflow.path)) {
+      output += link.kind === 'execute'
+        ? `  ➡️ executes ${link.to} via "${link.node}"\n`
+        : `  🌐 calls webhook of ${link.to} via "${link.node}"\n`;
+    }
+    for (const link of graph.links.filter(l => l.to === workflow.path)) {
+      output += `  ⬅️ called by ${link.from}\n`;
+    }
+    output += '\n';
+  }
+
+  const shared = (entries: Map<string, string[]>) => [...entries.entries()]
+    .filter(([, users]) => users.length > 1)
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  const fileUsers = new Map<string, string[]>();
+  const credentialUsers = new Map<string, string[]>();
+  for (const workflow of graph.workflows) {
+    for (const file of new Set(workflow.files.map(f => f.path))) {
+      fileUsers.set(file, [...(fileUsers.get(file) || []), workflow.path]);
+    }
+    for (const credential of workflow.credentials) {
+      credentialUsers.set(credential, [...(credentialUsers.get(credential) || []), workflow.path]);
+    }
+  }
+
+  const sharedFiles = shared(fileUsers);
+  if (sharedFiles.length > 0) {
+    output += '📦 Shared files:\n';
+    output += sharedFiles.map(([file, users]) => `  ${file} → ${users.join(', ')}`).join('\n') + '\n\n';
+  }
+  const sharedCredentials = shared(credentialUsers);
+  if (sharedCredentials.length > 0) {
+    output += '🔑 Shared credentials:\n';
+    output += sharedCredentials.map(([credential, users]) => `  ${credential} → ${users.join(', ')}`).join('\n') + '\n\n';
+  }
+  if (graph.unresolved.length > 0) {
+    output += '⚠️ Execute Workflow nodes calling unknown workflows:\n';
+    output += graph.unresolved.map(u => `  ${u.workflow} "${u.node}" → ${u.reference || '(not set)'}`).join('\n') + '\n';
+  }
+
+  return output.trimEnd();
+}
+
+/**
+ * Render an impact report
+ */
+export function formatImpact(report: ImpactReport): string {
+  let output = `🎯 Impact of ${report.target}\n\n`;
+
+  if (report.affected.length === 0) {
+    return output + `No workflows use ${report.target}`;
+  }
+
+  const direct = report.affected.filter(a => a.direct);
+  const indirect = report.affected.filter(a => !a.direct);
+  output += `Directly affected (${direct.length}):\n`;
+  output += direct.map(a => `  • ${a.path} — ${a.reason}`).join('\n') + '\n\n';
+  if (indirect.length > 0) {
+    output += `Indirectly affected (${indirect.length}):\n`;
+    output += indirect.map(a => `  • ${a.path} — ${a.reason}`).join('\n') + '\n\n';
+  }
+
+  output += '🚀 Deploy order:\n';
+  output += report.deployOrder.map((workflow, index) => `  ${index + 1}. ${workflow}`).join('\n');
+
+  if (report.warnings.length > 0) {
+    output += `\n\n⚠️ ${report.warnings.join('\n⚠️ ')}`;
+  }
+  return output;
+}
+
+/**
+ * Project graph as a tool result
+ */
+export async function analyzeProject(workflowsPath: string): Promise<any> {
+  try {
+    const graph = await buildProjectGraph(workflowsPath);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatProjectGraph(graph),
+        },
+      ],
+    };
+  } catch (error) {
+    throw new Error(`Failed to analyze project: ${error}`);
+  }
+}
+
+/**
+ * Impact report as a tool result
+ */
+export async function analyzeChangeImpact(workflowsPath: string, target: string): Promise<any> {
+  try {
+    if (!target) {
+      throw new Error('A file, workflow or credential to analyze is required');
+    }
+    const report = analyzeImpact(await buildProjectGraph(workflowsPath), target);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatImpact(report),
+        },
+      ],
+    };
+  } catch (error) {
+    throw new Error(`Failed to analyze impact: ${error}`);
+  }
+}
@@ -4,9 +4,12 @@ import { detectWorkflowStructure, WorkflowStructure } from './finder.js';
 import { WorkflowDocumenter } from './documenter.js';
 import { WorkflowInitializer } from './initializer.js';
 import { NodeValidator } from '../nodes/validator.js';
-import { WorkflowFormatter } from './formatter.js';
+import { WorkflowFormatter, RenderFormat } from './formatter.js';
 import { ChangeTracker } from '../utils/change-tracker.js';
 import { stringifyWorkflowFile } from '../utils/json-formatter.js';
+import { applyWorkflowPatches, WorkflowPatch } from './patch.js';
+import { splitSubworkflow } from './subworkflow.js';
+import { NodeManager } from '../nodes/manager.js';
 
 export { NodeValidator } from '../nodes/validator.js';
 
@@ -83,7 +86,7 @@ export class WorkflowManager {
    * For simple structure: creates in ./workflows/
    * For multi-project: creates in ./project/workflows/ (only if project specified)
    */
-  async createWorkflow(name: string, workflow: any, project?: string): Promise<any> {
+  async createWorkflow(name: string, workflow: any, project?: string, options: { extractNodes?: boolean } = {}): Promise<any> {
     try {
       // Enforce dash naming convention
       if (name.includes('_')) {
@@ -147,6 +150,15 @@ export class WorkflowManager {
       try {
         await fs.unlink(tempPath);
       } catch {}
+
+      // Move node content (code, prompts, SQL) out to nodes/
+      let extractedCount = 0;
+      if (options.extractNodes) {
+        const { extracted } = await new NodeManager(this.workflowsPath).extractNodes(filePath);
+        extractedCount = extracted.length;
+        workflow = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+        await fs.writeFile(filePath, stringifyWorkflowFile(workflow));
+      }
       
       // Update the relative path with the final name
       if (this.structure.type === 'simple' || !project) {
@@ -182,6 +194,7 @@ export class WorkflowManager {
                   `📁 File: ${relativePath}\n` +
                   `📝 Name: ${finalName}\n` +
                   `${project ? `📂 Project: ${project}\n` : ''}` +
+                  `${extractedCount > 0 ? `📦 Node files: ${extractedCount} extracted to nodes/\n` : ''}` +
                   `\n` +
                   `The workflow has been saved and documented.`,
           },
@@ -421,6 +434,46 @@ export class WorkflowManager {
     }
   }
 
+  /**
+   * Renders a workflow as text, Mermaid, DOT or SVG, optionally writing it to a file
+   */
+  async renderWorkflow(workflowPath: string, format: RenderFormat = 'text', outputPath?: string): Promise<any> {
+    try {
+      const fullPath = path.join(this.workflowsPath, workflowPath);
+      const workflow = JSON.parse(await fs.readFile(fullPath, 'utf-8'));
+      const rendered = this.formatter.render(workflow, format);
+
+      if (outputPath) {
+        const root = path.resolve(this.workflowsPath);
+        const target = path.resolve(root, outputPath);
+        if (!target.startsWith(root + path.sep)) {
+          throw new Error(`Output file "${outputPath}" is outside the workflows directory`);
+        }
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, rendered + '\n');
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Rendered ${workflowPath} as ${format} to ${path.relative(this.workflowsPath, target)}`,
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: rendered,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new Error(`Failed to render workflow: ${error}`);
+    }
+  }
+
   /**
    * Updates an existing workflow
    */
@@ -491,6 +544,118 @@ export class WorkflowManager {
     }
   }
 
+  /**
+   * Applies patches to a workflow file, rejecting results that introduce validation errors
+   */
+  async patchWorkflow(workflowPath: string, patches: WorkflowPatch[]): Promise<any> {
+    try {
+      if (!Array.isArray(patches) || patches.length === 0) {
+        throw new Error('At least one patch is required');
+      }
+
+      const fullPath = path.join(this.workflowsPath, workflowPath);
+      const workflow = JSON.parse(await fs.readFile(fullPath, 'utf-8'));
+      const patched = applyWorkflowPatches(workflow, patches);
+
+      // Only block errors the patch introduces, so existing problems can still be patched away
+      const errorsOf = async (target: any) => (await this.validator.validateWorkflowData(target)).issues
+        .filter(issue => issue.type === 'error')
+        .map(issue => `${issue.nodeName}: ${issue.message}`);
+      const existing = new Set(await errorsOf(workflow));
+      const introduced = (await errorsOf(patched)).filter(error => !existing.has(error));
+      if (introduced.length > 0) {
+        throw new Error(`Patch rejected because it would introduce errors:\n${introduced.map(e => `  • ${e}`).join('\n')}`);
+      }
+
+      await this.updateWorkflow(workflowPath, patched);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ Workflow Patched!\n\n` +
+                  `📁 File: ${workflowPath}\n` +
+                  `🩹 Applied ${patches.length} patch${patches.length === 1 ? '' : 'es'}`,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new Error(`Failed to patch workflow: ${error}`);
+    }
+  }
+
+  /**
+   * Moves the named nodes into a new sub-workflow called from an Execute Workflow node
+   */
+  async extractSubworkflow(workflowPath: string, nodeNames: string[], name: string): Promise<any> {
+    try {
+      const fullPath = path.join(this.workflowsPath, workflowPath);
+      const workflow = JSON.parse(await fs.readFile(fullPath, 'utf-8'));
+      const parentName = path.basename(workflowPath, '.json');
+
+      // The sub-workflow lives next to the original
+      const targetPath = path.dirname(fullPath);
+      const finalName = await this.generateUniqueName(name || `${parentName}-sub`, targetPath);
+      const split = splitSubworkflow(workflow, nodeNames, finalName);
+
+      // Write both workflows before moving files, so a failed write leaves the files in place
+      const nodeManager = new NodeManager(this.workflowsPath);
+      const moves = await nodeManager.planNodeFileMoves(parentName, finalName, split.child.nodes);
+
+      const childPath = path.join(targetPath, `${finalName}.json`);
+      const childRelativePath = path.relative(this.workflowsPath, childPath);
+      await fs.writeFile(childPath, stringifyWorkflowFile(split.child));
+      await fs.writeFile(fullPath, stringifyWorkflowFile(split.parent));
+
+      const movedFiles = await nodeManager.moveNodeFiles(parentName, finalName, split.child.nodes, moves);
+
+      // Register both files so the next deploy picks them up
+      await this.changeTracker.markEdited(childRelativePath);
+      await this.changeTracker.markEdited(path.relative(this.workflowsPath, fullPath));
+
+      try {
+        const customInstructions = await this.documenter.getCustomInstructions();
+        await this.documenter.updateWorkflowDocumentation(finalName, split.child, 'create', customInstructions);
+        await this.documenter.updateWorkflowDocumentation(parentName, split.parent, 'update', customInstructions);
+
+        const allWorkflows = await this.getWorkflowList();
+        await this.initializer.updateReadmeWorkflowList(allWorkflows);
+      } catch (docError) {
+        console.error('Failed to update documentation:', docError);
+      }
+
+      let text = `✅ Sub-workflow Extracted!\n\n` +
+                 `📁 New workflow: ${childRelativePath}\n` +
+                 `📦 Moved nodes: ${split.child.nodes.slice(1).map((n: any) => n.name).join(', ')}\n` +
+                 `🔁 Replaced in ${workflowPath} by: ${split.executeNode}\n`;
+      if (split.entries.length > 0) {
+        text += `➡️ Entry nodes: ${split.entries.join(', ')}\n`;
+      }
+      if (split.exits.length > 0) {
+        text += `⬅️ Exit nodes: ${split.exits.join(', ')}\n`;
+      }
+      if (movedFiles.length > 0) {
+        text += `📄 Moved files: ${movedFiles.join(', ')}\n`;
+      }
+      text += `\n💡 Deploy ${finalName} first, then select it in "${split.executeNode}"; ` +
+              `${parentName} won't deploy until it has the ID`;
+      if (split.warnings.length > 0) {
+        text += `\n\n⚠️ Warnings:\n${split.warnings.map(w => `  • ${w}`).join('\n')}`;
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new Error(`Failed to extract sub-workflow: ${error}`);
+    }
+  }
+
   /**
    * Gets project information (for multi-project structure)
    */
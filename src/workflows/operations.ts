@@ -1,5 +1,123 @@
 import fs from 'fs/promises';
 import path from 'path';
+import { stringifyWorkflowFile } from '../utils/json-formatter.js';
+import { NodeManager } from '../nodes/manager.js';
+import { NodePositioning } from '../nodes/positioning.js';
+import { CODE_PARAMETERS, renameNodeReferences } from './expressions.js';
+import { findExternalReferences } from './sync.js';
+import { validateWorkflow } from './validator.js';
+
+async function loadWorkflow(workflowsPath: string, workflowPath: string): Promise<{ fullPath: string; workflow: any }> {
+  const fullPath = path.join(workflowsPath, workflowPath);
+  const content = await fs.readFile(fullPath, 'utf-8');
+  const workflow = JSON.parse(content);
+
+  if (!workflow.nodes) {
+    workflow.nodes = [];
+  }
+  if (!workflow.connections) {
+    workflow.connections = {};
+  }
+  return { fullPath, workflow };
+}
+
+/**
+ * Save an edited workflow and append its validation result to the summary
+ */
+async function saveEditedWorkflow(fullPath: string, workflow: any, summary: string): Promise<any> {
+  await fs.writeFile(fullPath, stringifyWorkflowFile(workflow));
+
+  const validation = JSON.parse((await validateWorkflow(workflow)).content[0].text);
+  let text = summary;
+  if (validation.issues.length > 0) {
+    text += `\n\n❌ Validation issues:\n${validation.issues.map((i: string) => `  • ${i}`).join('\n')}`;
+  }
+  if (validation.warnings.length > 0) {
+    text += `\n\n⚠️ Warnings:\n${validation.warnings.map((w: string) => `  • ${w}`).join('\n')}`;
+  }
+  if (validation.valid) {
+    text += '\n\n✅ Workflow is valid';
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text,
+      },
+    ],
+  };
+}
+
+/**
+ * Find a node by name, falling back to its ID
+ */
+function findNode(workflow: any, nodeRef: string): any {
+  const node = workflow.nodes.find((n: any) => n.name === nodeRef) || workflow.nodes.find((n: any) => n.id === nodeRef);
+  if (!node) {
+    throw new Error(`Node "${nodeRef}" not found`);
+  }
+  return node;
+}
+
+function addConnection(
+  workflow: any,
+  source: string,
+  target: string,
+  sourceOutput: string,
+  sourceIndex: number,
+  targetInput: string,
+  targetIndex: number
+): void {
+  if (!workflow.connections[source]) {
+    workflow.connections[source] = {};
+  }
+  const outputs: any[][] = workflow.connections[source][sourceOutput] || [];
+  workflow.connections[source][sourceOutput] = outputs;
+
+  // Outputs are positional, so earlier ones must exist even when empty
+  while (outputs.length <= sourceIndex) {
+    outputs.push([]);
+  }
+  if (outputs[sourceIndex].some(t => t.node === target && t.type === targetInput && t.index === targetIndex)) {
+    throw new Error(`"${source}" output ${sourceIndex} is already connected to "${target}" input ${targetIndex}`);
+  }
+  outputs[sourceIndex].push({ node: target, type: targetInput, index: targetIndex });
+}
+
+/**
+ * Drop every connection the predicate matches, pruning emptied outputs
+ * Returns the number of connections removed
+ */
+function removeConnections(
+  workflow: any,
+  matches: (source: string, type: string, outputIndex: number, target: any) => boolean
+): number {
+  let removed = 0;
+
+  for (const [source, outputs] of Object.entries<any>(workflow.connections)) {
+    for (const [type, outputList] of Object.entries<any[][]>(outputs || {})) {
+      const remaining = (outputList || []).map((targets, outputIndex) => (targets || []).filter(target => {
+        const match = matches(source, type, outputIndex, target);
+        if (match) removed++;
+        return !match;
+      }));
+      while (remaining.length > 0 && remaining[remaining.length - 1].length === 0) {
+        remaining.pop();
+      }
+      if (remaining.length > 0) {
+        outputs[type] = remaining;
+      } else {
+        delete outputs[type];
+      }
+    }
+    if (Object.keys(outputs || {}).length === 0) {
+      delete workflow.connections[source];
+    }
+  }
+
+  return removed;
+}
 
 export async function addNodeToWorkflow(
   workflowsPath: string,
@@ -8,13 +126,7 @@ export async function addNodeToWorkflow(
   position?: any
 ): Promise<any> {
   try {
-    const fullPath = path.join(workflowsPath, workflowPath);
-    const content = await fs.readFile(fullPath, 'utf-8');
-    const workflow = JSON.parse(content);
-
-    if (!workflow.nodes) {
-      workflow.nodes = [];
-    }
+    const { fullPath, workflow } = await loadWorkflow(workflowsPath, workflowPath);
 
     if (position) {
       node.position = [position.x || 250, position.y || 300];
@@ -29,16 +141,7 @@ export async function addNodeToWorkflow(
 
     workflow.nodes.push(node);
 
-    await fs.writeFile(fullPath, JSON.stringify(workflow, null, 2));
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Node added to workflow: ${node.id}`,
-        },
-      ],
-    };
+    return await saveEditedWorkflow(fullPath, workflow, `Node added to workflow: ${node.id}`);
   } catch (error) {
     throw new Error(`Failed to add node: ${error}`);
   }
@@ -50,47 +153,310 @@ export async function connectNodes(
   sourceNode: string,
   targetNode: string,
   sourceOutput: string = 'main',
-  targetInput: string = 'main'
+  targetInput: string = 'main',
+  sourceIndex: number = 0,
+  targetIndex: number = 0
+): Promise<any> {
+  try {
+    const { fullPath, workflow } = await loadWorkflow(workflowsPath, workflowPath);
+    const source = findNode(workflow, sourceNode);
+    const target = findNode(workflow, targetNode);
+
+    addConnection(workflow, source.name, target.name, sourceOutput, sourceIndex, targetInput, targetIndex);
+
+    return await saveEditedWorkflow(
+      fullPath,
+      workflow,
+      `Connected ${source.name} (output ${sourceIndex}) -> ${target.name} (input ${targetIndex})`
+    );
+  } catch (error) {
+    throw new Error(`Failed to connect nodes: ${error}`);
+  }
+}
+
+export async function disconnectNodes(
+  workflowsPath: string,
+  workflowPath: string,
+  sourceNode: string,
+  targetNode: string,
+  sourceOutput: string = 'main',
+  sourceIndex?: number,
+  targetIndex?: number
+): Promise<any> {
+  try {
+    const { fullPath, workflow } = await loadWorkflow(workflowsPath, workflowPath);
+    const source = findNode(workflow, sourceNode);
+    const target = findNode(workflow, targetNode);
+
+    const removed = removeConnections(workflow, (name, type, outputIndex, connection) =>
+      name === source.name &&
+      type === sourceOutput &&
+      (sourceIndex === undefined || outputIndex === sourceIndex) &&
+      connection.node === target.name &&
+      (targetIndex === undefined || connection.index === targetIndex)
+    );
+    if (removed === 0) {
+      throw new Error(`No ${sourceOutput} connection from "${source.name}" to "${target.name}"`);
+    }
+
+    return await saveEditedWorkflow(
+      fullPath,
+      workflow,
+      `Disconnected ${source.name} -> ${target.name} (${removed} connection${removed === 1 ? '' : 's'} removed)`
+    );
+  } catch (error) {
+    throw new Error(`Failed to disconnect nodes: ${error}`);
+  }
+}
+
+export async function removeNodeFromWorkflow(
+  workflowsPath: string,
+  workflowPath: string,
+  nodeRef: string
+): Promise<any> {
+  try {
+    const { fullPath, workflow } = await loadWorkflow(workflowsPath, workflowPath);
+    const node = findNode(workflow, nodeRef);
+
+    workflow.nodes = workflow.nodes.filter((n: any) => n !== node);
+    const removed = removeConnections(workflow, (source, _type, _outputIndex, target) =>
+      source === node.name || target.node === node.name
+    );
+    delete workflow.connections[node.name];
+    if (workflow.pinData) {
+      delete workflow.pinData[node.name];
+    }
+
+    return await saveEditedWorkflow(
+      fullPath,
+      workflow,
+      `Removed node "${node.name}" and ${removed} connection${removed === 1 ? '' : 's'}`
+    );
+  } catch (error) {
+    throw new Error(`Failed to remove node: ${error}`);
+  }
+}
+
+export async function insertNodeBetween(
+  workflowsPath: string,
+  workflowPath: string,
+  sourceNode: string,
+  targetNode: string,
+  node: any,
+  sourceIndex?: number
 ): Promise<any> {
   try {
-    const fullPath = path.join(workflowsPath, workflowPath);
-    const content = await fs.readFile(fullPath, 'utf-8');
-    const workflow = JSON.parse(content);
+    const { fullPath, workflow } = await loadWorkflow(workflowsPath, workflowPath);
+    const source = findNode(workflow, sourceNode);
+    const target = findNode(workflow, targetNode);
 
-    if (!workflow.connections) {
-      workflow.connections = {};
+    if (!node?.name) {
+      throw new Error('The node to insert needs a name');
+    }
+    if (workflow.nodes.some((n: any) => n.name === node.name)) {
+      throw new Error(`A node named "${node.name}" already exists`);
     }
 
-    if (!workflow.connections[sourceNode]) {
-      workflow.connections[sourceNode] = {};
+    const edges = (workflow.connections[source.name]?.main || []).flatMap((targets: any[], outputIndex: number) =>
+      (targets || [])
+        .filter(t => t.node === target.name && (sourceIndex === undefined || outputIndex === sourceIndex))
+        .map(t => ({ outputIndex, connection: t }))
+    );
+    if (edges.length === 0) {
+      throw new Error(`No main connection from "${source.name}" to "${target.name}"`);
+    }
+    if (new Set(edges.map((e: any) => e.outputIndex)).size > 1) {
+      throw new Error(`"${source.name}" connects to "${target.name}" from several outputs; pass sourceIndex to pick one`);
     }
 
-    if (!workflow.connections[sourceNode][sourceOutput]) {
-      workflow.connections[sourceNode][sourceOutput] = [];
+    if (!node.position) {
+      node.position = source.position && target.position
+        ? [Math.round((source.position[0] + target.position[0]) / 2), Math.round((source.position[1] + target.position[1]) / 2)]
+        : [250, 300];
     }
+    workflow.nodes.push(node);
 
-    const outputIndex = 0;
-    if (!workflow.connections[sourceNode][sourceOutput][outputIndex]) {
-      workflow.connections[sourceNode][sourceOutput][outputIndex] = [];
+    // Point the source at the new node, then the new node at whatever the source fed
+    for (const { connection } of edges) {
+      addConnection(workflow, node.name, target.name, 'main', 0, connection.type, connection.index);
+      connection.node = node.name;
+      connection.type = 'main';
+      connection.index = 0;
     }
 
-    workflow.connections[sourceNode][sourceOutput][outputIndex].push({
-      node: targetNode,
-      type: targetInput,
-      index: 0,
-    });
+    return await saveEditedWorkflow(
+      fullPath,
+      workflow,
+      `Inserted "${node.name}" between ${source.name} (output ${edges[0].outputIndex}) and ${target.name}`
+    );
+  } catch (error) {
+    throw new Error(`Failed to insert node: ${error}`);
+  }
+}
 
-    await fs.writeFile(fullPath, JSON.stringify(workflow, null, 2));
+export async function moveNode(
+  workflowsPath: string,
+  workflowPath: string,
+  nodeRef: string,
+  position: { x: number; y: number }
+): Promise<any> {
+  try {
+    const { fullPath, workflow } = await loadWorkflow(workflowsPath, workflowPath);
+    const node = findNode(workflow, nodeRef);
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Connected ${sourceNode} -> ${targetNode}`,
-        },
-      ],
-    };
+    if (typeof position?.x !== 'number' || typeof position?.y !== 'number') {
+      throw new Error('Position needs numeric x and y');
+    }
+    node.position = [position.x, position.y];
+
+    return await saveEditedWorkflow(fullPath, workflow, `Moved "${node.name}" to [${position.x}, ${position.y}]`);
   } catch (error) {
-    throw new Error(`Failed to connect nodes: ${error}`);
+    throw new Error(`Failed to move node: ${error}`);
+  }
+}
+
+/**
+ * Re-lay out the whole workflow canvas with the layered algorithm
+ */
+export async function layoutWorkflow(workflowsPath: string, workflowPath: string): Promise<any> {
+  try {
+    const { fullPath, workflow } = await loadWorkflow(workflowsPath, workflowPath);
+    const positions = NodePositioning.layeredLayout(workflow.nodes, workflow.connections);
+    const notes = NodePositioning.anchorStickyNotes(workflow.nodes, positions);
+
+    let moved = 0;
+    for (const node of workflow.nodes) {
+      const note = notes.get(node.name);
+      const position = positions.get(node.name) || note?.position;
+      if (!position) continue;
+      if (!note && (node.position?.[0] !== position[0] || node.position?.[1] !== position[1])) {
+        moved++;
+      }
+      node.position = position;
+      if (note && (note.width !== (node.parameters?.width ?? 240) || note.height !== (node.parameters?.height ?? 160))) {
+        node.parameters = { ...node.parameters, width: note.width, height: note.height };
+      }
+    }
+
+    let summary = `Laid out ${positions.size} node${positions.size === 1 ? '' : 's'} (${moved} moved)`;
+    if (notes.size > 0) {
+      summary += `; kept ${notes.size} sticky note${notes.size === 1 ? '' : 's'} with the nodes they annotate`;
+    }
+    return await saveEditedWorkflow(fullPath, workflow, summary);
+  } catch (error) {
+    throw new Error(`Failed to lay out workflow: ${error}`);
+  }
+}
+
+/**
+ * Rewrite node references in every expression and code parameter
+ */
+function renameParameterReferences(value: any, oldName: string, newName: string, key?: string): any {
+  if (typeof value === 'string') {
+    const isCode = key !== undefined && CODE_PARAMETERS.includes(key);
+    return value.startsWith('=') || isCode ? renameNodeReferences(value, oldName, newName) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(entry => renameParameterReferences(entry, oldName, newName));
   }
-}
\ No newline at end of file
+  if (value && typeof value === 'object') {
+    const renamed: Record<string, any> = {};
+    for (const [childKey, entry] of Object.entries(value)) {
+      renamed[childKey] = renameParameterReferences(entry, oldName, newName, childKey);
+    }
+    return renamed;
+  }
+  return value;
+}
+
+export async function renameNode(
+  workflowsPath: string,
+  workflowPath: string,
+  oldName: string,
+  newName: string
+): Promise<any> {
+  try {
+    const { fullPath, workflow } = await loadWorkflow(workflowsPath, workflowPath);
+    const nodes: any[] = workflow.nodes;
+
+    if (!newName || !newName.trim()) {
+      throw new Error('New node name is required');
+    }
+    const node = nodes.find(n => n.name === oldName);
+    if (!node) {
+      throw new Error(`Node "${oldName}" not found`);
+    }
+    if (nodes.some(n => n.name === newName)) {
+      throw new Error(`A node named "${newName}" already exists`);
+    }
+
+    node.name = newName;
+
+    // Connections are keyed by source name and point at target names
+    let connectionsUpdated = 0;
+    const connections: Record<string, any> = {};
+    for (const [source, outputs] of Object.entries<any>(workflow.connections)) {
+      if (source === oldName) connectionsUpdated++;
+      for (const outputList of Object.values<any>(outputs || {})) {
+        for (const targets of outputList || []) {
+          for (const target of targets || []) {
+            if (target.node === oldName) {
+              target.node = newName;
+              connectionsUpdated++;
+            }
+          }
+        }
+      }
+      connections[source === oldName ? newName : source] = outputs;
+    }
+    workflow.connections = connections;
+
+    if (workflow.pinData?.[oldName]) {
+      workflow.pinData[newName] = workflow.pinData[oldName];
+      delete workflow.pinData[oldName];
+    }
+
+    const expressionsUpdated: string[] = [];
+    for (const current of nodes) {
+      const before = JSON.stringify(current.parameters);
+      current.parameters = renameParameterReferences(current.parameters, oldName, newName);
+      if (JSON.stringify(current.parameters) !== before) {
+        expressionsUpdated.push(current.name);
+      }
+    }
+
+    // Extracted files hold code and prompts that may reference the node too
+    const nodeManager = new NodeManager(workflowsPath);
+    const references = findExternalReferences(workflow);
+    const filesUpdated: string[] = [];
+    for (const file of [...new Set(references.map(r => r.file))]) {
+      const filePath = path.join(workflowsPath, file);
+      const fileContent = await fs.readFile(filePath, 'utf-8').catch(() => null);
+      if (fileContent === null) continue;
+
+      const isNodeFile = references.some(r => r.file === file && r.source === 'nodeFile');
+      const { header, body } = isNodeFile ? nodeManager.splitHeader(file, fileContent) : { header: '', body: fileContent };
+      const renamedBody = renameNodeReferences(body, oldName, newName);
+      if (renamedBody !== body) {
+        await fs.writeFile(filePath, header + renamedBody);
+        filesUpdated.push(file);
+      }
+    }
+
+    const ownFiles = references.filter(r => r.node === newName).map(r => r.file);
+    const workflowName = path.basename(workflowPath, '.json');
+    for (const file of await nodeManager.renameNode(workflowName, oldName, newName, ownFiles)) {
+      if (!filesUpdated.includes(file)) filesUpdated.push(file);
+    }
+
+    let text = `✅ Renamed node "${oldName}" → "${newName}" in ${workflowPath}\n\n`;
+    text += `🔗 Connections updated: ${connectionsUpdated}\n`;
+    text += `✏️ Expressions updated in: ${expressionsUpdated.length > 0 ? expressionsUpdated.join(', ') : 'none'}\n`;
+    text += `📄 Files updated: ${filesUpdated.length > 0 ? filesUpdated.join(', ') : 'none'}`;
+
+    // References built dynamically can't be rewritten; validation points them out
+    return await saveEditedWorkflow(fullPath, workflow, text);
+  } catch (error: any) {
+    throw new Error(`Failed to rename node: ${error.message}`);
+  }
+}
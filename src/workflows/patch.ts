@@ -0,0 +1,226 @@
+/**
+ * Workflow Patches
+ *
+ * Applies RFC 6902 JSON Patch operations, or node-addressed patches such as
+ * { "node": "Fetch", "set": { "parameters.url": "..." } }, so a workflow can
+ * be edited without resending the whole document.
+ */
+
+import { isDeepStrictEqual } from 'util';
+
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string; // JSON Pointer, e.g. /nodes/0/parameters/url
+  value?: any;
+  from?: string;
+}
+
+export interface NodePatch {
+  node: string; // Name (or ID) of the node to edit
+  set?: Record<string, any>; // Dotted path within the node, e.g. parameters.options.timeout
+  unset?: string[];
+}
+
+export type WorkflowPatch = JsonPatchOperation | NodePatch;
+
+// Keys that would reach an object's prototype instead of its own properties
+const RESERVED_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+function checkTokens(tokens: string[], path: string): string[] {
+  const reserved = tokens.find(token => RESERVED_KEYS.includes(token));
+  if (reserved) {
+    throw new Error(`Path "${path}" uses the reserved key "${reserved}"`);
+  }
+  return tokens;
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON Pointer "${pointer}"`);
+  }
+  return checkTokens(pointer.substring(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~')), pointer);
+}
+
+/**
+ * Split a dotted path like parameters.rules[0].value into its keys
+ */
+function parseDottedPath(dotted: string): string[] {
+  const tokens = dotted.split('.').flatMap(segment => segment.split(/[[\]]/).filter(Boolean));
+  if (tokens.length === 0) {
+    throw new Error(`Invalid path "${dotted}"`);
+  }
+  return checkTokens(tokens, dotted);
+}
+
+function arrayIndex(array: any[], token: string, allowEnd: boolean): number {
+  if (allowEnd && token === '-') return array.length;
+  if (!/^(0|[1-9]\d*)$/.test(token)) {
+    throw new Error(`Invalid array index "${token}"`);
+  }
+  const index = Number(token);
+  if (index > array.length || (!allowEnd && index === array.length)) {
+    throw new Error(`Array index ${index} is out of bounds`);
+  }
+  return index;
+}
+
+function getAt(doc: any, tokens: string[], pointer: string): any {
+  let current = doc;
+  for (const token of tokens) {
+    if (Array.isArray(current)) {
+      current = current[arrayIndex(current, token, false)];
+    } else if (current && typeof current === 'object' && Object.prototype.hasOwnProperty.call(current, token)) {
+      current = current[token];
+    } else {
+      throw new Error(`Path "${pointer}" does not exist`);
+    }
+  }
+  return current;
+}
+
+function addAt(doc: any, tokens: string[], value: any, pointer: string): any {
+  if (tokens.length === 0) return value;
+  const parent = getAt(doc, tokens.slice(0, -1), pointer);
+  const key = tokens[tokens.length - 1];
+
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, true), 0, value);
+  } else if (parent && typeof parent === 'object') {
+    parent[key] = value;
+  } else {
+    throw new Error(`Path "${pointer}" does not point into an object or array`);
+  }
+  return doc;
+}
+
+function removeAt(doc: any, tokens: string[], pointer: string): any {
+  if (tokens.length === 0) {
+    throw new Error('Cannot remove the whole workflow');
+  }
+  const parent = getAt(doc, tokens.slice(0, -1), pointer);
+  const key = tokens[tokens.length - 1];
+
+  if (Array.isArray(parent)) {
+    return parent.splice(arrayIndex(parent, key, false), 1)[0];
+  }
+  if (!parent || typeof parent !== 'object' || !Object.prototype.hasOwnProperty.call(parent, key)) {
+    throw new Error(`Path "${pointer}" does not exist`);
+  }
+  const removed = parent[key];
+  delete parent[key];
+  return removed;
+}
+
+/**
+ * Apply one RFC 6902 operation, returning the (possibly replaced) document
+ */
+export function applyJsonPatchOperation(doc: any, operation: JsonPatchOperation): any {
+  const tokens = parsePointer(operation.path);
+
+  switch (operation.op) {
+    case 'add':
+      return addAt(doc, tokens, operation.value, operation.path);
+
+    case 'remove':
+      removeAt(doc, tokens, operation.path);
+      return doc;
+
+    case 'replace': {
+      if (tokens.length === 0) return operation.value;
+      getAt(doc, tokens, operation.path);
+      // Assign in place so object keys keep their order
+      const parent = getAt(doc, tokens.slice(0, -1), operation.path);
+      parent[tokens[tokens.length - 1]] = operation.value;
+      return doc;
+    }
+
+    case 'move': {
+      const from = operation.from ?? '';
+      if (operation.path.startsWith(`${from}/`)) {
+        throw new Error(`Cannot move "${from}" into itself`);
+      }
+      const value = removeAt(doc, parsePointer(from), from);
+      return addAt(doc, tokens, value, operation.path);
+    }
+
+    case 'copy': {
+      const from = operation.from ?? '';
+      const value = structuredClone(getAt(doc, parsePointer(from), from));
+      return addAt(doc, tokens, value, operation.path);
+    }
+
+    case 'test':
+      if (!isDeepStrictEqual(getAt(doc, tokens, operation.path), operation.value)) {
+        throw new Error(`Test failed: "${operation.path}" does not equal ${JSON.stringify(operation.value)}`);
+      }
+      return doc;
+
+    default:
+      throw new Error(`Unknown operation "${(operation as any).op}"`);
+  }
+}
+
+/**
+ * Set and unset dotted paths on one node
+ */
+export function applyNodePatch(workflow: any, patch: NodePatch): void {
+  const nodes: any[] = Array.isArray(workflow.nodes) ? workflow.nodes : [];
+  const node = nodes.find(n => n.name === patch.node) || nodes.find(n => n.id === patch.node);
+  if (!node) {
+    throw new Error(`Node "${patch.node}" not found`);
+  }
+
+  for (const [dotted, value] of Object.entries(patch.set || {})) {
+    const tokens = parseDottedPath(dotted);
+    let current = node;
+    tokens.slice(0, -1).forEach((token, index) => {
+      if (!Object.hasOwn(current, token) || current[token] === undefined || current[token] === null) {
+        // Create missing containers, arrays when the next key is an index
+        current[token] = /^\d+$/.test(tokens[index + 1]) ? [] : {};
+      }
+      current = current[token];
+      if (typeof current !== 'object') {
+        throw new Error(`"${dotted}" passes through a non-object value`);
+      }
+    });
+    current[tokens[tokens.length - 1]] = value;
+  }
+
+  for (const dotted of patch.unset || []) {
+    const tokens = parseDottedPath(dotted);
+    const parent = tokens.slice(0, -1).reduce(
+      (current, token) => (current && typeof current === 'object' && Object.hasOwn(current, token) ? current[token] : undefined),
+      node
+    );
+    const key = tokens[tokens.length - 1];
+    if (Array.isArray(parent)) {
+      parent.splice(arrayIndex(parent, key, false), 1);
+    } else if (parent && typeof parent === 'object') {
+      delete parent[key];
+    }
+  }
+}
+
+/**
+ * Apply patches in order to a copy of the workflow; any failure aborts the whole set
+ */
+export function applyWorkflowPatches(workflow: any, patches: WorkflowPatch[]): any {
+  let patched = structuredClone(workflow);
+
+  patches.forEach((patch, index) => {
+    try {
+      if ('op' in patch) {
+        patched = applyJsonPatchOperation(patched, patch);
+      } else if ('node' in patch) {
+        applyNodePatch(patched, patch);
+      } else {
+        throw new Error('Expected a JSON Patch operation ("op") or a node patch ("node")');
+      }
+    } catch (error: any) {
+      throw new Error(`Patch ${index + 1}: ${error.message}`);
+    }
+  });
+
+  return patched;
+}
@@ -0,0 +1,219 @@
+/**
+ * Sub-workflow Extraction
+ *
+ * Splits selected nodes out of a workflow into a new workflow that starts
+ * with an Execute Workflow Trigger, and replaces them in the original with an
+ * Execute Workflow node wired to the same upstream and downstream nodes.
+ */
+
+import { analyzeExpressions } from './expressions.js';
+
+export const EXECUTE_WORKFLOW_TRIGGER_TYPE = 'n8n-nodes-base.executeWorkflowTrigger';
+export const EXECUTE_WORKFLOW_TYPE = 'n8n-nodes-base.executeWorkflow';
+
+export interface SubworkflowSplit {
+  parent: any;
+  child: any;
+  executeNode: string; // Name of the Execute Workflow node in the parent
+  entries: string[]; // Extracted nodes the trigger feeds
+  exits: string[]; // Extracted nodes whose output continued in the parent
+  warnings: string[];
+}
+
+interface Edge {
+  source: string;
+  type: string;
+  outputIndex: number;
+  target: { node: string; type: string; index: number };
+}
+
+function listEdges(connections: any): Edge[] {
+  const edges: Edge[] = [];
+  for (const [source, outputs] of Object.entries<any>(connections || {})) {
+    for (const [type, outputList] of Object.entries<any[][]>(outputs || {})) {
+      (outputList || []).forEach((targets, outputIndex) => {
+        for (const target of targets || []) {
+          edges.push({ source, type, outputIndex, target });
+        }
+      });
+    }
+  }
+  return edges;
+}
+
+function pushConnection(connections: any, source: string, type: string, outputIndex: number, target: any): void {
+  connections[source] = connections[source] || {};
+  const outputs: any[][] = connections[source][type] || [];
+  connections[source][type] = outputs;
+  while (outputs.length <= outputIndex) {
+    outputs.push([]);
+  }
+  if (!outputs[outputIndex].some(t => t.node === target.node && t.type === target.type && t.index === target.index)) {
+    outputs[outputIndex].push(target);
+  }
+}
+
+function isTrigger(node: any): boolean {
+  return /trigger|webhook/i.test(node.type || '');
+}
+
+function uniqueName(base: string, taken: Set<string>): string {
+  let name = base;
+  for (let suffix = 1; taken.has(name); suffix++) {
+    name = `${base}${suffix}`;
+  }
+  return name;
+}
+
+/**
+ * Execute Workflow nodes calling a stored workflow without its ID, as an
+ * extraction leaves them until the sub-workflow is deployed and selected
+ */
+export function findUnsetWorkflowCalls(workflow: any): string[] {
+  return (workflow.nodes || [])
+    .filter((node: any) => node.type === EXECUTE_WORKFLOW_TYPE && (node.parameters?.source ?? 'database') === 'database')
+    .filter((node: any) => {
+      const id = node.parameters?.workflowId;
+      const value = id !== null && typeof id === 'object' ? id.value : id;
+      return value === undefined || value === null || String(value).trim() === '';
+    })
+    .map((node: any) => node.name);
+}
+
+/**
+ * Split the named nodes out of a workflow; the input workflow is left untouched
+ */
+export function splitSubworkflow(workflow: any, nodeNames: string[], name: string): SubworkflowSplit {
+  const source = structuredClone(workflow);
+  const nodes: any[] = Array.isArray(source.nodes) ? source.nodes : [];
+  const selected = new Set(nodeNames || []);
+  const warnings: string[] = [];
+
+  if (selected.size === 0) {
+    throw new Error('Select at least one node to extract');
+  }
+  for (const nodeName of selected) {
+    const node = nodes.find(n => n.name === nodeName);
+    if (!node) {
+      throw new Error(`Node "${nodeName}" not found`);
+    }
+    if (isTrigger(node)) {
+      throw new Error(`"${nodeName}" is a trigger and cannot be moved into a sub-workflow`);
+    }
+  }
+
+  const edges = listEdges(source.connections);
+  for (const edge of edges) {
+    if (edge.type !== 'main' && selected.has(edge.source) !== selected.has(edge.target.node)) {
+      throw new Error(
+        `"${edge.source}" is attached to "${edge.target.node}" by ${edge.type}; extract AI sub-nodes together with their root node`
+      );
+    }
+  }
+
+  const incoming = edges.filter(e => !selected.has(e.source) && selected.has(e.target.node));
+  const outgoing = edges.filter(e => selected.has(e.source) && !selected.has(e.target.node));
+  const extracted = nodes.filter(n => selected.has(n.name));
+  const remaining = nodes.filter(n => !selected.has(n.name));
+
+  // Execute Workflow node takes the place of the extracted nodes
+  const positions = extracted.filter(n => Array.isArray(n.position)).map(n => n.position);
+  const center = positions.length > 0
+    ? [0, 1].map(axis => Math.round(positions.reduce((sum, p) => sum + p[axis], 0) / positions.length))
+    : [250, 300];
+  const executeNode = {
+    id: `execute-${name}`,
+    name: uniqueName(`Execute ${name}`, new Set(remaining.map(n => n.name))),
+    type: EXECUTE_WORKFLOW_TYPE,
+    typeVersion: 1.2,
+    position: center,
+    parameters: {
+      source: 'database',
+      workflowId: { __rl: true, mode: 'list', value: '', cachedResultName: name },
+      options: {},
+    },
+  };
+
+  const parentConnections: any = {};
+  for (const edge of edges) {
+    if (!selected.has(edge.source) && !selected.has(edge.target.node)) {
+      pushConnection(parentConnections, edge.source, edge.type, edge.outputIndex, edge.target);
+    }
+  }
+  for (const edge of incoming) {
+    pushConnection(parentConnections, edge.source, 'main', edge.outputIndex, { node: executeNode.name, type: 'main', index: 0 });
+  }
+  for (const edge of outgoing) {
+    pushConnection(parentConnections, executeNode.name, 'main', 0, edge.target);
+  }
+
+  const firstIndex = nodes.findIndex(n => selected.has(n.name));
+  const parentNodes = nodes.flatMap((n, index) =>
+    !selected.has(n.name) ? [n] : index === firstIndex ? [executeNode] : []
+  );
+
+  // The trigger feeds every extracted node that had upstream nodes in the parent
+  const entries = [...new Set(incoming.map(e => e.target.node))];
+  const minX = positions.length > 0 ? Math.min(...positions.map(p => p[0])) : 250;
+  const trigger = {
+    id: 'execute-workflow-trigger',
+    name: 'When Executed by Another Workflow',
+    type: EXECUTE_WORKFLOW_TRIGGER_TYPE,
+    typeVersion: 1.1,
+    position: [minX - 250, center[1]],
+    parameters: { inputSource: 'passthrough' },
+  };
+
+  const childConnections: any = {};
+  for (const edge of edges) {
+    if (selected.has(edge.source) && selected.has(edge.target.node)) {
+      pushConnection(childConnections, edge.source, edge.type, edge.outputIndex, edge.target);
+    }
+  }
+  for (const edge of incoming) {
+    pushConnection(childConnections, trigger.name, 'main', 0, { node: edge.target.node, type: 'main', index: edge.target.index });
+  }
+
+  const parent = { ...source, nodes: parentNodes, connections: parentConnections };
+  const child: any = {
+    name,
+    nodes: [trigger, ...extracted],
+    connections: childConnections,
+    settings: source.settings || { executionOrder: 'v1' },
+  };
+
+  if (source.pinData) {
+    const pinned = Object.entries<any>(source.pinData);
+    parent.pinData = Object.fromEntries(pinned.filter(([nodeName]) => !selected.has(nodeName)));
+    const childPins = pinned.filter(([nodeName]) => selected.has(nodeName));
+    if (childPins.length > 0) {
+      child.pinData = Object.fromEntries(childPins);
+    }
+  }
+
+  if (incoming.length === 0) {
+    warnings.push('No nodes in the original workflow feed the extracted nodes, so the sub-workflow receives no input');
+  }
+  const exitOutputs = new Set(outgoing.map(e => `${e.source}#${e.outputIndex}`));
+  const exits = [...new Set(outgoing.map(e => e.source))];
+  if (exitOutputs.size > 1) {
+    warnings.push(
+      `Several outputs continued in the original workflow (${exits.join(', ')}); ` +
+      `Execute Workflow returns only the last node that runs, on a single output`
+    );
+  }
+
+  // References across the split can no longer resolve
+  for (const issue of analyzeExpressions(parent)) {
+    if (issue.kind === 'unknown-node' && selected.has(issue.reference!)) {
+      warnings.push(issue.message);
+    }
+  }
+  for (const issue of analyzeExpressions(child)) {
+    if (issue.kind === 'unknown-node') {
+      warnings.push(`In the sub-workflow: ${issue.message}`);
+    }
+  }
+
+  return { parent, child, executeNode: executeNode.name, entries, exits, warnings };
+}
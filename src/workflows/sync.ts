@@ -0,0 +1,413 @@
+/**
+ * Reverse Sync
+ *
+ * Maps edits made in the n8n editor back onto the files under nodes/. Each
+ * external reference (nodeContent or _nodeFile) is compared three ways: the
+ * locally compiled value, the deployed value and the value from the last
+ * archived deployment. Remote-only edits are written back into the
+ * referenced files, edits on both sides are reported as conflicts.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { NodeManager } from '../nodes/manager.js';
+import { WorkflowDiff, diffWorkflows, formatWorkflowDiff, hasChanges } from './diff.js';
+
+export type ReferenceKind = 'code' | 'python' | 'sql' | 'prompt' | 'json' | 'template';
+
+export interface ExternalReference {
+  node: string;
+  kind: ReferenceKind;
+  file: string; // Relative to the workflows directory
+  parameter: string[]; // Location of the injected value inside node.parameters
+  source: 'nodeContent' | 'nodeFile';
+}
+
+export interface FileUpdate {
+  file: string;
+  content: string;
+}
+
+export type SyncStatus = 'in-sync' | 'pulled' | 'local-only' | 'conflict' | 'missing';
+
+export interface ReferenceSync {
+  reference: ExternalReference;
+  status: SyncStatus;
+  reason?: string;
+  updates: FileUpdate[];
+}
+
+export interface WorkflowSync {
+  references: ReferenceSync[];
+  structural: WorkflowDiff;
+}
+
+// Block written by the compiler when inlining a @prompt-file into code
+const INLINED_PROMPT_PATTERN = /\/\/\s*@prompt-file:\s*(.+?)\s*\n\s*const\s+(\w+)\s*=\s*`((?:\\`|[^`])*)`/g;
+// Same pattern the compiler uses to find @prompt-file blocks in source files
+const SOURCE_PROMPT_PATTERN = /\/\/\s*@prompt-file:\s*(.+?)\s*\n\s*const\s+(\w+)\s*=\s*[`'"]([\s\S]*?)[`'"]/g;
+
+const PROMPT_NODE_TYPES = [
+  'n8n-nodes-base.openAi',
+  '@n8n/n8n-nodes-langchain.openAi',
+  'n8n-nodes-base.anthropic',
+  '@n8n/n8n-nodes-langchain.anthropic',
+  'n8n-nodes-base.googleAi',
+  '@n8n/n8n-nodes-langchain.googleAi',
+];
+
+const SQL_NODE_TYPES = ['n8n-nodes-base.postgres', 'n8n-nodes-base.mysql', 'n8n-nodes-base.microsoftSql'];
+
+/**
+ * Parameter that receives a nodeContent prompt, matching WorkflowCompiler.injectPrompt
+ */
+function promptParameter(nodeType: string): string[] {
+  switch (nodeType) {
+    case '@n8n/n8n-nodes-langchain.chainLlm':
+      return ['messages', 'messageValues', '0', 'message'];
+    case '@n8n/n8n-nodes-langchain.agent':
+    case '@n8n/n8n-nodes-langchain.conversationalAgent':
+      return ['systemMessage'];
+    default:
+      return ['prompt'];
+  }
+}
+
+/**
+ * Reference created by NodeManager.extractNodes, matching NodeManager.injectNodes
+ */
+function nodeFileReference(node: any): ExternalReference | null {
+  const file: string = node.parameters._nodeFile;
+  const reference = { node: node.name, file, source: 'nodeFile' as const };
+
+  if (node.type === 'n8n-nodes-base.code') {
+    return file.endsWith('.py')
+      ? { ...reference, kind: 'python', parameter: ['pythonCode'] }
+      : { ...reference, kind: 'code', parameter: ['jsCode'] };
+  }
+  if (PROMPT_NODE_TYPES.includes(node.type)) {
+    return { ...reference, kind: 'prompt', parameter: ['prompt'] };
+  }
+  if (SQL_NODE_TYPES.includes(node.type)) {
+    return { ...reference, kind: 'sql', parameter: ['query'] };
+  }
+  if (node.type === 'n8n-nodes-base.html' || node.type === 'n8n-nodes-base.emailSend') {
+    return { ...reference, kind: 'template', parameter: [file.endsWith('.html') ? 'html' : 'text'] };
+  }
+  if (node.type === 'n8n-nodes-base.httpRequest' && file.endsWith('.json')) {
+    return { ...reference, kind: 'json', parameter: ['jsonBody'] };
+  }
+  return null;
+}
+
+/**
+ * List the external files a source workflow injects into its nodes
+ */
+export function findExternalReferences(workflow: any): ExternalReference[] {
+  const references: ExternalReference[] = [];
+
+  for (const node of workflow?.nodes || []) {
+    const content = node.parameters?.nodeContent;
+    if (content) {
+      const nodeReference = (kind: ReferenceKind, file: string, parameter: string[]): ExternalReference =>
+        ({ node: node.name, kind, file, parameter, source: 'nodeContent' });
+
+      if (content.jsCode) {
+        references.push(nodeReference('code', path.join('nodes', 'code', `${content.jsCode}.js`), ['jsCode']));
+      }
+      if (content.pythonCode) {
+        references.push(nodeReference('python', path.join('nodes', 'python', `${content.pythonCode}.python`), ['pythonCode']));
+      }
+      if (content.sqlQuery) {
+        references.push(nodeReference('sql', path.join('nodes', 'sql', `${content.sqlQuery}.sql`), ['sqlQuery']));
+      }
+      if (content.prompt) {
+        references.push(nodeReference('prompt', path.join('nodes', 'prompts', `${content.prompt}.md`), promptParameter(node.type)));
+      }
+      if (content.jsonBody) {
+        references.push(nodeReference('json', path.join('nodes', 'json', `${content.jsonBody}.json`), ['jsonBody']));
+      }
+    }
+
+    if (typeof node.parameters?._nodeFile === 'string') {
+      const reference = nodeFileReference(node);
+      if (reference) references.push(reference);
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Read a value from node parameters by path
+ */
+export function getParameterValue(parameters: any, parameter: string[]): any {
+  let value = parameters;
+  for (const key of parameter) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = value[key];
+  }
+  return value;
+}
+
+function deleteParameterValue(parameters: any, parameter: string[]): void {
+  const parent = getParameterValue(parameters, parameter.slice(0, -1));
+  if (parent && typeof parent === 'object') {
+    delete parent[parameter[parameter.length - 1]];
+  }
+}
+
+/**
+ * Leading // comment lines of a JSON file, which the compiler strips
+ */
+function jsonHeader(content: string): string {
+  if (!content.startsWith('//')) return '';
+  const lines = content.split('\n');
+  const start = lines.findIndex(line => !line.startsWith('//') && line.trim() !== '');
+  return start === -1 ? '' : lines.slice(0, start).join('\n') + '\n';
+}
+
+/**
+ * Put the local @prompt-file placeholders back into code pulled from n8n,
+ * returning updates for prompt files whose inlined content changed
+ */
+async function restorePromptFiles(
+  workflowsPath: string,
+  remoteCode: string,
+  localSource: string
+): Promise<{ code: string; updates: FileUpdate[] }> {
+  const localBlocks = new Map<string, { block: string; file: string }>();
+  for (const match of localSource.matchAll(SOURCE_PROMPT_PATTERN)) {
+    localBlocks.set(match[2], { block: match[0], file: match[1].trim() });
+  }
+
+  // The path in the deployed code can be edited by anyone with access to n8n,
+  // so only prompt files the local source already references are written
+  const updates: FileUpdate[] = [];
+  const code = remoteCode.replace(INLINED_PROMPT_PATTERN, (block, promptPath: string, constName: string, value: string) => {
+    const local = localBlocks.get(constName);
+    if (local && local.file === promptPath.trim()) {
+      updates.push({ file: local.file, content: value.replace(/\\`/g, '`') });
+    }
+    return local?.block ?? block;
+  });
+
+  // Only report prompt files that actually differ
+  const changed: FileUpdate[] = [];
+  for (const update of updates) {
+    const current = await fs.readFile(path.join(workflowsPath, update.file), 'utf-8').catch(() => null);
+    if (current !== update.content) changed.push(update);
+  }
+  return { code, updates: changed };
+}
+
+/**
+ * Turn a file's content into the parameter value n8n receives
+ */
+export function toParameterValue(reference: ExternalReference, body: string): string {
+  if (reference.kind === 'json') {
+    return '=' + body.replace(/\n/g, '\\n').replace(/"/g, '\\"');
+  }
+  return body;
+}
+
+/**
+ * Build the file updates that write a deployed parameter value back to disk
+ */
+export async function reverseReference(
+  workflowsPath: string,
+  reference: ExternalReference,
+  remoteValue: string,
+  nodeManager: NodeManager
+): Promise<FileUpdate[]> {
+  const localContent = await fs.readFile(path.join(workflowsPath, reference.file), 'utf-8').catch(() => '');
+  const updates: FileUpdate[] = [];
+  let content: string;
+
+  if (reference.source === 'nodeFile') {
+    const { header } = nodeManager.splitHeader(reference.file, localContent);
+    let body = remoteValue;
+    if (reference.kind === 'json') {
+      body = remoteValue.replace(/^=/, '').replace(/\\"/g, '"').replace(/\\n/g, '\n');
+    }
+    content = header + body;
+  } else {
+    switch (reference.kind) {
+      case 'code':
+      case 'python': {
+        const restored = await restorePromptFiles(workflowsPath, remoteValue, localContent);
+        updates.push(...restored.updates);
+        content = restored.code;
+        break;
+      }
+      case 'prompt':
+        content = localContent.startsWith('=') ? remoteValue : remoteValue.replace(/^=/, '');
+        break;
+      case 'json':
+        content = jsonHeader(localContent) + remoteValue.replace(/^=/, '').replace(/\\n/g, '\n');
+        break;
+      default:
+        content = remoteValue;
+    }
+  }
+
+  if (content !== localContent) {
+    updates.unshift({ file: reference.file, content });
+  }
+  return updates;
+}
+
+/**
+ * Value the local files would deploy for a reference
+ */
+async function localValue(
+  workflowsPath: string,
+  reference: ExternalReference,
+  compiledNode: any,
+  nodeManager: NodeManager
+): Promise<string | undefined> {
+  if (reference.source === 'nodeContent') {
+    return getParameterValue(compiledNode?.parameters, reference.parameter);
+  }
+
+  // The compiler leaves _nodeFile references alone, so read the file as injectNodes would
+  try {
+    const content = await fs.readFile(path.join(workflowsPath, reference.file), 'utf-8');
+    return toParameterValue(reference, nodeManager.splitHeader(reference.file, content).body);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Compare local, deployed and last-deployed copies of a workflow
+ */
+export async function compareWorkflowSync(options: {
+  workflowsPath: string;
+  source: any; // Workflow file as stored in flows/
+  local: any; // Compiled workflow
+  remote: any;
+  base: any | null; // Workflow from the last archived deployment
+  nodeManager: NodeManager;
+  force?: boolean;
+}): Promise<WorkflowSync> {
+  const { workflowsPath, nodeManager } = options;
+  const nodeByName = (workflow: any, name: string) => (workflow?.nodes || []).find((n: any) => n.name === name);
+  const references = findExternalReferences(options.source);
+  const results: ReferenceSync[] = [];
+
+  for (const reference of references) {
+    const remoteNode = nodeByName(options.remote, reference.node);
+    const remote = getParameterValue(remoteNode?.parameters, reference.parameter);
+    const local = await localValue(workflowsPath, reference, nodeByName(options.local, reference.node), nodeManager);
+
+    if (typeof remote !== 'string') {
+      results.push({ reference, status: 'missing', reason: 'not found in the deployed workflow', updates: [] });
+      continue;
+    }
+    if (local === undefined) {
+      results.push({ reference, status: 'missing', reason: 'local file could not be read', updates: [] });
+      continue;
+    }
+    if (remote === local) {
+      results.push({ reference, status: 'in-sync', updates: [] });
+      continue;
+    }
+
+    const base = getParameterValue(nodeByName(options.base, reference.node)?.parameters, reference.parameter);
+    // _nodeFile content is never deployed by the compiler, so an empty archived value says nothing
+    const knownBase = typeof base === 'string' && !(reference.source === 'nodeFile' && base === '');
+
+    if (knownBase && remote === base) {
+      results.push({ reference, status: 'local-only', reason: 'changed locally since the last deployment', updates: [] });
+      continue;
+    }
+    if ((knownBase && local === base) || options.force) {
+      results.push({
+        reference,
+        status: 'pulled',
+        reason: knownBase && local === base ? undefined : 'conflict overwritten with the deployed version',
+        updates: await reverseReference(workflowsPath, reference, remote, nodeManager),
+      });
+      continue;
+    }
+    results.push({
+      reference,
+      status: 'conflict',
+      reason: knownBase ? 'changed both locally and in n8n' : 'no deployment recorded to compare against',
+      updates: [],
+    });
+  }
+
+  // Everything outside the external files can't be written back, but is worth reporting
+  const strip = (workflow: any) => {
+    const copy = JSON.parse(JSON.stringify(workflow || {}));
+    delete copy.active;
+    for (const reference of references) {
+      const node = nodeByName(copy, reference.node);
+      if (!node?.parameters) continue;
+      deleteParameterValue(node.parameters, reference.parameter);
+      delete node.parameters._nodeFile;
+    }
+    return copy;
+  };
+
+  return { references: results, structural: diffWorkflows(strip(options.local), strip(options.remote)) };
+}
+
+/**
+ * Absolute path of a file update, refusing anything outside the workflows directory
+ */
+function resolveUpdatePath(workflowsPath: string, file: string): string {
+  const root = path.resolve(workflowsPath);
+  const filePath = path.resolve(root, file);
+  if (!filePath.startsWith(root + path.sep)) {
+    throw new Error(`File "${file}" is outside the workflows directory`);
+  }
+  return filePath;
+}
+
+/**
+ * Write file updates relative to the workflows directory
+ */
+export async function applyFileUpdates(workflowsPath: string, updates: FileUpdate[]): Promise<void> {
+  // Check every path before writing any, so a bad one doesn't leave a partial pull
+  const filePaths = updates.map(update => resolveUpdatePath(workflowsPath, update.file));
+  for (const [index, update] of updates.entries()) {
+    const filePath = filePaths[index];
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, update.content);
+  }
+}
+
+/**
+ * Render the outcome of a pull
+ */
+export function formatWorkflowSync(sync: WorkflowSync, dryRun: boolean): string {
+  const icons: Record<SyncStatus, string> = {
+    'in-sync': '✓',
+    pulled: '⬇️',
+    'local-only': '⬆️',
+    conflict: '⚠️',
+    missing: '❓',
+  };
+  let output = '';
+
+  if (sync.references.length === 0) {
+    output += 'No nodes reference external files.\n';
+  }
+  for (const result of sync.references) {
+    const { reference } = result;
+    output += `  ${icons[result.status]} ${reference.node} → ${reference.file}`;
+    output += result.reason ? ` (${result.reason})\n` : '\n';
+    for (const update of result.updates) {
+      output += `      ${dryRun ? 'would write' : 'wrote'} ${update.file}\n`;
+    }
+  }
+
+  if (hasChanges(sync.structural)) {
+    output += '\n🔧 Other changes made in n8n (not pulled, update flows/ manually):\n';
+    output += `${formatWorkflowDiff(sync.structural)}\n`;
+  }
+  return output;
+}
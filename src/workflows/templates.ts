@@ -1,120 +1,556 @@
-import { NodePositioning } from '../nodes/positioning.js';
+/**
+ * Workflow Templates
+ *
+ * A template is a directory holding a template.json plus any code, prompt or
+ * SQL files it ships. Built-in templates live in the package's templates/
+ * folder; project templates in workflows/templates/ override them by name.
+ *
+ * template.json declares typed parameters and a workflow that uses
+ * %%parameter%% placeholders. A string that is exactly one placeholder takes
+ * the parameter's value with its type; %%file:path%% is replaced by the
+ * content of a file in the template directory.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
 import { WorkflowManager } from './manager.js';
+import { NodeManager } from '../nodes/manager.js';
+
+export type TemplateParameterType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+export interface TemplateParameter {
+  type: TemplateParameterType;
+  description?: string;
+  default?: any;
+  required?: boolean;
+  enum?: any[];
+}
+
+export interface WorkflowTemplate {
+  name: string;
+  description?: string;
+  parameters: Record<string, TemplateParameter>;
+  workflow: any;
+  directory: string;
+  source: 'built-in' | 'project';
+}
+
+export const BUILT_IN_TEMPLATES_DIR = fileURLToPath(new URL('../../templates', import.meta.url));
+export const PROJECT_TEMPLATES_DIR = 'templates';
+export const TEMPLATE_FILE = 'template.json';
+
+// Always available to templates
+const BUILT_IN_PARAMETERS = ['name', 'project'];
+const PARAMETER_TYPES: TemplateParameterType[] = ['string', 'number', 'boolean', 'object', 'array'];
+const PLACEHOLDER = /%%([^%\s]+)%%/g;
+
+/**
+ * Parse and check a template.json, naming the file in every error
+ */
+function parseTemplateDefinition(file: string, content: string): any {
+  let definition: any;
+  try {
+    definition = JSON.parse(content);
+  } catch (error: any) {
+    throw new Error(`Template ${file}: ${error.message}`);
+  }
+
+  if (!Array.isArray(definition?.workflow?.nodes)) {
+    throw new Error(`Template ${file} has no workflow nodes`);
+  }
+  for (const [key, parameter] of Object.entries<any>(definition.parameters || {})) {
+    if (BUILT_IN_PARAMETERS.includes(key)) {
+      throw new Error(`Template ${file} redefines the built-in parameter "${key}"`);
+    }
+    if (!PARAMETER_TYPES.includes(parameter?.type)) {
+      throw new Error(`Template ${file} parameter "${key}" needs a type (${PARAMETER_TYPES.join(', ')})`);
+    }
+  }
+  return definition;
+}
+
+/**
+ * Read the templates in a directory; broken ones are skipped and reported
+ */
+async function readTemplateDirectory(
+  directory: string,
+  source: WorkflowTemplate['source'],
+  problems: string[]
+): Promise<WorkflowTemplate[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(directory);
+  } catch {
+    return [];
+  }
+
+  const templates: WorkflowTemplate[] = [];
+  for (const entry of entries.sort()) {
+    const file = path.join(directory, entry, TEMPLATE_FILE);
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf-8');
+    } catch {
+      continue;
+    }
+
+    let definition: any;
+    try {
+      definition = parseTemplateDefinition(file, content);
+    } catch (error: any) {
+      problems.push(error.message);
+      continue;
+    }
+
+    templates.push({
+      name: definition.name || entry,
+      description: definition.description,
+      parameters: definition.parameters || {},
+      workflow: definition.workflow,
+      directory: path.join(directory, entry),
+      source,
+    });
+  }
+  return templates;
+}
+
+/**
+ * Load built-in and project templates; project templates win on name clashes.
+ * Templates that fail to load are left out and described in problems
+ */
+export async function loadTemplateCatalog(
+  workflowsPath: string,
+  builtInDirectory: string = BUILT_IN_TEMPLATES_DIR
+): Promise<{ templates: Map<string, WorkflowTemplate>; problems: string[] }> {
+  const templates = new Map<string, WorkflowTemplate>();
+  const problems: string[] = [];
+  for (const template of await readTemplateDirectory(builtInDirectory, 'built-in', problems)) {
+    templates.set(template.name, template);
+  }
+  for (const template of await readTemplateDirectory(path.join(workflowsPath, PROJECT_TEMPLATES_DIR), 'project', problems)) {
+    templates.set(template.name, template);
+  }
+  return { templates, problems };
+}
+
+/**
+ * Load built-in and project templates; project templates win on name clashes
+ */
+export async function loadTemplates(
+  workflowsPath: string,
+  builtInDirectory: string = BUILT_IN_TEMPLATES_DIR
+): Promise<Map<string, WorkflowTemplate>> {
+  return (await loadTemplateCatalog(workflowsPath, builtInDirectory)).templates;
+}
+
+function typeOf(value: any): string {
+  return Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+}
+
+/**
+ * Replace placeholders in a string; a lone placeholder keeps the value's type
+ */
+function substituteString(text: string, values: Record<string, any>, files: Record<string, string>): any {
+  const lone = text.match(/^%%([^%\s]+)%%$/);
+  if (lone && !lone[1].startsWith('file:')) {
+    return lookup(lone[1], values);
+  }
+  return text.replace(PLACEHOLDER, (_match, key: string) => {
+    if (key.startsWith('file:')) {
+      const file = key.substring('file:'.length);
+      if (!(file in files)) {
+        throw new Error(`Template file "${file}" not found`);
+      }
+      return files[file];
+    }
+    const value = lookup(key, values);
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  });
+}
+
+function lookup(key: string, values: Record<string, any>): any {
+  if (!(key in values)) {
+    throw new Error(`Template uses undefined parameter %%${key}%%`);
+  }
+  return values[key];
+}
+
+/**
+ * Substitute placeholders throughout a JSON value
+ */
+export function substitutePlaceholders(value: any, values: Record<string, any>, files: Record<string, string> = {}): any {
+  if (typeof value === 'string') {
+    return substituteString(value, values, files);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => substitutePlaceholders(item, values, files));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, substitutePlaceholders(item, values, files)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Read every file a template references with %%file:path%%
+ */
+async function readTemplateFiles(template: WorkflowTemplate): Promise<Record<string, string>> {
+  const references = new Set<string>();
+  const collect = (value: any) => {
+    if (typeof value === 'string') {
+      for (const match of value.matchAll(PLACEHOLDER)) {
+        if (match[1].startsWith('file:')) references.add(match[1].substring('file:'.length));
+      }
+    } else if (value && typeof value === 'object') {
+      Object.values(value).forEach(collect);
+    }
+  };
+  collect(template.workflow);
+  collect(Object.values(template.parameters).map(p => p.default));
+
+  const files: Record<string, string> = {};
+  for (const reference of references) {
+    const file = path.resolve(template.directory, reference);
+    if (!file.startsWith(template.directory + path.sep)) {
+      throw new Error(`Template file "${reference}" is outside the template directory`);
+    }
+    try {
+      files[reference] = await fs.readFile(file, 'utf-8');
+    } catch {
+      throw new Error(`Template file "${reference}" not found in ${template.directory}`);
+    }
+  }
+  return files;
+}
+
+/**
+ * Check config against the template's parameters and fill in defaults
+ */
+export function resolveTemplateConfig(
+  template: WorkflowTemplate,
+  config: Record<string, any> = {},
+  context: { name: string; project?: string },
+  files: Record<string, string> = {}
+): Record<string, any> {
+  const errors: string[] = [];
+  const builtIns = { name: context.name, project: context.project || '' };
+  const values: Record<string, any> = { ...builtIns };
+
+  for (const key of Object.keys(config || {})) {
+    if (!(key in template.parameters)) {
+      errors.push(`Unknown parameter "${key}"`);
+    }
+  }
+
+  for (const [key, parameter] of Object.entries(template.parameters)) {
+    let value = config?.[key];
+    if (value === undefined) {
+      if (parameter.default === undefined) {
+        if (parameter.required) errors.push(`Missing required parameter "${key}"`);
+        continue;
+      }
+      value = substitutePlaceholders(parameter.default, builtIns, files);
+    }
+    if (typeOf(value) !== parameter.type) {
+      errors.push(`Parameter "${key}" must be ${parameter.type === 'array' || parameter.type === 'object' ? 'an' : 'a'} ${parameter.type}, got ${typeOf(value)}`);
+      continue;
+    }
+    if (parameter.enum && !parameter.enum.includes(value)) {
+      errors.push(`Parameter "${key}" must be one of ${parameter.enum.map(v => JSON.stringify(v)).join(', ')}`);
+      continue;
+    }
+    values[key] = value;
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid config for template "${template.name}":\n${errors.map(e => `  • ${e}`).join('\n')}`);
+  }
+  return values;
+}
+
+/**
+ * Build a workflow from a template; ships=true when it inlined template files
+ */
+export async function renderTemplate(
+  template: WorkflowTemplate,
+  config: Record<string, any>,
+  context: { name: string; project?: string }
+): Promise<{ workflow: any; ships: boolean }> {
+  const files = await readTemplateFiles(template);
+  const values = resolveTemplateConfig(template, config, context, files);
+  // Files are templates too
+  const rendered = Object.fromEntries(
+    Object.entries(files).map(([file, content]) => [file, substituteString(content, values, {})])
+  );
+  const workflow = substitutePlaceholders(structuredClone(template.workflow), values, rendered);
+  return { workflow, ships: Object.keys(files).length > 0 };
+}
+
+function formatDefault(value: any): string {
+  const text = JSON.stringify(value);
+  return text.length > 40 ? `${text.substring(0, 37)}...` : text;
+}
+
+/**
+ * Describe the available templates and their parameters
+ */
+export async function listTemplates(workflowsPath: string, builtInDirectory?: string): Promise<any> {
+  const catalog = await loadTemplateCatalog(workflowsPath, builtInDirectory);
+  const templates = [...catalog.templates.values()];
+  let text = `📋 Available templates (${templates.length}):\n`;
+
+  for (const template of templates) {
+    text += `\n• ${template.name} (${template.source})${template.description ? ` - ${template.description}` : ''}\n`;
+    for (const [key, parameter] of Object.entries(template.parameters)) {
+      const details: string[] = [parameter.type];
+      if (parameter.required) details.push('required');
+      if (parameter.default !== undefined) details.push(`default ${formatDefault(parameter.default)}`);
+      if (parameter.enum) details.push(`one of ${parameter.enum.map(v => JSON.stringify(v)).join(', ')}`);
+      text += `    ${key} (${details.join(', ')})${parameter.description ? ` - ${parameter.description}` : ''}\n`;
+    }
+  }
+
+  if (templates.length === 0) {
+    text += `\nNo templates found. Add one in ${PROJECT_TEMPLATES_DIR}/<name>/${TEMPLATE_FILE}\n`;
+  }
+  if (catalog.problems.length > 0) {
+    text += `\n⚠️ Skipped broken templates:\n${catalog.problems.map(p => `  • ${p}`).join('\n')}\n`;
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text,
+      },
+    ],
+  };
+}
 
 export async function generateWorkflowFromTemplate(
   workflowManager: WorkflowManager,
+  workflowsPath: string,
   template: string,
   project: string,
   name: string,
-  config: any = {}
+  config: any = {},
+  builtInDirectory?: string
 ): Promise<any> {
-  const templates: { [key: string]: any } = {
-    'webhook-api': {
-      name: project ? `${project} - ${name}` : name,
-      nodes: [
-        {
-          id: 'webhook-trigger',
-          name: 'Webhook',
-          type: 'n8n-nodes-base.webhook',
-          typeVersion: 1,
-          position: NodePositioning.getHorizontalPosition(0),
-          parameters: {
-            path: config.webhookPath || `/${name}`,
-            responseMode: 'onReceived',
-            responseData: 'allEntries',
-            options: {},
-          },
-        },
-        {
-          id: 'process-data',
-          name: 'Process Data',
-          type: 'n8n-nodes-base.code',
-          typeVersion: 2,
-          position: NodePositioning.getHorizontalPosition(1),
-          parameters: {
-            language: 'javaScript',
-            jsCode: config.processCode || '// Process the incoming data\nreturn $input.all();',
-          },
-        },
-        {
-          id: 'respond',
-          name: 'Respond',
-          type: 'n8n-nodes-base.respondToWebhook',
-          typeVersion: 1,
-          position: NodePositioning.getHorizontalPosition(2),
-          parameters: {
-            respondWith: 'json',
-            responseBody: '={{ $json }}',
-          },
-        },
-      ],
-      connections: {
-        'webhook-trigger': {
-          main: [[{ node: 'process-data', type: 'main', index: 0 }]],
-        },
-        'process-data': {
-          main: [[{ node: 'respond', type: 'main', index: 0 }]],
-        },
-      },
-    },
-    'scheduled-report': {
-      name: `${project} - ${name}`,
-      nodes: [
-        {
-          id: 'schedule-trigger',
-          name: 'Schedule',
-          type: 'n8n-nodes-base.scheduleTrigger',
-          typeVersion: 1,
-          position: NodePositioning.getVerticalPosition(0),
-          parameters: {
-            rule: {
-              interval: [
-                {
-                  field: 'hours',
-                  hoursInterval: config.hoursInterval || 24,
-                },
-              ],
-            },
-          },
-        },
-        {
-          id: 'gather-data',
-          name: 'Gather Data',
-          type: 'n8n-nodes-base.httpRequest',
-          typeVersion: 4.2,
-          position: [500, 300],
-          parameters: {
-            url: config.dataUrl || 'https://api.example.com/data',
-            method: 'GET',
-          },
-        },
-        {
-          id: 'format-report',
-          name: 'Format Report',
-          type: 'n8n-nodes-base.code',
-          typeVersion: 2,
-          position: [750, 300],
-          parameters: {
-            language: 'javaScript',
-            jsCode: '// Format the report\nreturn { report: $input.all() };',
-          },
-        },
-      ],
-      connections: {
-        'schedule-trigger': {
-          main: [[{ node: 'gather-data', type: 'main', index: 0 }]],
-        },
-        'gather-data': {
-          main: [[{ node: 'format-report', type: 'main', index: 0 }]],
-        },
-      },
-    },
+  const { templates, problems } = await loadTemplateCatalog(workflowsPath, builtInDirectory);
+  const workflowTemplate = templates.get(template);
+  if (!workflowTemplate) {
+    const broken = problems.filter(problem => problem.includes(`${path.sep}${template}${path.sep}`));
+    throw new Error(
+      `Unknown template: ${template} (available: ${[...templates.keys()].join(', ') || 'none'})` +
+      (broken.length > 0 ? `; ${broken.join('; ')}` : '')
+    );
+  }
+  if (!name) {
+    throw new Error('A workflow name is required');
+  }
+
+  const { workflow, ships } = await renderTemplate(workflowTemplate, config, { name, project });
+  // Shipped code and prompts go to nodes/ like any extracted node content
+  return await workflowManager.createWorkflow(name, workflow, project, { extractNodes: ships });
+}
+
+export interface TemplateVariable {
+  name: string; // Template parameter name
+  node: string;
+  parameter: string; // Dotted path inside the node's parameters, e.g. "rule.interval.0.hours"
+  description?: string;
+}
+
+function templateFileName(nodeFile: string, taken: Set<string>): string {
+  // nodes/<kind>/<workflow>/<file> becomes <kind>/<file>
+  const parts = nodeFile.split('/');
+  const base = parts[0] === 'nodes' && parts.length >= 4 ? `${parts[1]}/${parts.slice(3).join('/')}` : path.basename(nodeFile);
+  let name = base;
+  for (let counter = 1; taken.has(name); counter++) {
+    const extension = path.extname(base);
+    name = `${base.substring(0, base.length - extension.length)}-${counter}${extension}`;
+  }
+  taken.add(name);
+  return name;
+}
+
+/**
+ * Remove values tied to one n8n instance: ids, credentials, webhook ids and
+ * resource locator picks; returns what was stripped
+ */
+function stripInstanceValues(workflow: any): string[] {
+  const stripped: string[] = [];
+  const count = (label: string, n: number) => {
+    if (n > 0) stripped.push(`${n} ${label}${n === 1 ? '' : 's'}`);
   };
 
-  const workflowTemplate = templates[template];
-  if (!workflowTemplate) {
-    throw new Error(`Unknown template: ${template}`);
+  const workflowFields = ['id', 'versionId', 'meta', 'active', 'tags', 'pinData', 'staticData', 'shared', 'createdAt', 'updatedAt', 'triggerCount'];
+  const present = workflowFields.filter(field => field in workflow);
+  present.forEach(field => delete workflow[field]);
+  if (present.length > 0) stripped.push(`workflow ${present.join(', ')}`);
+
+  let credentials = 0;
+  let webhookIds = 0;
+  let references = 0;
+  const clearLocators = (value: any) => {
+    if (!value || typeof value !== 'object') return;
+    if (value.__rl && (value.mode === 'list' || value.mode === 'id') && value.value) {
+      value.value = '';
+      delete value.cachedResultUrl;
+      references++;
+    }
+    Object.values(value).forEach(clearLocators);
+  };
+
+  const ids = new Set<string>();
+  for (const node of workflow.nodes) {
+    const slug = node.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'node';
+    let id = slug;
+    for (let counter = 1; ids.has(id); counter++) {
+      id = `${slug}-${counter}`;
+    }
+    ids.add(id);
+    node.id = id;
+    if (node.credentials) {
+      credentials += Object.keys(node.credentials).length;
+      delete node.credentials;
+    }
+    if (node.webhookId) {
+      delete node.webhookId;
+      webhookIds++;
+    }
+    clearLocators(node.parameters);
   }
+  count('credential', credentials);
+  count('webhook id', webhookIds);
+  count('instance resource reference', references);
+  return stripped;
+}
+
+function parameterPath(parameter: string): string[] {
+  return parameter.split('.').filter(part => part !== '');
+}
+
+/**
+ * Save a workflow from flows/ as a project template in workflows/templates/
+ */
+export async function saveWorkflowAsTemplate(
+  workflowsPath: string,
+  workflowPath: string,
+  name: string,
+  options: { description?: string; variables?: TemplateVariable[]; overwrite?: boolean } = {}
+): Promise<any> {
+  try {
+    if (!/^[a-z0-9][a-z0-9-]*$/.test(name || '')) {
+      throw new Error('Template names use lowercase letters, digits and dashes');
+    }
+    const directory = path.join(workflowsPath, PROJECT_TEMPLATES_DIR, name);
+    const exists = await fs.access(path.join(directory, TEMPLATE_FILE)).then(() => true, () => false);
+    if (exists && !options.overwrite) {
+      throw new Error(`Template "${name}" already exists (set overwrite to replace it)`);
+    }
 
-  return await workflowManager.createWorkflow(name, workflowTemplate, project);
-}
\ No newline at end of file
+    // Bring extracted node content back into the workflow to find where it belongs
+    const fullPath = path.join(workflowsPath, workflowPath);
+    const original = JSON.parse(await fs.readFile(fullPath, 'utf-8'));
+    const { workflow } = await new NodeManager(workflowsPath).injectNodes(fullPath);
+    if (!Array.isArray(workflow.nodes)) {
+      throw new Error(`${workflowPath} has no nodes`);
+    }
+
+    const files: Record<string, string> = {};
+    const taken = new Set<string>();
+    for (const node of workflow.nodes) {
+      if (node.parameters?._nodeFile) {
+        throw new Error(`Could not read ${node.parameters._nodeFile} for node "${node.name}"`);
+      }
+      const before = original.nodes.find((n: any) => n.name === node.name);
+      const nodeFile = before?.parameters?._nodeFile;
+      if (!nodeFile) continue;
+
+      const file = templateFileName(nodeFile, taken);
+      for (const [key, value] of Object.entries<any>(node.parameters)) {
+        if (typeof value === 'string' && value !== before.parameters[key]) {
+          files[file] = value;
+          node.parameters[key] = `%%file:${file}%%`;
+        }
+      }
+    }
+
+    const stripped = stripInstanceValues(workflow);
+    workflow.name = '%%name%%';
+
+    // Chosen parameters become template variables, defaulting to their current value
+    const parameters: Record<string, TemplateParameter> = {};
+    for (const variable of options.variables || []) {
+      if (!/^[A-Za-z_][\w-]*$/.test(variable.name || '') || BUILT_IN_PARAMETERS.includes(variable.name)) {
+        throw new Error(`Invalid variable name "${variable.name}"`);
+      }
+      const node = workflow.nodes.find((n: any) => n.name === variable.node);
+      if (!node) {
+        throw new Error(`Node "${variable.node}" not found`);
+      }
+      const keys = parameterPath(variable.parameter);
+      const parent = keys.slice(0, -1).reduce((value: any, key) => value?.[key], node.parameters);
+      const last = keys[keys.length - 1];
+      if (!parent || typeof parent !== 'object' || last === undefined || !(last in parent)) {
+        throw new Error(`Node "${variable.node}" has no parameter "${variable.parameter}"`);
+      }
+
+      const value = parent[last];
+      const type = typeOf(value) as TemplateParameterType;
+      if (!PARAMETER_TYPES.includes(type)) {
+        throw new Error(`Parameter "${variable.parameter}" of "${variable.node}" is ${type} and cannot be a variable`);
+      }
+      if (parameters[variable.name] && parameters[variable.name].type !== type) {
+        throw new Error(`Variable "${variable.name}" is used for both ${parameters[variable.name].type} and ${type} values`);
+      }
+      parameters[variable.name] = parameters[variable.name] || {
+        type,
+        ...(variable.description ? { description: variable.description } : {}),
+        default: value,
+      };
+      parent[last] = `%%${variable.name}%%`;
+    }
+
+    await fs.rm(directory, { recursive: true, force: true });
+    for (const [file, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(directory, file)), { recursive: true });
+      await fs.writeFile(path.join(directory, file), content);
+    }
+    const definition = {
+      name,
+      description: options.description || `Created from ${workflowPath}`,
+      parameters,
+      workflow,
+    };
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(path.join(directory, TEMPLATE_FILE), JSON.stringify(definition, null, 2) + '\n');
+
+    let text = `✅ Saved template "${name}" to ${PROJECT_TEMPLATES_DIR}/${name}/\n`;
+    if (Object.keys(files).length > 0) {
+      text += `📦 Files: ${Object.keys(files).join(', ')}\n`;
+    }
+    if (Object.keys(parameters).length > 0) {
+      text += `🔧 Parameters: ${Object.entries(parameters).map(([key, p]) => `${key} (${p.type})`).join(', ')}\n`;
+    }
+    if (stripped.length > 0) {
+      text += `🧹 Stripped: ${stripped.join('; ')}\n`;
+    }
+    text += `\nGenerate from it with: generate template="${name}"`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+      ],
+    };
+  } catch (error) {
+    throw new Error(`Failed to save template: ${error}`);
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Tracking Configuration
+ *
+ * configure_tracking persists project settings to .tracking-config.json and
+ * the compiler applies them to every compiled workflow, so tracking nodes
+ * only exist in deployed copies. Workflows override the project settings
+ * under "workflows", keyed by flow file name (without .json) or workflow name:
+ *
+ * {
+ *   "enabled": true,
+ *   "storageUrl": "http://localhost:3000",
+ *   "enableErrorTracking": true,
+ *   "policy": { "stripBinary": true, "maxPayloadSize": 10000 },
+ *   "workflows": {
+ *     "order-intake": {
+ *       "checkpoints": [{ "afterNode": "Charge Card", "checkpointName": "charged" }],
+ *       "storeOutputNodes": ["Normalize"],
+ *       "policy": { "deny": ["$..cardNumber"], "hash": ["$.email"], "sampleRate": 0.1 }
+ *     },
+ *     "nightly-report": { "enabled": false }
+ *   }
+ * }
+ *
+ * A workflow policy is merged over the project policy, field by field.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { TrackingConfig, TrackingPolicy, isTrackingNode } from './tracking.js';
+import { InjectionOptions } from './tracking-injector.js';
+
+export const TRACKING_CONFIG_FILE = '.tracking-config.json';
+
+export interface WorkflowTrackingConfig extends InjectionOptions {
+  enabled?: boolean;
+  policy?: TrackingPolicy;
+}
+
+export interface ProjectTrackingConfig extends TrackingConfig {
+  workflows?: Record<string, WorkflowTrackingConfig>;
+}
+
+/**
+ * Load the persisted tracking config; tracking is off without one
+ */
+export async function loadTrackingConfig(workflowsPath: string): Promise<ProjectTrackingConfig> {
+  const configPath = path.join(workflowsPath, TRACKING_CONFIG_FILE);
+  let content: string;
+  try {
+    content = await fs.readFile(configPath, 'utf-8');
+  } catch {
+    return { enabled: false };
+  }
+
+  try {
+    return { enabled: false, ...JSON.parse(content) };
+  } catch (error: any) {
+    throw new Error(`Invalid tracking config ${configPath}: ${error.message}`);
+  }
+}
+
+/**
+ * Persist the tracking config, returning the file written
+ */
+export async function saveTrackingConfig(workflowsPath: string, config: ProjectTrackingConfig): Promise<string> {
+  const configPath = path.join(workflowsPath, TRACKING_CONFIG_FILE);
+  await fs.writeFile(configPath, JSON.stringify(config, null, 2));
+  return configPath;
+}
+
+/**
+ * Per-workflow settings for a flow file, falling back to its workflow name
+ */
+export function workflowTrackingConfig(
+  config: ProjectTrackingConfig,
+  fileName: string,
+  workflowName?: string
+): WorkflowTrackingConfig {
+  const workflows = config.workflows || {};
+  return workflows[fileName] || (workflowName ? workflows[workflowName] : undefined) || {};
+}
+
+/**
+ * Injection options for compiling a workflow, or null when it is not tracked
+ */
+export function resolveWorkflowTracking(
+  config: ProjectTrackingConfig,
+  workflow: any,
+  fileName: string
+): InjectionOptions | null {
+  const { enabled, policy, ...overrides } = workflowTrackingConfig(config, fileName, workflow.name);
+  if (!(enabled ?? config.enabled)) {
+    return null;
+  }
+
+  let storeOutputNodes = config.trackSpecificNodes;
+  if (config.trackAllNodes) {
+    storeOutputNodes = (workflow.nodes || [])
+      .filter((node: any) => !isTrackingNode(node) && node.type !== 'n8n-nodes-base.stickyNote')
+      .map((node: any) => node.name);
+  }
+
+  return {
+    addErrorTracking: config.enableErrorTracking,
+    storeOutputNodes,
+    ...overrides,
+    checkpoints: config.enableCheckpoints === false ? [] : overrides.checkpoints,
+  };
+}
+
+/**
+ * Project policy with the workflow's policy merged over it
+ */
+export function resolveTrackingPolicy(
+  config: ProjectTrackingConfig,
+  workflow: any,
+  fileName: string
+): TrackingPolicy | undefined {
+  const { policy } = workflowTrackingConfig(config, fileName, workflow.name);
+  return config.policy || policy ? { ...config.policy, ...policy } : undefined;
+}
+
+/**
+ * Everything the compiler takes from the tracking config for one workflow,
+ * or null when it is not tracked
+ */
+export function compiledTrackingSettings(
+  config: ProjectTrackingConfig,
+  workflow: any,
+  fileName: string
+): Record<string, unknown> | null {
+  const options = resolveWorkflowTracking(config, workflow, fileName);
+  if (!options) {
+    return null;
+  }
+
+  const { workflows, ...project } = config;
+  return {
+    ...project,
+    storageUrl: config.storageUrl || process.env.WORKFLOW_STORAGE_URL,
+    policy: resolveTrackingPolicy(config, workflow, fileName),
+    options,
+  };
+}
@@ -1,4 +1,5 @@
-import { WorkflowTracker, TrackingConfig } from './tracking.js';
+import { WorkflowTracker, TrackingConfig, isTrackingNode, currentTrackingId, trackingNodeId, approvalNodeId, MAX_TIMED_NODES } from './tracking.js';
+import crypto from 'crypto';
 import path from 'path';
 import fs from 'fs/promises';
 
@@ -11,6 +12,14 @@ export interface InjectionOptions {
     checkpointName: string;
   }>;
   storeOutputNodes?: string[];
+  timeNodes?: string[]; // Nodes to measure the duration of; '*' for every node after the trigger
+}
+
+export interface ApprovalStepOptions {
+  afterNode: string;
+  stepName: string;
+  timeoutHours?: number; // Resume as not approved after this long
+  rejectNode?: string; // Where rejected (or timed out) items go; dropped when unset
 }
 
 export class TrackingInjector {
@@ -35,6 +44,13 @@ export class TrackingInjector {
       modifiedWorkflow.connections = {};
     }
 
+    // Tracking nodes being applied again are replaced rather than duplicated,
+    // keeping the positions they had
+    const previous = new Map<string, any>(
+      modifiedWorkflow.nodes.filter((n: any) => isTrackingNode(n)).map((n: any) => [currentTrackingId(n), n])
+    );
+    this.stripTrackingNodes(modifiedWorkflow, node => this.isReapplied(node, options));
+
     // Find entry and exit points
     const entryNodes = this.findEntryNodes(modifiedWorkflow);
     const exitNodes = this.findExitNodes(modifiedWorkflow);
@@ -64,9 +80,113 @@ export class TrackingInjector {
       this.addNodeStorage(modifiedWorkflow, options.storeOutputNodes);
     }
 
+    // Bracket timed nodes with timing markers
+    if (options.timeNodes && options.timeNodes.length > 0) {
+      this.addNodeTiming(modifiedWorkflow, this.timedNodes(modifiedWorkflow, options.timeNodes, entryNodes));
+    }
+
+    for (const node of modifiedWorkflow.nodes) {
+      const existing = previous.get(node.id);
+      if (existing && existing !== node && existing.position) {
+        node.position = existing.position;
+      }
+    }
+
     return modifiedWorkflow;
   }
 
+  /**
+   * Remove every tracking node and reconnect the workflow as it was before
+   */
+  removeTracking(workflow: any): { workflow: any; removed: string[] } {
+    const modifiedWorkflow = JSON.parse(JSON.stringify(workflow)); // Deep clone
+    if (!modifiedWorkflow.connections) {
+      modifiedWorkflow.connections = {};
+    }
+    const removed = this.stripTrackingNodes(modifiedWorkflow, () => true);
+    return { workflow: modifiedWorkflow, removed };
+  }
+
+  /**
+   * Whether an existing tracking node is one the given options add again
+   */
+  private isReapplied(node: any, options: InjectionOptions): boolean {
+    const id = currentTrackingId(node)!;
+    return (
+      (options.addStartTracking !== false && id.startsWith(trackingNodeId('start'))) ||
+      (options.addEndTracking !== false && id.startsWith(trackingNodeId('end'))) ||
+      (!!options.addErrorTracking && (id === trackingNodeId('error') || id === trackingNodeId('error_trigger'))) ||
+      (options.checkpoints || []).some(c => id === trackingNodeId('checkpoint', c.checkpointName)) ||
+      (options.storeOutputNodes || []).some(name => id === trackingNodeId('store', name)) ||
+      (options.timeNodes || []).some(name =>
+        name === '*'
+          ? id.startsWith(trackingNodeId('timing'))
+          : id === trackingNodeId('timing', name) || id === trackingNodeId('timing_start', name)
+      )
+    );
+  }
+
+  /**
+   * Remove matching tracking nodes, bypassing each one; returns their names
+   */
+  private stripTrackingNodes(workflow: any, shouldRemove: (node: any) => boolean): string[] {
+    return this.stripNodes(workflow, node => isTrackingNode(node) && shouldRemove(node));
+  }
+
+  /**
+   * Remove matching nodes of any kind, bypassing each one; returns their names
+   */
+  private stripNodes(workflow: any, shouldRemove: (node: any) => boolean): string[] {
+    const removed: string[] = [];
+    for (const node of workflow.nodes.filter((n: any) => shouldRemove(n))) {
+      this.bypassNode(workflow, node.name);
+      removed.push(node.name);
+    }
+    workflow.nodes = workflow.nodes.filter((n: any) => !removed.includes(n.name));
+    return removed;
+  }
+
+  /**
+   * Drop a node's connections, wiring whatever fed it straight to the nodes it fed
+   */
+  private bypassNode(workflow: any, nodeName: string) {
+    const connections = workflow.connections;
+    const targets: any[] = connections[nodeName]?.main?.[0] || [];
+    delete connections[nodeName];
+
+    for (const [source, outputs] of Object.entries<any>(connections)) {
+      for (const [type, outputList] of Object.entries<any[][]>(outputs || {})) {
+        let changed = false;
+        (outputList || []).forEach((list, index) => {
+          if (!(list || []).some(t => t.node === nodeName)) return;
+          changed = true;
+          const rewired: any[] = [];
+          for (const connection of list) {
+            const replacements = connection.node !== nodeName ? [connection] : type === 'main' ? targets : [];
+            for (const replacement of replacements) {
+              if (!rewired.some(r => r.node === replacement.node && r.index === replacement.index)) {
+                rewired.push(replacement);
+              }
+            }
+          }
+          outputList[index] = rewired;
+        });
+
+        if (changed) {
+          while (outputList.length > 0 && outputList[outputList.length - 1].length === 0) {
+            outputList.pop();
+          }
+          if (outputList.length === 0) {
+            delete outputs[type];
+          }
+        }
+      }
+      if (outputs && Object.keys(outputs).length === 0) {
+        delete connections[source];
+      }
+    }
+  }
+
   /**
    * Find entry nodes (triggers, manual starts, webhooks)
    */
@@ -74,6 +194,8 @@ export class TrackingInjector {
     const entryNodes: string[] = [];
     
     for (const node of workflow.nodes) {
+      if (isTrackingNode(node)) continue;
+
       // Check if node is a trigger or start node
       if (
         node.type.includes('trigger') ||
@@ -102,7 +224,7 @@ export class TrackingInjector {
       }
 
       for (const node of workflow.nodes) {
-        if (!nodesWithIncoming.has(node.name)) {
+        if (!nodesWithIncoming.has(node.name) && !isTrackingNode(node)) {
           entryNodes.push(node.name);
         }
       }
@@ -115,54 +237,54 @@ export class TrackingInjector {
    * Find exit nodes (nodes with no outgoing connections)
    */
   private findExitNodes(workflow: any): string[] {
-    const exitNodes: string[] = [];
-    const hasOutgoing = new Set<string>();
-
-    for (const nodeName of Object.keys(workflow.connections || {})) {
-      if (workflow.connections[nodeName]?.main?.length > 0) {
-        hasOutgoing.add(nodeName);
-      }
-    }
-
-    for (const node of workflow.nodes) {
-      if (!hasOutgoing.has(node.name)) {
-        exitNodes.push(node.name);
-      }
-    }
-
-    return exitNodes;
+    const trackingNames = new Set(workflow.nodes.filter(isTrackingNode).map((n: any) => n.name));
+
+    // Outgoing connections through tracking nodes don't count as further work
+    const leadsToWork = (nodeName: string, visited: Set<string>): boolean =>
+      (workflow.connections?.[nodeName]?.main || []).flat().some((target: any) => {
+        if (!target || visited.has(target.node)) return false;
+        visited.add(target.node);
+        return !trackingNames.has(target.node) || leadsToWork(target.node, visited);
+      });
+
+    return workflow.nodes
+      .filter((node: any) => !isTrackingNode(node) && !leadsToWork(node.name, new Set()))
+      .map((node: any) => node.name);
   }
 
   /**
    * Add start tracking after entry nodes
    */
   private addStartTracking(workflow: any, entryNodes: string[]) {
-    const trackingNode = this.tracker.createStartTrackingNode();
-    
-    // Position tracking node after first entry node
-    const firstEntry = workflow.nodes.find((n: any) => n.name === entryNodes[0]);
-    if (firstEntry) {
-      trackingNode.node.position = [
-        firstEntry.position[0] + 250,
-        firstEntry.position[1]
-      ];
-    }
+    for (const entryName of entryNodes) {
+      const trackingNode = this.tracker.createStartTrackingNode();
 
-    // Add tracking node to workflow
-    workflow.nodes.push(trackingNode.node);
+      // One tracking node per entry so each can be removed cleanly
+      if (entryNodes.length > 1) {
+        trackingNode.node.name = `Track Start - ${entryName}`;
+        trackingNode.node.id = trackingNodeId('start', entryName);
+      }
 
-    // Connect entry nodes to tracking node
-    for (const entryName of entryNodes) {
-      const existingConnections = workflow.connections[entryName]?.main?.[0] || [];
-      
-      // Insert tracking node between entry and its targets
+      // Position tracking node after the entry node
+      const entry = workflow.nodes.find((n: any) => n.name === entryName);
+      if (entry?.position) {
+        trackingNode.node.position = [
+          entry.position[0] + 250,
+          entry.position[1]
+        ];
+      }
+
+      // Add tracking node to workflow
+      workflow.nodes.push(trackingNode.node);
+
+      // Insert tracking node between entry and the targets of its first output
+      const outputs = workflow.connections[entryName]?.main || [];
       workflow.connections[trackingNode.node.name] = {
-        main: [existingConnections]
+        main: [outputs[0] || []]
       };
-      
-      // Connect entry to tracking node
       workflow.connections[entryName] = {
-        main: [[{ node: trackingNode.node.name, type: 'main', index: 0 }]]
+        ...workflow.connections[entryName],
+        main: [[{ node: trackingNode.node.name, type: 'main', index: 0 }], ...outputs.slice(1)]
       };
     }
   }
@@ -185,17 +307,19 @@ export class TrackingInjector {
 
       // Make unique name for each end tracking node
       trackingNode.node.name = `Track End - ${exitName}`;
-      trackingNode.node.id = `track_end_${exitName.replace(/\s+/g, '_').toLowerCase()}_${Date.now()}`;
+      trackingNode.node.id = trackingNodeId('end', exitName);
 
       // Add tracking node to workflow
       workflow.nodes.push(trackingNode.node);
 
-      // Connect exit node to tracking node
+      // Connect exit node to tracking node, keeping any tracking already attached
       if (!workflow.connections[exitName]) {
         workflow.connections[exitName] = {};
       }
+      const outputs = workflow.connections[exitName].main || [];
       workflow.connections[exitName].main = [
-        [{ node: trackingNode.node.name, type: 'main', index: 0 }]
+        [...(outputs[0] || []), { node: trackingNode.node.name, type: 'main', index: 0 }],
+        ...outputs.slice(1)
       ];
     }
   }
@@ -207,7 +331,7 @@ export class TrackingInjector {
     // Add error trigger node
     const errorTrigger = {
       parameters: {},
-      id: 'error_trigger_' + Date.now(),
+      id: trackingNodeId('error_trigger'),
       name: 'Error Trigger',
       type: 'n8n-nodes-base.errorTrigger',
       typeVersion: 1,
@@ -248,8 +372,9 @@ export class TrackingInjector {
       // Add to workflow
       workflow.nodes.push(checkpointNode.node);
 
-      // Insert checkpoint between target and its connections
-      const existingConnections = workflow.connections[checkpoint.afterNode]?.main?.[0] || [];
+      // Insert checkpoint between target and the targets of its first output
+      const outputs = workflow.connections[checkpoint.afterNode]?.main || [];
+      const existingConnections = outputs[0] || [];
       
       // Connect checkpoint to target's destinations
       if (existingConnections.length > 0) {
@@ -260,7 +385,8 @@ export class TrackingInjector {
       
       // Connect target to checkpoint
       workflow.connections[checkpoint.afterNode] = {
-        main: [[{ node: checkpointNode.node.name, type: 'main', index: 0 }]]
+        ...workflow.connections[checkpoint.afterNode],
+        main: [[{ node: checkpointNode.node.name, type: 'main', index: 0 }], ...outputs.slice(1)]
       };
     }
   }
@@ -297,11 +423,81 @@ export class TrackingInjector {
     }
   }
 
+  /**
+   * Names of the nodes to time; '*' selects every node that can be bracketed
+   */
+  private timedNodes(workflow: any, requested: string[], entryNodes: string[]): string[] {
+    const names = requested.includes('*')
+      ? workflow.nodes
+        .filter((n: any) => !isTrackingNode(n) && n.type !== 'n8n-nodes-base.stickyNote')
+        .map((n: any) => n.name)
+      : requested;
+    // Triggers start the execution, so there is nothing to put before them
+    const timed = names.filter((name: string) =>
+      !entryNodes.includes(name) && workflow.nodes.some((n: any) => n.name === name)
+    );
+
+    // Each timed node keeps its start time in a custom data key; past the
+    // limit n8n would drop them and the durations would be lost
+    if (timed.length > MAX_TIMED_NODES) {
+      throw new Error(
+        `Cannot time ${timed.length} nodes: n8n keeps only ${MAX_TIMED_NODES} custom data keys per execution, ` +
+        `so list at most ${MAX_TIMED_NODES} nodes in timeNodes`
+      );
+    }
+    return timed;
+  }
+
+  /**
+   * Bracket nodes with timing markers: a pass-through marker before the node
+   * records when it was reached, a tracking node on its first output reports
+   * the duration once it has finished
+   */
+  private addNodeTiming(workflow: any, nodeNames: string[]) {
+    for (const nodeName of nodeNames) {
+      const targetNode = workflow.nodes.find((n: any) => n.name === nodeName);
+      if (!targetNode) continue;
+
+      // Sources feeding the node's first input
+      const incoming = Object.values<any>(workflow.connections)
+        .flatMap(outputs => (outputs?.main || []).flat())
+        .filter((c: any) => c?.node === nodeName && c.index === 0);
+      if (incoming.length === 0) continue;
+
+      const [x, y] = targetNode.position || [0, 0];
+      const marker = this.tracker.createTimingStartNode(nodeName, { x: x - 100, y: y - 150 });
+      const timing = this.tracker.createTimingNode(nodeName, { x: x + 150, y: y - 150 });
+      workflow.nodes.push(marker.node, timing.node);
+
+      // Route the first input through the marker
+      for (const connection of incoming) {
+        connection.node = marker.node.name;
+      }
+      workflow.connections[marker.node.name] = {
+        main: [[{ node: nodeName, type: 'main', index: 0 }]]
+      };
+
+      // Report first, so the duration doesn't include the nodes downstream
+      const outputs = workflow.connections[nodeName]?.main || [];
+      workflow.connections[nodeName] = {
+        ...workflow.connections[nodeName],
+        main: [[{ node: timing.node.name, type: 'main', index: 0 }, ...(outputs[0] || [])], ...outputs.slice(1)]
+      };
+    }
+  }
+
   /**
    * Add checkpoint restore capability at workflow start
    */
   async addCheckpointRestore(workflow: any, checkpointName: string): Promise<any> {
     const modifiedWorkflow = JSON.parse(JSON.stringify(workflow));
+    if (!modifiedWorkflow.connections) {
+      modifiedWorkflow.connections = {};
+    }
+
+    // Replace a restore added earlier for the same checkpoint
+    const ids = [trackingNodeId('restore', checkpointName), trackingNodeId('restore_check', checkpointName)];
+    this.stripTrackingNodes(modifiedWorkflow, node => ids.includes(currentTrackingId(node)!));
 
     // Create checkpoint restore node
     const restoreNode = this.tracker.createCheckpointRestoreNode(
@@ -321,7 +517,7 @@ export class TrackingInjector {
           ]
         }
       },
-      id: 'if_checkpoint_' + Date.now(),
+      id: trackingNodeId('restore_check', checkpointName),
       name: `Check ${checkpointName} Exists`,
       type: 'n8n-nodes-base.if',
       typeVersion: 2,
@@ -342,6 +538,121 @@ export class TrackingInjector {
 
     return modifiedWorkflow;
   }
+
+  /**
+   * Pause the workflow after a node until someone approves or rejects it:
+   * the items are registered for review with the execution's resume URL, a
+   * Wait node holds the execution, the items are put back in place of the
+   * resume call, and an IF routes them on the decision posted to that URL
+   */
+  addApprovalStep(workflow: any, options: ApprovalStepOptions): any {
+    const modifiedWorkflow = JSON.parse(JSON.stringify(workflow));
+    if (!modifiedWorkflow.connections) {
+      modifiedWorkflow.connections = {};
+    }
+
+    const targetNode = modifiedWorkflow.nodes.find((n: any) => n.name === options.afterNode);
+    if (!targetNode) {
+      throw new Error(`Node "${options.afterNode}" not found in workflow`);
+    }
+    if (options.rejectNode && !modifiedWorkflow.nodes.some((n: any) => n.name === options.rejectNode)) {
+      throw new Error(`Node "${options.rejectNode}" not found in workflow`);
+    }
+
+    // Replace an approval step added earlier under the same name, keeping its
+    // webhook so executions already waiting can still be resumed
+    const ids = (['request', 'wait', 'restore', 'check'] as const).map(part => approvalNodeId(part, options.stepName));
+    const previousWait = modifiedWorkflow.nodes.find((n: any) => n.id === ids[1]);
+    this.stripNodes(modifiedWorkflow, node => ids.includes(node.id));
+
+    const [x, y] = targetNode.position || [0, 0];
+    const requestNode = this.tracker.createApprovalRequestNode(
+      options.stepName,
+      { x: x + 200, y: y + 200 },
+      options.timeoutHours
+    );
+
+    const waitNode = {
+      parameters: {
+        resume: 'webhook',
+        httpMethod: 'POST',
+        ...(options.timeoutHours ? {
+          limitWaitTime: true,
+          limitType: 'afterTimeInterval',
+          resumeAmount: options.timeoutHours,
+          resumeUnit: 'hours'
+        } : {}),
+        options: {}
+      },
+      id: ids[1],
+      name: `Wait for Approval: ${options.stepName}`,
+      type: 'n8n-nodes-base.wait',
+      typeVersion: 1.1,
+      position: [x + 400, y + 200],
+      webhookId: previousWait?.webhookId || crypto.randomUUID()
+    };
+
+    // The Wait node outputs the resume call, so hand the nodes downstream the
+    // items they received before the step was added
+    const nodeRef = (name: string) => `$(${JSON.stringify(name)})`;
+    const restoreNode = {
+      parameters: {
+        jsCode: `// Items sent for approval, in place of the call that resumed the wait\n` +
+          `return ${nodeRef(options.afterNode)}.all();`
+      },
+      id: ids[2],
+      name: `Reviewed Items: ${options.stepName}`,
+      type: 'n8n-nodes-base.code',
+      typeVersion: 2,
+      position: [x + 600, y + 200]
+    };
+
+    // A timed out wait resumes without a decision, which counts as not approved
+    const checkNode = {
+      parameters: {
+        conditions: {
+          string: [
+            {
+              value1: `={{${nodeRef(waitNode.name)}.first().json.body?.decision}}`,
+              operation: 'equal',
+              value2: 'approved'
+            }
+          ]
+        }
+      },
+      id: ids[3],
+      name: `Approved? ${options.stepName}`,
+      type: 'n8n-nodes-base.if',
+      typeVersion: 1,
+      position: [x + 800, y + 200]
+    };
+
+    modifiedWorkflow.nodes.push(requestNode, waitNode, restoreNode, checkNode);
+
+    // Insert the step between the node and the targets of its first output
+    const outputs = modifiedWorkflow.connections[options.afterNode]?.main || [];
+    modifiedWorkflow.connections[options.afterNode] = {
+      ...modifiedWorkflow.connections[options.afterNode],
+      main: [[{ node: requestNode.name, type: 'main', index: 0 }], ...outputs.slice(1)]
+    };
+    modifiedWorkflow.connections[requestNode.name] = {
+      main: [[{ node: waitNode.name, type: 'main', index: 0 }]]
+    };
+    modifiedWorkflow.connections[waitNode.name] = {
+      main: [[{ node: restoreNode.name, type: 'main', index: 0 }]]
+    };
+    modifiedWorkflow.connections[restoreNode.name] = {
+      main: [[{ node: checkNode.name, type: 'main', index: 0 }]]
+    };
+    modifiedWorkflow.connections[checkNode.name] = {
+      main: [
+        outputs[0] || [],
+        options.rejectNode ? [{ node: options.rejectNode, type: 'main', index: 0 }] : []
+      ]
+    };
+
+    return modifiedWorkflow;
+  }
 }
 
 export default TrackingInjector;
\ No newline at end of file
@@ -1,4 +1,6 @@
 
+import crypto from 'crypto';
+
 export interface TrackingConfig {
   enabled: boolean;
   storageUrl?: string;
@@ -6,14 +8,172 @@ export interface TrackingConfig {
   trackSpecificNodes?: string[];
   enableCheckpoints?: boolean;
   enableErrorTracking?: boolean;
+  policy?: TrackingPolicy;
+}
+
+/**
+ * What tracking nodes may send. Selectors are JSONPath-style and relative to
+ * the item JSON: $.customer.email, $.items[*].card, $..password
+ */
+export interface TrackingPolicy {
+  allow?: string[]; // Only send these fields
+  deny?: string[]; // Never send these fields
+  hash?: string[]; // Send a SHA-256 hash instead
+  mask?: string[]; // Send ****1234 instead
+  maxPayloadSize?: number; // Characters of JSON per payload before it is cut to a preview
+  stripBinary?: boolean; // Replace binary data and base64 data URIs with "[binary]"
+  sampleRate?: number; // Share of executions tracked, 0-1 (errors and checkpoints are always sent)
+}
+
+/**
+ * Plain JavaScript embedded in the generated node expressions, so n8n applies
+ * the policy before anything leaves the workflow. Must stay free of // comments
+ * and of two closing braces in a row, which would end the {{ }} expression.
+ */
+export const TRACKING_POLICY_RUNTIME = `(value, policy, hash) => {
+  const parse = selector => {
+    const tokens = [];
+    let deep = false;
+    String(selector).replace(/^\\$/, '').replace(/\\[['"]?([^'"\\]]*)['"]?\\]/g, '.$1').split('.').forEach((key, i) => {
+      if (key === '') { deep = i > 0; return; }
+      tokens.push({ key, deep });
+      deep = false;
+    });
+    return tokens;
+  };
+  const visit = (node, tokens, path, fn) => {
+    if (!tokens.length || node === null || typeof node !== 'object') return;
+    const [token, ...rest] = tokens;
+    for (const key of Object.keys(node)) {
+      if (token.key === '*' || token.key === key) {
+        if (rest.length) visit(node[key], rest, [...path, key], fn);
+        else fn(node, key, [...path, key]);
+      }
+      if (token.deep) visit(node[key], tokens, [...path, key], fn);
+    }
+  };
+  const each = (data, selectors, fn) => (selectors || []).forEach(selector => visit(data, parse(selector), [], fn));
+  const isBinary = v => typeof v === 'string' ? /^data:[^;,]+;base64,/.test(v)
+    : v !== null && typeof v === 'object' && (v.type === 'Buffer' && Array.isArray(v.data) || typeof v.data === 'string' && typeof v.mimeType === 'string');
+  const strip = v => isBinary(v) ? '[binary]' : Array.isArray(v) ? v.map(strip)
+    : v !== null && typeof v === 'object' ? Object.fromEntries(Object.entries(v).filter(([k]) => k !== 'binary').map(([k, x]) => [k, strip(x)])) : v;
+
+  let data = value === undefined ? null : JSON.parse(JSON.stringify(value));
+  if (policy.stripBinary) data = strip(data);
+  if (policy.allow && policy.allow.length) {
+    const source = data;
+    data = Array.isArray(source) ? [] : {};
+    each(source, policy.allow, (parent, key, path) => {
+      let target = data;
+      let from = source;
+      path.forEach((k, i) => {
+        if (i === path.length - 1) { target[k] = parent[key]; return; }
+        if (target[k] === undefined) target[k] = Array.isArray(from[k]) ? [] : {};
+        target = target[k];
+        from = from[k];
+      });
+    });
+  }
+  each(data, policy.deny, (parent, key) => { delete parent[key]; });
+  each(data, policy.hash, (parent, key) => { parent[key] = hash(typeof parent[key] === 'string' ? parent[key] : JSON.stringify(parent[key])); });
+  each(data, policy.mask, (parent, key) => { const text = String(parent[key]); parent[key] = text.length > 8 ? '****' + text.slice(-4) : '****'; });
+  const text = JSON.stringify(data);
+  if (policy.maxPayloadSize && text && text.length > policy.maxPayloadSize) {
+    return { _truncated: true, size: text.length, preview: text.slice(0, policy.maxPayloadSize) };
+  }
+  return data;
+}`;
+
+function hasPolicy(policy?: TrackingPolicy): policy is TrackingPolicy {
+  return !!policy && Object.values(policy).some(value => Array.isArray(value) ? value.length > 0 : value !== undefined);
+}
+
+/**
+ * Expression deciding whether an execution is tracked; the execution ID is
+ * hashed so every node of one execution makes the same choice
+ */
+function samplingExpression(sampleRate: number): string {
+  return `((id) => { let h = 2166136261; for (const c of String(id)) { h = Math.imul(h ^ c.charCodeAt(0), 16777619) >>> 0; } ` +
+    `return h / 4294967296 < ${sampleRate}; })($execution.id)`;
 }
 
 export interface TrackingNode {
-  type: 'start' | 'end' | 'checkpoint' | 'store' | 'error';
+  type: 'start' | 'end' | 'checkpoint' | 'store' | 'error' | 'timing';
   node: any;
   position: { x: number; y: number };
 }
 
+// Every node McFlow adds for tracking has an ID starting with this tag
+export const TRACKING_ID_PREFIX = 'mcflow_tracking_';
+
+export type TrackingNodeKind = TrackingNode['type'] | 'error_trigger' | 'restore' | 'restore_check' | 'timing_start';
+
+/**
+ * Deterministic ID for a tracking node, so re-applying tracking finds it again
+ */
+export function trackingNodeId(kind: TrackingNodeKind, name?: string): string {
+  return `${TRACKING_ID_PREFIX}${kind}${nodeIdSlug(name)}`;
+}
+
+function nodeIdSlug(name?: string): string {
+  return name ? '-' + name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') : '';
+}
+
+/**
+ * Tracking nodes added before IDs carried the prefix: a timestamped ID plus
+ * the name McFlow gave the node, whose captured part keyed the node
+ */
+const LEGACY_TRACKING_NODES: Array<{ kind: TrackingNodeKind; id: RegExp; name: RegExp }> = [
+  { kind: 'start', id: /^track_start_\d+$/, name: /^Track Workflow Start$/ },
+  { kind: 'end', id: /^track_end_\d+$/, name: /^Track Workflow End$/ },
+  { kind: 'end', id: /^track_end_.+_\d+$/, name: /^Track End - (.+)$/ },
+  { kind: 'error', id: /^track_error_\d+$/, name: /^Track Error$/ },
+  { kind: 'error_trigger', id: /^error_trigger_\d+$/, name: /^Error Trigger$/ },
+  { kind: 'checkpoint', id: /^checkpoint_.+_\d+$/, name: /^Checkpoint: (.+)$/ },
+  { kind: 'restore', id: /^restore_.+_\d+$/, name: /^Restore Checkpoint: (.+)$/ },
+  { kind: 'restore_check', id: /^if_checkpoint_\d+$/, name: /^Check (.+) Exists$/ },
+  { kind: 'store', id: /^store_.+_\d+$/, name: /^Store Output: (.+)$/ },
+];
+
+/**
+ * ID a tracking node has under the current scheme, translating legacy IDs;
+ * undefined for nodes that aren't tracking nodes
+ */
+export function currentTrackingId(node: any): string | undefined {
+  if (typeof node?.id !== 'string') return undefined;
+  if (node.id.startsWith(TRACKING_ID_PREFIX)) return node.id;
+
+  for (const legacy of LEGACY_TRACKING_NODES) {
+    const name = typeof node.name === 'string' ? node.name.match(legacy.name) : null;
+    if (name && legacy.id.test(node.id)) {
+      return trackingNodeId(legacy.kind, name[1]);
+    }
+  }
+  return undefined;
+}
+
+export function isTrackingNode(node: any): boolean {
+  return currentTrackingId(node) !== undefined;
+}
+
+// Approval steps change what a workflow does, so remove_tracking leaves them alone
+export const APPROVAL_ID_PREFIX = 'mcflow_approval_';
+
+export function approvalNodeId(part: 'request' | 'wait' | 'restore' | 'check', stepName: string): string {
+  return `${APPROVAL_ID_PREFIX}${part}${nodeIdSlug(stepName)}`;
+}
+
+// n8n keeps at most 10 custom data keys per execution and drops the rest
+export const MAX_TIMED_NODES = 10;
+
+/**
+ * Execution custom data key holding when a timed node started (n8n keys are
+ * limited to 50 characters, so node names are hashed)
+ */
+export function timingDataKey(nodeName: string): string {
+  return `mcflow_timing_${crypto.createHash('sha256').update(nodeName).digest('hex').slice(0, 12)}`;
+}
+
 export class WorkflowTracker {
   private config: TrackingConfig;
 
@@ -21,6 +181,37 @@ export class WorkflowTracker {
     this.config = config;
   }
 
+  /**
+   * Expression sending a payload through the tracking policy
+   */
+  private payload(source: string, options: { items?: boolean; sampled?: boolean } = {}): string {
+    const policy = this.config.policy;
+    if (!hasPolicy(policy)) {
+      return `={{JSON.stringify(${source})}}`;
+    }
+
+    const apply = (value: string) =>
+      `(${TRACKING_POLICY_RUNTIME.replace(/\s*\n\s*/g, ' ')})(${value}, ${JSON.stringify(policy)}, v => v.hash('sha256'))`;
+    const payload = `JSON.stringify(${options.items ? `${source}.map(item => ${apply('item.json')})` : apply(source)})`;
+    return options.sampled && this.isSampled()
+      ? `={{ ${samplingExpression(policy.sampleRate!)} ? ${payload} : null }}`
+      : `={{ ${payload} }}`;
+  }
+
+  private isSampled(): boolean {
+    const rate = this.config.policy?.sampleRate;
+    return rate !== undefined && rate < 1;
+  }
+
+  /**
+   * Flag unsampled executions so the storage API can drop them
+   */
+  private samplingParameters(): Array<{ name: string; value: string }> {
+    return this.isSampled()
+      ? [{ name: 'sampled', value: `={{ ${samplingExpression(this.config.policy!.sampleRate!)} }}` }]
+      : [];
+  }
+
   /**
    * Generate tracking nodes for a workflow
    */
@@ -81,8 +272,9 @@ export class WorkflowTracker {
               },
               {
                 name: 'metadata',
-                value: '={{JSON.stringify($json)}}'
+                value: this.payload('$json', { sampled: true })
               },
+              ...this.samplingParameters(),
               {
                 name: 'timestamp',
                 value: '={{new Date().toISOString()}}'
@@ -94,7 +286,7 @@ export class WorkflowTracker {
             ignoreResponseErrors: true
           }
         },
-        id: 'track_start_' + Date.now(),
+        id: trackingNodeId('start'),
         name: 'Track Workflow Start',
         type: 'n8n-nodes-base.httpRequest',
         typeVersion: 4.2,
@@ -132,8 +324,9 @@ export class WorkflowTracker {
               },
               {
                 name: 'resultData',
-                value: '={{JSON.stringify($json)}}'
+                value: this.payload('$json', { sampled: true })
               },
+              ...this.samplingParameters(),
               {
                 name: 'timestamp',
                 value: '={{new Date().toISOString()}}'
@@ -145,7 +338,7 @@ export class WorkflowTracker {
             ignoreResponseErrors: true
           }
         },
-        id: 'track_end_' + Date.now(),
+        id: trackingNodeId('end'),
         name: 'Track Workflow End',
         type: 'n8n-nodes-base.httpRequest',
         typeVersion: 4.2,
@@ -183,7 +376,7 @@ export class WorkflowTracker {
               },
               {
                 name: 'errorDetails',
-                value: '={{JSON.stringify($json.error || $json)}}'
+                value: this.payload('$json.error || $json')
               },
               {
                 name: 'nodeId',
@@ -200,7 +393,7 @@ export class WorkflowTracker {
             ignoreResponseErrors: true
           }
         },
-        id: 'track_error_' + Date.now(),
+        id: trackingNodeId('error'),
         name: 'Track Error',
         type: 'n8n-nodes-base.httpRequest',
         typeVersion: 4.2,
@@ -236,13 +429,17 @@ export class WorkflowTracker {
                 name: 'checkpointName',
                 value: checkpointName
               },
+              {
+                name: 'executionId',
+                value: '={{$execution.id}}'
+              },
               {
                 name: 'nodeId',
                 value: '={{$node.name}}'
               },
               {
                 name: 'checkpointData',
-                value: '={{JSON.stringify($json)}}'
+                value: this.payload('$json')
               },
               {
                 name: 'timestamp',
@@ -255,7 +452,7 @@ export class WorkflowTracker {
             ignoreResponseErrors: true
           }
         },
-        id: 'checkpoint_' + checkpointName.replace(/\s+/g, '_').toLowerCase() + '_' + Date.now(),
+        id: trackingNodeId('checkpoint', checkpointName),
         name: `Checkpoint: ${checkpointName}`,
         type: 'n8n-nodes-base.httpRequest',
         typeVersion: 4.2,
@@ -295,7 +492,7 @@ export class WorkflowTracker {
           ignoreResponseErrors: true
         }
       },
-      id: 'restore_' + checkpointName.replace(/\s+/g, '_').toLowerCase() + '_' + Date.now(),
+      id: trackingNodeId('restore', checkpointName),
       name: `Restore Checkpoint: ${checkpointName}`,
       type: 'n8n-nodes-base.httpRequest',
       typeVersion: 4.2,
@@ -336,12 +533,13 @@ export class WorkflowTracker {
               },
               {
                 name: 'input',
-                value: '={{JSON.stringify($input.all())}}'
+                value: this.payload('$input.all()', { items: true, sampled: true })
               },
               {
                 name: 'output',
-                value: '={{JSON.stringify($json)}}'
+                value: this.payload('$json', { sampled: true })
               },
+              ...this.samplingParameters(),
               {
                 name: 'timestamp',
                 value: '={{new Date().toISOString()}}'
@@ -353,7 +551,7 @@ export class WorkflowTracker {
             ignoreResponseErrors: true
           }
         },
-        id: 'store_' + nodeName.replace(/\s+/g, '_').toLowerCase() + '_' + Date.now(),
+        id: trackingNodeId('store', nodeName),
         name: `Store Output: ${nodeName}`,
         type: 'n8n-nodes-base.httpRequest',
         typeVersion: 4.2,
@@ -363,6 +561,172 @@ export class WorkflowTracker {
     };
   }
 
+  /**
+   * Create the marker placed before a timed node: a pass-through Code node
+   * that remembers when the node was reached
+   */
+  createTimingStartNode(nodeName: string, position: { x: number; y: number }): TrackingNode {
+    return {
+      type: 'timing',
+      position,
+      node: {
+        parameters: {
+          jsCode: `// McFlow timing marker for ${JSON.stringify(nodeName)}\n` +
+            `$execution.customData.set('${timingDataKey(nodeName)}', String(Date.now()));\n` +
+            `return $input.all();`
+        },
+        id: trackingNodeId('timing_start', nodeName),
+        name: `Timing Start: ${nodeName}`,
+        type: 'n8n-nodes-base.code',
+        typeVersion: 2,
+        position: [position.x, position.y]
+      }
+    };
+  }
+
+  /**
+   * Create the node reporting a timed node's duration once it has finished
+   */
+  createTimingNode(nodeName: string, position: { x: number; y: number }): TrackingNode {
+    const startedAt = `Number($execution.customData.get('${timingDataKey(nodeName)}'))`;
+    return {
+      type: 'timing',
+      position,
+      node: {
+        parameters: {
+          method: 'POST',
+          url: '={{$env.WORKFLOW_STORAGE_URL}}/api/workflow/store',
+          sendBody: true,
+          bodyParametersUi: {
+            parameter: [
+              {
+                name: 'action',
+                value: 'node_timing'
+              },
+              {
+                name: 'executionId',
+                value: '={{$execution.id}}'
+              },
+              {
+                name: 'workflowId',
+                value: '={{$workflow.id}}'
+              },
+              {
+                name: 'workflowName',
+                value: '={{$workflow.name}}'
+              },
+              {
+                name: 'nodeId',
+                value: nodeName
+              },
+              {
+                name: 'startedAt',
+                value: `={{new Date(${startedAt}).toISOString()}}`
+              },
+              {
+                name: 'endedAt',
+                value: '={{new Date().toISOString()}}'
+              },
+              {
+                name: 'durationMs',
+                value: `={{Date.now() - ${startedAt}}}`
+              },
+              ...this.samplingParameters(),
+              {
+                name: 'timestamp',
+                value: '={{new Date().toISOString()}}'
+              }
+            ]
+          },
+          options: {
+            timeout: 5000,
+            ignoreResponseErrors: true
+          }
+        },
+        id: trackingNodeId('timing', nodeName),
+        name: `Track Timing: ${nodeName}`,
+        type: 'n8n-nodes-base.httpRequest',
+        typeVersion: 4.2,
+        position: [position.x, position.y],
+        executeOnce: true,
+        continueOnFail: true
+      }
+    };
+  }
+
+  /**
+   * Create the node registering an approval request, with the URL that
+   * resumes the execution once the following Wait node has paused it. One
+   * request covers every item that reached the step, since the execution is
+   * resumed once for all of them
+   */
+  createApprovalRequestNode(stepName: string, position: { x: number; y: number }, timeoutHours?: number): any {
+    return {
+      parameters: {
+        method: 'POST',
+        url: '={{$env.WORKFLOW_STORAGE_URL}}/api/workflow/store',
+        sendBody: true,
+        bodyParametersUi: {
+          parameter: [
+            {
+              name: 'action',
+              value: 'request_approval'
+            },
+            {
+              name: 'executionId',
+              value: '={{$execution.id}}'
+            },
+            {
+              name: 'workflowId',
+              value: '={{$workflow.id}}'
+            },
+            {
+              name: 'workflowName',
+              value: '={{$workflow.name}}'
+            },
+            {
+              name: 'itemId',
+              value: '={{$json.id || $json.itemId || $execution.id}}'
+            },
+            {
+              name: 'stepName',
+              value: stepName
+            },
+            {
+              name: 'resumeUrl',
+              value: '={{$execution.resumeUrl}}'
+            },
+            {
+              name: 'itemCount',
+              value: '={{$input.all().length}}'
+            },
+            {
+              name: 'data',
+              value: this.payload('$input.all()', { items: true })
+            },
+            ...(timeoutHours ? [{
+              name: 'expiresAt',
+              value: `={{new Date(Date.now() + ${timeoutHours * 3600000}).toISOString()}}`
+            }] : []),
+            {
+              name: 'timestamp',
+              value: '={{new Date().toISOString()}}'
+            }
+          ]
+        },
+        options: {
+          timeout: 5000
+        }
+      },
+      id: approvalNodeId('request', stepName),
+      name: `Request Approval: ${stepName}`,
+      type: 'n8n-nodes-base.httpRequest',
+      typeVersion: 4.2,
+      position: [position.x, position.y],
+      executeOnce: true
+    };
+  }
+
   /**
    * Inject tracking nodes into an existing workflow
    */
@@ -1,3 +1,5 @@
+import { analyzeExpressions } from './expressions.js';
+
 export async function autofixWorkflow(workflow: any): Promise<{changed: boolean, fixes: string[], workflow: any}> {
   const fixes: string[] = [];
   let changed = false;
@@ -119,7 +121,8 @@ export async function validateWorkflow(workflow: any): Promise<any> {
       for (const [, connections] of Object.entries(outputs as any)) {
         for (const connection of connections as any[]) {
           for (const target of connection) {
-            if (!workflow.nodes.find((n: any) => n.id === target.node)) {
+            // Connections refer to nodes by name
+            if (!workflow.nodes?.find((n: any) => n.name === target.node)) {
               issues.push(`Connection references non-existent node: ${target.node}`);
             }
           }
@@ -128,6 +131,15 @@ export async function validateWorkflow(workflow: any): Promise<any> {
     }
   }
 
+  // Broken node references and syntax errors inside expressions
+  for (const issue of analyzeExpressions(workflow)) {
+    if (issue.kind === 'not-upstream') {
+      warnings.push(issue.message);
+    } else {
+      issues.push(issue.message);
+    }
+  }
+
   return {
     content: [
       {
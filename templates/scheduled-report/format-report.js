@@ -0,0 +1,2 @@
+// Format the report
+return { report: $input.all() };
@@ -0,0 +1,2 @@
+// Process the incoming data
+return $input.all();
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { TrackingInjector } from '../src/workflows/tracking-injector.js';
+
+function workflow() {
+  return {
+    name: 'Invoices',
+    nodes: [
+      { id: 'hook', name: 'Webhook', type: 'n8n-nodes-base.webhook', position: [0, 0], parameters: {} },
+      { id: 'draft', name: 'Draft', type: 'n8n-nodes-base.code', position: [250, 0], parameters: {} },
+      { id: 'send', name: 'Send', type: 'n8n-nodes-base.code', position: [500, 0], parameters: {} },
+      { id: 'discard', name: 'Discard', type: 'n8n-nodes-base.code', position: [500, 200], parameters: {} },
+    ],
+    connections: {
+      Webhook: { main: [[{ node: 'Draft', type: 'main', index: 0 }]] },
+      Draft: { main: [[{ node: 'Send', type: 'main', index: 0 }]] },
+    },
+  };
+}
+
+describe('approval steps', () => {
+  const injector = new TrackingInjector({ enabled: true, storageUrl: 'http://localhost:3000' });
+
+  it('pauses on a Wait node and routes the original items on the decision', () => {
+    const approved = injector.addApprovalStep(workflow(), {
+      afterNode: 'Draft',
+      stepName: 'review',
+      timeoutHours: 24,
+      rejectNode: 'Discard',
+    });
+
+    const request = approved.nodes.find((n: any) => n.name === 'Request Approval: review');
+    const params = Object.fromEntries(request.parameters.bodyParametersUi.parameter.map((p: any) => [p.name, p.value]));
+    expect(params.action).toBe('request_approval');
+    expect(params.resumeUrl).toBe('={{$execution.resumeUrl}}');
+    expect(params.data).toBe('={{JSON.stringify($input.all())}}');
+    expect(params.expiresAt).toBe('={{new Date(Date.now() + 86400000).toISOString()}}');
+
+    const wait = approved.nodes.find((n: any) => n.name === 'Wait for Approval: review');
+    expect(wait.type).toBe('n8n-nodes-base.wait');
+    expect(wait.parameters).toMatchObject({ resume: 'webhook', httpMethod: 'POST', resumeAmount: 24, resumeUnit: 'hours' });
+
+    expect(approved.connections.Draft.main).toEqual([[{ node: 'Request Approval: review', type: 'main', index: 0 }]]);
+    expect(approved.connections['Wait for Approval: review'].main[0][0].node).toBe('Reviewed Items: review');
+    expect(approved.connections['Reviewed Items: review'].main[0][0].node).toBe('Approved? review');
+
+    // Downstream nodes get the reviewed items back instead of the resume call
+    const restore = approved.nodes.find((n: any) => n.name === 'Reviewed Items: review');
+    expect(restore.parameters.jsCode).toContain('return $("Draft").all();');
+    const check = approved.nodes.find((n: any) => n.name === 'Approved? review');
+    expect(check.parameters.conditions.string[0].value1).toBe('={{$("Wait for Approval: review").first().json.body?.decision}}');
+    expect(approved.connections['Approved? review'].main).toEqual([
+      [{ node: 'Send', type: 'main', index: 0 }],
+      [{ node: 'Discard', type: 'main', index: 0 }],
+    ]);
+
+    // Approval steps are part of the flow, not tracking
+    expect(injector.removeTracking(approved).removed).toEqual([]);
+  });
+
+  it('replaces a step added earlier and keeps its webhook', () => {
+    const once = injector.addApprovalStep(workflow(), { afterNode: 'Draft', stepName: 'review', rejectNode: 'Discard' });
+    const twice = injector.addApprovalStep(once, { afterNode: 'Draft', stepName: 'review' });
+
+    expect(twice.nodes).toHaveLength(once.nodes.length);
+    const webhookId = (wf: any) => wf.nodes.find((n: any) => n.type === 'n8n-nodes-base.wait').webhookId;
+    expect(webhookId(twice)).toBe(webhookId(once));
+    expect(twice.connections['Approved? review'].main).toEqual([[{ node: 'Send', type: 'main', index: 0 }], []]);
+  });
+
+  it('rejects unknown nodes', () => {
+    expect(() => injector.addApprovalStep(workflow(), { afterNode: 'Missing', stepName: 'review' }))
+      .toThrow('Node "Missing" not found in workflow');
+  });
+});
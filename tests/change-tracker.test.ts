@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ChangeTracker } from '../src/utils/change-tracker.js';
+import { collectWorkflowDependencies } from '../src/workflows/dependencies.js';
+
+const workflow = {
+  name: 'Content Pipeline',
+  nodes: [
+    {
+      name: 'Build Prompt',
+      type: 'n8n-nodes-base.code',
+      parameters: { nodeContent: { jsCode: 'build-prompt' } },
+    },
+    {
+      name: 'Generate',
+      type: '@n8n/n8n-nodes-langchain.chainLlm',
+      parameters: { nodeContent: { prompt: 'generate' } },
+    },
+    {
+      name: 'Query',
+      type: 'n8n-nodes-base.postgres',
+      parameters: { _nodeFile: 'nodes/sql/query.sql' },
+    },
+  ],
+  connections: {},
+};
+
+describe('ChangeTracker dependency tracking', () => {
+  let workflowsPath: string;
+
+  const write = async (relativePath: string, content: string) => {
+    const filePath = path.join(workflowsPath, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  };
+
+  beforeEach(async () => {
+    workflowsPath = await fs.mkdtemp(path.join(os.tmpdir(), 'mcflow-tracker-'));
+    await write('flows/content-pipeline.json', JSON.stringify(workflow, null, 2));
+    await write(
+      'nodes/code/build-prompt.js',
+      "const helpers = require('./modules/text-helpers');\n" +
+      '// @prompt-file: nodes/prompts/system.md\n' +
+      'const system = ``;\n' +
+      'return [{ json: { system } }];\n'
+    );
+    await write('nodes/prompts/generate.md', 'Write an article.');
+    await write('nodes/prompts/system.md', 'You are helpful.');
+    await write('nodes/sql/query.sql', 'SELECT 1;');
+    await write('modules/text-helpers.js', 'module.exports = {};');
+  });
+
+  afterEach(async () => {
+    await fs.rm(workflowsPath, { recursive: true, force: true });
+  });
+
+  it('collects nodeContent, _nodeFile, @prompt-file and module references', async () => {
+    const dependencies = await collectWorkflowDependencies(workflowsPath, workflow);
+    expect(dependencies.map(d => d.path)).toEqual([
+      'modules/text-helpers.js',
+      'nodes/code/build-prompt.js',
+      'nodes/prompts/generate.md',
+      'nodes/prompts/system.md',
+      'nodes/sql/query.sql',
+    ]);
+  });
+
+  it('flags a deployed workflow when a referenced file changes', async () => {
+    const tracker = new ChangeTracker(workflowsPath);
+    await tracker.initialize();
+
+    expect(await tracker.getChangedWorkflows()).toEqual(['flows/content-pipeline.json']);
+    await tracker.markMultipleDeployed(['flows/content-pipeline.json']);
+    expect(await tracker.getChangedWorkflows()).toEqual([]);
+
+    await write('nodes/prompts/system.md', 'You are very helpful.');
+    expect(await tracker.getChangedWorkflows()).toEqual(['flows/content-pipeline.json']);
+
+    const details = await tracker.getChangeDetails();
+    expect(details).toContain('Changed: nodes/prompts/system.md');
+    expect(details).not.toContain('(workflow)');
+  });
+
+  it('flags workflows whose tracking settings changed', async () => {
+    const tracker = new ChangeTracker(workflowsPath);
+    await tracker.initialize();
+    await write('flows/other.json', JSON.stringify({ name: 'Other', nodes: [], connections: {} }));
+    await tracker.scanWorkflows();
+    await tracker.markMultipleDeployed(['flows/content-pipeline.json', 'flows/other.json']);
+
+    await write('.tracking-config.json', JSON.stringify({ enabled: true, storageUrl: 'http://localhost:3000' }));
+    expect((await tracker.getChangedWorkflows()).sort()).toEqual(['flows/content-pipeline.json', 'flows/other.json']);
+    expect(await tracker.getChangeDetails()).toContain('.tracking-config.json (added)');
+    await tracker.markMultipleDeployed(['flows/content-pipeline.json', 'flows/other.json']);
+
+    // Only the workflow a checkpoint is added to needs deploying again
+    await write('.tracking-config.json', JSON.stringify({
+      enabled: true,
+      storageUrl: 'http://localhost:3000',
+      workflows: { 'content-pipeline': { checkpoints: [{ afterNode: 'Query', checkpointName: 'queried' }] } },
+    }));
+    expect(await tracker.getChangedWorkflows()).toEqual(['flows/content-pipeline.json']);
+  });
+
+  it('reports shared module edits and missing files', async () => {
+    const tracker = new ChangeTracker(workflowsPath);
+    await tracker.initialize();
+    await tracker.markDeployed('flows/content-pipeline.json');
+
+    await write('modules/text-helpers.js', 'module.exports = { trim: s => s.trim() };');
+    await fs.rm(path.join(workflowsPath, 'nodes/sql/query.sql'));
+
+    const details = await tracker.getChangeDetails();
+    expect(details).toContain('modules/text-helpers.js');
+    expect(details).toContain('nodes/sql/query.sql (missing)');
+  });
+});
+
+describe('ChangeTracker environments', () => {
+  let workflowsPath: string;
+
+  beforeEach(async () => {
+    workflowsPath = await fs.mkdtemp(path.join(os.tmpdir(), 'mcflow-tracker-env-'));
+    await fs.mkdir(path.join(workflowsPath, 'flows'), { recursive: true });
+    await fs.writeFile(
+      path.join(workflowsPath, 'flows', 'hello.json'),
+      JSON.stringify({ name: 'Hello', nodes: [], connections: {} })
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(workflowsPath, { recursive: true, force: true });
+  });
+
+  it('keeps deployment state per environment', async () => {
+    const tracker = new ChangeTracker(workflowsPath);
+    await tracker.initialize();
+
+    await tracker.markDeployed('flows/hello.json', 'staging');
+    expect(await tracker.getChangedWorkflows('staging')).toEqual([]);
+    expect(await tracker.getChangedWorkflows('prod')).toEqual(['flows/hello.json']);
+
+    const details = await tracker.getChangeDetails('prod', ['staging', 'prod']);
+    expect(details).toContain('Environment: prod');
+    expect(details).toContain('hello: prod ⚪ | staging ✅');
+  });
+
+  it('migrates single-environment state to the default environment', async () => {
+    const tracker = new ChangeTracker(workflowsPath);
+    await tracker.initialize();
+    await tracker.scanWorkflows();
+
+    // Rewrite the state file in the pre-environment format
+    const stateFile = path.join(workflowsPath, '.mcflow', 'change-tracker.json');
+    const state = JSON.parse(await fs.readFile(stateFile, 'utf-8'));
+    const entry = state.workflows['flows/hello.json'];
+    delete entry.deployments;
+    Object.assign(entry, { deployed: true, deployedAt: new Date().toISOString(), deployedHash: entry.hash });
+    await fs.writeFile(stateFile, JSON.stringify(state));
+
+    const reloaded = new ChangeTracker(workflowsPath);
+    await reloaded.initialize();
+    expect(await reloaded.getChangedWorkflows()).toEqual([]);
+    expect(reloaded.getKnownEnvironments()).toEqual(['default']);
+  });
+});
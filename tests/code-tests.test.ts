@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CodeTestRunner, formatCodeTestReport } from '../src/simulator/code-tests.js';
+
+describe('CodeTestRunner', () => {
+  let workflowsPath: string;
+
+  const write = async (relative: string, content: any) => {
+    const file = path.join(workflowsPath, relative);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, typeof content === 'string' ? content : JSON.stringify(content));
+  };
+
+  beforeEach(async () => {
+    workflowsPath = await fs.mkdtemp(path.join(os.tmpdir(), 'mcflow-code-tests-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workflowsPath, { recursive: true, force: true });
+  });
+
+  it('runs extracted code with n8n globals against fixtures', async () => {
+    // Header as written by NodeManager.extractCodeNode
+    await write('nodes/code/orders/total.js',
+      '/**\n * Node: Total\n * Workflow: orders\n */\n\n' +
+      'const rate = Number($env.TAX_RATE);\n' +
+      'const customer = $node["Customer"].json.name;\n' +
+      'return $input.all().map(item => ({ json: { customer, total: item.json.amount * (1 + rate) } }));'
+    );
+    await write('nodes/code/__fixtures__/orders/total.json', {
+      cases: [
+        {
+          name: 'applies tax',
+          input: [{ amount: 10 }, { amount: 20 }],
+          env: { TAX_RATE: '0.5' },
+          nodes: { Customer: [{ name: 'Ada' }] },
+          expected: [{ customer: 'Ada', total: 15 }, { customer: 'Ada', total: 30 }],
+        },
+        {
+          name: 'wrong expectation',
+          input: [{ amount: 1 }],
+          env: { TAX_RATE: '0' },
+          nodes: { Customer: [{ name: 'Ada' }] },
+          expected: [{ customer: 'Ada', total: 2 }],
+        },
+        {
+          name: 'needs the customer node',
+          input: [{ amount: 1 }],
+          expectedError: 'Referenced node "Customer" has not been executed',
+        },
+      ],
+    });
+    await write('nodes/code/untested.js', 'return [];');
+
+    const report = await new CodeTestRunner(workflowsPath).runTests();
+    expect(report.passed).toBe(2);
+    expect(report.failed).toBe(1);
+    expect(report.untested).toEqual(['untested.js']);
+
+    const text = formatCodeTestReport(report);
+    expect(text).toContain('✅ applies tax');
+    expect(text).toContain('❌ wrong expectation');
+    expect(text).toContain('actual:   [{"customer":"Ada","total":1}]');
+  });
+
+  it('supports per-item mode and filters by name', async () => {
+    await write('nodes/code/upper.js', 'return { json: { name: $json.name.toUpperCase() } };');
+    await write('nodes/code/__fixtures__/upper.json', {
+      mode: 'runOnceForEachItem',
+      input: [{ name: 'ada' }, { name: 'bob' }],
+      expected: [{ name: 'ADA' }, { name: 'BOB' }],
+    });
+    await write('nodes/code/__fixtures__/missing.json', { expected: [] });
+
+    const runner = new CodeTestRunner(workflowsPath);
+    const upper = await runner.runTests('upper');
+    expect(upper.files.map(f => f.name)).toEqual(['upper']);
+    expect(upper.passed).toBe(1);
+
+    const all = await runner.runTests();
+    expect(all.files.find(f => f.name === 'missing')!.error).toBe(`Code file not found: ${path.join('nodes', 'code', 'missing.js')}`);
+    expect(all.failed).toBe(1);
+  });
+});
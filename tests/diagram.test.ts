@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { describeEdges, renderDiagram, toDot, toMermaid, toSvg } from '../src/workflows/diagram.js';
+import { WorkflowFormatter } from '../src/workflows/formatter.js';
+import { WorkflowManager } from '../src/workflows/manager.js';
+
+const node = (name: string, type: string, position: number[], extra: any = {}) => ({
+  name,
+  type,
+  typeVersion: 1,
+  position,
+  parameters: {},
+  ...extra,
+});
+
+const workflow = {
+  name: 'Support "Bot"',
+  nodes: [
+    node('Hook', 'n8n-nodes-base.webhook', [0, 0]),
+    node('Is Urgent?', 'n8n-nodes-base.if', [200, 0]),
+    node('Agent', '@n8n/n8n-nodes-langchain.agent', [400, -100]),
+    node('Model', '@n8n/n8n-nodes-langchain.lmChatOpenAi', [400, 100]),
+    node('Queue', 'n8n-nodes-base.noOp', [400, 200]),
+    node('Note', 'n8n-nodes-base.stickyNote', [0, 300]),
+  ],
+  connections: {
+    Hook: { main: [[{ node: 'Is Urgent?', type: 'main', index: 0 }]] },
+    'Is Urgent?': {
+      main: [
+        [{ node: 'Agent', type: 'main', index: 0 }],
+        [{ node: 'Queue', type: 'main', index: 0 }],
+      ],
+    },
+    Model: { ai_languageModel: [[{ node: 'Agent', type: 'ai_languageModel', index: 0 }]] },
+  },
+};
+
+describe('workflow diagrams', () => {
+  it('labels branch outputs and AI connections', () => {
+    expect(describeEdges(workflow).map(e => [e.source, e.target, e.label])).toEqual([
+      ['Hook', 'Is Urgent?', undefined],
+      ['Is Urgent?', 'Agent', 'true'],
+      ['Is Urgent?', 'Queue', 'false'],
+      ['Model', 'Agent', 'ai_languageModel'],
+    ]);
+
+    const rules = { rules: { values: [{ outputKey: 'billing' }, {}] }, options: { fallbackOutput: 'extra' } };
+    const router = {
+      nodes: [node('Route', 'n8n-nodes-base.switch', [0, 0], { parameters: rules }), node('A', 'n8n-nodes-base.noOp', [200, 0])],
+      connections: { Route: { main: [[{ node: 'A', type: 'main', index: 0 }], [{ node: 'A', type: 'main', index: 0 }], [{ node: 'A', type: 'main', index: 0 }]] } },
+    };
+    expect(describeEdges(router).map(e => e.label)).toEqual(['billing', '1', 'fallback']);
+  });
+
+  it('renders a Mermaid flowchart without sticky notes', () => {
+    expect(toMermaid(workflow)).toBe([
+      'flowchart LR',
+      '  n0(["Hook"])',
+      '  n1{"Is Urgent?"}',
+      '  n2["Agent"]',
+      '  n3[["Model"]]',
+      '  n4["Queue"]',
+      '  n0 --> n1',
+      '  n1 -->|"true"| n2',
+      '  n1 -->|"false"| n4',
+      '  n3 -.->|"ai_languageModel"| n2',
+    ].join('\n'));
+  });
+
+  it('renders DOT and SVG with dashed AI edges', () => {
+    const dot = toDot(workflow);
+    expect(dot).toContain('digraph "Support \\"Bot\\"" {');
+    expect(dot).toContain('"Is Urgent?" -> "Queue" [label="false"];');
+    expect(dot).toContain('"Model" -> "Agent" [label="ai_languageModel", style=dashed, arrowhead=none];');
+    expect(dot).not.toContain('Note');
+
+    const svg = toSvg(workflow);
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+    expect(svg).toContain('<title>Support &quot;Bot&quot;</title>');
+    expect(svg.match(/stroke-dasharray/g)).toHaveLength(1);
+    expect(svg.match(/<rect /g)).toHaveLength(5);
+    expect(svg.trimEnd().endsWith('</svg>')).toBe(true);
+  });
+
+  it('renders through the formatter and rejects unknown formats', () => {
+    const formatter = new WorkflowFormatter();
+    expect(formatter.render(workflow, 'mermaid')).toBe(toMermaid(workflow));
+    expect(() => renderDiagram(workflow, 'png' as any)).toThrow('Unknown diagram format "png"');
+  });
+
+  it('only writes rendered files inside the workflows directory', async () => {
+    const workflowsPath = await fs.mkdtemp(path.join(os.tmpdir(), 'mcflow-render-'));
+    try {
+      await fs.mkdir(path.join(workflowsPath, 'flows'));
+      await fs.writeFile(path.join(workflowsPath, 'flows', 'flow.json'), JSON.stringify(workflow));
+      const manager = new WorkflowManager(workflowsPath);
+
+      await expect(manager.renderWorkflow('flows/flow.json', 'mermaid', '../outside.md'))
+        .rejects.toThrow('Output file "../outside.md" is outside the workflows directory');
+      await expect(fs.access(path.join(workflowsPath, '..', 'outside.md'))).rejects.toThrow();
+
+      await manager.renderWorkflow('flows/flow.json', 'mermaid', 'docs/flow.md');
+      expect(await fs.readFile(path.join(workflowsPath, 'docs', 'flow.md'), 'utf-8')).toContain('flowchart');
+    } finally {
+      await fs.rm(workflowsPath, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  loadProjectConfig,
+  resolveEnvironment,
+  createEnvironmentTransport,
+  applyEnvironment,
+  listEnvironments,
+} from '../src/n8n/environments.js';
+
+const config = {
+  defaultEnvironment: 'dev',
+  environments: {
+    dev: { transport: 'cli' as const },
+    prod: {
+      url: 'https://n8n.example.com/api/v1',
+      apiKeyEnv: 'MCFLOW_TEST_PROD_KEY',
+      credentials: {
+        'local-openai': 'prod-openai',
+        'Slack Bot': { id: 'prod-slack', name: 'Slack Bot (prod)' },
+      },
+      variables: { API_BASE_URL: 'https://api.example.com' },
+    },
+  },
+};
+
+describe('environment resolution', () => {
+  it('uses the configured default environment', () => {
+    expect(resolveEnvironment(config).name).toBe('dev');
+    expect(resolveEnvironment(config, 'prod').config.url).toBe('https://n8n.example.com/api/v1');
+  });
+
+  it('always provides an implicit default environment', () => {
+    expect(resolveEnvironment({}).name).toBe('default');
+    expect(listEnvironments({})).toEqual(['default']);
+  });
+
+  it('rejects unknown environments', () => {
+    expect(() => resolveEnvironment(config, 'qa')).toThrow('Available environments: dev, prod');
+  });
+
+  it('requires the API key variable for API environments', () => {
+    delete process.env.MCFLOW_TEST_PROD_KEY;
+    const prod = resolveEnvironment(config, 'prod');
+    expect(() => createEnvironmentTransport(prod)).toThrow('$MCFLOW_TEST_PROD_KEY');
+
+    process.env.MCFLOW_TEST_PROD_KEY = 'secret';
+    try {
+      const transport = createEnvironmentTransport(prod);
+      expect(transport.kind).toBe('api');
+      expect(transport.describe()).toBe('n8n API at https://n8n.example.com');
+    } finally {
+      delete process.env.MCFLOW_TEST_PROD_KEY;
+    }
+  });
+
+  it('refuses a url without its own API key variable', () => {
+    const staging = { name: 'staging', config: { url: 'https://n8n-staging.example.com' } };
+    const globalKey = process.env.N8N_API_KEY;
+    process.env.N8N_API_KEY = 'global';
+    try {
+      expect(() => createEnvironmentTransport(staging)).toThrow('Environment "staging" sets a url but no apiKeyEnv');
+      expect(createEnvironmentTransport({ name: 'local', config: { url: 'http://localhost:5678', transport: 'cli' } }).kind).toBe('cli');
+    } finally {
+      if (globalKey === undefined) delete process.env.N8N_API_KEY;
+      else process.env.N8N_API_KEY = globalKey;
+    }
+  });
+});
+
+describe('applyEnvironment', () => {
+  const workflow = {
+    name: 'Notify',
+    nodes: [
+      {
+        name: 'Call API',
+        type: 'n8n-nodes-base.httpRequest',
+        parameters: {
+          url: "={{ $env.API_BASE_URL }}/items?key={{ $env['OTHER'] }}",
+          options: { headers: ["={{ $env['API_BASE_URL'] }}"] },
+        },
+        credentials: { openAiApi: { id: 'local-openai', name: 'OpenAI' } },
+      },
+      {
+        name: 'Post',
+        type: 'n8n-nodes-base.slack',
+        parameters: {},
+        credentials: { slackApi: { id: 'local-slack', name: 'Slack Bot' } },
+      },
+    ],
+    connections: {},
+  };
+
+  it('substitutes variables and maps credentials by id or name', () => {
+    const result = applyEnvironment(workflow, resolveEnvironment(config, 'prod'));
+
+    expect(result.nodes[0].parameters.url).toBe(
+      `={{ "https://api.example.com" }}/items?key={{ $env['OTHER'] }}`
+    );
+    expect(result.nodes[0].parameters.options.headers[0]).toBe('={{ "https://api.example.com" }}');
+    expect(result.nodes[0].credentials.openAiApi).toEqual({ id: 'prod-openai', name: 'OpenAI' });
+    expect(result.nodes[1].credentials.slackApi).toEqual({ id: 'prod-slack', name: 'Slack Bot (prod)' });
+
+    // The source workflow is left untouched
+    expect(workflow.nodes[0].credentials.openAiApi.id).toBe('local-openai');
+  });
+
+  it('returns the workflow unchanged without overrides', () => {
+    expect(applyEnvironment(workflow, resolveEnvironment(config, 'dev'))).toBe(workflow);
+  });
+});
+
+describe('loadProjectConfig', () => {
+  let workflowsPath: string;
+
+  beforeEach(async () => {
+    workflowsPath = await fs.mkdtemp(path.join(os.tmpdir(), 'mcflow-env-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workflowsPath, { recursive: true, force: true });
+  });
+
+  it('returns an empty config when no file exists', async () => {
+    expect(await loadProjectConfig(workflowsPath)).toEqual({});
+  });
+
+  it('reads .mcflow/config.json', async () => {
+    await fs.mkdir(path.join(workflowsPath, '.mcflow'));
+    await fs.writeFile(path.join(workflowsPath, '.mcflow', 'config.json'), JSON.stringify(config));
+    expect(listEnvironments(await loadProjectConfig(workflowsPath))).toEqual(['dev', 'prod']);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseExpressionBlocks,
+  findNodeReferences,
+  analyzeExpressions,
+  getUpstreamNodes,
+} from '../src/workflows/expressions.js';
+import { validateWorkflow } from '../src/workflows/validator.js';
+
+const node = (name: string, parameters: any = {}, type: string = 'n8n-nodes-base.set') => ({
+  id: name.toLowerCase().replace(/\s+/g, '-'),
+  name,
+  type,
+  typeVersion: 1,
+  position: [0, 0],
+  parameters,
+});
+
+const workflow = (nodes: any[], connections: any = {}) => ({ name: 'Flow', nodes, connections });
+
+describe('expression parsing', () => {
+  it('splits {{ }} blocks without breaking on nested braces or strings', () => {
+    expect(parseExpressionBlocks('=Hi {{ $json.name }} and {{ { a: { b: "}}" } }.a }}')).toEqual([
+      ' $json.name ',
+      ' { a: { b: "}}" } }.a ',
+    ]);
+  });
+
+  it('finds references in every supported syntax', () => {
+    const code = `$('Fetch Data').item.json.id + $node["It's Here"].json.x + $items("Loop")[0] + $node.Set.json`;
+    expect(findNodeReferences(code).map(r => [r.syntax, r.name])).toEqual([
+      ['$()', 'Fetch Data'],
+      ['$node', "It's Here"],
+      ['$node', 'Set'],
+      ['$items', 'Loop'],
+    ]);
+  });
+});
+
+describe('analyzeExpressions', () => {
+  const connections = {
+    Trigger: { main: [[{ node: 'Fetch', type: 'main', index: 0 }]] },
+    Fetch: { main: [[{ node: 'Format', type: 'main', index: 0 }]] },
+    Model: { ai_languageModel: [[{ node: 'Agent', type: 'ai_languageModel', index: 0 }]] },
+    Format: { main: [[{ node: 'Agent', type: 'main', index: 0 }]] },
+  };
+
+  it('treats AI sub-nodes as running inside their root node', () => {
+    expect([...getUpstreamNodes(workflow([], connections), 'Model')].sort()).toEqual(['Agent', 'Fetch', 'Format', 'Trigger']);
+  });
+
+  it('flags unknown nodes, downstream references and syntax errors', () => {
+    const wf = workflow([
+      node('Trigger', {}, 'n8n-nodes-base.manualTrigger'),
+      node('Fetch', { url: '={{ $("Format").item.json.url }}' }),
+      node('Format', {
+        text: '={{ $node["Fetch"].json.title }} by {{ $(\'Old Name\').item.json.author }}',
+        broken: '={{ $json.a + }}',
+      }),
+      node('Agent'),
+      node('Model', { prompt: '={{ $("Trigger").item.json.topic }}' }),
+      node('Code', { jsCode: "return $items('Missing');" }, 'n8n-nodes-base.code'),
+    ], connections);
+
+    const issues = analyzeExpressions(wf);
+    expect(issues.map(i => [i.kind, i.node, i.parameter, i.reference])).toEqual([
+      ['not-upstream', 'Fetch', 'parameters.url', 'Format'],
+      ['syntax', 'Format', 'parameters.broken', undefined],
+      ['unknown-node', 'Format', 'parameters.text', 'Old Name'],
+      ['unknown-node', 'Code', 'parameters.jsCode', 'Missing'],
+    ]);
+    expect(issues[2].message).toBe(
+      `Node "Format" references unknown node "Old Name" in parameters.text: $('Old Name')`
+    );
+  });
+
+  it('reports through validateWorkflow', async () => {
+    const wf = workflow([
+      node('Trigger', {}, 'n8n-nodes-base.manualTrigger'),
+      node('Fetch', { url: '={{ $("Gone").item.json.url }}' }),
+    ], { Trigger: connections.Trigger });
+
+    const result = JSON.parse((await validateWorkflow(wf)).content[0].text);
+    expect(result.valid).toBe(false);
+    expect(result.issues).toContain(`Node "Fetch" references unknown node "Gone" in parameters.url: $("Gone")`);
+  });
+});
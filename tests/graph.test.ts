@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { buildProjectGraph, analyzeImpact, formatImpact, formatProjectGraph } from '../src/workflows/graph.js';
+
+describe('project dependency graph', () => {
+  let workflowsPath: string;
+
+  const write = async (relative: string, content: any) => {
+    const file = path.join(workflowsPath, relative);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, typeof content === 'string' ? content : JSON.stringify(content));
+  };
+
+  beforeEach(async () => {
+    workflowsPath = await fs.mkdtemp(path.join(os.tmpdir(), 'mcflow-graph-'));
+    const openAi = { openAiApi: { id: '1', name: 'OpenAI' } };
+
+    // orders uses the shared module; intake executes orders; notify is called over HTTP by intake
+    await write('nodes/shared/utils.js', 'module.exports = { total: items => items.length };');
+    await write('nodes/code/count.js', "const { total } = require('../../nodes/shared/utils');\nreturn [{ json: { n: total($input.all()) } }];");
+    await write('flows/orders.json', {
+      id: 'wf-orders',
+      name: 'Orders',
+      nodes: [
+        { name: 'Start', type: 'n8n-nodes-base.executeWorkflowTrigger', parameters: {} },
+        { name: 'Count', type: 'n8n-nodes-base.code', parameters: { nodeContent: { jsCode: 'count' } } },
+        { name: 'Summarize', type: '@n8n/n8n-nodes-langchain.openAi', parameters: {}, credentials: openAi },
+      ],
+      connections: {},
+    });
+    await write('flows/notify.json', {
+      name: 'Notify',
+      nodes: [{ name: 'Hook', type: 'n8n-nodes-base.webhook', parameters: { path: '/notify' } }],
+      connections: {},
+    });
+    await write('flows/intake.json', {
+      name: 'Intake',
+      nodes: [
+        { name: 'Run Orders', type: 'n8n-nodes-base.executeWorkflow', parameters: { workflowId: { __rl: true, value: 'wf-orders' } } },
+        { name: 'Ping', type: 'n8n-nodes-base.httpRequest', parameters: { url: '={{ $env.N8N_URL }}/webhook/notify' } },
+        { name: 'Classify', type: '@n8n/n8n-nodes-langchain.openAi', parameters: {}, credentials: openAi },
+        { name: 'Legacy', type: 'n8n-nodes-base.executeWorkflow', parameters: { workflowId: 'gone' } },
+      ],
+      connections: {},
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(workflowsPath, { recursive: true, force: true });
+  });
+
+  it('links workflows through Execute Workflow nodes, webhooks, files and credentials', async () => {
+    const graph = await buildProjectGraph(workflowsPath);
+
+    expect(graph.links).toEqual([
+      { from: 'flows/intake.json', to: 'flows/orders.json', kind: 'execute', node: 'Run Orders' },
+      { from: 'flows/intake.json', to: 'flows/notify.json', kind: 'webhook', node: 'Ping' },
+    ]);
+    expect(graph.unresolved).toEqual([{ workflow: 'flows/intake.json', node: 'Legacy', reference: 'gone' }]);
+
+    const text = formatProjectGraph(graph);
+    expect(text).toContain('🔑 Shared credentials:\n  openAiApi: OpenAI → flows/intake.json, flows/orders.json');
+  });
+
+  it('reports affected workflows for a shared module in deploy order', async () => {
+    const report = analyzeImpact(await buildProjectGraph(workflowsPath), 'nodes/shared/utils.js');
+
+    expect(report.affected).toEqual([
+      { path: 'flows/orders.json', direct: true, reason: 'uses nodes/shared/utils.js (module in "Count")' },
+      { path: 'flows/intake.json', direct: false, reason: 'calls flows/orders.json (Execute Workflow node "Run Orders")' },
+    ]);
+    expect(report.deployOrder).toEqual(['flows/orders.json', 'flows/intake.json']);
+    expect(formatImpact(report)).toContain('🚀 Deploy order:\n  1. flows/orders.json\n  2. flows/intake.json');
+  });
+
+  it('reports only the workflows in a cycle and orders their callers after them', () => {
+    const workflow = (name: string) =>
+      ({ path: `flows/${name}.json`, name, files: [], credentials: name === 'a' ? ['openAiApi: OpenAI'] : [], webhooks: [] });
+    const link = (from: string, to: string) =>
+      ({ from: `flows/${from}.json`, to: `flows/${to}.json`, kind: 'execute' as const, node: `Call ${to}` });
+    const graph = {
+      workflows: ['a', 'b', 'caller', 'top'].map(workflow),
+      links: [link('a', 'b'), link('b', 'a'), link('caller', 'a'), link('top', 'caller')],
+      unresolved: [],
+    };
+
+    const report = analyzeImpact(graph, 'OpenAI');
+    expect(report.deployOrder).toEqual(['flows/a.json', 'flows/b.json', 'flows/caller.json', 'flows/top.json']);
+    expect(report.warnings).toEqual([
+      'Workflows call each other in a cycle, so their order is arbitrary: flows/a.json, flows/b.json',
+    ]);
+  });
+
+  it('matches workflows by name and credentials by name', async () => {
+    const graph = await buildProjectGraph(workflowsPath);
+
+    expect(analyzeImpact(graph, 'notify').deployOrder).toEqual(['flows/notify.json', 'flows/intake.json']);
+    expect(analyzeImpact(graph, 'OpenAI').affected.map(a => a.path)).toEqual(['flows/intake.json', 'flows/orders.json']);
+    expect(formatImpact(analyzeImpact(graph, 'nodes/prompts/none.md'))).toContain('No workflows use nodes/prompts/none.md');
+  });
+});
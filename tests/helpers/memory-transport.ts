@@ -0,0 +1,35 @@
+import type { N8nTransport, DeployedWorkflow, ImportResult } from '../../src/n8n/transport.js';
+
+// In-memory transport standing in for n8n
+export class MemoryTransport implements N8nTransport {
+  readonly kind = 'api' as const;
+  workflows = new Map<string, any>();
+  imports: any[] = [];
+  private nextId = 1;
+
+  describe() { return 'memory'; }
+  async isAvailable() { return true; }
+
+  async importWorkflow(workflow: any, options: { activate?: boolean } = {}): Promise<ImportResult> {
+    this.imports.push(workflow);
+    const existing = [...this.workflows.values()].find(w => w.name === workflow.name);
+    const id = existing?.id || `remote-${this.nextId++}`;
+    this.workflows.set(id, {
+      ...workflow,
+      id,
+      active: options.activate ? true : !!existing?.active,
+      updatedAt: new Date().toISOString(),
+    });
+    return { id, name: workflow.name, created: !existing };
+  }
+
+  async listWorkflows(): Promise<DeployedWorkflow[]> {
+    return [...this.workflows.values()].map(w => ({ id: w.id, name: w.name, active: !!w.active }));
+  }
+
+  async getWorkflow(id: string) { return this.workflows.get(id) || null; }
+  async exportWorkflows() { return [...this.workflows.values()]; }
+  async setWorkflowActive(id: string, active: boolean) { this.workflows.get(id).active = active; }
+  async listCredentials() { return []; }
+  async listExecutions() { return []; }
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { N8nManager } from '../src/n8n/manager.js';
+import { DeploymentHistory } from '../src/n8n/history.js';
+import { ChangeTracker } from '../src/utils/change-tracker.js';
+import { WorkflowDeployer } from '../src/n8n/deploy.js';
+import { MemoryTransport } from './helpers/memory-transport.js';
+
+describe('deployment history and rollback', () => {
+  let workflowsPath: string;
+  let transport: MemoryTransport;
+  let manager: N8nManager;
+
+  const writeFlow = async (value: string) => {
+    await fs.writeFile(
+      path.join(workflowsPath, 'flows', 'flow.json'),
+      JSON.stringify({
+        name: 'Flow',
+        nodes: [{ name: 'Set', type: 'n8n-nodes-base.set', position: [0, 0], parameters: { value } }],
+        connections: {},
+      }, null, 2)
+    );
+  };
+  const text = (result: any) => result.content[0].text as string;
+  const deployedValue = () => [...transport.workflows.values()][0].nodes[0].parameters.value;
+
+  beforeEach(async () => {
+    workflowsPath = await fs.mkdtemp(path.join(os.tmpdir(), 'mcflow-history-'));
+    await fs.mkdir(path.join(workflowsPath, 'flows'), { recursive: true });
+    transport = new MemoryTransport();
+    manager = new N8nManager(workflowsPath, transport);
+  });
+
+  afterEach(async () => {
+    await fs.rm(workflowsPath, { recursive: true, force: true });
+  });
+
+  it('archives each deployment and rolls back to the previous one', async () => {
+    await writeFlow('v1');
+    await manager.importWorkflow('flows/flow.json');
+    await writeFlow('v2');
+    await manager.importWorkflow('flows/flow.json');
+    expect(deployedValue()).toBe('v2');
+
+    const history = new DeploymentHistory(workflowsPath);
+    const revisions = await history.list({ workflowPath: 'flows/flow.json' });
+    expect(revisions).toHaveLength(2);
+    expect(revisions[0].environment).toBe('default');
+    expect(revisions[0].workflow.nodes[0].parameters.value).toBe('v2');
+
+    const result = text(await manager.rollbackWorkflow({ path: 'flows/flow.json' }));
+    expect(result).toContain(`Rolled back flows/flow.json to revision ${revisions[1].revision}`);
+    expect(deployedValue()).toBe('v1');
+
+    // The rollback itself is archived and the local v2 shows as pending again
+    const after = await history.list({ workflowPath: 'flows/flow.json' });
+    expect(after[0].rollbackOf).toBe(revisions[1].revision);
+
+    const tracker = new ChangeTracker(workflowsPath);
+    await tracker.initialize();
+    expect(await tracker.getChangedWorkflows()).toEqual(['flows/flow.json']);
+  });
+
+  it('rolls back to an explicit revision and lists history', async () => {
+    for (const value of ['v1', 'v2', 'v3']) {
+      await writeFlow(value);
+      await manager.importWorkflow('flows/flow.json');
+    }
+
+    const revisions = await new DeploymentHistory(workflowsPath).list();
+    const first = revisions[revisions.length - 1];
+    await manager.rollbackWorkflow({ path: 'flows/flow.json', revision: first.revision });
+    expect(deployedValue()).toBe('v1');
+
+    const listing = text(await manager.listDeploymentHistory({ path: 'flows/flow.json' }));
+    expect(listing).toContain(first.revision);
+    expect(listing).toContain(`Rollback to ${first.revision}`);
+  });
+
+  it('does not roll back to a revision an earlier rollback undid', async () => {
+    for (const value of ['v1', 'v2', 'v3']) {
+      await writeFlow(value);
+      await manager.importWorkflow('flows/flow.json');
+    }
+
+    await manager.rollbackWorkflow({ path: 'flows/flow.json' });
+    expect(deployedValue()).toBe('v2');
+    await manager.rollbackWorkflow({ path: 'flows/flow.json' });
+    expect(deployedValue()).toBe('v1');
+    await expect(manager.rollbackWorkflow({ path: 'flows/flow.json' })).rejects.toThrow('No previous deployment');
+  });
+
+  it('records deployments made by the deploy command', async () => {
+    const deployer = new WorkflowDeployer({ workflowsPath, transport });
+    await writeFlow('v1');
+    await deployer.deployWorkflow(path.join(workflowsPath, 'flows', 'flow.json'));
+    await writeFlow('v2');
+    await deployer.deployProject();
+
+    expect(await new DeploymentHistory(workflowsPath).list({ workflowPath: 'flows/flow.json' })).toHaveLength(2);
+    const tracker = new ChangeTracker(workflowsPath);
+    await tracker.initialize();
+    expect(await tracker.getChangedWorkflows()).toEqual([]);
+
+    await manager.rollbackWorkflow({ path: 'flows/flow.json' });
+    expect(deployedValue()).toBe('v1');
+  });
+
+  it('refuses to roll back without an earlier deployment', async () => {
+    await writeFlow('v1');
+    await manager.importWorkflow('flows/flow.json');
+    await expect(manager.rollbackWorkflow({ path: 'flows/flow.json' })).rejects.toThrow('No previous deployment');
+  });
+});
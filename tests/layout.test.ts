@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { NodePositioning } from '../src/nodes/positioning.js';
+import { layoutWorkflow } from '../src/workflows/operations.js';
+
+const node = (name: string, type: string, position: number[] = [0, 0], parameters: any = {}) => ({
+  id: name.toLowerCase(),
+  name,
+  type: type.startsWith('@') ? type : `n8n-nodes-base.${type}`,
+  typeVersion: 1,
+  position,
+  parameters,
+});
+const main = (...outputs: string[][]) => ({ main: outputs.map(targets => targets.map(t => ({ node: t, type: 'main', index: 0 }))) });
+const ai = (type: string, target: string) => ({ [type]: [[{ node: target, type, index: 0 }]] });
+
+describe('NodePositioning.layeredLayout', () => {
+  it('ranks by longest path and stacks branch outputs in order', () => {
+    const positions = NodePositioning.layeredLayout(
+      [node('Start', 'manualTrigger'), node('Check', 'if'), node('No', 'noOp'), node('Yes', 'code'), node('Done', 'noOp')],
+      {
+        Start: main(['Check', 'Done']),
+        Check: main(['Yes'], ['No']),
+        Yes: main(['Done']),
+      }
+    );
+
+    const [start, check, yes, no, done] = ['Start', 'Check', 'Yes', 'No', 'Done'].map(name => positions.get(name)!);
+    expect(start[0]).toBeLessThan(check[0]);
+    expect(yes[0]).toBe(no[0]);
+    expect(done[0]).toBeGreaterThan(yes[0]); // after Yes, not level with Check
+    expect(yes[1]).toBe(start[1]);
+    expect(no[1]).toBeGreaterThan(yes[1]); // false output below true
+    expect(done[1]).toBe(start[1]);
+  });
+
+  it('orders ranks to avoid crossings and tolerates loops', () => {
+    const positions = NodePositioning.layeredLayout(
+      [
+        node('Start', 'manualTrigger'),
+        node('Batch', 'splitInBatches'),
+        node('Bottom', 'noOp'),
+        node('Top', 'noOp'),
+        node('Work', 'code'),
+      ],
+      {
+        Start: main(['Batch']),
+        Batch: main(['Work'], ['Bottom']),
+        Work: main(['Top', 'Batch']),
+      }
+    );
+
+    expect(positions.get('Batch')![0]).toBeLessThan(positions.get('Work')![0]);
+    expect(positions.get('Top')![0]).toBeGreaterThan(positions.get('Work')![0]);
+    // Top follows Work (output 0), so it stays above Bottom
+    expect(positions.get('Top')![1]).toBeLessThan(positions.get('Bottom')![1]);
+  });
+
+  it('hangs LangChain sub-nodes under their agent in canvas order', () => {
+    const positions = NodePositioning.layeredLayout(
+      [
+        node('Chat', '@n8n/n8n-nodes-langchain.chatTrigger'),
+        node('Agent', '@n8n/n8n-nodes-langchain.agent'),
+        node('Search', '@n8n/n8n-nodes-langchain.toolHttpRequest'),
+        node('Model', '@n8n/n8n-nodes-langchain.lmChatOpenAi'),
+        node('Reply', 'noOp'),
+      ],
+      {
+        Chat: main(['Agent']),
+        Agent: main(['Reply']),
+        Search: ai('ai_tool', 'Agent'),
+        Model: ai('ai_languageModel', 'Agent'),
+      }
+    );
+
+    const [agent, model, search, reply] = ['Agent', 'Model', 'Search', 'Reply'].map(name => positions.get(name)!);
+    expect(model[1]).toBeGreaterThan(agent[1]);
+    expect(search[1]).toBe(model[1]);
+    expect(model[0]).toBeLessThan(search[0]);
+    expect((model[0] + search[0]) / 2).toBe(agent[0]);
+    expect(reply[0]).toBeGreaterThan(search[0]); // the next column clears the sub-node row
+  });
+});
+
+describe('layoutWorkflow', () => {
+  let workflowsPath: string;
+  const file = 'flows/messy.json';
+
+  beforeEach(async () => {
+    workflowsPath = await fs.mkdtemp(path.join(os.tmpdir(), 'mcflow-layout-'));
+    await fs.mkdir(path.join(workflowsPath, 'flows'), { recursive: true });
+    await fs.writeFile(path.join(workflowsPath, file), JSON.stringify({
+      name: 'Messy',
+      nodes: [
+        node('Start', 'manualTrigger', [900, 900]),
+        node('Fetch', 'httpRequest', [0, 0]),
+        node('Save', 'code', [40, 40]),
+        node('Note', 'stickyNote', [-20, -20], { content: 'Fetch and save', width: 200, height: 120 }),
+        node('Aside', 'stickyNote', [1000, 880], { content: 'Run me' }),
+      ],
+      connections: {
+        Start: main(['Fetch']),
+        Fetch: main(['Save']),
+      },
+    }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workflowsPath, { recursive: true, force: true });
+  });
+
+  it('lays out the canvas and keeps sticky notes with their nodes', async () => {
+    const result = await layoutWorkflow(workflowsPath, file);
+    expect(result.content[0].text).toContain('Laid out 3 nodes (3 moved); kept 2 sticky notes with the nodes they annotate');
+
+    const workflow = JSON.parse(await fs.readFile(path.join(workflowsPath, file), 'utf-8'));
+    const byName = Object.fromEntries(workflow.nodes.map((n: any) => [n.name, n]));
+    const [start, fetch, save] = [byName.Start, byName.Fetch, byName.Save].map(n => n.position);
+    expect(start[1]).toBe(fetch[1]);
+    expect(fetch[1]).toBe(save[1]);
+    expect(start[0]).toBeLessThan(fetch[0]);
+
+    // Covers Fetch and Save with the same 20px margins, stretched to their new spacing
+    expect(byName.Note.position).toEqual([fetch[0] - 20, fetch[1] - 20]);
+    expect(byName.Note.parameters.width).toBe(save[0] - fetch[0] + 160);
+    expect(byName.Note.parameters.height).toBe(80);
+    // Nearest node is Start; the offset is kept and the size left alone
+    expect(byName.Aside.position).toEqual([start[0] + 100, start[1] - 20]);
+    expect(byName.Aside.parameters).toEqual({ content: 'Run me' });
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { N8nApiTransport } from '../src/n8n/api-transport.js';
+import { createTransport, resolveTransportConfig, findDeployedWorkflow } from '../src/n8n/transport.js';
+import { hasRealError } from '../src/n8n/cli-transport.js';
+
+const API_KEY = 'test-key';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  body: any;
+}
+
+// Minimal stand-in for the n8n public API
+function createStandIn() {
+  const workflows = new Map<string, any>();
+  const requests: RecordedRequest[] = [];
+  let nextId = 1;
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : undefined;
+      const url = new URL(req.url || '/', 'http://localhost');
+      requests.push({ method: req.method || 'GET', url: url.pathname + url.search, body });
+
+      const send = (status: number, payload: any) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(payload));
+      };
+
+      if (req.headers['x-n8n-api-key'] !== API_KEY) {
+        return send(401, { message: 'unauthorized' });
+      }
+
+      const parts = url.pathname.replace(/^\/api\/v1\//, '').split('/');
+
+      if (parts[0] === 'workflows' && parts.length === 1) {
+        if (req.method === 'GET') {
+          // Page size of one to exercise cursor pagination
+          const all = [...workflows.values()];
+          const start = Number(url.searchParams.get('cursor') || 0);
+          const page = all.slice(start, start + 1);
+          const nextCursor = start + 1 < all.length ? String(start + 1) : null;
+          return send(200, { data: page, nextCursor });
+        }
+        if (req.method === 'POST') {
+          const id = `wf${nextId++}`;
+          workflows.set(id, { ...body, id, active: false });
+          return send(200, workflows.get(id));
+        }
+      }
+
+      if (parts[0] === 'workflows' && parts[1]) {
+        const existing = workflows.get(parts[1]);
+        if (!existing) return send(404, { message: 'Not Found' });
+
+        if (parts[2] === 'activate' || parts[2] === 'deactivate') {
+          existing.active = parts[2] === 'activate';
+          return send(200, existing);
+        }
+        if (req.method === 'GET') return send(200, existing);
+        if (req.method === 'PUT') {
+          workflows.set(parts[1], { ...existing, ...body, id: parts[1] });
+          return send(200, workflows.get(parts[1]));
+        }
+      }
+
+      if (parts[0] === 'credentials') {
+        return send(200, { data: [{ id: 'c1', name: 'OpenAI', type: 'openAiApi' }], nextCursor: null });
+      }
+
+      if (parts[0] === 'executions') {
+        return send(200, {
+          data: [{ id: 7, workflowId: url.searchParams.get('workflowId'), status: 'success', mode: 'manual' }],
+        });
+      }
+
+      send(404, { message: 'Not Found' });
+    });
+  });
+
+  return { server, workflows, requests };
+}
+
+describe('N8nApiTransport', () => {
+  let standIn: ReturnType<typeof createStandIn>;
+  let baseUrl: string;
+  let transport: N8nApiTransport;
+
+  beforeAll(async () => {
+    standIn = createStandIn();
+    await new Promise<void>(resolve => standIn.server.listen(0, '127.0.0.1', resolve));
+    const { port } = standIn.server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => standIn.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    standIn.workflows.clear();
+    standIn.requests.length = 0;
+    transport = new N8nApiTransport({ baseUrl, apiKey: API_KEY });
+  });
+
+  it('reports availability based on authentication', async () => {
+    expect(await transport.isAvailable()).toBe(true);
+    const badKey = new N8nApiTransport({ baseUrl, apiKey: 'wrong' });
+    expect(await badKey.isAvailable()).toBe(false);
+  });
+
+  it('creates a workflow, then updates it by name on redeploy', async () => {
+    const workflow = {
+      name: 'Content Pipeline',
+      nodes: [{ id: 'n1', name: 'Start', type: 'n8n-nodes-base.manualTrigger', position: [0, 0], parameters: {} }],
+      connections: {},
+      settings: { executionOrder: 'v1', unknownSetting: true },
+      tags: ['ignored'],
+    };
+
+    const created = await transport.importWorkflow(workflow);
+    expect(created.created).toBe(true);
+    expect(created.id).toBeDefined();
+
+    const post = standIn.requests.find(r => r.method === 'POST');
+    expect(post?.body.settings).toEqual({ executionOrder: 'v1' });
+    expect(post?.body.tags).toBeUndefined();
+
+    const updated = await transport.importWorkflow({ ...workflow, nodes: [] }, { activate: true });
+    expect(updated.created).toBe(false);
+    expect(updated.id).toBe(created.id);
+    expect(standIn.workflows.size).toBe(1);
+    expect(standIn.workflows.get(created.id!).active).toBe(true);
+  });
+
+  it('follows pagination when listing workflows', async () => {
+    await transport.importWorkflow({ name: 'A', nodes: [], connections: {} });
+    await transport.importWorkflow({ name: 'B', nodes: [], connections: {} });
+    await transport.importWorkflow({ name: 'C', nodes: [], connections: {} });
+
+    const workflows = await transport.listWorkflows();
+    expect(workflows.map(w => w.name)).toEqual(['A', 'B', 'C']);
+  });
+
+  it('returns null for unknown workflows and throws on export of a missing id', async () => {
+    expect(await transport.getWorkflow('missing')).toBeNull();
+    await expect(transport.exportWorkflows({ id: 'missing' })).rejects.toThrow('not found');
+  });
+
+  it('finds a deployed workflow by name when the id is unknown', async () => {
+    const { id } = await transport.importWorkflow({ name: 'Lookup', nodes: [], connections: {} });
+    const found = await findDeployedWorkflow(transport, { id: 'stale', name: 'Lookup' });
+    expect(found?.id).toBe(id);
+  });
+
+  it('lists credentials and executions', async () => {
+    const credentials = await transport.listCredentials();
+    expect(credentials).toEqual([{ id: 'c1', name: 'OpenAI', type: 'openAiApi' }]);
+
+    const executions = await transport.listExecutions({ workflowId: 'wf1', limit: 5 });
+    expect(executions[0]).toMatchObject({ id: '7', workflowId: 'wf1', status: 'success' });
+    expect(standIn.requests.at(-1)?.url).toBe('/api/v1/executions?limit=5&workflowId=wf1');
+  });
+
+  it('surfaces API errors with status and message', async () => {
+    await expect(transport.setWorkflowActive('missing', true)).rejects.toThrow('(404): Not Found');
+  });
+});
+
+describe('transport selection', () => {
+  it('prefers the API when a key is configured', () => {
+    const config = resolveTransportConfig({ apiKey: 'k', url: 'http://n8n.local/api/v1/' });
+    expect(config.transport).toBe('api');
+    expect(config.url).toBe('http://n8n.local');
+  });
+
+  it('falls back to the CLI without a key', () => {
+    const previous = process.env.N8N_API_KEY;
+    delete process.env.N8N_API_KEY;
+    try {
+      expect(createTransport({ transport: 'auto' }).kind).toBe('cli');
+      expect(() => createTransport({ transport: 'api' })).toThrow('N8N_API_KEY');
+    } finally {
+      if (previous !== undefined) process.env.N8N_API_KEY = previous;
+    }
+  });
+
+  it('rejects unknown transports instead of falling back to the CLI', () => {
+    const previous = process.env.N8N_TRANSPORT;
+    process.env.N8N_TRANSPORT = 'rest';
+    try {
+      expect(() => resolveTransportConfig()).toThrow('Unknown n8n transport "rest" in N8N_TRANSPORT; use api, cli, auto');
+      expect(() => createTransport({ transport: 'http' as any })).toThrow('Unknown n8n transport "http" in transport');
+    } finally {
+      if (previous !== undefined) process.env.N8N_TRANSPORT = previous;
+      else delete process.env.N8N_TRANSPORT;
+    }
+  });
+});
+
+describe('hasRealError', () => {
+  it('ignores deprecation warnings', () => {
+    expect(hasRealError('There is a deprecation related to your environment')).toBe(false);
+  });
+
+  it('detects real failures', () => {
+    expect(hasRealError('Error: workflow invalid')).toBe(true);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  connectNodes,
+  disconnectNodes,
+  removeNodeFromWorkflow,
+  insertNodeBetween,
+  moveNode,
+} from '../src/workflows/operations.js';
+
+const node = (name: string, type: string, position: number[] = [0, 0]) => ({
+  id: name.toLowerCase(),
+  name,
+  type: `n8n-nodes-base.${type}`,
+  typeVersion: 1,
+  position,
+  parameters: {},
+});
+
+describe('graph editing operations', () => {
+  let workflowsPath: string;
+  const file = 'flows/branch.json';
+  const read = async () => JSON.parse(await fs.readFile(path.join(workflowsPath, file), 'utf-8'));
+
+  beforeEach(async () => {
+    workflowsPath = await fs.mkdtemp(path.join(os.tmpdir(), 'mcflow-operations-'));
+    await fs.mkdir(path.join(workflowsPath, 'flows'), { recursive: true });
+    await fs.writeFile(path.join(workflowsPath, file), JSON.stringify({
+      name: 'Branch',
+      nodes: [
+        node('Start', 'manualTrigger', [0, 0]),
+        node('Check', 'if', [200, 0]),
+        node('Yes', 'noOp', [400, -100]),
+        node('No', 'noOp', [400, 100]),
+      ],
+      connections: {
+        Start: { main: [[{ node: 'Check', type: 'main', index: 0 }]] },
+        Check: { main: [[{ node: 'Yes', type: 'main', index: 0 }]] },
+      },
+    }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workflowsPath, { recursive: true, force: true });
+  });
+
+  it('connects a specific output index and refuses duplicates', async () => {
+    const result = await connectNodes(workflowsPath, file, 'Check', 'no', 'main', 'main', 1);
+    expect(result.content[0].text).toContain('Connected Check (output 1) -> No (input 0)');
+    expect(result.content[0].text).toContain('✅ Workflow is valid');
+    expect((await read()).connections.Check.main[1]).toEqual([{ node: 'No', type: 'main', index: 0 }]);
+
+    await expect(connectNodes(workflowsPath, file, 'Check', 'No', 'main', 'main', 1)).rejects.toThrow('already connected');
+    await expect(connectNodes(workflowsPath, file, 'Check', 'Nowhere')).rejects.toThrow('Node "Nowhere" not found');
+  });
+
+  it('disconnects an edge and prunes empty outputs', async () => {
+    await connectNodes(workflowsPath, file, 'Check', 'No', 'main', 'main', 1);
+    await disconnectNodes(workflowsPath, file, 'Check', 'No');
+    expect((await read()).connections.Check).toEqual({ main: [[{ node: 'Yes', type: 'main', index: 0 }]] });
+
+    await expect(disconnectNodes(workflowsPath, file, 'Start', 'Yes')).rejects.toThrow('No main connection from "Start" to "Yes"');
+  });
+
+  it('removes a node with its inbound and outbound connections', async () => {
+    const result = await removeNodeFromWorkflow(workflowsPath, file, 'Check');
+    expect(result.content[0].text).toContain('Removed node "Check" and 2 connections');
+
+    const workflow = await read();
+    expect(workflow.nodes.map((n: any) => n.name)).toEqual(['Start', 'Yes', 'No']);
+    expect(workflow.connections).toEqual({});
+  });
+
+  it('inserts a node between two connected nodes', async () => {
+    await connectNodes(workflowsPath, file, 'Check', 'No', 'main', 'main', 1);
+    await insertNodeBetween(workflowsPath, file, 'Check', 'No', node('Log', 'noOp'), 1);
+
+    const workflow = await read();
+    expect(workflow.connections.Check.main).toEqual([
+      [{ node: 'Yes', type: 'main', index: 0 }],
+      [{ node: 'Log', type: 'main', index: 0 }],
+    ]);
+    expect(workflow.connections.Log.main).toEqual([[{ node: 'No', type: 'main', index: 0 }]]);
+
+    await expect(insertNodeBetween(workflowsPath, file, 'Start', 'Yes', node('Other', 'noOp')))
+      .rejects.toThrow('No main connection from "Start" to "Yes"');
+  });
+
+  it('moves a node and reports validation problems', async () => {
+    const raw = await read();
+    raw.connections.Yes = { main: [[{ node: 'Ghost', type: 'main', index: 0 }]] };
+    await fs.writeFile(path.join(workflowsPath, file), JSON.stringify(raw));
+
+    const result = await moveNode(workflowsPath, file, 'Yes', { x: 600, y: -50 });
+    expect((await read()).nodes[2].position).toEqual([600, -50]);
+    expect(result.content[0].text).toContain('❌ Validation issues:\n  • Connection references non-existent node: Ghost');
+  });
+});
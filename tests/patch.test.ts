@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { applyWorkflowPatches } from '../src/workflows/patch.js';
+import { WorkflowManager } from '../src/workflows/manager.js';
+
+const workflow = () => ({
+  name: 'Fetch',
+  nodes: [
+    { id: 'start', name: 'Start', type: 'n8n-nodes-base.manualTrigger', typeVersion: 1, position: [0, 0], parameters: {} },
+    { id: 'fetch', name: 'Fetch', type: 'n8n-nodes-base.httpRequest', typeVersion: 4, position: [200, 0], parameters: { url: 'https://a.example' } },
+  ],
+  connections: {
+    Start: { main: [[{ node: 'Fetch', type: 'main', index: 0 }]] },
+  },
+});
+
+describe('applyWorkflowPatches', () => {
+  it('applies JSON Patch operations without touching the original', () => {
+    const original = workflow();
+    const patched = applyWorkflowPatches(original, [
+      { op: 'test', path: '/nodes/1/name', value: 'Fetch' },
+      { op: 'replace', path: '/nodes/1/parameters/url', value: 'https://b.example' },
+      { op: 'add', path: '/nodes/1/parameters/options', value: { timeout: 5 } },
+      { op: 'copy', from: '/nodes/1/position', path: '/nodes/0/position' },
+      { op: 'remove', path: '/connections/Start' },
+    ]);
+
+    expect(patched.nodes[1].parameters).toEqual({ url: 'https://b.example', options: { timeout: 5 } });
+    expect(patched.nodes[0].position).toEqual([200, 0]);
+    expect(patched.connections).toEqual({});
+    expect(original.nodes[1].parameters.url).toBe('https://a.example');
+  });
+
+  it('sets and unsets dotted paths on a node', () => {
+    const patched = applyWorkflowPatches(workflow(), [
+      { node: 'Fetch', set: { 'parameters.url': 'https://c.example', 'parameters.headers[0].name': 'Accept' } },
+      { node: 'start', unset: ['parameters'] },
+    ]);
+
+    expect(patched.nodes[1].parameters).toEqual({ url: 'https://c.example', headers: [{ name: 'Accept' }] });
+    expect(patched.nodes[0].parameters).toBeUndefined();
+  });
+
+  it('stops at the first failing patch', () => {
+    expect(() => applyWorkflowPatches(workflow(), [
+      { op: 'replace', path: '/nodes/1/parameters/url', value: 'x' },
+      { op: 'test', path: '/nodes/1/parameters/url', value: 'y' },
+    ])).toThrow('Patch 2: Test failed: "/nodes/1/parameters/url" does not equal "y"');
+    expect(() => applyWorkflowPatches(workflow(), [{ op: 'remove', path: '/nodes/5' }])).toThrow('Patch 1: Array index 5 is out of bounds');
+    expect(() => applyWorkflowPatches(workflow(), [{ node: 'Missing', set: {} }])).toThrow('Patch 1: Node "Missing" not found');
+  });
+
+  it('refuses prototype keys and bad array indexes', () => {
+    expect(() => applyWorkflowPatches(workflow(), [{ node: 'Fetch', set: { '__proto__.polluted': 1 } }]))
+      .toThrow('Patch 1: Path "__proto__.polluted" uses the reserved key "__proto__"');
+    expect(() => applyWorkflowPatches(workflow(), [{ op: 'add', path: '/constructor/prototype/polluted', value: 1 }]))
+      .toThrow('uses the reserved key "constructor"');
+    expect(({} as any).polluted).toBeUndefined();
+
+    const tagged = { ...workflow(), nodes: [{ ...workflow().nodes[0], parameters: { tags: ['a', 'b'] } }] };
+    expect(() => applyWorkflowPatches(tagged, [{ node: 'Start', unset: ['parameters.tags.x'] }]))
+      .toThrow('Patch 1: Invalid array index "x"');
+    expect(() => applyWorkflowPatches(tagged, [{ node: 'Start', unset: ['parameters.tags[2]'] }]))
+      .toThrow('Patch 1: Array index 2 is out of bounds');
+    expect(applyWorkflowPatches(tagged, [{ node: 'Start', unset: ['parameters.tags[1]'] }]).nodes[0].parameters.tags).toEqual(['a']);
+  });
+});
+
+describe('WorkflowManager.patchWorkflow', () => {
+  let workflowsPath: string;
+  const file = 'flows/fetch.json';
+  const read = async () => JSON.parse(await fs.readFile(path.join(workflowsPath, file), 'utf-8'));
+
+  beforeEach(async () => {
+    workflowsPath = await fs.mkdtemp(path.join(os.tmpdir(), 'mcflow-patch-'));
+    await fs.mkdir(path.join(workflowsPath, 'flows'), { recursive: true });
+    await fs.writeFile(path.join(workflowsPath, file), JSON.stringify(workflow()));
+    // The documenter writes to docs/ under the working directory
+    vi.spyOn(process, 'cwd').mockReturnValue(workflowsPath);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(workflowsPath, { recursive: true, force: true });
+  });
+
+  it('writes patches that keep the workflow valid', async () => {
+    const manager = new WorkflowManager(workflowsPath);
+    const result = await manager.patchWorkflow(file, [{ node: 'Fetch', set: { 'parameters.url': 'https://d.example' } }]);
+
+    expect(result.content[0].text).toContain('Applied 1 patch');
+    expect((await read()).nodes[1].parameters.url).toBe('https://d.example');
+  });
+
+  it('rejects patches that break references', async () => {
+    const manager = new WorkflowManager(workflowsPath);
+
+    await expect(manager.patchWorkflow(file, [{ node: 'Fetch', set: { name: 'Download' } }]))
+      .rejects.toThrow('Start: Connection to non-existent node: Fetch');
+    await expect(manager.patchWorkflow(file, [{ node: 'Fetch', set: { 'parameters.url': '={{ $("Gone").item.json.url }}' } }]))
+      .rejects.toThrow('references unknown node "Gone"');
+    expect((await read()).nodes[1].name).toBe('Fetch');
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { diffWorkflows, hasChanges, formatWorkflowDiff } from '../src/workflows/diff.js';
+import { N8nManager } from '../src/n8n/manager.js';
+import { MemoryTransport } from './helpers/memory-transport.js';
+
+const node = (name: string, parameters: any = {}) => ({
+  id: name.toLowerCase(),
+  name,
+  type: 'n8n-nodes-base.set',
+  typeVersion: 3,
+  position: [0, 0],
+  parameters,
+});
+
+describe('diffWorkflows', () => {
+  const deployed = {
+    name: 'Flow',
+    active: false,
+    nodes: [node('Start'), node('Set', { value: 'a' }), node('Old')],
+    connections: { Start: { main: [[{ node: 'Set', type: 'main', index: 0 }]] } },
+    settings: { executionOrder: 'v1' },
+  };
+
+  it('reports added, removed and modified nodes by name', () => {
+    const desired = {
+      ...deployed,
+      active: true,
+      nodes: [{ ...node('Start'), id: 'different-id' }, node('Set', { value: 'b' }), node('New')],
+      connections: { Start: { main: [[{ node: 'New', type: 'main', index: 0 }]] } },
+    };
+
+    const diff = diffWorkflows(deployed, desired);
+    expect(diff.addedNodes.map(n => n.name)).toEqual(['New']);
+    expect(diff.removedNodes.map(n => n.name)).toEqual(['Old']);
+    expect(diff.modifiedNodes).toEqual([
+      { name: 'Set', type: 'n8n-nodes-base.set', changes: [{ path: 'parameters.value', before: 'a', after: 'b' }] },
+    ]);
+    expect(diff.addedConnections.map(e => e.to)).toEqual(['New']);
+    expect(diff.removedConnections.map(e => e.to)).toEqual(['Set']);
+    expect(diff.activeChange).toEqual({ before: false, after: true });
+
+    const text = formatWorkflowDiff(diff);
+    expect(text).toContain('+ node "New"');
+    expect(text).toContain('~ parameters.value: "a" → "b"');
+    expect(text).toContain('~ active: false → true');
+  });
+
+  it('ignores node ids and ordering', () => {
+    const desired = { ...deployed, nodes: [...deployed.nodes].reverse().map(n => ({ ...n, id: `x-${n.id}` })) };
+    expect(hasChanges(diffWorkflows(deployed, desired))).toBe(false);
+  });
+});
+
+describe('plan and apply', () => {
+  let workflowsPath: string;
+  let transport: MemoryTransport;
+  let manager: N8nManager;
+
+  const writeFlow = async (workflow: any) => {
+    await fs.writeFile(path.join(workflowsPath, 'flows', 'flow.json'), JSON.stringify(workflow, null, 2));
+  };
+  const text = (result: any) => result.content[0].text as string;
+
+  beforeEach(async () => {
+    workflowsPath = await fs.mkdtemp(path.join(os.tmpdir(), 'mcflow-plan-'));
+    await fs.mkdir(path.join(workflowsPath, 'flows'), { recursive: true });
+    await writeFlow({ name: 'Flow', nodes: [node('Start')], connections: {} });
+    transport = new MemoryTransport();
+    manager = new N8nManager(workflowsPath, transport);
+  });
+
+  afterEach(async () => {
+    await fs.rm(workflowsPath, { recursive: true, force: true });
+  });
+
+  it('plans without deploying and applies the saved plan', async () => {
+    const plan = text(await manager.planDeployment());
+    expect(plan).toContain('flows/flow.json will be created');
+    expect(plan).toContain('Plan: 1 to create, 0 to update, 0 unchanged.');
+    expect(transport.imports).toHaveLength(0);
+
+    const applied = text(await manager.applyPlan());
+    expect(applied).toContain('1 created, 0 updated, 0 failed');
+    expect(transport.imports).toHaveLength(1);
+
+    // Deployed state is recorded, so nothing is left to plan
+    expect(text(await manager.planDeployment())).toContain('No changed workflows');
+  });
+
+  it('shows a semantic diff for updates', async () => {
+    await manager.planDeployment();
+    await manager.applyPlan();
+
+    await writeFlow({ name: 'Flow', nodes: [node('Start', { value: 1 })], connections: {} });
+    const plan = text(await manager.planDeployment());
+    expect(plan).toContain('flows/flow.json will be updated in-place');
+    expect(plan).toContain('~ node "Start"');
+    expect(plan).toContain('~ parameters.value: (unset) → 1');
+  });
+
+  it('refuses to apply a stale plan', async () => {
+    await manager.planDeployment();
+    await writeFlow({ name: 'Flow', nodes: [node('Start'), node('Later')], connections: {} });
+
+    const applied = text(await manager.applyPlan());
+    expect(applied).toContain('Saved plan is stale');
+    expect(transport.imports).toHaveLength(0);
+  });
+});
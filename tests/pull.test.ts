@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { N8nManager } from '../src/n8n/manager.js';
+import { findExternalReferences } from '../src/workflows/sync.js';
+import { MemoryTransport } from './helpers/memory-transport.js';
+
+const flow = {
+  name: 'Flow',
+  nodes: [
+    {
+      name: 'Transform',
+      type: 'n8n-nodes-base.code',
+      position: [0, 0],
+      parameters: { nodeContent: { jsCode: 'transform' } },
+    },
+    {
+      name: 'Summarize',
+      type: '@n8n/n8n-nodes-langchain.chainLlm',
+      position: [200, 0],
+      parameters: { nodeContent: { prompt: 'summarize' } },
+    },
+  ],
+  connections: {},
+};
+
+describe('findExternalReferences', () => {
+  it('locates injected parameters by node type', () => {
+    const references = findExternalReferences(flow);
+    expect(references.map(r => [r.node, r.file, r.parameter.join('.')])).toEqual([
+      ['Transform', path.join('nodes', 'code', 'transform.js'), 'jsCode'],
+      ['Summarize', path.join('nodes', 'prompts', 'summarize.md'), 'messages.messageValues.0.message'],
+    ]);
+  });
+});
+
+describe('pull', () => {
+  let workflowsPath: string;
+  let transport: MemoryTransport;
+  let manager: N8nManager;
+
+  const file = (relative: string) => path.join(workflowsPath, relative);
+  const read = (relative: string) => fs.readFile(file(relative), 'utf-8');
+  const text = (result: any) => result.content[0].text as string;
+  const remoteNode = (name: string) => [...transport.workflows.values()][0].nodes.find((n: any) => n.name === name);
+
+  beforeEach(async () => {
+    workflowsPath = await fs.mkdtemp(path.join(os.tmpdir(), 'mcflow-pull-'));
+    for (const dir of ['flows', 'nodes/code', 'nodes/prompts']) {
+      await fs.mkdir(file(dir), { recursive: true });
+    }
+    await fs.writeFile(file('flows/flow.json'), JSON.stringify(flow, null, 2));
+    await fs.writeFile(
+      file('nodes/code/transform.js'),
+      '// @prompt-file: nodes/prompts/greeting.md\nconst GREETING = ``;\nreturn [{ json: { greeting: GREETING } }];\n'
+    );
+    await fs.writeFile(file('nodes/prompts/greeting.md'), 'Hello');
+    await fs.writeFile(file('nodes/prompts/summarize.md'), 'Summarize this');
+
+    transport = new MemoryTransport();
+    manager = new N8nManager(workflowsPath, transport);
+    await manager.importWorkflow('flows/flow.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(workflowsPath, { recursive: true, force: true });
+  });
+
+  it('writes n8n edits back into referenced files', async () => {
+    const transform = remoteNode('Transform');
+    transform.parameters.jsCode = transform.parameters.jsCode
+      .replace('Hello', 'Hi \\`there\\`')
+      .replace('greeting: GREETING', 'greeting: GREETING, edited: true');
+    remoteNode('Summarize').parameters.messages.messageValues[0].message = '=Summarize briefly';
+
+    const dryRun = text(await manager.pullWorkflow({ path: 'flows/flow.json', dryRun: true }));
+    expect(dryRun).toContain('3 files to update, 0 conflicts');
+    expect(await read('nodes/prompts/summarize.md')).toBe('Summarize this');
+
+    const result = text(await manager.pullWorkflow({ path: 'flows/flow.json' }));
+    expect(result).toContain('3 files updated, 0 conflicts');
+    expect(result).toContain('Local files now match the deployed workflow');
+
+    // The @prompt-file placeholder and the nodeContent reference stay in place
+    expect(await read('nodes/code/transform.js')).toBe(
+      '// @prompt-file: nodes/prompts/greeting.md\nconst GREETING = ``;\nreturn [{ json: { greeting: GREETING, edited: true } }];\n'
+    );
+    expect(await read('nodes/prompts/greeting.md')).toBe('Hi `there`');
+    expect(await read('nodes/prompts/summarize.md')).toBe('Summarize briefly');
+    expect(JSON.parse(await read('flows/flow.json'))).toEqual(flow);
+
+    // A second pull finds nothing left to do
+    expect(text(await manager.pullWorkflow({ path: 'flows/flow.json' }))).toContain('0 files updated, 0 conflicts');
+  });
+
+  it('flags conflicts when both sides changed', async () => {
+    remoteNode('Summarize').parameters.messages.messageValues[0].message = '=Remote edit';
+    await fs.writeFile(file('nodes/prompts/summarize.md'), 'Local edit');
+
+    const result = text(await manager.pullWorkflow({ path: 'flows/flow.json' }));
+    expect(result).toContain('Summarize → nodes/prompts/summarize.md (changed both locally and in n8n)');
+    expect(result).toContain('0 files updated, 1 conflict.');
+    expect(await read('nodes/prompts/summarize.md')).toBe('Local edit');
+
+    await manager.pullWorkflow({ path: 'flows/flow.json', force: true });
+    expect(await read('nodes/prompts/summarize.md')).toBe('Remote edit');
+  });
+
+  it('leaves local-only changes and reports structural edits', async () => {
+    await fs.writeFile(file('nodes/prompts/summarize.md'), 'Local edit');
+    remoteNode('Transform').position = [50, 50];
+
+    const result = text(await manager.pullWorkflow({ path: 'flows/flow.json' }));
+    expect(result).toContain('(changed locally since the last deployment)');
+    expect(result).toContain('~ position: [0,0] → [50,50]');
+    expect(await read('nodes/prompts/summarize.md')).toBe('Local edit');
+  });
+
+  it('only writes prompt files the local source references', async () => {
+    const transform = remoteNode('Transform');
+    transform.parameters.jsCode = transform.parameters.jsCode
+      .replace('nodes/prompts/greeting.md', '../escaped.md')
+      .replace('Hello', 'pwned');
+
+    await manager.pullWorkflow({ path: 'flows/flow.json' });
+    await expect(fs.access(path.join(workflowsPath, '..', 'escaped.md'))).rejects.toThrow();
+    expect(await read('nodes/prompts/greeting.md')).toBe('Hello');
+  });
+});
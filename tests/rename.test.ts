@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { renameNode } from '../src/workflows/operations.js';
+import { renameNodeReferences } from '../src/workflows/expressions.js';
+import { NodeManager } from '../src/nodes/manager.js';
+
+describe('renameNodeReferences', () => {
+  it('keeps syntax and quotes, escaping the new name when needed', () => {
+    const code = `$('Fetch').item + $node["Fetch"].json + $items("Fetch") + $node.Fetch.json + $('Fetcher')`;
+    expect(renameNodeReferences(code, 'Fetch', "Bob's Fetch")).toBe(
+      `$('Bob\\'s Fetch').item + $node["Bob's Fetch"].json + $items("Bob's Fetch") + $node["Bob's Fetch"].json + $('Fetcher')`
+    );
+  });
+});
+
+describe('renameNode', () => {
+  let workflowsPath: string;
+
+  beforeEach(async () => {
+    workflowsPath = await fs.mkdtemp(path.join(os.tmpdir(), 'mcflow-rename-'));
+    await fs.mkdir(path.join(workflowsPath, 'flows'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(workflowsPath, { recursive: true, force: true });
+  });
+
+  it('updates connections, expressions, extracted files and metadata', async () => {
+    const workflowFile = path.join(workflowsPath, 'flows', 'orders.json');
+    await fs.writeFile(workflowFile, JSON.stringify({
+      name: 'Orders',
+      nodes: [
+        { name: 'Start', type: 'n8n-nodes-base.manualTrigger', parameters: {} },
+        { name: 'Fetch', type: 'n8n-nodes-base.code', parameters: { jsCode: 'return [{ json: { id: 1 } }];' } },
+        { name: 'Total', type: 'n8n-nodes-base.code', parameters: { jsCode: "return [{ json: { id: $('Fetch').first().json.id } }];" } },
+        { name: 'Label', type: 'n8n-nodes-base.set', parameters: { value: '={{ $node["Fetch"].json.id }}', plain: 'Fetch' } },
+      ],
+      connections: {
+        Start: { main: [[{ node: 'Fetch', type: 'main', index: 0 }]] },
+        Fetch: { main: [[{ node: 'Total', type: 'main', index: 0 }, { node: 'Label', type: 'main', index: 0 }]] },
+      },
+      pinData: { Fetch: [{ json: { id: 1 } }] },
+    }));
+    await new NodeManager(workflowsPath).extractNodes(workflowFile);
+
+    const result = await renameNode(workflowsPath, 'flows/orders.json', 'Fetch', 'Load Orders');
+    expect(result.content[0].text).toContain('🔗 Connections updated: 2');
+    expect(result.content[0].text).toContain('✏️ Expressions updated in: Label');
+
+    const workflow = JSON.parse(await fs.readFile(workflowFile, 'utf-8'));
+    expect(workflow.nodes.map((n: any) => n.name)).toEqual(['Start', 'Load Orders', 'Total', 'Label']);
+    expect(Object.keys(workflow.connections)).toEqual(['Start', 'Load Orders']);
+    expect(workflow.connections.Start.main[0][0].node).toBe('Load Orders');
+    expect(Object.keys(workflow.pinData)).toEqual(['Load Orders']);
+    expect(workflow.nodes[3].parameters).toEqual({ value: '={{ $node["Load Orders"].json.id }}', plain: 'Fetch' });
+
+    const ownFile = await fs.readFile(path.join(workflowsPath, 'nodes', 'code', 'orders', 'fetch.js'), 'utf-8');
+    expect(ownFile).toContain(' * Node: Load Orders\n');
+    const totalFile = await fs.readFile(path.join(workflowsPath, 'nodes', 'code', 'orders', 'total.js'), 'utf-8');
+    expect(totalFile).toContain("$('Load Orders').first()");
+    expect(totalFile).toContain(' * Node: Total\n');
+
+    const metadata = JSON.parse(await fs.readFile(path.join(workflowsPath, 'nodes', '.metadata.json'), 'utf-8'));
+    expect(metadata.orders.map((n: any) => n.nodeName)).toEqual(['Load Orders', 'Total']);
+  });
+
+  it('refuses to rename onto an existing node', async () => {
+    await fs.writeFile(path.join(workflowsPath, 'flows', 'pair.json'), JSON.stringify({
+      name: 'Pair',
+      nodes: [{ name: 'A', parameters: {} }, { name: 'B', parameters: {} }],
+      connections: {},
+    }));
+
+    await expect(renameNode(workflowsPath, 'flows/pair.json', 'A', 'B')).rejects.toThrow('A node named "B" already exists');
+    await expect(renameNode(workflowsPath, 'flows/pair.json', 'C', 'D')).rejects.toThrow('Node "C" not found');
+  });
+});
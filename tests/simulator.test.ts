@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { simulateWorkflow, formatSimulation } from '../src/simulator/engine.js';
+import { evaluateExpression } from '../src/simulator/expressions.js';
+import { WorkflowSimulator } from '../src/simulator/simulator.js';
+
+const node = (name: string, type: string, parameters: any = {}, typeVersion: number = 1) => ({
+  name,
+  type: `n8n-nodes-base.${type}`,
+  typeVersion,
+  position: [0, 0],
+  parameters,
+});
+const main = (...targets: Array<string | [string, number]>) => ({
+  main: [targets.map(t => Array.isArray(t) ? { node: t[0], type: 'main', index: t[1] } : { node: t, type: 'main', index: 0 })],
+});
+const outputOf = (result: any, name: string, output: number = 0) =>
+  result.runs.filter((r: any) => r.node === name).pop().output[output].map((item: any) => item.json);
+
+describe('evaluateExpression', () => {
+  const context = { $json: { name: 'Ada', count: 2 } };
+
+  it('keeps the type of single expressions and renders mixed text', () => {
+    expect(evaluateExpression('={{ $json.count * 2 }}', context)).toBe(4);
+    expect(evaluateExpression('=Hello {{ $json.name }}!', context)).toBe('Hello Ada!');
+    expect(evaluateExpression('plain', context)).toBe('plain');
+  });
+});
+
+describe('simulateWorkflow', () => {
+  it('runs Code, Set, IF and Merge nodes with fixture input', async () => {
+    const workflow = {
+      name: 'Orders',
+      nodes: [
+        node('Start', 'manualTrigger'),
+        node('Double', 'code', { jsCode: 'return $input.all().map(i => ({ json: { ...i.json, total: i.json.amount * 2 } }));' }, 2),
+        node('Big?', 'if', {
+          conditions: {
+            combinator: 'and',
+            conditions: [{ leftValue: '={{ $json.total }}', rightValue: 10, operator: { type: 'number', operation: 'gt' } }],
+          },
+        }, 2),
+        node('Tag Big', 'set', { assignments: { assignments: [{ name: 'size', value: 'big', type: 'string' }] }, includeOtherFields: true }, 3.4),
+        node('Tag Small', 'set', { assignments: { assignments: [{ name: 'size', value: '={{ $json.total < 5 ? "tiny" : "small" }}', type: 'string' }] }, includeOtherFields: true }, 3.4),
+        node('Merge', 'merge', { mode: 'append' }, 2),
+      ],
+      connections: {
+        Start: main('Double'),
+        Double: main('Big?'),
+        'Big?': { main: [[{ node: 'Tag Big', type: 'main', index: 0 }], [{ node: 'Tag Small', type: 'main', index: 0 }]] },
+        'Tag Big': main(['Merge', 0]),
+        'Tag Small': main(['Merge', 1]),
+      },
+    };
+
+    const result = await simulateWorkflow(workflow, { input: [{ amount: 1 }, { amount: 3 }, { amount: 8 }] });
+    expect(result.success).toBe(true);
+    expect(result.runs.map(r => r.node)).toEqual(['Start', 'Double', 'Big?', 'Tag Big', 'Tag Small', 'Merge']);
+    expect(outputOf(result, 'Merge')).toEqual([
+      { amount: 8, total: 16, size: 'big' },
+      { amount: 1, total: 2, size: 'tiny' },
+      { amount: 3, total: 6, size: 'small' },
+    ]);
+
+    const text = formatSimulation(result);
+    expect(text).toContain('3. Big? (if)');
+    expect(text).toContain('➡️ output 1: 2 items');
+  });
+
+  it('stubs unsupported nodes with recorded output and routes Switch rules', async () => {
+    const workflow = {
+      name: 'Fetch',
+      nodes: [
+        node('Hook', 'webhook'),
+        node('Fetch', 'httpRequest'),
+        node('Route', 'switch', {
+          rules: {
+            values: [
+              { conditions: { conditions: [{ leftValue: '={{ $json.status }}', rightValue: 'ok', operator: { type: 'string', operation: 'equals' } }] } },
+            ],
+          },
+          options: { fallbackOutput: 'extra' },
+        }, 3),
+        node('Ok', 'noOp'),
+        node('Other', 'noOp'),
+      ],
+      connections: {
+        Hook: main('Fetch'),
+        Fetch: main('Route'),
+        Route: { main: [[{ node: 'Ok', type: 'main', index: 0 }], [{ node: 'Other', type: 'main', index: 0 }]] },
+      },
+    };
+
+    const result = await simulateWorkflow(workflow, {
+      input: { body: { id: 1 } },
+      nodes: { Fetch: [{ status: 'ok' }, { status: 'error' }] },
+    });
+    expect(result.runs.find(r => r.node === 'Fetch')!.stubbed).toBe(true);
+    expect(outputOf(result, 'Ok')).toEqual([{ status: 'ok' }]);
+    expect(outputOf(result, 'Other')).toEqual([{ status: 'error' }]);
+
+    const missing = await simulateWorkflow(workflow, {});
+    expect(missing.success).toBe(false);
+    expect(missing.error).toContain('No fixture output recorded for "Fetch" (n8n-nodes-base.httpRequest)');
+  });
+
+  it('loops through Split In Batches until done', async () => {
+    const workflow = {
+      name: 'Batches',
+      nodes: [
+        node('Start', 'manualTrigger'),
+        node('Loop', 'splitInBatches', { batchSize: 2 }, 3),
+        node('Mark', 'code', { mode: 'runOnceForEachItem', jsCode: 'return { json: { ...$json, seen: true } };' }, 2),
+        node('Done', 'noOp'),
+      ],
+      connections: {
+        Start: main('Loop'),
+        Loop: { main: [[{ node: 'Done', type: 'main', index: 0 }], [{ node: 'Mark', type: 'main', index: 0 }]] },
+        Mark: main('Loop'),
+      },
+    };
+
+    const result = await simulateWorkflow(workflow, { input: [{ n: 1 }, { n: 2 }, { n: 3 }] });
+    expect(result.runs.filter(r => r.node === 'Mark')).toHaveLength(2);
+    expect(outputOf(result, 'Done')).toEqual([{ n: 1, seen: true }, { n: 2, seen: true }, { n: 3, seen: true }]);
+  });
+});
+
+describe('WorkflowSimulator', () => {
+  let workflowsPath: string;
+
+  beforeEach(async () => {
+    workflowsPath = await fs.mkdtemp(path.join(os.tmpdir(), 'mcflow-simulate-'));
+    await fs.mkdir(path.join(workflowsPath, 'flows', '__fixtures__'), { recursive: true });
+    await fs.mkdir(path.join(workflowsPath, 'nodes', 'code'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(workflowsPath, { recursive: true, force: true });
+  });
+
+  it('compiles external code and uses the default fixture', async () => {
+    await fs.writeFile(path.join(workflowsPath, 'flows', 'greet.json'), JSON.stringify({
+      name: 'Greet',
+      nodes: [
+        node('Start', 'manualTrigger'),
+        node('Greet', 'code', { nodeContent: { jsCode: 'greet' } }, 2),
+      ],
+      connections: { Start: main('Greet') },
+    }));
+    await fs.writeFile(
+      path.join(workflowsPath, 'nodes', 'code', 'greet.js'),
+      'console.log("greeting", $input.all().length);\nreturn [{ json: { message: `Hi ${$json.name} from ${$env.REGION}` } }];'
+    );
+    await fs.writeFile(
+      path.join(workflowsPath, 'flows', '__fixtures__', 'greet.json'),
+      JSON.stringify({ input: [{ name: 'Ada' }], env: { REGION: 'eu' } })
+    );
+
+    const result = await new WorkflowSimulator(workflowsPath).simulate({ path: 'flows/greet.json' });
+    const text = result.content[0].text;
+    expect(text).toContain('📝 greeting 1');
+    expect(text).toContain('{"message":"Hi Ada from eu"}');
+    expect(text).toContain('✅ Simulation finished after 2 node runs');
+  });
+
+  it('reports a failing node in the result', async () => {
+    await fs.writeFile(path.join(workflowsPath, 'flows', 'broken.json'), JSON.stringify({
+      name: 'Broken',
+      nodes: [
+        node('Start', 'manualTrigger'),
+        node('Fail', 'code', { jsCode: 'throw new Error("no invoice");' }, 2),
+      ],
+      connections: { Start: main('Fail') },
+    }));
+
+    const result = await new WorkflowSimulator(workflowsPath).run({ path: 'flows/broken.json' });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Node "Fail" failed: no invoice');
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { splitSubworkflow, findUnsetWorkflowCalls } from '../src/workflows/subworkflow.js';
+import { WorkflowManager } from '../src/workflows/manager.js';
+import { NodeManager } from '../src/nodes/manager.js';
+import { N8nManager } from '../src/n8n/manager.js';
+import { MemoryTransport } from './helpers/memory-transport.js';
+
+const node = (name: string, type: string, position: number[], parameters: any = {}) => ({
+  id: name.toLowerCase(),
+  name,
+  type: `n8n-nodes-base.${type}`,
+  typeVersion: 1,
+  position,
+  parameters,
+});
+const main = (...targets: string[]) => ({ main: [targets.map(t => ({ node: t, type: 'main', index: 0 }))] });
+
+const orders = () => ({
+  name: 'Orders',
+  nodes: [
+    node('Start', 'manualTrigger', [0, 0]),
+    node('Clean', 'code', [200, 0], { jsCode: 'return $input.all();' }),
+    node('Total', 'code', [400, 0], { jsCode: "return [{ json: { first: $('Clean').first().json } }];" }),
+    node('Send', 'noOp', [600, 0], { note: '={{ $("Total").item.json.first }}' }),
+  ],
+  connections: {
+    Start: main('Clean'),
+    Clean: main('Total'),
+    Total: main('Send'),
+  },
+});
+
+describe('splitSubworkflow', () => {
+  it('rewires the parent through an Execute Workflow node', () => {
+    const split = splitSubworkflow(orders(), ['Clean', 'Total'], 'normalize');
+
+    expect(split.parent.nodes.map((n: any) => n.name)).toEqual(['Start', 'Execute normalize', 'Send']);
+    expect(split.parent.nodes[1].position).toEqual([300, 0]);
+    expect(split.parent.connections).toEqual({
+      Start: main('Execute normalize'),
+      'Execute normalize': main('Send'),
+    });
+
+    expect(split.child.nodes.map((n: any) => n.type)).toEqual([
+      'n8n-nodes-base.executeWorkflowTrigger',
+      'n8n-nodes-base.code',
+      'n8n-nodes-base.code',
+    ]);
+    expect(split.child.connections).toEqual({
+      Clean: main('Total'),
+      'When Executed by Another Workflow': main('Clean'),
+    });
+    expect(split.entries).toEqual(['Clean']);
+    expect(split.exits).toEqual(['Total']);
+    expect(split.warnings).toEqual([
+      'Node "Send" references unknown node "Total" in parameters.note: $("Total")',
+    ]);
+  });
+
+  it('lists Execute Workflow nodes still waiting for a workflow ID', () => {
+    const split = splitSubworkflow(orders(), ['Clean', 'Total'], 'normalize');
+    expect(findUnsetWorkflowCalls(split.parent)).toEqual(['Execute normalize']);
+
+    split.parent.nodes[1].parameters.workflowId.value = 'wf-42';
+    expect(findUnsetWorkflowCalls(split.parent)).toEqual([]);
+  });
+
+  it('refuses triggers and AI sub-nodes separated from their root', () => {
+    expect(() => splitSubworkflow(orders(), ['Start'], 'x')).toThrow('"Start" is a trigger');
+
+    const agent = orders();
+    agent.connections = { ...agent.connections, Clean: { ...main('Total'), ai_tool: [[{ node: 'Send', type: 'ai_tool', index: 0 }]] } } as any;
+    expect(() => splitSubworkflow(agent, ['Clean'], 'x')).toThrow('extract AI sub-nodes together with their root node');
+  });
+});
+
+describe('WorkflowManager.extractSubworkflow', () => {
+  let workflowsPath: string;
+
+  beforeEach(async () => {
+    workflowsPath = await fs.mkdtemp(path.join(os.tmpdir(), 'mcflow-subworkflow-'));
+    await fs.mkdir(path.join(workflowsPath, 'flows'), { recursive: true });
+    await fs.writeFile(path.join(workflowsPath, 'README.md'), '# Flows\n\n## Current Workflows\n\n## Getting Started\n');
+    // The documenter writes to docs/ under the working directory
+    vi.spyOn(process, 'cwd').mockReturnValue(workflowsPath);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(workflowsPath, { recursive: true, force: true });
+  });
+
+  it('writes both workflows, moves node files and registers the new flow', async () => {
+    const workflowFile = path.join(workflowsPath, 'flows', 'orders.json');
+    await fs.writeFile(workflowFile, JSON.stringify(orders()));
+    await new NodeManager(workflowsPath).extractNodes(workflowFile);
+
+    const manager = new WorkflowManager(workflowsPath);
+    const result = await manager.extractSubworkflow('flows/orders.json', ['Clean', 'Total'], 'normalize');
+    expect(result.content[0].text).toContain('📁 New workflow: flows/normalize.json');
+
+    const child = JSON.parse(await fs.readFile(path.join(workflowsPath, 'flows', 'normalize.json'), 'utf-8'));
+    expect(child.nodes[1].parameters._nodeFile).toBe('nodes/code/normalize/clean.js');
+    const moved = await fs.readFile(path.join(workflowsPath, 'nodes', 'code', 'normalize', 'total.js'), 'utf-8');
+    expect(moved).toContain(' * Workflow: normalize\n');
+    await expect(fs.access(path.join(workflowsPath, 'nodes', 'code', 'orders', 'total.js'))).rejects.toThrow();
+
+    const metadata = JSON.parse(await fs.readFile(path.join(workflowsPath, 'nodes', '.metadata.json'), 'utf-8'));
+    expect(metadata.orders).toEqual([]);
+    expect(metadata.normalize.map((n: any) => [n.workflowName, n.nodeName])).toEqual([['normalize', 'Clean'], ['normalize', 'Total']]);
+
+    const tracker = JSON.parse(await fs.readFile(path.join(workflowsPath, '.mcflow', 'change-tracker.json'), 'utf-8'));
+    expect(Object.keys(tracker.workflows).sort()).toEqual(['flows/normalize.json', 'flows/orders.json']);
+
+    const readme = await fs.readFile(path.join(workflowsPath, 'README.md'), 'utf-8');
+    expect(readme).toContain('| normalize | normalize | `flows/normalize.json` |');
+  });
+
+  it('keeps the parent from deploying until the sub-workflow is selected', async () => {
+    await fs.writeFile(path.join(workflowsPath, 'flows', 'orders.json'), JSON.stringify(orders()));
+    await new WorkflowManager(workflowsPath).extractSubworkflow('flows/orders.json', ['Clean', 'Total'], 'normalize');
+
+    const transport = new MemoryTransport();
+    const n8n = new N8nManager(workflowsPath, transport);
+    await expect(n8n.importWorkflow('flows/orders.json'))
+      .rejects.toThrow('No sub-workflow selected in "Execute normalize"');
+    await n8n.importWorkflow('flows/normalize.json');
+    expect([...transport.workflows.values()].map((w: any) => w.name)).toEqual(['normalize']);
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  generateWorkflowFromTemplate,
+  listTemplates,
+  loadTemplates,
+  renderTemplate,
+  saveWorkflowAsTemplate,
+} from '../src/workflows/templates.js';
+import { WorkflowManager } from '../src/workflows/manager.js';
+import { NodeManager } from '../src/nodes/manager.js';
+
+describe('workflow templates', () => {
+  let workflowsPath: string;
+
+  const write = async (relative: string, content: any) => {
+    const file = path.join(workflowsPath, relative);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, typeof content === 'string' ? content : JSON.stringify(content));
+  };
+
+  beforeEach(async () => {
+    workflowsPath = await fs.mkdtemp(path.join(os.tmpdir(), 'mcflow-templates-'));
+    await fs.mkdir(path.join(workflowsPath, 'flows'), { recursive: true });
+    await write('templates/summarize/template.json', {
+      name: 'summarize',
+      description: 'Summarize text with OpenAI',
+      parameters: {
+        model: { type: 'string', default: 'gpt-4o-mini', enum: ['gpt-4o-mini', 'gpt-4o'] },
+        maxTokens: { type: 'number', description: 'Response limit', default: 500 },
+        audience: { type: 'string', required: true },
+      },
+      workflow: {
+        name: '%%name%%',
+        nodes: [
+          { id: 'start', name: 'Start', type: 'n8n-nodes-base.manualTrigger', typeVersion: 1, position: [250, 300], parameters: {} },
+          {
+            id: 'summarize',
+            name: 'Summarize',
+            type: '@n8n/n8n-nodes-langchain.openAi',
+            typeVersion: 1,
+            position: [600, 300],
+            parameters: { model: '%%model%%', maxTokens: '%%maxTokens%%', prompt: '%%file:prompts/summarize.md%%' },
+          },
+        ],
+        connections: { Start: { main: [[{ node: 'Summarize', type: 'main', index: 0 }]] } },
+      },
+    });
+    await write('templates/summarize/prompts/summarize.md', 'Summarize this for %%audience%% in under %%maxTokens%% tokens.');
+    // The documenter writes to docs/ under the working directory
+    vi.spyOn(process, 'cwd').mockReturnValue(workflowsPath);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(workflowsPath, { recursive: true, force: true });
+  });
+
+  it('lists built-in and project templates with their parameters', async () => {
+    const templates = await loadTemplates(workflowsPath);
+    expect([...templates.keys()]).toEqual(['scheduled-report', 'webhook-api', 'summarize']);
+
+    const text = (await listTemplates(workflowsPath)).content[0].text;
+    expect(text).toContain('• summarize (project) - Summarize text with OpenAI');
+    expect(text).toContain('    model (string, default "gpt-4o-mini", one of "gpt-4o-mini", "gpt-4o")');
+    expect(text).toContain('    maxTokens (number, default 500) - Response limit');
+    expect(text).toContain('    audience (string, required)');
+  });
+
+  it('skips broken templates and reports them', async () => {
+    await write('templates/broken/template.json', '{ "name": "broken", ');
+
+    expect([...(await loadTemplates(workflowsPath)).keys()]).toEqual(['scheduled-report', 'webhook-api', 'summarize']);
+    const text = (await listTemplates(workflowsPath)).content[0].text;
+    expect(text).toContain('• summarize (project)');
+    expect(text).toContain('⚠️ Skipped broken templates:');
+    expect(text).toContain(`Template ${path.join(workflowsPath, 'templates', 'broken', 'template.json')}: `);
+
+    const manager = new WorkflowManager(workflowsPath);
+    await expect(generateWorkflowFromTemplate(manager, workflowsPath, 'broken', '', 'x'))
+      .rejects.toThrow(/Unknown template: broken .*; Template .*template\.json: /);
+  });
+
+  it('substitutes typed values and template files', async () => {
+    const template = (await loadTemplates(workflowsPath)).get('summarize')!;
+    const { workflow, ships } = await renderTemplate(template, { audience: 'executives', maxTokens: 200 }, { name: 'digest' });
+
+    expect(ships).toBe(true);
+    expect(workflow.name).toBe('digest');
+    expect(workflow.nodes[1].parameters).toEqual({
+      model: 'gpt-4o-mini',
+      maxTokens: 200,
+      prompt: 'Summarize this for executives in under 200 tokens.',
+    });
+  });
+
+  it('rejects config that does not match the parameter schema', async () => {
+    const template = (await loadTemplates(workflowsPath)).get('summarize')!;
+
+    await expect(renderTemplate(template, { model: 'gpt-3', maxTokens: '200', colour: 'red' }, { name: 'digest' }))
+      .rejects.toThrow(
+        'Invalid config for template "summarize":\n' +
+        '  • Unknown parameter "colour"\n' +
+        '  • Parameter "model" must be one of "gpt-4o-mini", "gpt-4o"\n' +
+        '  • Parameter "maxTokens" must be a number, got string\n' +
+        '  • Missing required parameter "audience"'
+      );
+  });
+
+  it('generates a workflow and extracts the files a template ships', async () => {
+    const manager = new WorkflowManager(workflowsPath);
+    const result = await generateWorkflowFromTemplate(manager, workflowsPath, 'webhook-api', '', 'orders-api');
+    expect(result.content[0].text).toContain('📦 Node files: 1 extracted to nodes/');
+
+    const workflow = JSON.parse(await fs.readFile(path.join(workflowsPath, 'flows', 'orders-api.json'), 'utf-8'));
+    expect(workflow.nodes[0].parameters.path).toBe('/orders-api');
+    expect(workflow.connections.Webhook.main[0][0].node).toBe('Process Data');
+    expect(workflow.nodes[1].parameters._nodeFile).toBe('nodes/code/orders-api/process-data.js');
+
+    const code = await fs.readFile(path.join(workflowsPath, 'nodes', 'code', 'orders-api', 'process-data.js'), 'utf-8');
+    expect(code).toContain('// Process the incoming data\nreturn $input.all();');
+
+    await expect(generateWorkflowFromTemplate(manager, workflowsPath, 'missing', '', 'x'))
+      .rejects.toThrow('Unknown template: missing (available: scheduled-report, webhook-api, summarize)');
+  });
+
+  it('saves a workflow as a template and generates it back', async () => {
+    await write('flows/orders.json', {
+      id: 'abc123',
+      name: 'orders',
+      active: true,
+      nodes: [
+        { id: 'f1c2', name: 'Hook', type: 'n8n-nodes-base.webhook', typeVersion: 1, webhookId: 'e7d1', position: [250, 300], parameters: { path: 'orders' } },
+        { id: '9a8b', name: 'Clean', type: 'n8n-nodes-base.code', typeVersion: 2, position: [600, 300], parameters: { jsCode: 'return $input.all();' } },
+        {
+          id: '77aa',
+          name: 'Notify',
+          type: 'n8n-nodes-base.executeWorkflow',
+          typeVersion: 1.2,
+          position: [950, 300],
+          parameters: { workflowId: { __rl: true, mode: 'list', value: 'Xy12', cachedResultName: 'notify', cachedResultUrl: '/workflow/Xy12' } },
+          credentials: { httpHeaderAuth: { id: '4', name: 'Prod token' } },
+        },
+      ],
+      connections: {
+        Hook: { main: [[{ node: 'Clean', type: 'main', index: 0 }]] },
+        Clean: { main: [[{ node: 'Notify', type: 'main', index: 0 }]] },
+      },
+    });
+    await new NodeManager(workflowsPath).extractNodes(path.join(workflowsPath, 'flows', 'orders.json'));
+
+    const result = await saveWorkflowAsTemplate(workflowsPath, 'flows/orders.json', 'order-intake', {
+      variables: [{ name: 'hookPath', node: 'Hook', parameter: 'path', description: 'Webhook path' }],
+    });
+    expect(result.content[0].text).toContain('📦 Files: code/clean.js');
+    expect(result.content[0].text).toContain(
+      '🧹 Stripped: workflow id, active; 1 credential; 1 webhook id; 1 instance resource reference'
+    );
+
+    const directory = path.join(workflowsPath, 'templates', 'order-intake');
+    const definition = JSON.parse(await fs.readFile(path.join(directory, 'template.json'), 'utf-8'));
+    expect(definition.parameters).toEqual({ hookPath: { type: 'string', description: 'Webhook path', default: 'orders' } });
+    expect(definition.workflow.nodes.map((n: any) => n.id)).toEqual(['hook', 'clean', 'notify']);
+    expect(definition.workflow.nodes[0]).not.toHaveProperty('webhookId');
+    expect(definition.workflow.nodes[0].parameters.path).toBe('%%hookPath%%');
+    expect(definition.workflow.nodes[1].parameters.jsCode).toBe('%%file:code/clean.js%%');
+    expect(definition.workflow.nodes[2]).not.toHaveProperty('credentials');
+    expect(definition.workflow.nodes[2].parameters.workflowId).toEqual({ __rl: true, mode: 'list', value: '', cachedResultName: 'notify' });
+    expect(await fs.readFile(path.join(directory, 'code', 'clean.js'), 'utf-8')).toBe('return $input.all();');
+
+    await expect(saveWorkflowAsTemplate(workflowsPath, 'flows/orders.json', 'order-intake'))
+      .rejects.toThrow('Template "order-intake" already exists');
+
+    const manager = new WorkflowManager(workflowsPath);
+    await generateWorkflowFromTemplate(manager, workflowsPath, 'order-intake', '', 'returns', { hookPath: 'returns' });
+    const generated = JSON.parse(await fs.readFile(path.join(workflowsPath, 'flows', 'returns.json'), 'utf-8'));
+    expect(generated.nodes[0].parameters.path).toBe('returns');
+    expect(generated.nodes[1].parameters._nodeFile).toBe('nodes/code/returns/clean.js');
+  });
+
+  it('gives nodes with similar names distinct ids', async () => {
+    const fetch = (id: string, name: string, x: number) =>
+      ({ id, name, type: 'n8n-nodes-base.httpRequest', typeVersion: 4, position: [x, 300], parameters: {} });
+    await write('flows/fetch.json', {
+      name: 'fetch',
+      nodes: [fetch('a1', 'Fetch A', 250), fetch('b2', 'Fetch-A', 500), fetch('c3', 'fetch a', 750)],
+      connections: {},
+    });
+
+    await saveWorkflowAsTemplate(workflowsPath, 'flows/fetch.json', 'fetch');
+    const definition = JSON.parse(await fs.readFile(path.join(workflowsPath, 'templates', 'fetch', 'template.json'), 'utf-8'));
+    expect(definition.workflow.nodes.map((n: any) => n.id)).toEqual(['fetch-a', 'fetch-a-1', 'fetch-a-2']);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { WorkflowCompiler } from '../src/workflows/compiler.js';
+import { isTrackingNode } from '../src/workflows/tracking.js';
+import { saveTrackingConfig } from '../src/workflows/tracking-config.js';
+
+describe('compile-time tracking', () => {
+  let workflowsPath: string;
+  let flowPath: string;
+  let source: string;
+
+  beforeEach(async () => {
+    workflowsPath = await fs.mkdtemp(path.join(os.tmpdir(), 'mcflow-tracking-config-'));
+    await fs.mkdir(path.join(workflowsPath, 'flows'));
+    flowPath = path.join(workflowsPath, 'flows', 'orders.json');
+    source = JSON.stringify({
+      name: 'Orders',
+      nodes: [
+        { id: 'hook', name: 'Webhook', type: 'n8n-nodes-base.webhook', position: [0, 0], parameters: {} },
+        { id: 'clean', name: 'Clean', type: 'n8n-nodes-base.set', position: [250, 0], parameters: {} },
+      ],
+      connections: {
+        Webhook: { main: [[{ node: 'Clean', type: 'main', index: 0 }]] },
+      },
+    }, null, 2);
+    await fs.writeFile(flowPath, source);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(workflowsPath, { recursive: true, force: true });
+  });
+
+  const trackingNames = (workflow: any) =>
+    workflow.nodes.filter(isTrackingNode).map((n: any) => n.name).sort();
+
+  it('leaves workflows untouched without a tracking config', async () => {
+    const compiled = await new WorkflowCompiler(workflowsPath).compileWorkflow(flowPath);
+    expect(trackingNames(compiled)).toEqual([]);
+  });
+
+  it('injects tracking from the persisted config into the compiled copy only', async () => {
+    await saveTrackingConfig(workflowsPath, {
+      enabled: true,
+      storageUrl: 'http://localhost:3000',
+      enableErrorTracking: true,
+      workflows: {
+        orders: { checkpoints: [{ afterNode: 'Webhook', checkpointName: 'received' }], storeOutputNodes: ['Clean'] },
+      },
+    });
+
+    const compiler = new WorkflowCompiler(workflowsPath);
+    const compiled = await compiler.compileWorkflow(flowPath);
+
+    expect(trackingNames(compiled)).toEqual([
+      'Checkpoint: received',
+      'Error Trigger',
+      'Store Output: Clean',
+      'Track End - Clean',
+      'Track Error',
+      'Track Workflow Start',
+    ]);
+    expect(await fs.readFile(flowPath, 'utf-8')).toBe(source);
+    expect(trackingNames(await compiler.compileWorkflow(flowPath, { tracking: false }))).toEqual([]);
+  });
+
+  it('lets a workflow opt out of project tracking', async () => {
+    await saveTrackingConfig(workflowsPath, {
+      enabled: true,
+      storageUrl: 'http://localhost:3000',
+      workflows: { Orders: { enabled: false } },
+    });
+
+    const compiled = await new WorkflowCompiler(workflowsPath).compileWorkflow(flowPath);
+    expect(trackingNames(compiled)).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { TrackingStore } from '../src/tracking/store.js';
+import { buildTraces, exportTraces } from '../src/tracking/otlp.js';
+
+describe('OTLP trace export', () => {
+  let workflowsPath: string;
+  let store: TrackingStore;
+
+  beforeEach(async () => {
+    workflowsPath = await fs.mkdtemp(path.join(os.tmpdir(), 'mcflow-otlp-'));
+    store = new TrackingStore(workflowsPath);
+    const at = (second: number) => `2025-01-01T00:00:0${second}.000Z`;
+    for (const event of [
+      { action: 'start_execution', workflowId: 'wf1', workflowName: 'Orders', executionId: '101', itemId: 'order-1', timestamp: at(0) },
+      { action: 'store_node', executionId: '101', nodeId: 'Clean', nodeType: 'n8n-nodes-base.code', output: '{}', timestamp: at(2) },
+      { action: 'save_checkpoint', itemId: 'order-1', checkpointName: 'cleaned', nodeId: 'Clean', timestamp: at(3) },
+      { action: 'track_error', executionId: '101', nodeId: 'Notify', errorMessage: 'Timeout', timestamp: at(4) },
+      { action: 'end_execution', executionId: '101', status: 'success', timestamp: at(5) },
+      { action: 'start_execution', workflowId: 'wf1', workflowName: 'Orders', executionId: '102', timestamp: at(6) },
+    ]) {
+      await store.append(event);
+    }
+  });
+
+  afterEach(async () => {
+    await fs.rm(workflowsPath, { recursive: true, force: true });
+  });
+
+  it('turns executions into traces with node and checkpoint spans', async () => {
+    const traces = await buildTraces(store, { executionId: '101' });
+    const [root, clean, checkpoint] = traces.resourceSpans[0].scopeSpans[0].spans;
+
+    expect(traces.resourceSpans[0].resource.attributes).toContainEqual({ key: 'service.name', value: { stringValue: 'n8n-workflows' } });
+    expect(root.name).toBe('Orders');
+    expect(root.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(root.startTimeUnixNano).toBe(`${Date.parse('2025-01-01T00:00:00.000Z')}000000`);
+    expect(root.endTimeUnixNano).toBe(`${Date.parse('2025-01-01T00:00:05.000Z')}000000`);
+    expect(root.status).toEqual({ code: 2, message: 'Timeout' });
+    expect(root.events?.[0].name).toBe('exception');
+
+    expect(clean.name).toBe('Clean');
+    expect(clean.parentSpanId).toBe(root.spanId);
+    expect(clean.traceId).toBe(root.traceId);
+    expect(clean.startTimeUnixNano).toBe(root.startTimeUnixNano);
+    expect(checkpoint.name).toBe('Checkpoint: cleaned');
+    expect(checkpoint.startTimeUnixNano).toBe(clean.endTimeUnixNano);
+
+    // Export is deterministic, so re-exporting updates rather than duplicates
+    const again = await buildTraces(store, { executionId: '101' });
+    expect(again.resourceSpans[0].scopeSpans[0].spans.map(s => s.spanId))
+      .toEqual(traces.resourceSpans[0].scopeSpans[0].spans.map(s => s.spanId));
+  });
+
+  it('sends traces to a collector and writes them to a file', async () => {
+    const received: any[] = [];
+    const collector = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => body += chunk);
+      request.on('end', () => {
+        received.push({ url: request.url, body: JSON.parse(body) });
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end('{}');
+      });
+    });
+    await new Promise<void>(resolve => collector.listen(0, '127.0.0.1', () => resolve()));
+    const { port } = collector.address() as any;
+
+    try {
+      const result = await exportTraces(workflowsPath, { url: `http://127.0.0.1:${port}`, output: 'traces/otlp.json' });
+      expect(result.content[0].text).toContain('Built 2 traces with 4 spans');
+      expect(received).toHaveLength(1);
+      expect(received[0].url).toBe('/v1/traces');
+
+      const written = JSON.parse(await fs.readFile(path.join(workflowsPath, 'traces', 'otlp.json'), 'utf-8'));
+      expect(written).toEqual(received[0].body);
+    } finally {
+      await new Promise<void>(resolve => collector.close(() => resolve()));
+    }
+  });
+
+  it('refuses to write outside the workflows directory', async () => {
+    await expect(exportTraces(workflowsPath, { output: '../otlp.json' }))
+      .rejects.toThrow('Output file "../otlp.json" is outside the workflows directory');
+    await expect(exportTraces(workflowsPath, { output: path.join(os.tmpdir(), 'otlp.json') }))
+      .rejects.toThrow('is outside the workflows directory');
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { TrackingInjector } from '../src/workflows/tracking-injector.js';
+import { isTrackingNode } from '../src/workflows/tracking.js';
+
+function workflow() {
+  return {
+    name: 'Orders',
+    nodes: [
+      { id: 'hook', name: 'Webhook', type: 'n8n-nodes-base.webhook', position: [0, 0], parameters: {} },
+      { id: 'check', name: 'Check', type: 'n8n-nodes-base.if', position: [250, 0], parameters: {} },
+      { id: 'save', name: 'Save', type: 'n8n-nodes-base.code', position: [500, -100], parameters: {} },
+      { id: 'reject', name: 'Reject', type: 'n8n-nodes-base.code', position: [500, 100], parameters: {} },
+    ],
+    connections: {
+      Webhook: { main: [[{ node: 'Check', type: 'main', index: 0 }]] },
+      Check: {
+        main: [
+          [{ node: 'Save', type: 'main', index: 0 }],
+          [{ node: 'Reject', type: 'main', index: 0 }],
+        ],
+      },
+    },
+  };
+}
+
+const options = {
+  addErrorTracking: true,
+  checkpoints: [{ afterNode: 'Check', checkpointName: 'checked' }],
+  storeOutputNodes: ['Save'],
+};
+
+describe('tracking injection', () => {
+  const injector = new TrackingInjector({ enabled: true, storageUrl: 'http://localhost:3000', enableErrorTracking: true });
+
+  it('updates existing tracking nodes instead of duplicating them', async () => {
+    const once = await injector.injectTracking(workflow(), options);
+    once.nodes.find((n: any) => n.name === 'Track Workflow Start').position = [40, 300];
+    const twice = await injector.injectTracking(once, options);
+
+    const ids = (wf: any) => wf.nodes.filter(isTrackingNode).map((n: any) => n.id).sort();
+    expect(ids(twice)).toEqual(ids(once));
+    expect(new Set(ids(twice)).size).toBe(ids(twice).length);
+    expect(twice.connections).toEqual(once.connections);
+    expect(twice.nodes.find((n: any) => n.name === 'Track Workflow Start').position).toEqual([40, 300]);
+
+    // The IF's false branch survives the checkpoint on its true branch
+    expect(twice.connections.Check.main[1]).toEqual([{ node: 'Reject', type: 'main', index: 0 }]);
+  });
+
+  it('recognises tracking nodes added under the old timestamped IDs', async () => {
+    const legacy: any = workflow();
+    const http = (id: string, name: string) => ({ id, name, type: 'n8n-nodes-base.httpRequest', position: [0, 0], parameters: {} });
+    legacy.nodes.push(
+      http('track_start_1700000000000', 'Track Workflow Start'),
+      http('checkpoint_checked_1700000000000', 'Checkpoint: checked'),
+      http('track_end_save_1700000000000', 'Track End - Save'),
+      { id: 'error_trigger_1700000000000', name: 'Error Trigger', type: 'n8n-nodes-base.errorTrigger', position: [0, 0], parameters: {} },
+      http('track_error_1700000000000', 'Track Error'),
+    );
+    legacy.connections = {
+      Webhook: { main: [[{ node: 'Track Workflow Start', type: 'main', index: 0 }]] },
+      'Track Workflow Start': { main: [[{ node: 'Check', type: 'main', index: 0 }]] },
+      Check: {
+        main: [
+          [{ node: 'Checkpoint: checked', type: 'main', index: 0 }],
+          [{ node: 'Reject', type: 'main', index: 0 }],
+        ],
+      },
+      'Checkpoint: checked': { main: [[{ node: 'Save', type: 'main', index: 0 }]] },
+      Save: { main: [[{ node: 'Track End - Save', type: 'main', index: 0 }]] },
+      'Error Trigger': { main: [[{ node: 'Track Error', type: 'main', index: 0 }]] },
+    };
+
+    const { workflow: untracked, removed } = injector.removeTracking(legacy);
+    expect(removed).toHaveLength(5);
+    expect(untracked.nodes).toEqual(workflow().nodes);
+    expect(untracked.connections).toEqual(workflow().connections);
+
+    // Applying tracking again replaces the legacy nodes instead of adding to them
+    const tracked = await injector.injectTracking(legacy, options);
+    const names = tracked.nodes.map((n: any) => n.name);
+    expect(new Set(names).size).toBe(names.length);
+    expect(tracked.nodes.filter((n: any) => /^(track_|checkpoint_|error_trigger_)/.test(n.id))).toEqual([]);
+  });
+
+  it('removes tracking and restores the original connections', async () => {
+    let tracked = await injector.injectTracking(workflow(), options);
+    tracked = await injector.addCheckpointRestore(tracked, 'checked');
+
+    const { workflow: untracked, removed } = injector.removeTracking(tracked);
+
+    expect(removed).toContain('Track Workflow Start');
+    expect(removed).toContain('Error Trigger');
+    expect(untracked.nodes).toEqual(workflow().nodes);
+    expect(untracked.connections).toEqual(workflow().connections);
+  });
+
+  it('brackets timed nodes with markers that come out again cleanly', async () => {
+    const timed = await injector.injectTracking(workflow(), { ...options, timeNodes: ['*'] });
+
+    // The trigger cannot be bracketed; every other node gets a marker and a report
+    const markers = timed.nodes.filter((n: any) => n.name.startsWith('Timing Start: ')).map((n: any) => n.name);
+    expect(markers.sort()).toEqual(['Timing Start: Check', 'Timing Start: Reject', 'Timing Start: Save']);
+    expect(timed.connections['Timing Start: Check'].main[0]).toEqual([{ node: 'Check', type: 'main', index: 0 }]);
+    expect(timed.connections.Check.main[0][0].node).toBe('Track Timing: Check');
+    expect(timed.connections.Check.main[1]).toEqual([
+      { node: 'Timing Start: Reject', type: 'main', index: 0 },
+    ]);
+
+    // Exits stay exits when only tracking hangs off them
+    expect(timed.nodes.map((n: any) => n.name)).toContain('Track End - Save');
+    const again = await injector.injectTracking(timed, { ...options, timeNodes: ['*'] });
+    expect(again.nodes.map((n: any) => n.id).sort()).toEqual(timed.nodes.map((n: any) => n.id).sort());
+
+    const { workflow: untracked } = injector.removeTracking(again);
+    expect(untracked.connections).toEqual(workflow().connections);
+  });
+
+  it('refuses to time more nodes than n8n keeps custom data for', async () => {
+    const large = workflow();
+    for (let i = 0; i < 9; i++) {
+      large.nodes.push({ id: `step${i}`, name: `Step ${i}`, type: 'n8n-nodes-base.code', position: [750, i * 100], parameters: {} });
+      (large.connections as any)[`Step ${i}`] = { main: [[]] };
+    }
+
+    await expect(injector.injectTracking(large, { timeNodes: ['*'] })).rejects.toThrow('Cannot time 12 nodes');
+    const ten = await injector.injectTracking(large, { timeNodes: large.nodes.slice(1, 11).map(n => n.name) });
+    // Only the connected nodes can be bracketed
+    expect(ten.nodes.filter((n: any) => n.name.startsWith('Timing Start: '))).toHaveLength(3);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { WorkflowTracker, TrackingPolicy, TRACKING_POLICY_RUNTIME } from '../src/workflows/tracking.js';
+import { TrackingStore } from '../src/tracking/store.js';
+
+const sha256 = (text: string) => crypto.createHash('sha256').update(text).digest('hex');
+const applyPolicy = (value: any, policy: TrackingPolicy) => eval(`(${TRACKING_POLICY_RUNTIME})`)(value, policy, sha256);
+
+/**
+ * Evaluate a generated "={{ ... }}" parameter the way n8n would
+ */
+function evaluate(expression: string, $json: any, executionId: string) {
+  const body = expression.replace(/^=\{\{/, '').replace(/\}\}$/, '');
+  expect(body).not.toContain('}}');
+  return new Function('$json', '$execution', `return ${body}`)($json, { id: executionId });
+}
+
+const parameter = (node: any, name: string) =>
+  node.parameters.bodyParametersUi.parameter.find((p: any) => p.name === name)?.value;
+
+describe('tracking policies', () => {
+  afterEach(() => {
+    delete (String.prototype as any).hash;
+  });
+
+  const order = {
+    id: 7,
+    email: 'ada@example.com',
+    card: { number: '4111111111111111', cvc: '123' },
+    items: [{ sku: 'A1', price: 3, note: 'gift' }, { sku: 'B2', price: 5 }],
+    attachment: { data: 'aGVsbG8=', mimeType: 'text/plain' },
+  };
+
+  it('applies allow, deny, hash, mask and binary rules', () => {
+    expect(applyPolicy(order, { allow: ['$.id', '$.items[*].sku'] })).toEqual({
+      id: 7,
+      items: [{ sku: 'A1' }, { sku: 'B2' }],
+    });
+
+    const redacted = applyPolicy(order, {
+      deny: ['$..cvc', '$.items[*].note'],
+      hash: ['$.email'],
+      mask: ['$.card.number'],
+      stripBinary: true,
+    });
+    expect(redacted.card).toEqual({ number: '****1111' });
+    expect(redacted.email).toBe(sha256('ada@example.com'));
+    expect(redacted.items).toEqual([{ sku: 'A1', price: 3 }, { sku: 'B2', price: 5 }]);
+    expect(redacted.attachment).toBe('[binary]');
+    expect(order.card.cvc).toBe('123');
+  });
+
+  it('cuts oversized payloads to a preview', () => {
+    const capped = applyPolicy(order, { maxPayloadSize: 20 });
+    expect(capped._truncated).toBe(true);
+    expect(capped.preview).toHaveLength(20);
+    expect(capped.size).toBe(JSON.stringify(order).length);
+  });
+
+  it('builds node expressions that redact and sample consistently', () => {
+    (String.prototype as any).hash = function () { return sha256(String(this)); };
+
+    const plain = new WorkflowTracker({ enabled: true }).createStartTrackingNode().node;
+    expect(parameter(plain, 'metadata')).toBe('={{JSON.stringify($json)}}');
+    expect(parameter(plain, 'sampled')).toBeUndefined();
+
+    const tracker = new WorkflowTracker({ enabled: true, policy: { deny: ['$.card'], sampleRate: 0.5 } });
+    const start = tracker.createStartTrackingNode().node;
+    const end = tracker.createEndTrackingNode().node;
+
+    let sampledRuns = 0;
+    for (let id = 1; id <= 200; id++) {
+      const sampled = evaluate(parameter(start, 'sampled'), order, String(id));
+      expect(evaluate(parameter(end, 'sampled'), order, String(id))).toBe(sampled);
+
+      const metadata = evaluate(parameter(start, 'metadata'), order, String(id));
+      if (sampled) {
+        sampledRuns++;
+        expect(JSON.parse(metadata).card).toBeUndefined();
+      } else {
+        expect(metadata).toBeNull();
+      }
+    }
+    expect(sampledRuns).toBeGreaterThan(60);
+    expect(sampledRuns).toBeLessThan(140);
+  });
+
+  it('does not record executions left out by sampling', async () => {
+    const workflowsPath = await fs.mkdtemp(path.join(os.tmpdir(), 'mcflow-policy-'));
+    try {
+      const store = new TrackingStore(workflowsPath);
+      await store.append({ action: 'start_execution', executionId: '1', sampled: 'false' });
+      await store.append({ action: 'start_execution', executionId: '2', sampled: 'true' });
+      expect((await store.executions()).map(e => e.executionId)).toEqual(['2']);
+    } finally {
+      await fs.rm(workflowsPath, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { TrackingStore } from '../src/tracking/store.js';
+import { TrackingReceiver } from '../src/tracking/receiver.js';
+import { queryTracking } from '../src/tracking/query.js';
+
+describe('local tracking receiver', () => {
+  let workflowsPath: string;
+  let store: TrackingStore;
+  let receiver: TrackingReceiver;
+
+  const post = (body: any) => receiver.handle('POST', '/api/workflow/store', body);
+
+  beforeEach(async () => {
+    workflowsPath = await fs.mkdtemp(path.join(os.tmpdir(), 'mcflow-tracking-'));
+    store = new TrackingStore(workflowsPath);
+    receiver = new TrackingReceiver(store);
+  });
+
+  afterEach(async () => {
+    await receiver.stop();
+    await fs.rm(workflowsPath, { recursive: true, force: true });
+  });
+
+  it('records the storage API actions and rebuilds executions', async () => {
+    await post({ action: 'start_execution', workflowId: 'wf1', workflowName: 'Orders', executionId: '101', itemId: 'order-1', metadata: '{"total":3}', timestamp: '2025-01-01T00:00:00.000Z' });
+    await post({ action: 'store_node', executionId: '101', nodeId: 'Clean', nodeType: 'n8n-nodes-base.code', output: '{"ok":true}', timestamp: '2025-01-01T00:00:01.000Z' });
+    await post({ action: 'track_error', executionId: '101', errorMessage: 'Timeout', nodeId: 'Notify', errorDetails: '{"code":504}', timestamp: '2025-01-01T00:00:02.000Z' });
+    await post({ action: 'end_execution', executionId: '101', status: 'error', timestamp: '2025-01-01T00:00:02.500Z' });
+    await post({ action: 'start_execution', workflowName: 'Orders', executionId: '102', timestamp: '2025-01-01T01:00:00.000Z' });
+
+    const executions = await store.executions({ workflow: 'Orders' });
+    expect(executions.map(e => [e.executionId, e.status])).toEqual([['102', 'running'], ['101', 'error']]);
+    expect(executions[1]).toMatchObject({ workflowId: 'wf1', itemId: 'order-1', metadata: { total: 3 }, nodes: ['Clean'], errors: 1 });
+    expect((await store.errors())[0]).toMatchObject({ workflowName: 'Orders', nodeId: 'Notify', errorDetails: { code: 504 } });
+
+    const text = (await queryTracking(workflowsPath, 'execution', { executionId: '101' })).content[0].text;
+    expect(text).toContain('❌ Execution 101 (error in 2.5s)');
+    expect(text).toContain('  • Clean (n8n-nodes-base.code): {"ok":true}');
+    expect(text).toContain('  • Notify: Timeout');
+  });
+
+  it('rejects unknown actions and incomplete events', async () => {
+    expect(await post({ action: 'delete_everything' })).toEqual({
+      status: 400,
+      body: { error: 'Unknown action "delete_everything" (expected start_execution, end_execution, store_node, save_checkpoint, track_error, node_timing, request_approval)' },
+    });
+    expect((await post({ action: 'save_checkpoint', itemId: 'a' })).body.error).toBe('save_checkpoint needs checkpointName');
+    expect((await receiver.handle('GET', '/api/workflow/store')).status).toBe(405);
+    expect(await store.events()).toEqual([]);
+  });
+
+  it('serves checkpoints over HTTP', async () => {
+    const url = await receiver.start(0);
+
+    const saved = await fetch(`${url}/api/workflow/store`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'save_checkpoint', itemId: 'order-1', checkpointName: 'priced', checkpointData: '{"price":10}' }),
+    });
+    expect(await saved.json()).toEqual({ success: true });
+
+    const restored = await fetch(`${url}/api/workflow/retrieve?action=get_checkpoint&itemId=order-1&checkpointName=priced`);
+    expect(await restored.json()).toEqual({ checkpointData: { price: 10 } });
+
+    const missing = await fetch(`${url}/api/workflow/retrieve?action=get_checkpoint&itemId=order-2&checkpointName=priced`);
+    expect(await missing.json()).toEqual({ checkpointData: null });
+
+    const lines = (await fs.readFile(path.join(workflowsPath, '.mcflow', 'tracking', 'events.jsonl'), 'utf-8')).trim().split('\n');
+    expect(lines).toHaveLength(1);
+  });
+
+  it('summarises node timings as percentiles', async () => {
+    const durations = [100, 200, 300, 400, 2000];
+    for (const [i, durationMs] of durations.entries()) {
+      await post({ action: 'node_timing', executionId: String(i), workflowName: 'Orders', nodeId: 'Charge', durationMs: String(durationMs) });
+      await post({ action: 'node_timing', executionId: String(i), workflowName: 'Orders', nodeId: 'Clean', durationMs: '5' });
+    }
+
+    const [charge, clean] = await store.timings();
+    expect(charge).toEqual({ workflowName: 'Orders', nodeId: 'Charge', count: 5, p50: 300, p95: 2000, max: 2000 });
+    expect(clean.p95).toBe(5);
+
+    const report = await queryTracking(workflowsPath, 'timings');
+    expect(report.content[0].text).toContain('Orders / Charge: p50 300ms, p95 2.0s, max 2.0s (5 runs)');
+  });
+});